@@ -14,6 +14,7 @@ export const CACHE_KEYS = {
     BY_GENDER: 'categories:gender',
     BY_PARENT: 'categories:parent',
     BY_LEVEL: 'categories:level',
+    TREE: 'categories:tree',
     BY_SORT_ORDER: 'categories:sort-order',
     ACTIVE: 'categories:active',
     INACTIVE: 'categories:inactive',
@@ -64,6 +65,8 @@ export const CACHE_KEYS = {
     FEATURED: 'subcategories:featured',
     POPULAR: 'subcategories:popular',
     RECENT: 'subcategories:recent',
+    STATS: 'subcategories:stats',
+    VALIDATION: 'subcategories:validation',
   },
 
   // Collection cache keys
@@ -87,6 +90,8 @@ export const CACHE_KEYS = {
     FEATURED: 'collections:featured',
     POPULAR: 'collections:popular',
     RECENT: 'collections:recent',
+    STATS: 'collections:stats',
+    VALIDATION: 'collections:validation',
   },
 
   // Gender cache keys
@@ -289,8 +294,22 @@ export const CACHE_PATTERNS = {
   AUDIT_LOGS: 'audit:*',
 } as const;
 
+// Cache tags: entries are registered under tags and writes evict every entry of a tag at once
+export const CACHE_TAGS = {
+  CATEGORIES: {
+    LIST: 'tags:categories:list', // any list that may contain any category (paginated, search, tree, by gender)
+    STATS: 'tags:categories:stats',
+    VALIDATION: 'tags:categories:validation',
+    BY_ID: 'tags:categories:id', // detail entries of the category and of its descendants
+    BY_SLUG: 'tags:categories:slug',
+    BY_PARENT: 'tags:categories:parent', // child lists of a category
+    BY_GENDER: 'tags:categories:gender',
+  },
+} as const;
+
 // Export types for type safety
 export type CacheKey = typeof CACHE_KEYS;
+export type CacheTag = typeof CACHE_TAGS;
 export type CacheTTL = typeof CACHE_TTL;
 export type CachePrefix = typeof CACHE_PREFIXES;
 export type CachePattern = typeof CACHE_PATTERNS;
\ No newline at end of file
@@ -11,9 +11,16 @@ export const KAFKA_TOPICS = {
     FIND_BY_SLUG: 'category.find_by_slug',
     FIND_BY_GENDER: 'category.find_by_gender',
     FIND_WITH_SUBCATEGORIES: 'category.find_with_subcategories',
+    SEARCH: 'category.search',
+    GET_REVISIONS: 'category.get_revisions',
+    GET_REVISION: 'category.get_revision',
+    REVERT_REVISION: 'category.revert_revision',
     UPDATE_STATUS: 'category.update_status',
     UPDATE_SORT_ORDER: 'category.update_sort_order',
     BULK_CREATE: 'category.bulk_create',
+    BULK_UPDATE: 'category.bulk_update',
+    BULK_UPDATE_STATUS: 'category.bulk_update_status',
+    BULK_DELETE: 'category.bulk_delete',
     GET_STATS: 'category.get_stats',
     VALIDATE: 'category.validate',
     
@@ -104,4 +111,7 @@ export const KAFKA_TOPICS = {
   }
 } as const;
 
+// Poison messages are parked on <topic>.dlq with their original headers and the failure
+export const KAFKA_DEAD_LETTER_SUFFIX = '.dlq';
+
 export type KafkaTopicType = typeof KAFKA_TOPICS;
\ No newline at end of file
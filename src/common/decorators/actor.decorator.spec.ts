@@ -0,0 +1,50 @@
+import { ExecutionContext } from '@nestjs/common';
+import { ROUTE_ARGS_METADATA } from '@nestjs/common/constants';
+import { Actor } from './actor.decorator';
+
+// Resolve the factory Nest registers for @Actor()
+const actorFactory = () => {
+  class TestController {
+    handle(@Actor() actor?: string) {
+      return actor;
+    }
+  }
+
+  const metadata = Reflect.getMetadata(
+    ROUTE_ARGS_METADATA,
+    TestController,
+    'handle',
+  );
+  return Object.values<any>(metadata)[0].factory;
+};
+
+const httpContext = (request: Record<string, any>) =>
+  ({
+    getType: () => 'http',
+    switchToHttp: () => ({ getRequest: () => request }),
+  }) as unknown as ExecutionContext;
+
+const rpcContext = (kafkaContext: Record<string, any>) =>
+  ({
+    getType: () => 'rpc',
+    switchToRpc: () => ({ getContext: () => kafkaContext }),
+  }) as unknown as ExecutionContext;
+
+describe('Actor', () => {
+  const factory = actorFactory();
+
+  it('should take the actor from the verified principal', () => {
+    expect(
+      factory(undefined, httpContext({ user: { sub: 'user-1' }, headers: {} })),
+    ).toBe('user-1');
+    expect(
+      factory(undefined, rpcContext({ user: { sub: 'api-key:42' } })),
+    ).toBe('api-key:42');
+  });
+
+  it('should ignore a forwarded X-User-Id header', () => {
+    const request = { headers: { 'x-user-id': 'someone-else' } };
+
+    expect(factory(undefined, httpContext(request))).toBeUndefined();
+  });
+});
@@ -0,0 +1,14 @@
+/* eslint-disable prettier/prettier */
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { getAuthCarrier } from '../utils/auth-context.util';
+
+/**
+ * Resolve who is making the request or sending the Kafka message from its verified principal:
+ * the JWT subject, or api-key:<id> for API keys. Client-supplied headers are never trusted, so
+ * unauthenticated changes are recorded without an author.
+ */
+export const Actor = createParamDecorator((_data: unknown, context: ExecutionContext): string | undefined => {
+  const user = getAuthCarrier(context).user;
+
+  return user?.sub || user?.id || undefined;
+});
@@ -0,0 +1,25 @@
+/* eslint-disable prettier/prettier */
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { CacheableOptions, CacheEvictOptions, CacheInterceptor, CACHE_EVICT_METADATA, CACHEABLE_METADATA } from '../interceptors/cache.interceptor';
+
+export type { CacheableOptions, CacheEvictOptions, CacheVaryBy } from '../interceptors/cache.interceptor';
+
+/**
+ * Cache the handler result in the shared cache; responses carry X-Cache: HIT or MISS
+ */
+export function Cacheable(options: CacheableOptions) {
+  return applyDecorators(
+    SetMetadata(CACHEABLE_METADATA, options),
+    UseInterceptors(CacheInterceptor)
+  );
+}
+
+/**
+ * Evict cache tags once the handler has completed successfully
+ */
+export function CacheEvict(options: CacheEvictOptions) {
+  return applyDecorators(
+    SetMetadata(CACHE_EVICT_METADATA, options),
+    UseInterceptors(CacheInterceptor)
+  );
+}
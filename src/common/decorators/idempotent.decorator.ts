@@ -0,0 +1,20 @@
+/* eslint-disable prettier/prettier */
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor, IDEMPOTENT_METADATA } from '../interceptors/idempotency.interceptor';
+
+/**
+ * Run the handler once per Idempotency-Key header; retries with the same key get the stored
+ * response with Idempotent-Replayed: true
+ */
+export function Idempotent() {
+  return applyDecorators(
+    SetMetadata(IDEMPOTENT_METADATA, true),
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description: 'Unique key of this write; retries with the same key return the original response'
+    })
+  );
+}
@@ -0,0 +1,11 @@
+/* eslint-disable prettier/prettier */
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { parseIfMatch } from '../utils/etag.util';
+
+/**
+ * Expected entity version from the If-Match header, or undefined when the write is unconditional
+ */
+export const IfMatch = createParamDecorator((_data: unknown, context: ExecutionContext): number | undefined => {
+  const request = context.switchToHttp().getRequest();
+  return parseIfMatch(request.headers?.['if-match']);
+});
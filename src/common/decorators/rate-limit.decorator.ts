@@ -0,0 +1,28 @@
+/* eslint-disable prettier/prettier */
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitAlgorithm } from '../enums/rate-limit-algorithm.enum';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/** How callers are told apart; the first that applies to a request wins, falling back to its IP */
+export type RateLimitIdentity = 'api-key' | 'user' | 'ip';
+
+export interface RateLimitOptions {
+  /** Requests allowed per window; defaults to AppConfig.rateLimitMax */
+  limit?: number;
+  /** Window length in seconds; defaults to AppConfig.rateLimitWindow */
+  windowSeconds?: number;
+  /** Defaults to AppConfig.rateLimitAlgorithm */
+  algorithm?: RateLimitAlgorithm;
+  /** Token bucket only: requests that may be made back to back; defaults to limit */
+  burst?: number;
+  /** Bucket shared by several routes, e.g. CACHE_KEYS.RATE_LIMIT.BULK_OPERATIONS; defaults to one per route */
+  bucket?: string;
+  /** Defaults to API key, then user, then IP */
+  identifyBy?: RateLimitIdentity[];
+}
+
+/**
+ * Override the global rate limit for a route or controller; enforced by RateLimitGuard
+ */
+export const RateLimit = (options: RateLimitOptions = {}) => SetMetadata(RATE_LIMIT_KEY, options);
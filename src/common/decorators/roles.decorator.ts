@@ -0,0 +1,10 @@
+/* eslint-disable prettier/prettier */
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../enums/role.enum';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Require an authenticated user holding at least one of the roles; enforced by AuthGuard and RolesGuard
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,6 @@
+/* eslint-disable prettier/prettier */
+export enum ApiKeyScope {
+  READ = 'catalog:read',
+  WRITE = 'catalog:write',
+  ADMIN = 'admin'
+}
@@ -0,0 +1,7 @@
+/* eslint-disable prettier/prettier */
+export enum CategoryMediaRole {
+  HERO = 'hero',
+  THUMBNAIL = 'thumbnail',
+  LIFESTYLE = 'lifestyle',
+  GALLERY = 'gallery'
+}
@@ -1,4 +1,5 @@
 /* eslint-disable prettier/prettier */
+// Built-in genders seeded by GenderService; applicableGenders accepts any active gender record
 export enum Gender {
   MEN = 'men',
   WOMEN = 'women',
@@ -0,0 +1,5 @@
+/* eslint-disable prettier/prettier */
+export enum IdempotencyRecordStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed'
+}
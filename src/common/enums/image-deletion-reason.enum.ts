@@ -0,0 +1,7 @@
+/* eslint-disable prettier/prettier */
+export enum ImageDeletionReason {
+  REPLACED = 'replaced', // a new upload took its place
+  REMOVED = 'removed', // its entity or media item was deleted
+  ABANDONED = 'abandoned', // uploaded for a write that failed
+  ORPHANED = 'orphaned' // found unreferenced by reconciliation
+}
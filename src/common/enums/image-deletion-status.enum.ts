@@ -0,0 +1,5 @@
+/* eslint-disable prettier/prettier */
+export enum ImageDeletionStatus {
+  PENDING = 'pending',
+  FAILED = 'failed'
+}
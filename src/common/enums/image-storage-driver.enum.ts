@@ -0,0 +1,6 @@
+/* eslint-disable prettier/prettier */
+export enum ImageStorageDriver {
+  CLOUDINARY = 'cloudinary',
+  LOCAL = 'local',
+  S3 = 's3'
+}
@@ -0,0 +1,8 @@
+/* eslint-disable prettier/prettier */
+export enum ImageUsage {
+  HERO = 'hero', // main image of a category or gender page
+  BANNER = 'banner', // wide strip across a collection page
+  THUMBNAIL = 'thumbnail', // small tile in listings and menus
+  GALLERY = 'gallery', // lifestyle and gallery shots of a category
+  ICON = 'icon' // small square glyph in navigation and filters
+}
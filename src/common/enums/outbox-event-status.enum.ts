@@ -0,0 +1,7 @@
+/* eslint-disable prettier/prettier */
+export enum OutboxEventStatus {
+  PENDING = 'pending',
+  PUBLISHING = 'publishing', // claimed by a relay instance until lockedUntil
+  PUBLISHED = 'published',
+  FAILED = 'failed'
+}
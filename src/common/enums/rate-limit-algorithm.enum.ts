@@ -0,0 +1,5 @@
+/* eslint-disable prettier/prettier */
+export enum RateLimitAlgorithm {
+  SLIDING_WINDOW = 'sliding-window',
+  TOKEN_BUCKET = 'token-bucket'
+}
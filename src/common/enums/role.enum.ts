@@ -0,0 +1,6 @@
+/* eslint-disable prettier/prettier */
+export enum Role {
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  VIEWER = 'viewer'
+}
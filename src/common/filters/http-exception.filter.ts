@@ -18,6 +18,7 @@ interface ErrorResponse {
   method: string;
   message: string | string[];
   error: string;
+  errors?: unknown; // structured reasons, e.g. the failed validation constraints
   details?: any;
   requestId?: string;
   correlationId?: string;
@@ -59,6 +60,10 @@ export class HttpExceptionFilter implements ExceptionFilter {
       correlationId,
     };
 
+    if (typeof exceptionResponse === 'object' && 'errors' in exceptionResponse) {
+      errorResponse.errors = exceptionResponse.errors;
+    }
+
     // Add details in development mode
     if (this.configService.get('NODE_ENV') === 'development') {
       errorResponse.details = {
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ArgumentsHost,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { KafkaContext, KafkaRetriableException } from '@nestjs/microservices';
+import { lastValueFrom } from 'rxjs';
+import { KafkaExceptionFilter } from './kafka-exception.filter';
+import { KafkaDeadLetterService } from '../../modules/kafka/kafka-dead-letter.service';
+import { KafkaProducerService } from '../../modules/kafka/kafka-producer.service';
+
+describe('KafkaExceptionFilter', () => {
+  let filter: KafkaExceptionFilter;
+  let kafkaProducerService: { isEnabled: jest.Mock; send: jest.Mock };
+
+  const hostFor = (offset: string): ArgumentsHost => {
+    const context = new KafkaContext([
+      {
+        key: 'cat-1',
+        value: { id: 'not-an-id' },
+        offset,
+        headers: { authorization: 'Bearer token', kafka_replyTopic: 'reply' },
+      } as any,
+      2,
+      'category.find_one',
+      undefined,
+      undefined,
+      undefined,
+    ]);
+
+    return {
+      switchToRpc: () => ({ getContext: () => context }),
+    } as unknown as ArgumentsHost;
+  };
+
+  beforeEach(async () => {
+    kafkaProducerService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      send: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        KafkaExceptionFilter,
+        KafkaDeadLetterService,
+        { provide: KafkaProducerService, useValue: kafkaProducerService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ maxRetries: 2 }) },
+        },
+      ],
+    }).compile();
+
+    filter = module.get<KafkaExceptionFilter>(KafkaExceptionFilter);
+  });
+
+  it('should answer expected failures with their code without dead-lettering', async () => {
+    const reply = await lastValueFrom(
+      filter.catch(new NotFoundException('Category not found'), hostFor('1')),
+    );
+
+    expect(reply).toMatchObject({
+      success: false,
+      code: 'NOT_FOUND',
+      statusCode: 404,
+      retryable: false,
+      error: 'Category not found',
+    });
+    expect(kafkaProducerService.send).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter invalid payloads with the original headers and the failure', async () => {
+    const reply = await lastValueFrom(
+      filter.catch(
+        new BadRequestException({
+          message: 'Validation failed',
+          errors: [{ property: 'id' }],
+        }),
+        hostFor('7'),
+      ),
+    );
+
+    expect(reply).toMatchObject({
+      code: 'BAD_REQUEST',
+      details: [{ property: 'id' }],
+    });
+
+    const [topic, [message]] = kafkaProducerService.send.mock.calls[0];
+    expect(topic).toBe('category.find_one.dlq');
+    expect(message).toMatchObject({
+      key: 'cat-1',
+      value: JSON.stringify({ id: 'not-an-id' }),
+      headers: {
+        authorization: 'Bearer token',
+        'x-dlq-original-topic': 'category.find_one',
+        'x-dlq-original-partition': '2',
+        'x-dlq-original-offset': '7',
+        'x-dlq-error-code': 'BAD_REQUEST',
+        'x-dlq-attempts': '1',
+      },
+    });
+  });
+
+  it('should have retryable failures redelivered until the retries run out', async () => {
+    const outage = Object.assign(new Error('connection reset'), {
+      name: 'MongoNetworkError',
+    });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(
+        lastValueFrom(filter.catch(outage, hostFor('9'))),
+      ).rejects.toBeInstanceOf(KafkaRetriableException);
+    }
+
+    const reply = await lastValueFrom(filter.catch(outage, hostFor('9')));
+    expect(reply).toMatchObject({
+      code: 'SERVICE_UNAVAILABLE',
+      retryable: true,
+    });
+    expect(kafkaProducerService.send.mock.calls[0][1][0].headers).toMatchObject(
+      { 'x-dlq-attempts': '3' },
+    );
+  });
+});
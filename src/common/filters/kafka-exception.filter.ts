@@ -0,0 +1,61 @@
+/* eslint-disable prettier/prettier */
+import { ArgumentsHost, Catch, HttpStatus, Injectable, Logger, RpcExceptionFilter } from '@nestjs/common';
+import { KafkaContext, KafkaRetriableException } from '@nestjs/microservices';
+import { Observable, from, map, of, throwError } from 'rxjs';
+import { KafkaDeadLetterService } from '../../modules/kafka/kafka-dead-letter.service';
+import { toKafkaError } from '../utils/kafka-error.util';
+import { KafkaError, KafkaErrorReply } from '../interfaces/kafka-reply.interface';
+
+/**
+ * Turns failures of Kafka handlers into a KafkaErrorReply. Retryable failures are redelivered
+ * by Kafka up to KafkaConfig.maxRetries times; poison messages (malformed payloads, crashes and
+ * exhausted retries) are also copied to the topic's dead-letter topic.
+ */
+@Injectable()
+@Catch()
+export class KafkaExceptionFilter implements RpcExceptionFilter<unknown> {
+  private readonly logger = new Logger(KafkaExceptionFilter.name);
+
+  constructor(private readonly deadLetterService: KafkaDeadLetterService) {}
+
+  catch(exception: unknown, host: ArgumentsHost): Observable<KafkaErrorReply> {
+    const context = host.switchToRpc().getContext<KafkaContext>();
+    const topic = context.getTopic();
+    const offset = context.getMessage().offset;
+    const error = toKafkaError(exception);
+
+    // Failing the handler with KafkaRetriableException leaves the offset uncommitted, so Kafka redelivers
+    if (error.retryable && this.deadLetterService.recordFailure(context)) {
+      this.logger.warn(`Retrying ${topic}@${offset} after ${error.code}: ${error.message}`);
+      return throwError(() => new KafkaRetriableException(error));
+    }
+
+    const attempts = this.deadLetterService.settle(context);
+    this.logger.error(`Error processing ${topic}@${offset}: ${error.code} ${error.message}`, (exception as Error)?.stack);
+
+    const reply: KafkaErrorReply = {
+      success: false,
+      error: error.message,
+      code: error.code,
+      statusCode: error.statusCode,
+      retryable: error.retryable,
+      ...(error.details !== undefined && { details: error.details }),
+      message: `Failed to process ${topic}`
+    };
+
+    if (!this.isPoison(error)) {
+      return of(reply);
+    }
+
+    // Reply only once the message is parked, so its offset is not committed before then
+    return from(this.deadLetterService.publish(context, error, attempts)).pipe(map(() => reply));
+  }
+
+  // Expected outcomes such as NOT_FOUND or CONFLICT are answered, not dead-lettered
+  private isPoison(error: KafkaError): boolean {
+    return error.retryable
+      || error.statusCode === HttpStatus.BAD_REQUEST
+      || error.statusCode === HttpStatus.UNPROCESSABLE_ENTITY
+      || error.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR;
+  }
+}
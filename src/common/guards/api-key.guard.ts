@@ -0,0 +1,46 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, CanActivate, ExecutionContext, HttpException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ApiKeysService } from '../../modules/api-keys/api-keys.service';
+import { AuthConfig } from '../../config/auth.config';
+import { extractApiKey, getAuthCarrier, toContextException } from '../utils/auth-context.util';
+
+/**
+ * Authenticates service-to-service callers by their API key. Place it before AuthGuard:
+ * a request carrying a valid key skips bearer token checks, one without a key is left to AuthGuard.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  private readonly authConfig: AuthConfig;
+
+  constructor(
+    private apiKeysService: ApiKeysService,
+    private configService: ConfigService,
+  ) {
+    this.authConfig = this.configService.get<AuthConfig>('auth');
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.authConfig?.enabled) {
+      return true;
+    }
+
+    // Already authenticated: the guard runs globally and again where a controller applies it
+    if (getAuthCarrier(context).user) {
+      return true;
+    }
+
+    const apiKey = extractApiKey(context, this.authConfig.apiKeyHeader);
+    if (!apiKey) {
+      return true;
+    }
+
+    try {
+      getAuthCarrier(context).user = await this.apiKeysService.authenticate(apiKey);
+    } catch (error) {
+      throw error instanceof HttpException ? toContextException(context, error) : error;
+    }
+
+    return true;
+  }
+}
@@ -1,19 +1,48 @@
 /* eslint-disable prettier/prettier */
-import { Injectable, CanActivate, ExecutionContext, UnauthorizedException } from '@nestjs/common';
-import { Request } from 'express';
+import { Injectable, CanActivate, ExecutionContext, HttpException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtVerifierService } from '../../modules/auth/jwt-verifier.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { Role } from '../enums/role.enum';
+import { extractBearerToken, getAuthCarrier, toContextException } from '../utils/auth-context.util';
 
+/**
+ * Verifies the bearer token and puts the principal on request.user. A token is required only on
+ * handlers that declare @Roles; elsewhere it is optional, but an invalid one is still rejected.
+ */
 @Injectable()
 export class AuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private jwtVerifier: JwtVerifierService,
+  ) {}
+
   canActivate(context: ExecutionContext): boolean {
-    const request = context.switchToHttp().getRequest<Request>();
-    const token = request.headers.authorization?.replace('Bearer ', '');
-    
+    if (!this.jwtVerifier.isEnabled()) {
+      return true;
+    }
+
+    // Already authenticated by an API key
+    if (getAuthCarrier(context).user) {
+      return true;
+    }
+
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [context.getHandler(), context.getClass()]);
+    const token = extractBearerToken(context);
+
     if (!token) {
-      throw new UnauthorizedException('No token provided');
+      if (roles?.length) {
+        throw toContextException(context, new UnauthorizedException('No token provided'));
+      }
+      return true;
+    }
+
+    try {
+      getAuthCarrier(context).user = this.jwtVerifier.verify(token);
+    } catch (error) {
+      throw error instanceof HttpException ? toContextException(context, error) : error;
     }
-    
-    // Add your JWT validation logic here
-    // For now, we'll just check if token exists
+
     return true;
   }
-}
\ No newline at end of file
+}
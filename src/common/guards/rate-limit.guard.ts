@@ -1,35 +1,101 @@
 /* eslint-disable prettier/prettier */
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
-import { Request } from 'express';
-import { CacheService } from '../../modules/cache/cache.service';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { RateLimiterService, RateLimitResult } from '../../modules/cache/rate-limiter.service';
+import { RATE_LIMIT_KEY, RateLimitIdentity, RateLimitOptions } from '../decorators/rate-limit.decorator';
+import { CACHE_KEYS } from '../constants/cache-keys.constants';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+import { AppConfig } from '../../config/app.config';
 
+const DEFAULT_IDENTIFY_BY: RateLimitIdentity[] = ['api-key', 'user', 'ip'];
+
+/**
+ * Applies the AppConfig rate limit, or the route's @RateLimit policy, to every HTTP route; Kafka
+ * messages are paced by their consumer instead. Registered globally after ApiKeyGuard and AuthGuard
+ * so callers are identified by their key or user rather than their IP.
+ */
 @Injectable()
 export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+  private readonly appConfig: AppConfig;
+
   constructor(
     private reflector: Reflector,
-    private cacheService: CacheService,
-  ) {}
+    private rateLimiter: RateLimiterService,
+    private configService: ConfigService,
+  ) {
+    this.appConfig = this.configService.get<AppConfig>('app');
+  }
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
-    const request = context.switchToHttp().getRequest<Request>();
-    const rateLimit = this.reflector.get<{ limit: number; windowMs: number }>('rateLimit', context.getHandler());
-    
-    if (!rateLimit) {
+    if (context.getType() !== 'http' || !this.appConfig?.enableRateLimit) {
       return true;
     }
 
-    const clientIp = request.ip || request.connection.remoteAddress;
-    const key = `rate_limit:${clientIp}:${request.url}`;
-    
-    const current = await this.cacheService.get(key);
-    const currentCount = current ? parseInt(current) : 0;
-    
-    if (currentCount >= rateLimit.limit) {
-      throw new HttpException('Rate limit exceeded', HttpStatus.TOO_MANY_REQUESTS);
+    const options = this.reflector.getAllAndOverride<RateLimitOptions>(RATE_LIMIT_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]) ?? {};
+
+    const request = context.switchToHttp().getRequest<Request & { user?: AuthenticatedUser }>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    // One bucket per route template, so query strings and path parameters share it
+    const bucket = options.bucket ?? `${CACHE_KEYS.RATE_LIMIT.API}:${context.getClass().name}.${context.getHandler().name}`;
+    const key = `${bucket}:${this.identify(request, options.identifyBy ?? DEFAULT_IDENTIFY_BY)}`;
+
+    let result: RateLimitResult;
+    try {
+      result = await this.rateLimiter.consume(key, {
+        algorithm: options.algorithm ?? this.appConfig.rateLimitAlgorithm,
+        limit: options.limit ?? this.appConfig.rateLimitMax,
+        windowMs: options.windowSeconds ? options.windowSeconds * 1000 : this.appConfig.rateLimitWindow,
+        burst: options.burst,
+      });
+    } catch (error) {
+      // An unreachable store must not take the API down with it
+      this.logger.warn(`Rate limit not applied to ${key}: ${error.message}`);
+      return true;
     }
-    
-    await this.cacheService.set(key, (currentCount + 1).toString(), rateLimit.windowMs / 1000);
+
+    response.setHeader('X-Rate-Limit-Limit', result.limit);
+    response.setHeader('X-Rate-Limit-Remaining', result.remaining);
+    response.setHeader('X-Rate-Limit-Reset', Math.ceil((Date.now() + result.resetMs) / 1000));
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil(result.retryAfterMs / 1000);
+      response.setHeader('Retry-After', retryAfterSeconds);
+
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+          message: `Rate limit exceeded, retry in ${retryAfterSeconds} seconds`,
+          error: 'Too Many Requests',
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
     return true;
   }
-}
\ No newline at end of file
+
+  private identify(request: Request & { user?: AuthenticatedUser }, identifyBy: RateLimitIdentity[]): string {
+    const user = request.user;
+
+    for (const identity of identifyBy) {
+      if (identity === 'api-key' && user?.authMethod === 'api-key') {
+        return user.id;
+      }
+      if (identity === 'user' && user?.authMethod === 'jwt') {
+        return `user:${user.sub}`;
+      }
+      if (identity === 'ip') {
+        break;
+      }
+    }
+
+    return `ip:${request.ip || request.socket?.remoteAddress}`;
+  }
+}
@@ -0,0 +1,38 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtVerifierService } from '../../modules/auth/jwt-verifier.service';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { Role } from '../enums/role.enum';
+import { getAuthCarrier, toContextException } from '../utils/auth-context.util';
+
+/**
+ * Lets through handlers without @Roles, and otherwise users holding one of the listed roles.
+ * Runs after AuthGuard, which has put the principal on the request.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private jwtVerifier: JwtVerifierService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!this.jwtVerifier.isEnabled() || !roles?.length) {
+      return true;
+    }
+
+    const user = getAuthCarrier(context).user;
+    if (!user) {
+      throw toContextException(context, new UnauthorizedException('No token provided'));
+    }
+
+    if (!roles.some(role => user.roles.includes(role))) {
+      throw toContextException(context, new ForbiddenException(`Requires one of the roles: ${roles.join(', ')}`));
+    }
+
+    return true;
+  }
+}
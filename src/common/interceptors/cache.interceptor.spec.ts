@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { lastValueFrom, of } from 'rxjs';
+import { CacheInterceptor } from './cache.interceptor';
+import { Cacheable, CacheEvict } from '../decorators/cache.decorator';
+import { CacheTagService } from '../../modules/cache/cache-tag.service';
+
+class TestController {
+  @Cacheable({ key: 'items', ttl: 60, tags: ['tags:items'] })
+  list() {}
+
+  @CacheEvict({ tags: ['tags:items'] })
+  create() {}
+}
+
+describe('CacheInterceptor', () => {
+  let interceptor: CacheInterceptor;
+  let store: Map<string, any>;
+  let cacheTags: { set: jest.Mock; invalidate: jest.Mock };
+
+  const buildContext = (handler: () => void, request: any, response: any) =>
+    ({
+      getType: () => 'http',
+      getHandler: () => handler,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    }) as unknown as ExecutionContext;
+
+  const run = async (
+    handler: () => void,
+    request: any,
+    response: any,
+    result: any,
+  ) => {
+    const next: CallHandler = { handle: jest.fn(() => of(result)) };
+    const observable = await interceptor.intercept(
+      buildContext(handler, request, response),
+      next,
+    );
+    return { value: await lastValueFrom(observable), next };
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    cacheTags = {
+      set: jest.fn(async (key: string, value: any) => store.set(key, value)),
+      invalidate: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheInterceptor,
+        { provide: CacheTagService, useValue: cacheTags },
+        {
+          provide: CACHE_MANAGER,
+          useValue: { get: jest.fn(async (key: string) => store.get(key)) },
+        },
+      ],
+    }).compile();
+
+    interceptor = module.get<CacheInterceptor>(CacheInterceptor);
+  });
+
+  it('should serve a cached response on the second request regardless of query order', async () => {
+    const handler = TestController.prototype.list;
+    const firstResponse = { setHeader: jest.fn() };
+    const secondResponse = { setHeader: jest.fn() };
+
+    await run(
+      handler,
+      { method: 'GET', query: { page: '1', limit: '10' }, params: {} },
+      firstResponse,
+      ['a'],
+    );
+    const { value, next } = await run(
+      handler,
+      { method: 'GET', query: { limit: '10', page: '1' }, params: {} },
+      secondResponse,
+      ['b'],
+    );
+
+    expect(cacheTags.set).toHaveBeenCalledWith(
+      'items:query.limit:10:query.page:1',
+      ['a'],
+      60000,
+      ['tags:items'],
+    );
+    expect(firstResponse.setHeader).toHaveBeenCalledWith('X-Cache', 'MISS');
+    expect(secondResponse.setHeader).toHaveBeenCalledWith('X-Cache', 'HIT');
+    expect(next.handle).not.toHaveBeenCalled();
+    expect(value).toEqual(['a']);
+  });
+
+  it('should not share a key between an empty and a missing query parameter', async () => {
+    const handler = TestController.prototype.list;
+
+    await run(
+      handler,
+      { method: 'GET', query: { cursor: '' }, params: {} },
+      { setHeader: jest.fn() },
+      ['cursor'],
+    );
+    const { value, next } = await run(
+      handler,
+      { method: 'GET', query: {}, params: {} },
+      { setHeader: jest.fn() },
+      ['offset'],
+    );
+
+    expect(cacheTags.set.mock.calls.map(([key]) => key)).toEqual([
+      'items:query.cursor:',
+      'items',
+    ]);
+    expect(next.handle).toHaveBeenCalled();
+    expect(value).toEqual(['offset']);
+  });
+
+  it('should evict tags after a @CacheEvict handler completes', async () => {
+    await run(
+      TestController.prototype.create,
+      { method: 'POST', query: {}, params: {} },
+      { setHeader: jest.fn() },
+      { id: 1 },
+    );
+
+    expect(cacheTags.invalidate).toHaveBeenCalledWith(['tags:items']);
+    expect(cacheTags.set).not.toHaveBeenCalled();
+  });
+});
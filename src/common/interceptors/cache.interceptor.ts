@@ -1,37 +1,142 @@
 /* eslint-disable prettier/prettier */
-import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
-import { Observable, of } from 'rxjs';
-import { tap } from 'rxjs/operators';
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler, Inject } from '@nestjs/common';
+import { Observable, from, of } from 'rxjs';
+import { mergeMap } from 'rxjs/operators';
 import { Reflector } from '@nestjs/core';
-import { CacheService } from '../../modules/cache/cache.service';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Response } from 'express';
+import { CacheTagService } from '../../modules/cache/cache-tag.service';
+import { generateCacheKey } from '../utils/cache-key.util';
 
+export const CACHEABLE_METADATA = 'cacheable';
+export const CACHE_EVICT_METADATA = 'cacheEvict';
+
+/**
+ * Parts of the request a cached response varies by: 'query', 'params',
+ * or a single header such as 'headers.accept-language'
+ */
+export type CacheVaryBy = 'query' | 'params' | `headers.${string}`;
+
+// Tags resolved from the handler result and the request
+export type CacheTagsResolver = string[] | ((result: any, request: any) => string[]);
+
+export interface CacheableOptions {
+  /** Base cache key; request parts listed in varyBy are appended */
+  key: string;
+  /** Time to live in seconds (default 300) */
+  ttl?: number;
+  /** Request parts that make up the key (default query and params) */
+  varyBy?: CacheVaryBy[];
+  /** Tags the entry is registered under, so writes can evict it */
+  tags?: CacheTagsResolver;
+}
+
+export interface CacheEvictOptions {
+  /** Tags evicted after the handler succeeds */
+  tags: CacheTagsResolver;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+const DEFAULT_VARY_BY: CacheVaryBy[] = ['query', 'params'];
+
+/**
+ * Serves @Cacheable handlers from the shared cache and evicts @CacheEvict tags after writes
+ */
 @Injectable()
 export class CacheInterceptor implements NestInterceptor {
   constructor(
     private reflector: Reflector,
-    private cacheService: CacheService,
+    private cacheTags: CacheTagService,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) {}
 
   async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
-    const cacheKey = this.reflector.get<string>('cacheKey', context.getHandler());
-    const cacheTtl = this.reflector.get<number>('cacheTtl', context.getHandler()) || 300;
-    
-    if (!cacheKey) {
+    const cacheable = this.reflector.get<CacheableOptions>(CACHEABLE_METADATA, context.getHandler());
+    const evict = this.reflector.get<CacheEvictOptions>(CACHE_EVICT_METADATA, context.getHandler());
+
+    if (context.getType() !== 'http' || (!cacheable && !evict)) {
       return next.handle();
     }
 
     const request = context.switchToHttp().getRequest();
-    const fullCacheKey = `${cacheKey}:${JSON.stringify(request.query)}`;
-    
-    const cached = await this.cacheService.get(fullCacheKey);
-    if (cached) {
-      return of(JSON.parse(cached));
+    const response = context.switchToHttp().getResponse<Response>();
+
+    if (evict) {
+      return next.handle().pipe(
+        mergeMap(result => from(
+          this.cacheTags.invalidate(this.resolveTags(evict.tags, result, request)).then(() => result)
+        ))
+      );
     }
 
+    // Only safe reads are cached
+    if (request.method !== 'GET') {
+      return next.handle();
+    }
+
+    const cacheKey = this.buildCacheKey(cacheable, request);
+    const cached = await this.cacheManager.get(cacheKey);
+
+    if (cached !== undefined && cached !== null) {
+      response.setHeader('X-Cache', 'HIT');
+      return of(cached);
+    }
+
+    response.setHeader('X-Cache', 'MISS');
+
     return next.handle().pipe(
-      tap(async (data) => {
-        await this.cacheService.set(fullCacheKey, JSON.stringify(data), cacheTtl);
-      }),
+      mergeMap(result => from(
+        this.cacheTags
+          .set(cacheKey, result, (cacheable.ttl ?? DEFAULT_TTL_SECONDS) * 1000, this.resolveTags(cacheable.tags, result, request))
+          .then(() => result)
+      ))
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Deterministic key: the base key followed by the varyBy parts with their names sorted.
+   * Empty values stay in the key, since `?cursor=` selects a different response than no cursor.
+   */
+  private buildCacheKey(options: CacheableOptions, request: any): string {
+    const parts: Record<string, string> = {};
+
+    for (const source of options.varyBy ?? DEFAULT_VARY_BY) {
+      if (source === 'query' || source === 'params') {
+        Object.entries(request[source] ?? {})
+          .filter(([, value]) => value !== undefined)
+          .forEach(([name, value]) => {
+            parts[`${source}.${name}`] = typeof value === 'string' ? value : this.stableStringify(value);
+          });
+      } else {
+        const header = request.headers?.[source.slice('headers.'.length).toLowerCase()];
+        if (header !== undefined) {
+          parts[source.toLowerCase()] = [header].flat().join(',');
+        }
+      }
+    }
+
+    const sortedParts = Object.fromEntries(Object.keys(parts).sort().map(name => [name, parts[name]]));
+    return generateCacheKey(options.key, sortedParts);
+  }
+
+  private resolveTags(tags: CacheTagsResolver | undefined, result: any, request: any): string[] {
+    if (!tags) {
+      return [];
+    }
+
+    return typeof tags === 'function' ? tags(result, request) : tags;
+  }
+
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+  }
+}
@@ -0,0 +1,24 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { Response } from 'express';
+import { toETag } from '../utils/etag.util';
+
+/**
+ * Sets a version-based ETag header when the handler returns a single versioned entity
+ */
+@Injectable()
+export class ETagInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const response = context.switchToHttp().getResponse<Response>();
+
+    return next.handle().pipe(
+      tap((data) => {
+        if (data && !Array.isArray(data) && typeof data.version === 'number' && !response.headersSent) {
+          response.setHeader('ETag', toETag(data.version));
+        }
+      }),
+    );
+  }
+}
@@ -0,0 +1,104 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { KafkaContext } from '@nestjs/microservices';
+import { Observable, lastValueFrom, of } from 'rxjs';
+import { Response } from 'express';
+import { createHash } from 'crypto';
+import { IdempotencyService } from '../../modules/idempotency/idempotency.service';
+import { extractHeader, getAuthCarrier } from '../utils/auth-context.util';
+
+export const IDEMPOTENT_METADATA = 'idempotent';
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Runs @Idempotent handlers once per Idempotency-Key (HTTP or Kafka header); retries get the
+ * stored response instead of running the write, and its image upload, again
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(
+    private reflector: Reflector,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<Observable<any>> {
+    const idempotencyKey = extractHeader(context, IDEMPOTENCY_KEY_HEADER);
+
+    if (!this.reflector.get<boolean>(IDEMPOTENT_METADATA, context.getHandler()) || !idempotencyKey) {
+      return next.handle();
+    }
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(`Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`);
+    }
+
+    // Keys are scoped to the operation and caller, so two clients cannot collide
+    const operation = `${context.getClass().name}.${context.getHandler().name}`;
+    const caller = getAuthCarrier(context).user?.sub ?? 'anonymous';
+
+    const { response, replayed } = await this.idempotencyService.execute(
+      `${operation}:${caller}:${idempotencyKey}`,
+      this.fingerprint(context),
+      () => lastValueFrom(next.handle(), { defaultValue: undefined })
+    );
+
+    if (replayed && context.getType() === 'http') {
+      context.switchToHttp().getResponse<Response>().setHeader(IDEMPOTENT_REPLAYED_HEADER, 'true');
+    }
+
+    return of(response);
+  }
+
+  /**
+   * SHA-256 of what the handler acts on; uploaded images are included by their digest
+   */
+  private fingerprint(context: ExecutionContext): string {
+    let request: Record<string, unknown>;
+
+    if (context.getType() === 'rpc') {
+      request = {
+        topic: context.switchToRpc().getContext<KafkaContext>().getTopic(),
+        data: context.switchToRpc().getData()
+      };
+    } else {
+      const httpRequest = context.switchToHttp().getRequest();
+      const files = [httpRequest.file, ...Object.values(httpRequest.files ?? {}).flat()].filter(Boolean);
+
+      request = {
+        method: httpRequest.method,
+        route: httpRequest.route?.path ?? httpRequest.path,
+        params: httpRequest.params,
+        query: httpRequest.query,
+        body: httpRequest.body,
+        files: files.map((file: any) => file.buffer)
+      };
+    }
+
+    return createHash('sha256').update(this.stableStringify(request)).digest('hex');
+  }
+
+  private stableStringify(value: any): string {
+    if (Buffer.isBuffer(value)) {
+      return JSON.stringify(createHash('sha256').update(value).digest('hex'));
+    }
+
+    // Buffers in Kafka payloads arrive as their JSON form
+    if (value?.type === 'Buffer' && Array.isArray(value.data)) {
+      return this.stableStringify(Buffer.from(value.data));
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value) ?? 'null';
+  }
+}
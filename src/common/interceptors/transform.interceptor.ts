@@ -5,6 +5,7 @@ import {
   ExecutionContext,
   CallHandler,
   HttpStatus,
+  StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -34,12 +35,14 @@ export interface ApiResponse<T = any> {
 }
 
 export interface PaginationMeta {
-  totalCount: number;
-  pageCount: number;
-  currentPage: number;
+  totalCount?: number; // absent when the listing skipped counting (cursor mode)
+  pageCount?: number;
+  currentPage?: number;
   perPage: number;
   hasNextPage: boolean;
   hasPreviousPage: boolean;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
 
 export interface PaginatedResponse<T> {
@@ -70,6 +73,11 @@ export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T
 
     return next.handle().pipe(
       map((data: T | PaginatedResponse<T>) => {
+        // File downloads are sent as is
+        if (data instanceof StreamableFile) {
+          return data as any;
+        }
+
         const statusCode = response.statusCode || HttpStatus.OK;
         const isSuccess = statusCode >= 200 && statusCode < 300;
         
@@ -102,6 +110,11 @@ export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T
           this.setPaginationHeaders(response, paginatedData.pagination);
         } else {
           apiResponse.data = data;
+
+          // Repository-style listings ({ data, pagination: { limit, hasNext, ... } }) keep their body and only get headers
+          if (this.isListResponse(data)) {
+            this.setPaginationHeaders(response, this.toPaginationMeta(data.pagination));
+          }
         }
 
         // Handle array responses
@@ -136,12 +149,36 @@ export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T
       Array.isArray(data.data) &&
       data.pagination &&
       typeof data.pagination === 'object' &&
-      typeof data.pagination.totalCount === 'number' &&
-      typeof data.pagination.currentPage === 'number' &&
-      typeof data.pagination.perPage === 'number'
+      typeof data.pagination.perPage === 'number' &&
+      typeof data.pagination.hasNextPage === 'boolean'
     );
   }
 
+  private isListResponse(data: any): data is { data: any[]; pagination: Record<string, any> } {
+    return (
+      data &&
+      typeof data === 'object' &&
+      Array.isArray(data.data) &&
+      data.pagination &&
+      typeof data.pagination === 'object' &&
+      typeof data.pagination.limit === 'number' &&
+      typeof data.pagination.hasNext === 'boolean'
+    );
+  }
+
+  private toPaginationMeta(pagination: Record<string, any>): PaginationMeta {
+    return {
+      totalCount: pagination.total,
+      pageCount: pagination.totalPages,
+      currentPage: pagination.page,
+      perPage: pagination.limit,
+      hasNextPage: pagination.hasNext,
+      hasPreviousPage: pagination.hasPrev,
+      nextCursor: pagination.nextCursor,
+      prevCursor: pagination.prevCursor,
+    };
+  }
+
   private getResponseMessage(
     context: ExecutionContext,
     statusCode: number,
@@ -218,12 +255,25 @@ export class TransformInterceptor<T> implements NestInterceptor<T, ApiResponse<T
   }
 
   private setPaginationHeaders(response: Response, pagination: PaginationMeta): void {
-    response.setHeader('X-Total-Count', pagination.totalCount.toString());
-    response.setHeader('X-Page-Count', pagination.pageCount.toString());
-    response.setHeader('X-Current-Page', pagination.currentPage.toString());
+    // Counts and page numbers are only sent when known; cursor listings send cursors instead
+    if (typeof pagination.totalCount === 'number') {
+      response.setHeader('X-Total-Count', pagination.totalCount.toString());
+    }
+    if (typeof pagination.pageCount === 'number') {
+      response.setHeader('X-Page-Count', pagination.pageCount.toString());
+    }
+    if (typeof pagination.currentPage === 'number') {
+      response.setHeader('X-Current-Page', pagination.currentPage.toString());
+    }
     response.setHeader('X-Per-Page', pagination.perPage.toString());
     response.setHeader('X-Has-Next-Page', pagination.hasNextPage.toString());
     response.setHeader('X-Has-Previous-Page', pagination.hasPreviousPage.toString());
+    if (pagination.nextCursor) {
+      response.setHeader('X-Next-Cursor', pagination.nextCursor);
+    }
+    if (pagination.prevCursor) {
+      response.setHeader('X-Prev-Cursor', pagination.prevCursor);
+    }
   }
 
   private setCacheHeaders(response: Response, context: ExecutionContext): void {
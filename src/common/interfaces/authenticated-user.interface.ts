@@ -0,0 +1,22 @@
+/* eslint-disable prettier/prettier */
+import { Role } from '../enums/role.enum';
+
+// Claims of a verified JWT
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: any;
+}
+
+// Principal placed on the request (request.user) once its bearer token or API key has been verified
+export interface AuthenticatedUser {
+  id: string;
+  sub: string;
+  roles: Role[];
+  authMethod: 'jwt' | 'api-key';
+  claims: JwtPayload; // for API keys: sub plus the key's scopes
+}
@@ -0,0 +1,23 @@
+/* eslint-disable prettier/prettier */
+
+// State of an aggregate around a mutation; before is null on create, after is null on hard delete
+export interface DomainEventData<T = Record<string, any>> {
+  before: T | null;
+  after: T | null;
+  changedFields: string[];
+}
+
+// Event as written to the outbox inside the mutation's transaction
+export interface DomainEventInput<T = Record<string, any>> {
+  aggregateType: string;
+  aggregateId: string;
+  eventType: string;
+  data: DomainEventData<T>;
+}
+
+// Message value published to Kafka, keyed by aggregateId
+export interface DomainEventMessage<T = Record<string, any>> extends DomainEventInput<T> {
+  eventId: string;
+  version: number;
+  occurredAt: string;
+}
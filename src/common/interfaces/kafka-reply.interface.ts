@@ -0,0 +1,32 @@
+/* eslint-disable prettier/prettier */
+import { HttpStatus } from '@nestjs/common';
+
+/** Machine-readable error code; the name of the HTTP status the failure maps to, e.g. NOT_FOUND */
+export type KafkaErrorCode = keyof typeof HttpStatus;
+
+export interface KafkaError {
+  code: KafkaErrorCode;
+  statusCode: number;
+  message: string;
+  /** Whether the same message may succeed if sent again, e.g. after a database failover */
+  retryable: boolean;
+  /** Validation errors and other structured detail */
+  details?: unknown;
+}
+
+export interface KafkaSuccessReply<T> {
+  success: true;
+  data: T;
+  message: string;
+}
+
+export interface KafkaErrorReply extends Omit<KafkaError, 'message'> {
+  success: false;
+  error: string;
+  message: string;
+}
+
+/**
+ * Reply to every request/reply Kafka pattern
+ */
+export type KafkaReply<T> = KafkaSuccessReply<T> | KafkaErrorReply;
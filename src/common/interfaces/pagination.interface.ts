@@ -14,11 +14,24 @@ export interface PaginationMeta {
   limit: number;
   hasNext: boolean;
   hasPrev: boolean;
+  nextCursor?: string | null;
+  prevCursor?: string | null;
 }
 
-export interface PaginationResult<T> {
+// Keyset pagination has no page number; totals are only present when requested
+export interface CursorPaginationMeta {
+  total?: number;
+  totalPages?: number;
+  limit: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+  nextCursor: string | null;
+  prevCursor: string | null;
+}
+
+export interface PaginationResult<T, M = PaginationMeta> {
   data: T[];
-  pagination: PaginationMeta;
+  pagination: M;
 }
 
 // For query parameters
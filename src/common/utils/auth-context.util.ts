@@ -0,0 +1,52 @@
+/* eslint-disable prettier/prettier */
+import { ExecutionContext, HttpException } from '@nestjs/common';
+import { KafkaContext, RpcException } from '@nestjs/microservices';
+import { AuthenticatedUser } from '../interfaces/authenticated-user.interface';
+
+/**
+ * Object the principal is attached to: the HTTP request, or the KafkaContext of a message handler
+ */
+export function getAuthCarrier(context: ExecutionContext): { user?: AuthenticatedUser } {
+  return context.getType() === 'rpc'
+    ? context.switchToRpc().getContext()
+    : context.switchToHttp().getRequest();
+}
+
+/**
+ * Bearer token from the Authorization header of the request or Kafka message
+ */
+export function extractBearerToken(context: ExecutionContext): string | undefined {
+  const header = context.getType() === 'rpc'
+    ? context.switchToRpc().getContext<KafkaContext>().getMessage()?.headers?.authorization
+    : context.switchToHttp().getRequest().headers?.authorization;
+
+  const match = [header].flat()[0]?.toString().match(/^Bearer\s+(\S+)\s*$/i);
+  return match?.[1];
+}
+
+/**
+ * Value of the given header (lower case) of the request or Kafka message
+ */
+export function extractHeader(context: ExecutionContext, headerName: string): string | undefined {
+  const header = context.getType() === 'rpc'
+    ? context.switchToRpc().getContext<KafkaContext>().getMessage()?.headers?.[headerName]
+    : context.switchToHttp().getRequest().headers?.[headerName];
+
+  return [header].flat()[0]?.toString().trim() || undefined;
+}
+
+/**
+ * API key from the given header (lower case) of the request or Kafka message
+ */
+export function extractApiKey(context: ExecutionContext, headerName: string): string | undefined {
+  return extractHeader(context, headerName);
+}
+
+/**
+ * Kafka handlers reply with an RpcException carrying the HTTP status instead of an HttpException
+ */
+export function toContextException(context: ExecutionContext, error: HttpException): Error {
+  return context.getType() === 'rpc'
+    ? new RpcException({ statusCode: error.getStatus(), message: error.message })
+    : error;
+}
@@ -0,0 +1,181 @@
+/* eslint-disable prettier/prettier */
+/**
+ * Utility functions for reading and writing RFC 4180 CSV
+ * Used by catalog import/export; values are always handled as strings
+ */
+import { BadRequestException } from '@nestjs/common';
+
+export const MAX_CSV_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const CSV_MIME_TYPES = ['text/csv', 'application/csv', 'text/plain', 'application/vnd.ms-excel'];
+
+// Leading characters that make spreadsheet applications evaluate a cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into rows of raw cell values
+ * @param text - CSV content; a UTF-8 byte order mark is ignored
+ * @returns Rows of cells, without trailing empty lines
+ * @throws BadRequestException when a quoted field is not terminated
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new BadRequestException('Malformed CSV: unterminated quoted field');
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines (a single empty cell)
+  return rows.filter(cells => cells.length > 1 || cells[0].trim() !== '');
+}
+
+/**
+ * Serialize rows into CSV text with CRLF line endings
+ * Text cells that a spreadsheet would run as a formula are prefixed with a quote
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows
+    .map(cells => cells.map(formatCsvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Undo the formula-protection prefix added by toCsv
+ */
+export function unescapeCsvCell(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * Flatten nested objects into dotted keys, e.g. { seo: { title } } -> { 'seo.title' }
+ * Arrays and other non-plain values are kept as leaves
+ */
+export function flattenObject(value: Record<string, any>, prefix = ''): Record<string, any> {
+  return Object.entries(value ?? {}).reduce((flat, [key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (child && typeof child === 'object' && !Array.isArray(child) && !(child instanceof Date)) {
+      Object.assign(flat, flattenObject(child, path));
+    } else {
+      flat[path] = child;
+    }
+
+    return flat;
+  }, {} as Record<string, any>);
+}
+
+/**
+ * Rebuild a nested object from dotted keys
+ */
+export function unflattenObject(flat: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [path, value] of Object.entries(flat)) {
+    const keys = path.split('.');
+    let target = result;
+
+    keys.slice(0, -1).forEach(key => {
+      if (!target[key] || typeof target[key] !== 'object' || Array.isArray(target[key])) {
+        target[key] = {};
+      }
+      target = target[key];
+    });
+
+    target[keys[keys.length - 1]] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Read a spreadsheet cell as a typed value: booleans, numbers, JSON arrays/objects and JSON string literals
+ * (text written by formatCsvValue) are parsed, anything else stays text
+ */
+export function parseCsvValue(value: string): unknown {
+  const trimmed = value.trim();
+
+  if (trimmed === 'true' || trimmed === 'false') {
+    return trimmed === 'true';
+  }
+
+  if (trimmed !== '' && /^-?\d+(\.\d+)?$/.test(trimmed) && !/^-?0\d/.test(trimmed)) {
+    return Number(trimmed);
+  }
+
+  if (/^[[{"]/.test(trimmed)) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return value;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Prepare a typed value for a cell so parseCsvValue reads it back with the same type.
+ * Text that would be read as something else ("123", "true", "[x]") is written as a JSON string literal.
+ */
+export function formatCsvValue(value: unknown): unknown {
+  return typeof value === 'string' && parseCsvValue(value) !== value ? JSON.stringify(value) : value;
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = typeof value === 'object' && !(value instanceof Date)
+    ? JSON.stringify(value)
+    : value instanceof Date ? value.toISOString() : String(value);
+
+  // Numbers such as -5 are data, not formulas
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
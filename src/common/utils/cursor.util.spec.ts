@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import {
+  buildKeysetFilter,
+  CursorContext,
+  CursorDirection,
+  cursorScope,
+  decodeCursor,
+  encodeCursor,
+} from './cursor.util';
+
+describe('cursor.util', () => {
+  const id = new Types.ObjectId();
+  const context = (
+    sortBy: string,
+    sortOrder: 'asc' | 'desc' = 'asc',
+  ): CursorContext => ({
+    sortBy,
+    sortOrder,
+    scope: cursorScope({ status: 'active' }),
+  });
+
+  const payload = (cursor: string) =>
+    JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  const tamper = (cursor: string, changes: Record<string, unknown>) =>
+    Buffer.from(JSON.stringify({ ...payload(cursor), ...changes })).toString(
+      'base64url',
+    );
+
+  it('should round-trip date, number and string sort values', () => {
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+
+    const byDate = decodeCursor(
+      encodeCursor({ _id: id, createdAt }, 'next', context('createdAt')),
+      context('createdAt'),
+    );
+    const byNumber = decodeCursor(
+      encodeCursor({ _id: id, sortOrder: 3 }, 'prev', context('sortOrder')),
+      context('sortOrder'),
+    );
+    const byString = decodeCursor(
+      encodeCursor({ _id: id, name: 'Shoes' }, 'next', context('name')),
+      context('name'),
+    );
+
+    expect(byDate.value).toEqual(createdAt);
+    expect(byDate.id).toEqual(id);
+    expect(byDate.direction).toBe('next');
+    expect(byNumber.value).toBe(3);
+    expect(byNumber.direction).toBe('prev');
+    expect(byString.value).toBe('Shoes');
+  });
+
+  it('should reject cursors issued for another sort or other filters', () => {
+    const cursor = encodeCursor(
+      { _id: id, name: 'Shoes' },
+      'next',
+      context('name'),
+    );
+
+    expect(() => decodeCursor(cursor, context('sortOrder'))).toThrow(
+      'Cursor does not match the current sort and filters',
+    );
+    expect(() => decodeCursor(cursor, context('name', 'desc'))).toThrow(
+      'Cursor does not match the current sort and filters',
+    );
+    expect(() =>
+      decodeCursor(cursor, {
+        ...context('name'),
+        scope: cursorScope({ status: 'inactive' }),
+      }),
+    ).toThrow('Cursor does not match the current sort and filters');
+  });
+
+  it('should reject tampered cursors', () => {
+    const cursor = encodeCursor(
+      { _id: id, createdAt: new Date() },
+      'next',
+      context('createdAt'),
+    );
+
+    [
+      'not-a-cursor',
+      tamper(cursor, { i: 'not-an-id' }),
+      tamper(cursor, { d: 'sideways' }),
+      tamper(cursor, { t: 'x' }),
+      tamper(cursor, { v: 'not-a-date' }),
+      tamper(cursor, { t: 'n', v: 'NaN' }),
+    ].forEach((tampered) =>
+      expect(() => decodeCursor(tampered, context('createdAt'))).toThrow(
+        BadRequestException,
+      ),
+    );
+  });
+
+  it.each<['asc' | 'desc', CursorDirection, string]>([
+    ['asc', 'next', '$gt'],
+    ['asc', 'prev', '$lt'],
+    ['desc', 'next', '$lt'],
+    ['desc', 'prev', '$gt'],
+  ])(
+    'should page %s sorts in the %s direction with %s, breaking ties by _id',
+    (sortOrder, direction, operator) => {
+      const cursor = encodeCursor(
+        { _id: id, sortOrder: 5 },
+        direction,
+        context('sortOrder', sortOrder),
+      );
+
+      expect(
+        buildKeysetFilter(
+          decodeCursor(cursor, context('sortOrder', sortOrder)),
+        ),
+      ).toEqual({
+        $or: [
+          { sortOrder: { [operator]: 5 } },
+          { sortOrder: 5, _id: { [operator]: id } },
+        ],
+      });
+    },
+  );
+});
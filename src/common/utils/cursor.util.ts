@@ -0,0 +1,126 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Types } from 'mongoose';
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface CursorContext {
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  scope: string; // fingerprint of the filters the cursor was issued for
+}
+
+export interface DecodedCursor extends CursorContext {
+  value: string | number | Date;
+  id: Types.ObjectId;
+  direction: CursorDirection;
+}
+
+// Compact wire format; the cursor is opaque to clients
+interface CursorPayload {
+  f: string;
+  o: 'asc' | 'desc';
+  s: string;
+  t: 'd' | 'n' | 's';
+  v: string | number;
+  i: string;
+  d: CursorDirection;
+}
+
+/**
+ * Fingerprint the filters of a listing so a cursor cannot be replayed against different filters
+ */
+export function cursorScope(filters: Record<string, any>): string {
+  const normalized = Object.keys(filters)
+    .sort()
+    .filter(key => filters[key] !== undefined && filters[key] !== null && filters[key] !== '')
+    .map(key => [key, filters[key]]);
+
+  return createHash('sha1').update(JSON.stringify(normalized)).digest('base64url').slice(0, 12);
+}
+
+/**
+ * Encode the position of an entity in a (sortBy, _id) ordering
+ */
+export function encodeCursor(entity: Record<string, any>, direction: CursorDirection, context: CursorContext): string {
+  const raw = entity[context.sortBy];
+  const type = raw instanceof Date ? 'd' : typeof raw === 'number' ? 'n' : 's';
+
+  const payload: CursorPayload = {
+    f: context.sortBy,
+    o: context.sortOrder,
+    s: context.scope,
+    t: type,
+    v: type === 'd' ? (raw as Date).toISOString() : type === 'n' ? raw : String(raw ?? ''),
+    i: String(entity._id),
+    d: direction
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it was issued for the same sort and filters
+ */
+export function decodeCursor(cursor: string, context: CursorContext): DecodedCursor {
+  let payload: CursorPayload;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    !payload ||
+    typeof payload !== 'object' ||
+    !['next', 'prev'].includes(payload.d) ||
+    !['d', 'n', 's'].includes(payload.t) ||
+    typeof payload.i !== 'string' ||
+    !Types.ObjectId.isValid(payload.i)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (payload.f !== context.sortBy || payload.o !== context.sortOrder || payload.s !== context.scope) {
+    throw new BadRequestException('Cursor does not match the current sort and filters; start again without a cursor');
+  }
+
+  let value: string | number | Date;
+  if (payload.t === 'd') {
+    value = new Date(payload.v);
+    if (isNaN(value.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+  } else if (payload.t === 'n') {
+    value = Number(payload.v);
+    if (!Number.isFinite(value)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+  } else {
+    value = String(payload.v);
+  }
+
+  return {
+    ...context,
+    value,
+    id: new Types.ObjectId(payload.i),
+    direction: payload.d
+  };
+}
+
+/**
+ * Filter selecting the entities after (or before, for prev cursors) the cursor position
+ */
+export function buildKeysetFilter(cursor: DecodedCursor): Record<string, any> {
+  const forward = (cursor.sortOrder === 'asc') === (cursor.direction === 'next');
+  const operator = forward ? '$gt' : '$lt';
+
+  return {
+    $or: [
+      { [cursor.sortBy]: { [operator]: cursor.value } },
+      { [cursor.sortBy]: cursor.value, _id: { [operator]: cursor.id } }
+    ]
+  };
+}
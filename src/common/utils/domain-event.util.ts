@@ -0,0 +1,63 @@
+/* eslint-disable prettier/prettier */
+import { DomainEventInput } from '../interfaces/domain-event.interface';
+
+// Bookkeeping fields that change on every write and say nothing about what was modified
+const IGNORED_CHANGE_FIELDS = ['updatedAt', 'version', '__v'];
+
+/**
+ * Convert a mongoose document or lean object into a plain snapshot without virtuals or version key
+ */
+export function toEventSnapshot(entity: any): Record<string, any> | null {
+  if (!entity) {
+    return null;
+  }
+
+  const snapshot = typeof entity.toObject === 'function'
+    ? entity.toObject({ virtuals: false, versionKey: false })
+    : { ...entity };
+
+  delete snapshot.__v;
+  delete snapshot.id;
+  return snapshot;
+}
+
+/**
+ * List the top-level fields whose value differs between two snapshots
+ */
+export function getChangedFields(before: Record<string, any> | null, after: Record<string, any> | null): string[] {
+  if (!before || !after) {
+    return [];
+  }
+
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter(field => !IGNORED_CHANGE_FIELDS.includes(field))
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .sort();
+}
+
+/**
+ * Build an outbox event carrying before/after snapshots of an aggregate
+ */
+export function buildDomainEvent(
+  aggregateType: string,
+  eventType: string,
+  before: any,
+  after: any
+): DomainEventInput {
+  const beforeSnapshot = toEventSnapshot(before);
+  const afterSnapshot = toEventSnapshot(after);
+  const aggregateId = String((afterSnapshot ?? beforeSnapshot)?._id);
+
+  return {
+    aggregateType,
+    aggregateId,
+    eventType,
+    data: {
+      before: beforeSnapshot,
+      after: afterSnapshot,
+      changedFields: getChangedFields(beforeSnapshot, afterSnapshot)
+    }
+  };
+}
@@ -0,0 +1,52 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, PreconditionFailedException } from '@nestjs/common';
+
+const VERSION_ETAG_PATTERN = /^"(\d+)"$/;
+
+/**
+ * Build the strong ETag for an entity version
+ */
+export function toETag(version: number): string {
+  return `"${version ?? 0}"`;
+}
+
+/**
+ * Parse an If-Match header into the expected version.
+ * Returns undefined when there is no precondition (header absent or "*").
+ */
+export function parseIfMatch(header?: string | string[]): number | undefined {
+  const value = (Array.isArray(header) ? header.join(',') : header)?.trim();
+
+  if (!value || value === '*') {
+    return undefined;
+  }
+
+  const tags = value.split(',').map(tag => tag.trim()).filter(Boolean);
+  if (tags.length > 1) {
+    throw new BadRequestException('If-Match must contain a single ETag');
+  }
+
+  // Weak or foreign ETags can never match a strong version ETag
+  const match = VERSION_ETAG_PATTERN.exec(tags[0]);
+  if (!match) {
+    throw new PreconditionFailedException('If-Match does not match the current version');
+  }
+
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Fail with 412 when the expected version is set and differs from the current one
+ */
+export function assertVersionMatches(currentVersion: number | undefined, expectedVersion?: number): void {
+  if (expectedVersion === undefined) {
+    return;
+  }
+
+  const version = currentVersion ?? 0;
+  if (version !== expectedVersion) {
+    throw new PreconditionFailedException(
+      `Resource was modified (current ETag ${toETag(version)}, expected ${toETag(expectedVersion)}); reload and retry`
+    );
+  }
+}
@@ -0,0 +1,408 @@
+/* eslint-disable prettier/prettier */
+/**
+ * Utility functions for handling uploaded image files
+ * Shared by every module that accepts image uploads over HTTP or Kafka
+ */
+import { UnprocessableEntityException } from '@nestjs/common';
+
+export const ALLOWED_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export interface ImageInfo {
+  width: number; // as displayed, after the JPEG EXIF orientation is applied
+  height: number;
+  animated: boolean; // more than one frame (animated GIF, APNG or animated WebP)
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// JPEG segments and PNG/WebP chunks that carry EXIF, GPS, XMP, IPTC or free-text metadata
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]); // APP1 (EXIF, XMP), APP13 (IPTC), COM
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+const WEBP_METADATA_CHUNKS = new Set(['EXIF', 'XMP ']);
+const WEBP_VP8X_METADATA_FLAGS = 0x08 | 0x04; // EXIF and XMP present
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * Detect the image type from the file's leading bytes, ignoring its name and declared type
+ * @param buffer - File content
+ * @returns One of ALLOWED_IMAGE_MIME_TYPES, or undefined for anything else
+ */
+export function detectImageMimeType(buffer: Buffer): string | undefined {
+  if (!buffer || buffer.length < 12) {
+    return undefined;
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (['GIF87a', 'GIF89a'].includes(buffer.toString('latin1', 0, 6))) {
+    return 'image/gif';
+  }
+  if (buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  return undefined;
+}
+
+/**
+ * Read the pixel dimensions of an image and whether it is animated, from its headers only
+ * @param buffer - File content
+ * @param mimetype - Type detected by detectImageMimeType
+ * @throws UnprocessableEntityException when the headers are truncated or malformed
+ */
+export function readImageInfo(buffer: Buffer, mimetype: string): ImageInfo {
+  let info: ImageInfo | undefined;
+
+  try {
+    switch (mimetype) {
+      case 'image/jpeg':
+        info = readJpegInfo(buffer);
+        break;
+      case 'image/png':
+        info = readPngInfo(buffer);
+        break;
+      case 'image/gif':
+        info = readGifInfo(buffer);
+        break;
+      case 'image/webp':
+        info = readWebpInfo(buffer);
+        break;
+    }
+  } catch {
+    // Reading past the end of a truncated file
+  }
+
+  if (!info || info.width <= 0 || info.height <= 0) {
+    throw new UnprocessableEntityException({
+      message: 'The image file is corrupt or truncated.',
+      errors: [{ code: 'IMAGE_UNREADABLE', type: mimetype }]
+    });
+  }
+
+  return info;
+}
+
+/**
+ * Remove EXIF (including GPS position), XMP, IPTC and text metadata without re-encoding the image.
+ * A rotated JPEG keeps its EXIF orientation, alone in a minimal EXIF block, so it still displays upright.
+ * GIF carries no EXIF and is returned as is.
+ * @param buffer - File content
+ * @param mimetype - Type detected by detectImageMimeType
+ */
+export function stripImageMetadata(buffer: Buffer, mimetype: string): Buffer {
+  switch (mimetype) {
+    case 'image/jpeg':
+      return stripJpegMetadata(buffer);
+    case 'image/png':
+      return stripPngMetadata(buffer);
+    case 'image/webp':
+      return stripWebpMetadata(buffer);
+    default:
+      return buffer;
+  }
+}
+
+function isJpegFrameMarker(marker: number): boolean {
+  // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+  return marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+}
+
+function isJpegStandaloneMarker(marker: number): boolean {
+  return marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9);
+}
+
+/**
+ * EXIF orientation (1-8) held by the payload of an APP1 segment; undefined when it has none or is malformed
+ */
+function readExifOrientation(segment: Buffer): number | undefined {
+  if (!segment.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)) {
+    return undefined;
+  }
+
+  try {
+    const tiff = segment.subarray(EXIF_HEADER.length);
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return undefined;
+    }
+
+    const readUInt16 = (at: number) => byteOrder === 'II' ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+    const readUInt32 = (at: number) => byteOrder === 'II' ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+    // Orientation is a tag of IFD0, the first image file directory
+    const ifd = readUInt32(4);
+    for (let entry = 0; entry < readUInt16(ifd); entry++) {
+      const at = ifd + 2 + entry * 12;
+      if (readUInt16(at) === EXIF_ORIENTATION_TAG) {
+        const orientation = readUInt16(at + 8);
+        return orientation >= 1 && orientation <= 8 ? orientation : undefined;
+      }
+    }
+  } catch {
+    // Offsets pointing past the end of the segment
+  }
+
+  return undefined;
+}
+
+/**
+ * APP1 segment holding an EXIF block with nothing but the orientation tag
+ */
+function createExifOrientationSegment(orientation: number): Buffer {
+  const tiff = Buffer.alloc(26);
+  tiff.write('MM', 0, 'latin1');
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4); // IFD0 offset
+  tiff.writeUInt16BE(1, 8); // one entry
+  tiff.writeUInt16BE(EXIF_ORIENTATION_TAG, 10);
+  tiff.writeUInt16BE(3, 12); // SHORT
+  tiff.writeUInt32BE(1, 14); // one value
+  tiff.writeUInt16BE(orientation, 18);
+  // Next IFD offset 0: no further directories
+
+  const header = Buffer.alloc(4);
+  header.writeUInt16BE(0xffe1, 0);
+  header.writeUInt16BE(2 + EXIF_HEADER.length + tiff.length, 2);
+  return Buffer.concat([header, EXIF_HEADER, tiff]);
+}
+
+function readJpegInfo(buffer: Buffer): ImageInfo | undefined {
+  let offset = 2;
+  let orientation: number | undefined;
+
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return undefined;
+    }
+
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++; // fill byte
+      continue;
+    }
+    if (isJpegStandaloneMarker(marker)) {
+      offset += 2;
+      continue;
+    }
+    if (isJpegFrameMarker(marker)) {
+      const height = buffer.readUInt16BE(offset + 5);
+      const width = buffer.readUInt16BE(offset + 7);
+
+      // Orientations 5-8 turn the image a quarter, so it displays with width and height swapped
+      return orientation >= 5
+        ? { width: height, height: width, animated: false }
+        : { width, height, animated: false };
+    }
+    if (marker === 0xda) {
+      return undefined; // scan data before any frame header
+    }
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1) {
+      orientation ??= readExifOrientation(buffer.subarray(offset + 4, end));
+    }
+    offset = end;
+  }
+
+  return undefined;
+}
+
+function stripJpegMetadata(buffer: Buffer): Buffer {
+  const kept: Buffer[] = [buffer.subarray(0, 2)];
+  let offset = 2;
+  let orientationKept = false;
+
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+
+    // Everything from the start of scan on is image data
+    if (marker === 0xda || isJpegStandaloneMarker(marker) || marker === 0xff) {
+      break;
+    }
+
+    const end = offset + 2 + buffer.readUInt16BE(offset + 2);
+    if (!JPEG_METADATA_MARKERS.has(marker)) {
+      kept.push(buffer.subarray(offset, end));
+    } else if (marker === 0xe1 && !orientationKept) {
+      // The pixels are stored unrotated; without the orientation the image would display sideways
+      const orientation = readExifOrientation(buffer.subarray(offset + 4, end));
+      if (orientation > 1) {
+        kept.push(createExifOrientationSegment(orientation));
+        orientationKept = true;
+      }
+    }
+    offset = end;
+  }
+
+  kept.push(buffer.subarray(offset));
+  return Buffer.concat(kept);
+}
+
+function readPngInfo(buffer: Buffer): ImageInfo | undefined {
+  if (buffer.toString('latin1', 12, 16) !== 'IHDR') {
+    return undefined;
+  }
+
+  let animated = false;
+  for (let offset = 8; offset + 8 <= buffer.length; offset += 12 + buffer.readUInt32BE(offset)) {
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    if (type === 'acTL') {
+      animated = buffer.readUInt32BE(offset + 8) > 1; // num_frames
+    }
+    if (type === 'IDAT') {
+      break;
+    }
+  }
+
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20), animated };
+}
+
+function stripPngMetadata(buffer: Buffer): Buffer {
+  const kept: Buffer[] = [buffer.subarray(0, 8)];
+  let offset = 8;
+
+  while (offset + 12 <= buffer.length) {
+    const end = offset + 12 + buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+
+    if (!PNG_METADATA_CHUNKS.has(type)) {
+      kept.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  kept.push(buffer.subarray(offset));
+  return Buffer.concat(kept);
+}
+
+function readGifInfo(buffer: Buffer): ImageInfo | undefined {
+  const skipSubBlocks = (offset: number): number => {
+    while (buffer[offset] !== 0) {
+      if (offset >= buffer.length) {
+        throw new RangeError('Truncated GIF');
+      }
+      offset += buffer[offset] + 1;
+    }
+    return offset + 1;
+  };
+
+  const colorTableSize = (packed: number): number => (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+
+  let frames = 0;
+  let offset = 13 + colorTableSize(buffer[10]);
+
+  // Count image descriptors; stop at the second one, which is all the animation check needs
+  while (offset < buffer.length && frames < 2) {
+    const block = buffer[offset];
+
+    if (block === 0x2c) {
+      frames++;
+      offset += 10 + colorTableSize(buffer[offset + 9]);
+      offset = skipSubBlocks(offset + 1); // LZW minimum code size, then image data
+    } else if (block === 0x21) {
+      offset = skipSubBlocks(offset + 2);
+    } else {
+      break; // trailer (0x3B) or garbage
+    }
+  }
+
+  return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8), animated: frames > 1 };
+}
+
+function readWebpInfo(buffer: Buffer): ImageInfo | undefined {
+  const chunk = buffer.toString('latin1', 12, 16);
+
+  switch (chunk) {
+    case 'VP8X':
+      return {
+        width: buffer.readUIntLE(24, 3) + 1,
+        height: buffer.readUIntLE(27, 3) + 1,
+        animated: (buffer[20] & 0x02) !== 0
+      };
+    case 'VP8 ':
+      // Key frame start code, then 14-bit dimensions
+      if (buffer[23] !== 0x9d || buffer[24] !== 0x01 || buffer[25] !== 0x2a) {
+        return undefined;
+      }
+      return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff, animated: false };
+    case 'VP8L': {
+      if (buffer[20] !== 0x2f) {
+        return undefined;
+      }
+      const bits = buffer.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, animated: false };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function stripWebpMetadata(buffer: Buffer): Buffer {
+  const kept: Buffer[] = [Buffer.from(buffer.subarray(0, 12))];
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const size = buffer.readUInt32LE(offset + 4);
+    const end = Math.min(offset + 8 + size + (size % 2), buffer.length); // chunks are padded to an even size
+    const type = buffer.toString('latin1', offset, offset + 4);
+
+    if (type === 'VP8X') {
+      const vp8x = Buffer.from(buffer.subarray(offset, end));
+      vp8x[8] &= ~WEBP_VP8X_METADATA_FLAGS;
+      kept.push(vp8x);
+    } else if (!WEBP_METADATA_CHUNKS.has(type)) {
+      kept.push(buffer.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  const stripped = Buffer.concat(kept);
+  stripped.writeUInt32LE(stripped.length - 8, 4);
+  return stripped;
+}
+
+/**
+ * Get the file extension for an image MIME type
+ * @param mimetype - MIME type of the file
+ * @returns Extension without the dot, or undefined for types other than the allowed images
+ */
+export function getExtensionFromMimeType(mimetype: string): string | undefined {
+  switch (mimetype) {
+    case 'image/jpeg':
+      return 'jpg';
+    case 'image/png':
+      return 'png';
+    case 'image/gif':
+      return 'gif';
+    case 'image/webp':
+      return 'webp';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert raw image data (e.g. from a Kafka payload) into Multer file format
+ * @param imageData - Image bytes
+ * @param imageName - Original file name
+ * @param fieldname - Form field name the file would have been uploaded under
+ * @returns Multer-compatible file object, typed by its content rather than its name
+ */
+export function toMulterFile(imageData: Buffer, imageName: string, fieldname: string = 'image'): Express.Multer.File {
+  return {
+    buffer: imageData,
+    originalname: imageName,
+    mimetype: detectImageMimeType(imageData) ?? 'application/octet-stream',
+    size: imageData.length,
+    fieldname,
+    encoding: '7bit',
+    destination: '',
+    filename: imageName,
+    path: '',
+    stream: null
+  } as Express.Multer.File;
+}
@@ -0,0 +1,81 @@
+/* eslint-disable prettier/prettier */
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { RpcException } from '@nestjs/microservices';
+import { KafkaError, KafkaErrorCode } from '../interfaces/kafka-reply.interface';
+
+// Failures that may clear up on their own: timeouts, throttling and unavailable dependencies
+const RETRYABLE_STATUSES = new Set<number>([
+  HttpStatus.REQUEST_TIMEOUT,
+  HttpStatus.TOO_MANY_REQUESTS,
+  HttpStatus.BAD_GATEWAY,
+  HttpStatus.SERVICE_UNAVAILABLE,
+  HttpStatus.GATEWAY_TIMEOUT
+]);
+
+const TRANSIENT_MONGO_ERRORS = new Set([
+  'MongoNetworkError',
+  'MongoNetworkTimeoutError',
+  'MongoServerSelectionError',
+  'MongoNotConnectedError',
+  'MongoWriteConcernError'
+]);
+
+/**
+ * Map anything a Kafka handler throws to an error code mirroring the equivalent HTTP status
+ */
+export function toKafkaError(exception: unknown): KafkaError {
+  if (exception instanceof HttpException) {
+    return fromResponse(exception.getStatus(), exception.getResponse(), exception.message);
+  }
+
+  // Raised by guards in RPC context with { statusCode, message }
+  if (exception instanceof RpcException) {
+    const error = exception.getError();
+    return typeof error === 'object'
+      ? fromResponse((error as { statusCode?: number }).statusCode ?? HttpStatus.BAD_REQUEST, error, exception.message)
+      : fromStatus(HttpStatus.BAD_REQUEST, error);
+  }
+
+  const error = exception as { name?: string; message?: string; code?: number; retriable?: boolean; hasErrorLabel?: (label: string) => boolean };
+  const message = error?.message ?? 'Internal server error';
+
+  if (error?.code === 11000 || error?.code === 11001) {
+    return fromStatus(HttpStatus.CONFLICT, message);
+  }
+
+  if (error?.name === 'ValidationError' || error?.name === 'CastError') {
+    return fromStatus(HttpStatus.BAD_REQUEST, message);
+  }
+
+  // Mongo connectivity failures, retryable writes and retriable KafkaJS errors
+  if (TRANSIENT_MONGO_ERRORS.has(error?.name) || error?.hasErrorLabel?.('RetryableWriteError') || error?.retriable === true) {
+    return fromStatus(HttpStatus.SERVICE_UNAVAILABLE, message);
+  }
+
+  return fromStatus(HttpStatus.INTERNAL_SERVER_ERROR, message);
+}
+
+function fromResponse(statusCode: number, response: unknown, fallbackMessage: string): KafkaError {
+  if (typeof response !== 'object' || response === null) {
+    return fromStatus(statusCode, typeof response === 'string' ? response : fallbackMessage);
+  }
+
+  const { message, errors } = response as { message?: string | string[]; errors?: unknown };
+
+  // ValidationPipe reports each failed constraint in a message array
+  if (Array.isArray(message)) {
+    return fromStatus(statusCode, 'Validation failed', message);
+  }
+
+  return fromStatus(statusCode, message ?? fallbackMessage, errors);
+}
+
+function fromStatus(statusCode: number, message: string, details?: unknown): KafkaError {
+  return {
+    code: (HttpStatus[statusCode] as KafkaErrorCode) ?? 'INTERNAL_SERVER_ERROR',
+    statusCode,
+    message,
+    retryable: RETRYABLE_STATUSES.has(statusCode),
+    ...(details !== undefined && { details })
+  };
+}
@@ -0,0 +1,104 @@
+/* eslint-disable prettier/prettier */
+/**
+ * Utility functions for full-text search input handling and result highlighting
+ */
+
+export interface HighlightOptions {
+  tag?: string;
+  contextLength?: number;
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ * @param value - Raw user input
+ * @returns Regex-safe string
+ */
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split raw search input into plain terms
+ * Drops everything except letters, numbers, apostrophes and inner hyphens so that
+ * MongoDB $text operators (quoted phrases, -negation) cannot be injected
+ * @param input - Raw user input
+ * @returns Lowercased unique search terms
+ */
+export function extractSearchTerms(input: string): string[] {
+  if (!input) {
+    return [];
+  }
+
+  const terms = input
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+    .split(/\s+/)
+    .map(term => term.replace(/^[-']+|[-']+$/g, ''))
+    .filter(Boolean);
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Build a safe $text $search string from raw user input
+ * @param input - Raw user input
+ * @returns Sanitized search string (empty when nothing searchable remains)
+ */
+export function sanitizeTextSearch(input: string): string {
+  return extractSearchTerms(input).join(' ');
+}
+
+/**
+ * Escape HTML special characters so highlighted snippets can be rendered safely
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Highlight search terms in a text and return a snippet around the first match
+ * Terms match as word prefixes so stemmed text-index hits (e.g. "shoe" -> "shoes") are marked too
+ * @param text - Source text
+ * @param terms - Terms from extractSearchTerms
+ * @param options - Highlight tag and characters of context on each side of the first match
+ * @returns HTML-escaped snippet with marked terms, or undefined when nothing matches
+ */
+export function highlightText(
+  text: string | undefined,
+  terms: string[],
+  options: HighlightOptions = {}
+): string | undefined {
+  if (!text || terms.length === 0) {
+    return undefined;
+  }
+
+  const { tag = 'mark', contextLength = 60 } = options;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegex).join('|')})[\\p{L}\\p{N}]*`, 'giu');
+
+  const firstMatch = pattern.exec(text);
+  if (!firstMatch) {
+    return undefined;
+  }
+  pattern.lastIndex = 0;
+
+  // Cut a window around the first match
+  const start = Math.max(0, firstMatch.index - contextLength);
+  const end = Math.min(text.length, firstMatch.index + firstMatch[0].length + contextLength);
+  const snippet = text.slice(start, end);
+
+  let result = '';
+  let cursor = 0;
+  for (const match of snippet.matchAll(pattern)) {
+    result += escapeHtml(snippet.slice(cursor, match.index));
+    result += `<${tag}>${escapeHtml(match[0])}</${tag}>`;
+    cursor = match.index + match[0].length;
+  }
+  result += escapeHtml(snippet.slice(cursor));
+
+  return `${start > 0 ? '…' : ''}${result}${end < text.length ? '…' : ''}`;
+}
@@ -145,14 +145,27 @@ export function generateCategorySlug(
   options: SlugOptions = {},
 ): string {
   const slug = slugify(categoryName, options);
-  
-  if (parentSlug && isValidSlug(parentSlug)) {
+
+  if (parentSlug && isValidHierarchicalSlug(parentSlug)) {
     return `${parentSlug}/${slug}`;
   }
-  
+
   return slug;
 }
 
+/**
+ * Validate a hierarchical slug where every path segment is a valid slug
+ * @param slug - The hierarchical slug (e.g., 'men/shoes/sneakers')
+ * @returns Boolean indicating if every segment is valid
+ */
+export function isValidHierarchicalSlug(slug: string): boolean {
+  if (!slug || typeof slug !== 'string') {
+    return false;
+  }
+
+  return slug.split('/').every(segment => isValidSlug(segment));
+}
+
 /**
  * Generate slug for collections with type prefix
  * @param collectionName - The collection name
@@ -1,7 +1,8 @@
 /* eslint-disable prettier/prettier */
 import { registerAs } from '@nestjs/config';
-import { IsString, IsNumber, IsOptional, IsArray, IsBoolean } from 'class-validator';
+import { IsString, IsNumber, IsOptional, IsArray, IsBoolean, IsEnum } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
+import { RateLimitAlgorithm } from '../common/enums/rate-limit-algorithm.enum';
 
 export class AppConfig {
   @IsString()
@@ -79,6 +80,10 @@ export class AppConfig {
   @IsOptional()
   rateLimitWindow: number = 900000; // 15 minutes
 
+  @IsEnum(RateLimitAlgorithm)
+  @IsOptional()
+  rateLimitAlgorithm: RateLimitAlgorithm = RateLimitAlgorithm.SLIDING_WINDOW;
+
   @IsNumber()
   @Type(() => Number)
   @Transform(({ value }) => parseInt(value, 10))
@@ -217,6 +222,7 @@ export class AppConfig {
       rateLimit: this.enableRateLimit,
       rateLimitMax: this.rateLimitMax,
       rateLimitWindow: this.rateLimitWindow,
+      rateLimitAlgorithm: this.rateLimitAlgorithm,
       requestTimeout: this.requestTimeout,
       maxFileSize: this.maxFileSize,
     };
@@ -337,9 +343,10 @@ export default registerAs('app', () => {
   config.enableSwaggerInProduction = process.env.ENABLE_SWAGGER_IN_PRODUCTION === 'true' || config.enableSwaggerInProduction;
   config.enableKafka = process.env.ENABLE_KAFKA === 'true' || config.enableKafka;
   config.enableCors = process.env.ENABLE_CORS === 'true' || config.enableCors;
-  config.enableRateLimit = process.env.ENABLE_RATE_LIMIT === 'true' || config.enableRateLimit;
+  config.enableRateLimit = process.env.ENABLE_RATE_LIMIT ? process.env.ENABLE_RATE_LIMIT === 'true' : config.enableRateLimit;
   config.rateLimitMax = parseInt(process.env.RATE_LIMIT_MAX, 10) || config.rateLimitMax;
   config.rateLimitWindow = parseInt(process.env.RATE_LIMIT_WINDOW, 10) || config.rateLimitWindow;
+  config.rateLimitAlgorithm = (process.env.RATE_LIMIT_ALGORITHM as RateLimitAlgorithm) || config.rateLimitAlgorithm;
   config.requestTimeout = parseInt(process.env.REQUEST_TIMEOUT, 10) || config.requestTimeout;
   config.maxFileSize = parseInt(process.env.MAX_FILE_SIZE, 10) || config.maxFileSize;
   config.logLevel = process.env.LOG_LEVEL || config.logLevel;
@@ -0,0 +1,31 @@
+/* eslint-disable prettier/prettier */
+import { registerAs } from '@nestjs/config';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface AuthConfig {
+  // When disabled every request is let through unauthenticated; meant for local development only
+  enabled: boolean;
+  algorithm: JwtAlgorithm;
+  secret?: string; // HS256 shared secret
+  publicKey?: string; // RS256 PEM public key
+  jwksFile?: string; // JSON Web Key Set on disk, keys picked by the token's kid; takes precedence over secret/publicKey
+  issuer?: string;
+  audience: string[];
+  clockToleranceSeconds: number;
+  rolesClaim: string;
+  apiKeyHeader: string; // header carrying service API keys, on HTTP requests and Kafka messages
+}
+
+export default registerAs('auth', (): AuthConfig => ({
+  enabled: process.env.AUTH_ENABLED !== 'false',
+  algorithm: process.env.JWT_ALGORITHM === 'RS256' ? 'RS256' : 'HS256',
+  secret: process.env.JWT_SECRET || undefined,
+  publicKey: process.env.JWT_PUBLIC_KEY?.replace(/\\n/g, '\n') || undefined,
+  jwksFile: process.env.JWT_JWKS_FILE || undefined,
+  issuer: process.env.JWT_ISSUER || undefined,
+  audience: (process.env.JWT_AUDIENCE || '').split(',').map(audience => audience.trim()).filter(Boolean),
+  clockToleranceSeconds: parseInt(process.env.JWT_CLOCK_TOLERANCE_SECONDS || '30', 10),
+  rolesClaim: process.env.JWT_ROLES_CLAIM || 'roles',
+  apiKeyHeader: (process.env.API_KEY_HEADER || 'x-api-key').toLowerCase(),
+}));
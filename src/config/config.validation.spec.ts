@@ -0,0 +1,61 @@
+import { Test } from '@nestjs/testing';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { validateConfig } from './config.validation';
+import { redisConfig } from './redis.config';
+import {
+  createRedisClient,
+  RedisCacheConfig,
+} from '../modules/cache/redis-client';
+import { InMemoryRedisClient } from '../modules/cache/in-memory-redis.client';
+
+describe('validateConfig', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...env,
+      MONGO_URL: 'mongodb://localhost:27017',
+      KAFKA_BROKERS: 'localhost:9092',
+      KAFKA_CLIENT_ID: 'category-service',
+      KAFKA_GROUP_ID: 'category-service-group',
+      PORT: '8000',
+      REQUEST_TIMEOUT: '30000',
+      MAX_FILE_SIZE: '10485760',
+      RATE_LIMIT_MAX: '100',
+      RATE_LIMIT_WINDOW: '60000',
+    };
+    delete process.env.REDIS_URL;
+  });
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  it('should boot without REDIS_URL and fall back to the in-memory store', async () => {
+    await expect(validateConfig(process.env)).resolves.toBe(process.env);
+
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          ignoreEnvFile: true,
+          load: [redisConfig],
+          validate: validateConfig,
+        }),
+      ],
+    }).compile();
+
+    const client = await createRedisClient(
+      module.get(ConfigService).get<RedisCacheConfig>('redis'),
+    );
+
+    expect(client).toBeInstanceOf(InMemoryRedisClient);
+  });
+
+  it('should still require MONGO_URL', async () => {
+    delete process.env.MONGO_URL;
+
+    await expect(validateConfig(process.env)).rejects.toThrow(
+      'Database Config: MONGO_URL is required',
+    );
+  });
+});
@@ -0,0 +1,14 @@
+/* eslint-disable prettier/prettier */
+import { registerAs } from '@nestjs/config';
+
+export interface IdempotencyConfig {
+  // How long a key and its response are kept; a retry after that runs the request again
+  ttlSeconds: number;
+  // A request still in progress after this long is assumed to have died, and a retry may take it over
+  lockTimeoutSeconds: number;
+}
+
+export default registerAs('idempotency', (): IdempotencyConfig => ({
+  ttlSeconds: parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400', 10),
+  lockTimeoutSeconds: parseInt(process.env.IDEMPOTENCY_LOCK_TIMEOUT_SECONDS || '120', 10),
+}));
@@ -0,0 +1,37 @@
+/* eslint-disable prettier/prettier */
+import { registerAs } from '@nestjs/config';
+
+export interface ImageCleanupConfig {
+  // Deletions that failed are retried from the image_deletions queue; enable on one instance
+  retryEnabled: boolean;
+  retryInterval: number;
+  batchSize: number;
+  maxAttempts: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  // Periodic comparison of stored images with the images the catalog references
+  reconcileEnabled: boolean;
+  reconcileInterval: number;
+  reconcileFolders: string[];
+  // Orphans are only reported unless purging is enabled
+  purgeOrphans: boolean;
+  // Images younger than this may belong to a write still in progress and are left alone
+  orphanGracePeriod: number;
+}
+
+export default registerAs('imageCleanup', (): ImageCleanupConfig => ({
+  retryEnabled: process.env.IMAGE_CLEANUP_RETRY_ENABLED !== 'false',
+  retryInterval: parseInt(process.env.IMAGE_CLEANUP_RETRY_INTERVAL_MS || '60000', 10),
+  batchSize: parseInt(process.env.IMAGE_CLEANUP_BATCH_SIZE || '50', 10),
+  maxAttempts: parseInt(process.env.IMAGE_CLEANUP_MAX_ATTEMPTS || '10', 10),
+  retryBaseDelay: parseInt(process.env.IMAGE_CLEANUP_RETRY_BASE_DELAY_MS || '60000', 10),
+  retryMaxDelay: parseInt(process.env.IMAGE_CLEANUP_RETRY_MAX_DELAY_MS || '21600000', 10),
+  reconcileEnabled: process.env.IMAGE_RECONCILE_ENABLED === 'true',
+  reconcileInterval: parseInt(process.env.IMAGE_RECONCILE_INTERVAL_MS || '86400000', 10),
+  reconcileFolders: (process.env.IMAGE_RECONCILE_FOLDERS || 'categories')
+    .split(',')
+    .map(folder => folder.trim())
+    .filter(Boolean),
+  purgeOrphans: process.env.IMAGE_RECONCILE_PURGE === 'true',
+  orphanGracePeriod: parseInt(process.env.IMAGE_RECONCILE_GRACE_PERIOD_MS || '86400000', 10),
+}));
@@ -2,6 +2,7 @@
 import { registerAs } from '@nestjs/config';
 import { IsString, IsArray } from 'class-validator';
 import { Transform } from 'class-transformer';
+import { hostname } from 'os';
 
 export class KafkaConfig {
   @IsArray()
@@ -15,6 +16,9 @@ export class KafkaConfig {
   groupId: string;
 
   // All other settings with defaults - no validation needed
+  // Name of this instance (pod name or hostname). Cache invalidation adds the process ID and a
+  // random suffix to it, so processes sharing a name still receive each other's invalidations.
+  instanceId: string = hostname();
   ssl: boolean = false;
   enableSasl: boolean = false;
   saslMechanism: string = 'plain';
@@ -56,6 +60,8 @@ export class KafkaConfig {
   categoryCreatedTopic: string = 'category.created';
   categoryUpdatedTopic: string = 'category.updated';
   categoryDeletedTopic: string = 'category.deleted';
+  categoryRestoredTopic: string = 'category.restored';
+  categoryStatusChangedTopic: string = 'category.status_changed';
   subcategoryCreatedTopic: string = 'subcategory.created';
   subcategoryUpdatedTopic: string = 'subcategory.updated';
   subcategoryDeletedTopic: string = 'subcategory.deleted';
@@ -77,6 +83,7 @@ export default registerAs('kafka', (): KafkaConfig => {
   config.brokers = process.env.KAFKA_BROKERS.split(',').map(broker => broker.trim());
   config.clientId = process.env.KAFKA_CLIENT_ID || 'LawCategory';
   config.groupId = process.env.KAFKA_GROUP_ID || 'LawCategory-group';
+  config.instanceId = process.env.INSTANCE_ID || process.env.POD_NAME || hostname();
   
   // Override defaults only if provided
   if (process.env.KAFKA_SSL === 'true') {
@@ -99,6 +106,18 @@ export default registerAs('kafka', (): KafkaConfig => {
   if (process.env.KAFKA_CATEGORY_CREATED_TOPIC) {
     config.categoryCreatedTopic = process.env.KAFKA_CATEGORY_CREATED_TOPIC;
   }
+  if (process.env.KAFKA_CATEGORY_UPDATED_TOPIC) {
+    config.categoryUpdatedTopic = process.env.KAFKA_CATEGORY_UPDATED_TOPIC;
+  }
+  if (process.env.KAFKA_CATEGORY_DELETED_TOPIC) {
+    config.categoryDeletedTopic = process.env.KAFKA_CATEGORY_DELETED_TOPIC;
+  }
+  if (process.env.KAFKA_CATEGORY_RESTORED_TOPIC) {
+    config.categoryRestoredTopic = process.env.KAFKA_CATEGORY_RESTORED_TOPIC;
+  }
+  if (process.env.KAFKA_CATEGORY_STATUS_CHANGED_TOPIC) {
+    config.categoryStatusChangedTopic = process.env.KAFKA_CATEGORY_STATUS_CHANGED_TOPIC;
+  }
   // Add other topic overrides as needed...
 
   return config;
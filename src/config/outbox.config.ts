@@ -0,0 +1,28 @@
+/* eslint-disable prettier/prettier */
+import { registerAs } from '@nestjs/config';
+
+export interface OutboxConfig {
+  // The relay publishes at-least-once and may run on every instance: each event is claimed with a
+  // lease, and an aggregate is only published by the instance holding the lease on its oldest event
+  relayEnabled: boolean;
+  pollInterval: number;
+  leaseDuration: number; // how long a claimed event stays locked before another instance may take it over
+  batchSize: number;
+  maxAttempts: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  publishedRetentionHours: number;
+  cleanupInterval: number;
+}
+
+export default registerAs('outbox', (): OutboxConfig => ({
+  relayEnabled: process.env.OUTBOX_RELAY_ENABLED !== 'false',
+  pollInterval: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '1000', 10),
+  leaseDuration: parseInt(process.env.OUTBOX_LEASE_MS || '30000', 10),
+  batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100', 10),
+  maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10', 10),
+  retryBaseDelay: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY_MS || '1000', 10),
+  retryMaxDelay: parseInt(process.env.OUTBOX_RETRY_MAX_DELAY_MS || '300000', 10),
+  publishedRetentionHours: parseInt(process.env.OUTBOX_PUBLISHED_RETENTION_HOURS || '168', 10),
+  cleanupInterval: parseInt(process.env.OUTBOX_CLEANUP_INTERVAL_MS || '3600000', 10),
+}));
@@ -0,0 +1,60 @@
+/* eslint-disable prettier/prettier */
+import { registerAs } from '@nestjs/config';
+import { ImageStorageDriver } from '../common/enums/image-storage-driver.enum';
+
+export interface CloudinaryStorageConfig {
+  cloudName?: string;
+  apiKey?: string;
+  apiSecret?: string;
+}
+
+export interface LocalStorageConfig {
+  directory: string; // where uploaded files are written
+  publicPath: string; // static route the directory is served under
+  baseUrl: string; // origin image URLs are built with
+}
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. http://minio:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean; // <endpoint>/<bucket>/<key> instead of <bucket>.<host>/<key>; required by MinIO
+  publicUrl?: string; // base URL objects are read from, e.g. a CDN; defaults to the bucket URL
+}
+
+export interface StorageConfig {
+  // Where uploaded images are stored
+  driver: ImageStorageDriver;
+  cloudinary: CloudinaryStorageConfig;
+  local: LocalStorageConfig;
+  s3: S3StorageConfig;
+}
+
+const S3_REGION = process.env.S3_REGION || 'us-east-1';
+
+export default registerAs('storage', (): StorageConfig => ({
+  driver: Object.values(ImageStorageDriver).includes(process.env.IMAGE_STORAGE_DRIVER as ImageStorageDriver)
+    ? process.env.IMAGE_STORAGE_DRIVER as ImageStorageDriver
+    : ImageStorageDriver.CLOUDINARY,
+  cloudinary: {
+    cloudName: process.env.CLOUDINARY_NAME || undefined,
+    apiKey: process.env.CLOUDINARY_KEY || undefined,
+    apiSecret: process.env.CLOUDINARY_SECRET || undefined,
+  },
+  local: {
+    directory: process.env.IMAGE_STORAGE_LOCAL_DIR || './uploads',
+    publicPath: `/${(process.env.IMAGE_STORAGE_LOCAL_PATH || 'media').replace(/^\/+|\/+$/g, '')}`,
+    baseUrl: (process.env.IMAGE_STORAGE_PUBLIC_URL || `http://localhost:${process.env.PORT || 8000}`).replace(/\/+$/, ''),
+  },
+  s3: {
+    endpoint: (process.env.S3_ENDPOINT || `https://s3.${S3_REGION}.amazonaws.com`).replace(/\/+$/, ''),
+    region: S3_REGION,
+    bucket: process.env.S3_BUCKET || '',
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+    publicUrl: process.env.S3_PUBLIC_URL?.replace(/\/+$/, '') || undefined,
+  },
+}));
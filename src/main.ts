@@ -10,10 +10,13 @@ import { TransformInterceptor } from './common/interceptors/transform.intercepto
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { AppConfig } from './config/app.config';
 import { SwaggerConfig } from './config/swagger.config';
+import { StorageConfig } from './config/storage.config';
+import { ImageStorageDriver } from './common/enums/image-storage-driver.enum';
 import * as compression from 'compression';
 import helmet from 'helmet';
 import { json, urlencoded } from 'express';
 import { MicroserviceOptions, Transport } from '@nestjs/microservices';
+import { resolve } from 'path';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
@@ -81,7 +84,9 @@ async function bootstrap() {
           'Last-Modified',
           'If-Modified-Since',
           'If-None-Match',
+          'If-Match',
           'ETag',
+          'Idempotency-Key',
           'X-Forwarded-For',
           'X-Real-IP',
           'User-Agent',
@@ -92,12 +97,20 @@ async function bootstrap() {
           'X-Page-Count',
           'X-Current-Page',
           'X-Per-Page',
+          'X-Has-Next-Page',
+          'X-Has-Previous-Page',
+          'X-Next-Cursor',
+          'X-Prev-Cursor',
+          'X-Rate-Limit-Limit',
           'X-Rate-Limit-Remaining',
           'X-Rate-Limit-Reset',
+          'Retry-After',
           'X-Request-ID',
           'X-Response-Time',
           'ETag',
           'Last-Modified',
+          'X-Cache',
+          'Idempotent-Replayed',
         ],
         maxAge: 86400, // 24 hours
       });
@@ -145,6 +158,9 @@ async function bootstrap() {
     const globalPrefix = appConfig.apiPrefix.replace(/^\/+|\/+$/g, '');
     app.setGlobalPrefix(globalPrefix);
 
+    // Images of the local storage driver (outside the global prefix, like the URLs it issues)
+    setupLocalImageStorage(app, configService.get<StorageConfig>('storage'), logger);
+
     // Health check endpoints (these should be outside the global prefix)
     setupHealthEndpoints(app, appConfig, configService, logger);
 
@@ -523,6 +539,23 @@ function addHealthCheckToSwagger(document: any, appConfig: AppConfig) {
   };
 }
 
+function setupLocalImageStorage(app: any, storageConfig: StorageConfig | undefined, logger: Logger) {
+  if (storageConfig?.driver !== ImageStorageDriver.LOCAL) {
+    return;
+  }
+
+  const { directory, publicPath } = storageConfig.local;
+
+  app.useStaticAssets(resolve(directory), {
+    prefix: publicPath,
+    index: false,
+    // Storefronts on other origins embed these images; helmet defaults to same-origin
+    setHeaders: (res: any) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+  });
+
+  logger.log(`Serving locally stored images from ${resolve(directory)} at ${publicPath}`);
+}
+
 function setupGracefulShutdown(app: any, logger: Logger) {
   const gracefulShutdown = (signal: string) => {
     logger.log(`Received ${signal}, shutting down gracefully...`);
@@ -0,0 +1,122 @@
+/* eslint-disable prettier/prettier */
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  Logger
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiExtraModels,
+  getSchemaPath
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import {
+  ApiKeyQueryDto,
+  ApiKeyResponseDto,
+  ApiKeySecretResponseDto,
+  CreateApiKeyDto,
+  RotateApiKeyDto
+} from './dto/api-key.dto';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { Actor } from '../../common/decorators/actor.decorator';
+import { ParseObjectIdPipe } from '../../common/pipes/parse-object-id.pipe';
+
+@ApiTags('API Keys')
+@Controller('api-keys')
+@UseGuards(RolesGuard)
+@Roles(Role.ADMIN)
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiExtraModels(ApiKeyResponseDto, ApiKeySecretResponseDto)
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired credentials' })
+@ApiResponse({ status: 403, description: 'Caller is not an admin' })
+export class ApiKeysController {
+  private readonly logger = new Logger(ApiKeysController.name);
+
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create API key',
+    description: 'Issues a key for a backend service. The key is returned only in this response; store it securely'
+  })
+  @ApiResponse({ status: 201, description: 'API key created', schema: { $ref: getSchemaPath(ApiKeySecretResponseDto) } })
+  @ApiResponse({ status: 400, description: 'Invalid name, scopes or expiry' })
+  async create(
+    @Body(ValidationPipe) createApiKeyDto: CreateApiKeyDto,
+    @Actor() actor?: string
+  ): Promise<ApiKeySecretResponseDto> {
+    this.logger.log(`Creating API key for ${createApiKeyDto.name}`);
+    return this.apiKeysService.create(createApiKeyDto, actor);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'List API keys',
+    description: 'Lists keys with their scopes, expiry and usage counters; the keys themselves are never returned'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'API keys retrieved successfully',
+    schema: { type: 'array', items: { $ref: getSchemaPath(ApiKeyResponseDto) } }
+  })
+  async findAll(@Query(ValidationPipe) queryDto: ApiKeyQueryDto): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeysService.findAll(queryDto.includeRevoked);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get API key', description: 'Retrieves a key with its usage counters' })
+  @ApiParam({ name: 'id', type: String, description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'API key retrieved successfully', schema: { $ref: getSchemaPath(ApiKeyResponseDto) } })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async findOne(@Param('id', ParseObjectIdPipe) id: string): Promise<ApiKeyResponseDto> {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Post(':id/rotate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate API key',
+    description: 'Issues a replacement key with the same name and scopes. The old key stops working immediately, or after gracePeriodMinutes'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'API key rotated', schema: { $ref: getSchemaPath(ApiKeySecretResponseDto) } })
+  @ApiResponse({ status: 400, description: 'API key is revoked' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async rotate(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) rotateApiKeyDto: RotateApiKeyDto
+  ): Promise<ApiKeySecretResponseDto> {
+    this.logger.log(`Rotating API key ${id}`);
+    return this.apiKeysService.rotate(id, rotateApiKeyDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke API key', description: 'Revokes a key; it stops working immediately' })
+  @ApiParam({ name: 'id', type: String, description: 'API key ID' })
+  @ApiResponse({ status: 200, description: 'API key revoked', schema: { $ref: getSchemaPath(ApiKeyResponseDto) } })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(@Param('id', ParseObjectIdPipe) id: string): Promise<ApiKeyResponseDto> {
+    this.logger.log(`Revoking API key ${id}`);
+    return this.apiKeysService.revoke(id);
+  }
+}
@@ -0,0 +1,30 @@
+/* eslint-disable prettier/prettier */
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ApiKey, ApiKeySchema } from './schemas/api-key.schema';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+
+/**
+ * Service API keys; global so ApiKeyGuard can be applied in any module
+ */
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ApiKey.name, schema: ApiKeySchema }
+    ])
+  ],
+  controllers: [
+    ApiKeysController
+  ],
+  providers: [
+    ApiKeysRepository,
+    ApiKeysService
+  ],
+  exports: [
+    ApiKeysService
+  ]
+})
+export class ApiKeysModule {}
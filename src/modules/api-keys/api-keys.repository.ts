@@ -0,0 +1,69 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, UpdateQuery } from 'mongoose';
+import { ApiKey, ApiKeyDocument } from './schemas/api-key.schema';
+
+@Injectable()
+export class ApiKeysRepository {
+  private readonly logger = new Logger(ApiKeysRepository.name);
+
+  constructor(
+    @InjectModel(ApiKey.name) private apiKeyModel: Model<ApiKeyDocument>,
+  ) {}
+
+  async create(data: Partial<ApiKey>): Promise<ApiKeyDocument> {
+    try {
+      return await this.apiKeyModel.create(data);
+    } catch (error) {
+      this.logger.error(`Error creating API key: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Keys newest first, optionally including revoked ones
+   */
+  async findAll(includeRevoked = false): Promise<ApiKeyDocument[]> {
+    const filter = includeRevoked ? {} : { revokedAt: null };
+    return this.apiKeyModel.find(filter).sort({ createdAt: -1 }).exec();
+  }
+
+  async findById(id: string): Promise<ApiKeyDocument> {
+    const apiKey = Types.ObjectId.isValid(id) ? await this.apiKeyModel.findById(id).exec() : null;
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Key whose current prefix, or the prefix it had before its last rotation, matches
+   */
+  async findByPrefix(prefix: string): Promise<ApiKeyDocument | null> {
+    return this.apiKeyModel
+      .findOne({ $or: [{ prefix }, { previousPrefix: prefix }] })
+      .exec();
+  }
+
+  async update(id: string, update: UpdateQuery<ApiKeyDocument>): Promise<ApiKeyDocument> {
+    const apiKey = await this.apiKeyModel.findByIdAndUpdate(id, update, { new: true }).exec();
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Count a request authenticated with the key
+   */
+  async recordUsage(id: string, usedAt: Date = new Date()): Promise<void> {
+    await this.apiKeyModel
+      .updateOne({ _id: id }, { $inc: { usageCount: 1 }, $set: { lastUsedAt: usedAt } })
+      .exec();
+  }
+}
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { Role } from '../../common/enums/role.enum';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let stored: Record<string, any>;
+  let repository: {
+    create: jest.Mock;
+    findById: jest.Mock;
+    findByPrefix: jest.Mock;
+    update: jest.Mock;
+    recordUsage: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    stored = null;
+    repository = {
+      create: jest.fn().mockImplementation(async (data) => {
+        stored = { _id: new Types.ObjectId(), createdAt: new Date(), ...data };
+        return stored;
+      }),
+      findById: jest.fn().mockImplementation(async () => stored),
+      findByPrefix: jest
+        .fn()
+        .mockImplementation(async (prefix) =>
+          stored?.prefix === prefix || stored?.previousPrefix === prefix
+            ? stored
+            : null,
+        ),
+      update: jest.fn().mockImplementation(async (_id, update) => {
+        stored = { ...stored, ...update.$set };
+        Object.keys(update.$unset ?? {}).forEach(
+          (field) => delete stored[field],
+        );
+        return stored;
+      }),
+      recordUsage: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: ApiKeysRepository, useValue: repository },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  it('should store only the hash and authenticate the issued key', async () => {
+    const { key, prefix } = await service.create({
+      name: 'product-service',
+      scopes: [ApiKeyScope.WRITE],
+    });
+
+    expect(key.startsWith(`${prefix}_`)).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain(key);
+
+    const user = await service.authenticate(key);
+    expect(user).toMatchObject({
+      sub: `api-key:${stored._id}`,
+      authMethod: 'api-key',
+      roles: [Role.VIEWER, Role.EDITOR],
+    });
+    expect(repository.recordUsage).toHaveBeenCalledWith(
+      stored._id.toString(),
+      expect.any(Date),
+    );
+  });
+
+  it('should reject unknown, revoked and expired keys', async () => {
+    const { key } = await service.create({
+      name: 'search-indexer',
+      scopes: [ApiKeyScope.READ],
+    });
+
+    const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+    await expect(service.authenticate(tampered)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    stored.expiresAt = new Date(Date.now() - 1000);
+    await expect(service.authenticate(key)).rejects.toThrow(
+      'API key has expired',
+    );
+
+    await service.revoke(stored._id.toString());
+    await expect(service.authenticate(key)).rejects.toThrow(
+      'API key has been revoked',
+    );
+  });
+
+  it('should keep the replaced key working during the rotation grace period', async () => {
+    const { key: oldKey } = await service.create({
+      name: 'product-service',
+      scopes: [ApiKeyScope.ADMIN],
+    });
+
+    const { key: newKey } = await service.rotate(stored._id.toString(), {
+      gracePeriodMinutes: 30,
+    });
+
+    await expect(service.authenticate(newKey)).resolves.toMatchObject({
+      roles: [Role.VIEWER, Role.EDITOR, Role.ADMIN],
+    });
+    await expect(service.authenticate(oldKey)).resolves.toBeDefined();
+
+    await service.rotate(stored._id.toString());
+    await expect(service.authenticate(oldKey)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,204 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ApiKeysRepository } from './api-keys.repository';
+import { ApiKeyDocument } from './schemas/api-key.schema';
+import { ApiKeyResponseDto, ApiKeySecretResponseDto, CreateApiKeyDto, RotateApiKeyDto } from './dto/api-key.dto';
+import { ApiKeyScope } from '../../common/enums/api-key-scope.enum';
+import { Role } from '../../common/enums/role.enum';
+import { AuthenticatedUser } from '../../common/interfaces/authenticated-user.interface';
+
+// lrk_<12 hex prefix>_<43 char secret>
+const KEY_PATTERN = /^(lrk_[0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+// Roles granted by each scope, so @Roles checks work the same for keys and user tokens
+const SCOPE_ROLES: Record<ApiKeyScope, Role[]> = {
+  [ApiKeyScope.READ]: [Role.VIEWER],
+  [ApiKeyScope.WRITE]: [Role.VIEWER, Role.EDITOR],
+  [ApiKeyScope.ADMIN]: [Role.VIEWER, Role.EDITOR, Role.ADMIN]
+};
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private readonly apiKeysRepository: ApiKeysRepository) {}
+
+  /**
+   * Issue a new key; the key itself is only returned here
+   */
+  async create(createApiKeyDto: CreateApiKeyDto, createdBy?: string): Promise<ApiKeySecretResponseDto> {
+    try {
+      const { key, prefix, keyHash } = this.generateKey();
+
+      const apiKey = await this.apiKeysRepository.create({
+        name: createApiKeyDto.name,
+        scopes: [...new Set(createApiKeyDto.scopes)],
+        expiresAt: createApiKeyDto.expiresAt,
+        prefix,
+        keyHash,
+        createdBy: createdBy ?? null
+      });
+
+      this.logger.log(`API key ${prefix} created for ${apiKey.name}`);
+      return { ...this.mapToResponseDto(apiKey), key };
+    } catch (error) {
+      this.logger.error(`Error creating API key: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * List keys with their usage counters
+   */
+  async findAll(includeRevoked = false): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeysRepository.findAll(includeRevoked);
+    return apiKeys.map(apiKey => this.mapToResponseDto(apiKey));
+  }
+
+  async findOne(id: string): Promise<ApiKeyResponseDto> {
+    return this.mapToResponseDto(await this.apiKeysRepository.findById(id));
+  }
+
+  /**
+   * Replace the key, optionally keeping the old one valid for a grace period
+   */
+  async rotate(id: string, rotateApiKeyDto: RotateApiKeyDto = {}): Promise<ApiKeySecretResponseDto> {
+    try {
+      const apiKey = await this.apiKeysRepository.findById(id);
+
+      if (apiKey.revokedAt) {
+        throw new BadRequestException('Revoked API keys cannot be rotated');
+      }
+
+      const { key, prefix, keyHash } = this.generateKey();
+      const now = new Date();
+      const gracePeriodMinutes = rotateApiKeyDto.gracePeriodMinutes ?? 0;
+
+      const previousKey = gracePeriodMinutes > 0
+        ? {
+            previousPrefix: apiKey.prefix,
+            previousKeyHash: apiKey.keyHash,
+            previousExpiresAt: new Date(now.getTime() + gracePeriodMinutes * 60 * 1000)
+          }
+        : {};
+
+      const rotated = await this.apiKeysRepository.update(id, {
+        $set: { prefix, keyHash, rotatedAt: now, ...previousKey },
+        ...(gracePeriodMinutes > 0 ? {} : { $unset: { previousPrefix: 1, previousKeyHash: 1, previousExpiresAt: 1 } })
+      });
+
+      this.logger.log(`API key ${apiKey.prefix} rotated to ${prefix}`);
+      return { ...this.mapToResponseDto(rotated), key };
+    } catch (error) {
+      this.logger.error(`Error rotating API key ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a key; it stops working immediately, including a key still in its rotation grace period
+   */
+  async revoke(id: string): Promise<ApiKeyResponseDto> {
+    try {
+      const apiKey = await this.apiKeysRepository.findById(id);
+
+      if (apiKey.revokedAt) {
+        return this.mapToResponseDto(apiKey);
+      }
+
+      const revoked = await this.apiKeysRepository.update(id, {
+        $set: { revokedAt: new Date() },
+        $unset: { previousPrefix: 1, previousKeyHash: 1, previousExpiresAt: 1 }
+      });
+
+      this.logger.log(`API key ${apiKey.prefix} revoked`);
+      return this.mapToResponseDto(revoked);
+    } catch (error) {
+      this.logger.error(`Error revoking API key ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a presented key to its principal and count the use
+   */
+  async authenticate(rawKey: string): Promise<AuthenticatedUser> {
+    const match = KEY_PATTERN.exec(rawKey.trim());
+    if (!match) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const [key, prefix] = match;
+    const apiKey = await this.apiKeysRepository.findByPrefix(prefix);
+    const now = new Date();
+    const keyHash = this.hashKey(key);
+
+    const isCurrent = apiKey?.prefix === prefix && this.hashesMatch(apiKey.keyHash, keyHash);
+    const isPrevious = apiKey?.previousPrefix === prefix
+      && apiKey.previousExpiresAt > now
+      && this.hashesMatch(apiKey.previousKeyHash, keyHash);
+
+    if (!isCurrent && !isPrevious) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    if (apiKey.revokedAt) {
+      throw new UnauthorizedException('API key has been revoked');
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    const id = apiKey._id.toString();
+
+    // Usage counting must not slow down or fail the request
+    this.apiKeysRepository
+      .recordUsage(id, now)
+      .catch(error => this.logger.warn(`Error recording usage of API key ${apiKey.prefix}: ${error.message}`));
+
+    const sub = `api-key:${id}`;
+    return {
+      id: sub,
+      sub,
+      roles: [...new Set(apiKey.scopes.flatMap(scope => SCOPE_ROLES[scope] ?? []))],
+      authMethod: 'api-key',
+      claims: { sub, name: apiKey.name, scopes: apiKey.scopes }
+    };
+  }
+
+  private generateKey(): { key: string; prefix: string; keyHash: string } {
+    const prefix = `lrk_${randomBytes(6).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(32).toString('base64url')}`;
+
+    return { key, prefix, keyHash: this.hashKey(key) };
+  }
+
+  // Keys are 256-bit random values, so a plain SHA-256 is enough to store them safely
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  private hashesMatch(stored: string | undefined, presented: string): boolean {
+    return !!stored
+      && stored.length === presented.length
+      && timingSafeEqual(Buffer.from(stored), Buffer.from(presented));
+  }
+
+  private mapToResponseDto(apiKey: ApiKeyDocument): ApiKeyResponseDto {
+    return {
+      _id: apiKey._id.toString(),
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt ?? null,
+      revokedAt: apiKey.revokedAt ?? null,
+      rotatedAt: apiKey.rotatedAt ?? null,
+      usageCount: apiKey.usageCount ?? 0,
+      lastUsedAt: apiKey.lastUsedAt ?? null,
+      createdBy: apiKey.createdBy ?? null,
+      createdAt: apiKey.createdAt
+    };
+  }
+}
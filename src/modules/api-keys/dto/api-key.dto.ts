@@ -0,0 +1,139 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import { ArrayNotEmpty, IsArray, IsBoolean, IsDate, IsEnum, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min, MinDate } from "class-validator";
+import { ApiKeyScope } from "../../../common/enums/api-key-scope.enum";
+
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'Name of the calling service',
+    example: 'product-service'
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Transform(({ value }) => typeof value === 'string' ? value.trim() : value)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions of the key: catalog:read for read-only access, catalog:write to change the catalog, admin for everything',
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.READ]
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working; omit for a key that does not expire',
+    example: '2025-12-31T23:59:59.000Z'
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'expiresAt must be in the future' })
+  expiresAt?: Date;
+}
+
+export class RotateApiKeyDto {
+  @ApiPropertyOptional({
+    description: 'Minutes the replaced key keeps working, so callers can switch over (default 0, max 10080)',
+    example: 60
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10080)
+  gracePeriodMinutes?: number;
+}
+
+export class ApiKeyQueryDto {
+  @ApiPropertyOptional({
+    description: 'Include revoked keys',
+    example: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeRevoked?: boolean;
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'API key unique identifier',
+    example: '507f1f77bcf86cd799439011'
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Name of the calling service',
+    example: 'product-service'
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Public part of the key, shown to tell keys apart',
+    example: 'lrk_3f9a1c0b7d2e'
+  })
+  prefix: string;
+
+  @ApiProperty({
+    description: 'Permissions of the key',
+    enum: ApiKeyScope,
+    isArray: true
+  })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working',
+    nullable: true
+  })
+  expiresAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'When the key was revoked',
+    nullable: true
+  })
+  revokedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'When the key was last rotated',
+    nullable: true
+  })
+  rotatedAt: Date | null;
+
+  @ApiProperty({
+    description: 'Number of requests authenticated with the key',
+    example: 1520
+  })
+  usageCount: number;
+
+  @ApiPropertyOptional({
+    description: 'When the key was last used',
+    nullable: true
+  })
+  lastUsedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Who created the key, when known',
+    nullable: true
+  })
+  createdBy: string | null;
+
+  @ApiProperty({
+    description: 'When the key was created'
+  })
+  createdAt: Date;
+}
+
+export class ApiKeySecretResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'The key itself; returned only once, when the key is created or rotated',
+    example: 'lrk_3f9a1c0b7d2e_kq2b1V9mX0...'
+  })
+  key: string;
+}
@@ -0,0 +1,63 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ApiKeyScope } from '../../../common/enums/api-key-scope.enum';
+
+export type ApiKeyDocument = ApiKey & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'api_keys'
+})
+export class ApiKey {
+  @Prop({ required: true, trim: true, maxlength: 100 })
+  name: string; // e.g. 'product-service'
+
+  @Prop({ required: true, type: String })
+  prefix: string; // public part of the key, used to look it up
+
+  @Prop({ required: true, type: String })
+  keyHash: string; // SHA-256 of the full key; the key itself is never stored
+
+  @Prop({ type: [String], enum: ApiKeyScope, required: true })
+  scopes: ApiKeyScope[];
+
+  @Prop({ type: Date, required: false })
+  expiresAt?: Date;
+
+  @Prop({ type: Date, required: false })
+  revokedAt?: Date;
+
+  // Key replaced by the last rotation, accepted until previousExpiresAt
+  @Prop({ type: String, required: false })
+  previousPrefix?: string;
+
+  @Prop({ type: String, required: false })
+  previousKeyHash?: string;
+
+  @Prop({ type: Date, required: false })
+  previousExpiresAt?: Date;
+
+  @Prop({ type: Date, required: false })
+  rotatedAt?: Date;
+
+  @Prop({ default: 0 })
+  usageCount: number;
+
+  @Prop({ type: Date, required: false })
+  lastUsedAt?: Date;
+
+  @Prop({ type: String, default: null })
+  createdBy?: string | null;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  updatedAt: Date;
+}
+
+export const ApiKeySchema = SchemaFactory.createForClass(ApiKey);
+
+ApiKeySchema.index({ prefix: 1 }, { unique: true });
+ApiKeySchema.index({ previousPrefix: 1 }, { sparse: true });
@@ -0,0 +1,17 @@
+/* eslint-disable prettier/prettier */
+import { Global, Module } from '@nestjs/common';
+import { JwtVerifierService } from './jwt-verifier.service';
+
+/**
+ * Token verification shared by AuthGuard and RolesGuard wherever they are applied
+ */
+@Global()
+@Module({
+  providers: [
+    JwtVerifierService
+  ],
+  exports: [
+    JwtVerifierService
+  ]
+})
+export class AuthModule {}
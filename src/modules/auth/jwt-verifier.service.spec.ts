@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JwtVerifierService } from './jwt-verifier.service';
+import { AuthConfig } from '../../config/auth.config';
+import { Role } from '../../common/enums/role.enum';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signHs256 = (payload: object, secret: string) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  const signature = createHmac('sha256', secret).update(input).digest();
+  return `${input}.${signature.toString('base64url')}`;
+};
+
+describe('JwtVerifierService', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const createService = async (config: Partial<AuthConfig>) => {
+    const authConfig: AuthConfig = {
+      enabled: true,
+      algorithm: 'HS256',
+      audience: [],
+      clockToleranceSeconds: 0,
+      rolesClaim: 'roles',
+      apiKeyHeader: 'x-api-key',
+      ...config,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtVerifierService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(authConfig) },
+        },
+      ],
+    }).compile();
+
+    return module.get<JwtVerifierService>(JwtVerifierService);
+  };
+
+  it('should accept a valid HS256 token and keep only known roles', async () => {
+    const service = await createService({
+      secret: 'secret',
+      audience: ['catalog'],
+    });
+    const token = signHs256(
+      {
+        sub: 'user-1',
+        aud: 'catalog',
+        exp: now() + 60,
+        roles: ['editor', 'root'],
+      },
+      'secret',
+    );
+
+    const user = service.verify(token);
+
+    expect(user.sub).toBe('user-1');
+    expect(user.id).toBe('user-1');
+    expect(user.roles).toEqual([Role.EDITOR]);
+  });
+
+  it('should reject expired tokens, other audiences and forged signatures', async () => {
+    const service = await createService({
+      secret: 'secret',
+      audience: ['catalog'],
+    });
+
+    expect(() =>
+      service.verify(
+        signHs256({ sub: 'u', aud: 'catalog', exp: now() - 1 }, 'secret'),
+      ),
+    ).toThrow('Token has expired');
+    expect(() =>
+      service.verify(
+        signHs256({ sub: 'u', aud: 'orders', exp: now() + 60 }, 'secret'),
+      ),
+    ).toThrow('Token audience is not accepted');
+    expect(() =>
+      service.verify(
+        signHs256({ sub: 'u', aud: 'catalog', exp: now() + 60 }, 'other'),
+      ),
+    ).toThrow(UnauthorizedException);
+  });
+
+  it('should verify RS256 tokens with the key from a JWKS file', async () => {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const directory = mkdtempSync(join(tmpdir(), 'jwks-'));
+    const jwksFile = join(directory, 'jwks.json');
+    writeFileSync(
+      jwksFile,
+      JSON.stringify({
+        keys: [
+          { ...publicKey.export({ format: 'jwk' }), kid: 'k1', use: 'sig' },
+        ],
+      }),
+    );
+    const service = await createService({ algorithm: 'RS256', jwksFile });
+
+    const input = `${encode({ alg: 'RS256', kid: 'k1' })}.${encode({ sub: 'user-2', exp: now() + 60, roles: 'admin viewer' })}`;
+    const token = `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+
+    expect(service.verify(token).roles).toEqual([Role.ADMIN, Role.VIEWER]);
+    expect(() =>
+      service.verify(signHs256({ sub: 'u', exp: now() + 60 }, 'secret')),
+    ).toThrow('Unsupported token algorithm: HS256');
+
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should refuse to start with an unusable JWKS file', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'jwks-'));
+    const jwksFile = join(directory, 'jwks.json');
+    writeFileSync(
+      jwksFile,
+      JSON.stringify({ keys: [{ kty: 'RSA', kid: 'k1', n: 'AQAB' }] }),
+    );
+
+    const service = await createService({ algorithm: 'RS256', jwksFile });
+    const missing = await createService({
+      algorithm: 'RS256',
+      jwksFile: join(directory, 'missing.json'),
+    });
+
+    expect(() => service.onModuleInit()).toThrow(
+      `Invalid JWKS file ${jwksFile}`,
+    );
+    expect(() => missing.onModuleInit()).toThrow('Invalid JWKS file');
+
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should reject tokens as unauthorized when the signing key cannot be read', async () => {
+    const service = await createService({
+      algorithm: 'RS256',
+      jwksFile: join(tmpdir(), 'missing-jwks.json'),
+    });
+
+    const input = `${encode({ alg: 'RS256', kid: 'k1' })}.${encode({ sub: 'user-2', exp: now() + 60 })}`;
+
+    expect(() => service.verify(`${input}.c2lnbmF0dXJl`)).toThrow(
+      UnauthorizedException,
+    );
+  });
+});
@@ -0,0 +1,238 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, OnModuleInit, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, createPublicKey, JsonWebKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { readFileSync } from 'fs';
+import { AuthConfig } from '../../config/auth.config';
+import { Role } from '../../common/enums/role.enum';
+import { AuthenticatedUser, JwtPayload } from '../../common/interfaces/authenticated-user.interface';
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+const KNOWN_ROLES = new Set<string>(Object.values(Role));
+
+/**
+ * Verifies HS256/RS256 bearer tokens against the configured secret, public key or JWKS file
+ */
+@Injectable()
+export class JwtVerifierService implements OnModuleInit {
+  private readonly logger = new Logger(JwtVerifierService.name);
+  private readonly authConfig: AuthConfig;
+  private jwks?: JsonWebKey[];
+
+  constructor(private readonly configService: ConfigService) {
+    this.authConfig = this.configService.get<AuthConfig>('auth');
+  }
+
+  onModuleInit(): void {
+    if (!this.isEnabled()) {
+      this.logger.warn('Authentication is disabled; every request is let through');
+      return;
+    }
+
+    const { algorithm, secret, publicKey, jwksFile } = this.authConfig;
+    if (!jwksFile && !(algorithm === 'HS256' ? secret : publicKey)) {
+      this.logger.error(`No ${algorithm === 'HS256' ? 'JWT_SECRET' : 'JWT_PUBLIC_KEY'} or JWT_JWKS_FILE configured; every token will be rejected`);
+    }
+
+    // Fail fast on unusable keys rather than rejecting every request later
+    if (jwksFile) {
+      this.loadJwks();
+    } else if (algorithm === 'RS256' && publicKey) {
+      createPublicKey(publicKey);
+    }
+  }
+
+  /**
+   * Whether tokens are checked at all
+   */
+  isEnabled(): boolean {
+    return !!this.authConfig?.enabled;
+  }
+
+  /**
+   * Verify signature, expiry, issuer and audience of a token and return its principal
+   */
+  verify(token: string): AuthenticatedUser {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new UnauthorizedException('Malformed token');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    const header = this.decodeSegment<JwtHeader>(encodedHeader);
+    const payload = this.decodeSegment<JwtPayload>(encodedPayload);
+
+    // The algorithm is fixed by configuration, never taken from the token
+    if (header.alg !== this.authConfig.algorithm) {
+      throw new UnauthorizedException(`Unsupported token algorithm: ${header.alg}`);
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+
+    if (!this.verifySignature(header, signingInput, signature)) {
+      throw new UnauthorizedException('Invalid token signature');
+    }
+
+    this.assertClaims(payload);
+
+    return {
+      id: payload.sub,
+      sub: payload.sub,
+      roles: this.extractRoles(payload),
+      authMethod: 'jwt',
+      claims: payload
+    };
+  }
+
+  private verifySignature(header: JwtHeader, signingInput: Buffer, signature: Buffer): boolean {
+    try {
+      if (this.authConfig.algorithm === 'HS256') {
+        const expected = createHmac('sha256', this.getHmacSecret(header.kid)).update(signingInput).digest();
+        return expected.length === signature.length && timingSafeEqual(expected, signature);
+      }
+
+      return verify('RSA-SHA256', signingInput, this.getPublicKey(header.kid), signature);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw error;
+      }
+
+      // The key could not be read or used: the token cannot be trusted, but it is not a server fault
+      this.logger.error(`Error verifying token signature: ${error.message}`, error.stack);
+      throw new UnauthorizedException('Token could not be verified');
+    }
+  }
+
+  private getHmacSecret(kid?: string): Buffer {
+    if (this.authConfig.jwksFile) {
+      return Buffer.from(this.findJwk('oct', kid).k, 'base64url');
+    }
+
+    if (!this.authConfig.secret) {
+      throw new UnauthorizedException('Token verification is not configured');
+    }
+
+    return Buffer.from(this.authConfig.secret);
+  }
+
+  private getPublicKey(kid?: string): KeyObject {
+    if (this.authConfig.jwksFile) {
+      return createPublicKey({ key: this.findJwk('RSA', kid), format: 'jwk' });
+    }
+
+    if (!this.authConfig.publicKey) {
+      throw new UnauthorizedException('Token verification is not configured');
+    }
+
+    return createPublicKey(this.authConfig.publicKey);
+  }
+
+  /**
+   * Signing key of the given type; a token without kid is accepted only when the set holds a single candidate
+   */
+  private findJwk(kty: string, kid?: string): JsonWebKey {
+    const candidates = this.loadJwks().filter(key => key.kty === kty && (!key.use || key.use === 'sig'));
+    const jwk = kid
+      ? candidates.find(key => key.kid === kid)
+      : candidates.length === 1 ? candidates[0] : undefined;
+
+    if (!jwk) {
+      throw new UnauthorizedException(`No signing key found for kid ${kid ?? '(none)'}`);
+    }
+
+    return jwk;
+  }
+
+  /**
+   * Read the JWKS file once and check every signing key in it can be used
+   * @throws Error when the file is missing, unreadable or holds no usable keys
+   */
+  private loadJwks(): JsonWebKey[] {
+    if (!this.jwks) {
+      try {
+        const jwks = JSON.parse(readFileSync(this.authConfig.jwksFile, 'utf8'));
+        if (!Array.isArray(jwks?.keys) || !jwks.keys.length) {
+          throw new Error('No keys found');
+        }
+
+        jwks.keys.forEach((key: JsonWebKey) => this.assertUsableJwk(key));
+        this.jwks = jwks.keys;
+      } catch (error) {
+        throw new Error(`Invalid JWKS file ${this.authConfig.jwksFile}: ${error.message}`);
+      }
+    }
+
+    return this.jwks;
+  }
+
+  private assertUsableJwk(key: JsonWebKey): void {
+    if (key?.kty === 'RSA') {
+      createPublicKey({ key, format: 'jwk' });
+    } else if (key?.kty === 'oct' && !key.k) {
+      throw new Error(`Key ${key.kid ?? '(no kid)'} has no value`);
+    }
+  }
+
+  private assertClaims(payload: JwtPayload): void {
+    const now = Math.floor(Date.now() / 1000);
+    const tolerance = this.authConfig.clockToleranceSeconds;
+
+    if (typeof payload.exp !== 'number') {
+      throw new UnauthorizedException('Token has no expiry');
+    }
+
+    if (now - tolerance >= payload.exp) {
+      throw new UnauthorizedException('Token has expired');
+    }
+
+    if (typeof payload.nbf === 'number' && payload.nbf > now + tolerance) {
+      throw new UnauthorizedException('Token is not yet valid');
+    }
+
+    if (this.authConfig.issuer && payload.iss !== this.authConfig.issuer) {
+      throw new UnauthorizedException('Token issuer is not accepted');
+    }
+
+    if (this.authConfig.audience.length) {
+      const audiences = [payload.aud ?? []].flat();
+      if (!audiences.some(audience => this.authConfig.audience.includes(audience))) {
+        throw new UnauthorizedException('Token audience is not accepted');
+      }
+    }
+
+    if (typeof payload.sub !== 'string' || !payload.sub) {
+      throw new UnauthorizedException('Token has no subject');
+    }
+  }
+
+  /**
+   * Known roles from the roles claim, given either as an array or a space/comma separated string
+   */
+  private extractRoles(payload: JwtPayload): Role[] {
+    const claim = payload[this.authConfig.rolesClaim];
+    const values: unknown[] = Array.isArray(claim)
+      ? claim
+      : typeof claim === 'string' ? claim.split(/[\s,]+/) : [];
+
+    return [...new Set(values)].filter((role): role is Role => typeof role === 'string' && KNOWN_ROLES.has(role));
+  }
+
+  private decodeSegment<T>(segment: string): T {
+    try {
+      const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      if (decoded && typeof decoded === 'object' && !Array.isArray(decoded)) {
+        return decoded;
+      }
+    } catch {
+      // Reported below
+    }
+
+    throw new UnauthorizedException('Malformed token');
+  }
+}
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheInvalidationService } from './cache-invalidation.service';
+import { CacheTagService } from './cache-tag.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+
+describe('CacheInvalidationService', () => {
+  let service: CacheInvalidationService;
+  let cacheTags: { invalidate: jest.Mock };
+  let cacheManager: { del: jest.Mock };
+  let kafkaProducerService: { isEnabled: jest.Mock; send: jest.Mock };
+
+  // Each call builds another process configured with the same group and instance name
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheInvalidationService,
+        { provide: CacheTagService, useValue: cacheTags },
+        { provide: CACHE_MANAGER, useValue: cacheManager },
+        { provide: KafkaProducerService, useValue: kafkaProducerService },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest
+              .fn()
+              .mockReturnValue({ groupId: 'test', instanceId: 'instance-a' }),
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<CacheInvalidationService>(CacheInvalidationService);
+  };
+
+  beforeEach(async () => {
+    cacheTags = { invalidate: jest.fn().mockResolvedValue(undefined) };
+    cacheManager = { del: jest.fn().mockResolvedValue(true) };
+    kafkaProducerService = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      send: jest.fn().mockResolvedValue([]),
+    };
+
+    service = await createService();
+  });
+
+  it('should evict locally and broadcast the invalidation', async () => {
+    await service.invalidate({
+      keys: ['gender:all'],
+      tags: ['tags:categories:list'],
+    });
+
+    expect(cacheManager.del).toHaveBeenCalledWith('gender:all');
+    expect(cacheTags.invalidate).toHaveBeenCalledWith(['tags:categories:list']);
+
+    const [topic, [message]] = kafkaProducerService.send.mock.calls[0];
+    expect(topic).toBe(KAFKA_TOPICS.EVENTS.CACHE_INVALIDATE);
+    expect(JSON.parse(message.value)).toMatchObject({
+      origin: service.getMetrics().instanceId,
+      keys: ['gender:all'],
+      tags: ['tags:categories:list'],
+    });
+  });
+
+  it('should skip invalidations published by this instance', async () => {
+    await service.handleMessage({
+      origin: service.getMetrics().instanceId,
+      keys: ['gender:all'],
+      tags: [],
+      publishedAt: new Date().toISOString(),
+    });
+
+    expect(cacheManager.del).not.toHaveBeenCalled();
+    expect(service.getMetrics()).toMatchObject({
+      received: 1,
+      skippedOwn: 1,
+      applied: 0,
+    });
+  });
+
+  it('should apply invalidations from other instances and record their lag', async () => {
+    await service.handleMessage({
+      origin: 'other-pod',
+      keys: ['gender:all'],
+      tags: ['tags:categories:list'],
+      publishedAt: new Date(Date.now() - 250).toISOString(),
+    });
+
+    expect(cacheManager.del).toHaveBeenCalledWith('gender:all');
+    expect(cacheTags.invalidate).toHaveBeenCalledWith(['tags:categories:list']);
+    expect(kafkaProducerService.send).not.toHaveBeenCalled();
+
+    const metrics = service.getMetrics();
+    expect(metrics.applied).toBe(1);
+    expect(metrics.lastLagMs).toBeGreaterThanOrEqual(250);
+    expect(metrics.averageLagMs).toBe(metrics.lastLagMs);
+  });
+
+  it('should apply invalidations from a replica configured with the same name', async () => {
+    const replica = await createService();
+
+    await replica.invalidate({ keys: ['gender:all'] });
+    const [, [message]] = kafkaProducerService.send.mock.calls[0];
+    cacheManager.del.mockClear();
+
+    await service.handleMessage(JSON.parse(message.value));
+
+    expect(replica.getMetrics().instanceId).not.toBe(
+      service.getMetrics().instanceId,
+    );
+    expect(cacheManager.del).toHaveBeenCalledWith('gender:all');
+    expect(service.getMetrics()).toMatchObject({ skippedOwn: 0, applied: 1 });
+  });
+});
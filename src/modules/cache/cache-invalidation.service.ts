@@ -0,0 +1,214 @@
+/* eslint-disable prettier/prettier */
+import { Inject, Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Consumer, EachMessagePayload } from 'kafkajs';
+import { randomBytes } from 'crypto';
+import { hostname } from 'os';
+import { CacheTagService } from './cache-tag.service';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { createKafkaClient } from '../kafka/kafka-client';
+import { KafkaConfig } from '../../config/kafka.config';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+
+export interface CacheInvalidation {
+  keys?: string[];
+  tags?: string[];
+}
+
+// Message value published on KAFKA_TOPICS.EVENTS.CACHE_INVALIDATE
+export interface CacheInvalidationMessage {
+  origin: string; // instance that made the write
+  keys: string[];
+  tags: string[];
+  publishedAt: string;
+}
+
+export interface CacheInvalidationMetrics {
+  instanceId: string;
+  consuming: boolean;
+  published: number;
+  publishFailures: number;
+  received: number;
+  skippedOwn: number;
+  applied: number;
+  failed: number;
+  lastLagMs: number | null;
+  maxLagMs: number | null;
+  averageLagMs: number | null;
+}
+
+/**
+ * Evicts cache entries on this instance and broadcasts the eviction to every other instance over Kafka,
+ * so replicas with their own cache store do not keep serving data another replica has changed
+ */
+@Injectable()
+export class CacheInvalidationService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(CacheInvalidationService.name);
+  private readonly instanceId: string;
+  private readonly kafkaConfig?: KafkaConfig;
+  private consumer?: Consumer;
+  private totalLagMs = 0;
+  private lagSamples = 0;
+
+  private readonly metrics: CacheInvalidationMetrics = {
+    instanceId: undefined,
+    consuming: false,
+    published: 0,
+    publishFailures: 0,
+    received: 0,
+    skippedOwn: 0,
+    applied: 0,
+    failed: 0,
+    lastLagMs: null,
+    maxLagMs: null,
+    averageLagMs: null
+  };
+
+  constructor(
+    private readonly cacheTags: CacheTagService,
+    private readonly kafkaProducerService: KafkaProducerService,
+    private readonly configService: ConfigService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache
+  ) {
+    this.kafkaConfig = this.configService.get<KafkaConfig>('kafka');
+    // Unique per process: replicas sharing a name would otherwise share one consumer group
+    // and skip each other's messages as their own
+    this.instanceId = `${this.kafkaConfig?.instanceId || hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`;
+    this.metrics.instanceId = this.instanceId;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    if (!this.kafkaProducerService.isEnabled()) {
+      this.logger.log('Kafka is disabled; cache invalidations stay local to this instance');
+      return;
+    }
+
+    try {
+      // A consumer group per process, so every process receives every invalidation. It commits no
+      // offsets: a process only needs the invalidations published while it is running, and the broker
+      // drops a group without offsets once its member leaves.
+      const consumer = createKafkaClient(this.kafkaConfig).consumer({
+        groupId: `${this.kafkaConfig.groupId}-cache-${this.instanceId}`,
+        sessionTimeout: this.kafkaConfig.sessionTimeout,
+        heartbeatInterval: this.kafkaConfig.heartbeatInterval,
+        allowAutoTopicCreation: this.kafkaConfig.allowAutoTopicCreation
+      });
+
+      await consumer.connect();
+      await consumer.subscribe({ topics: [KAFKA_TOPICS.EVENTS.CACHE_INVALIDATE], fromBeginning: false });
+      await consumer.run({ autoCommit: false, eachMessage: payload => this.consume(payload) });
+
+      this.consumer = consumer;
+      this.metrics.consuming = true;
+      this.logger.log(`Consuming cache invalidations as ${this.instanceId}`);
+    } catch (error) {
+      this.logger.error(`Failed to start cache invalidation consumer: ${error.message}`, error.stack);
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.consumer) {
+      return;
+    }
+
+    try {
+      await this.consumer.disconnect();
+    } catch (error) {
+      this.logger.warn(`Failed to disconnect cache invalidation consumer: ${error.message}`);
+    } finally {
+      this.consumer = undefined;
+      this.metrics.consuming = false;
+    }
+  }
+
+  /**
+   * Evict keys and tags locally, then tell the other instances to do the same
+   */
+  async invalidate(invalidation: CacheInvalidation): Promise<void> {
+    const keys = [...new Set(invalidation.keys ?? [])];
+    const tags = [...new Set(invalidation.tags ?? [])];
+
+    if (!keys.length && !tags.length) {
+      return;
+    }
+
+    await this.evict(keys, tags);
+
+    if (this.kafkaProducerService.isEnabled()) {
+      // Not awaited: a slow or unavailable broker must not hold up the write that triggered it
+      void this.broadcast({ origin: this.instanceId, keys, tags, publishedAt: new Date().toISOString() });
+    }
+  }
+
+  /**
+   * Apply an invalidation published by another instance
+   */
+  async handleMessage(message: CacheInvalidationMessage): Promise<void> {
+    this.metrics.received++;
+
+    if (message.origin === this.instanceId) {
+      this.metrics.skippedOwn++;
+      return;
+    }
+
+    await this.evict(this.asStrings(message.keys), this.asStrings(message.tags));
+    this.metrics.applied++;
+    this.recordLag(Date.now() - Date.parse(message.publishedAt));
+  }
+
+  /**
+   * Counters and lag (time from publish to local eviction) of cross-instance invalidations
+   */
+  getMetrics(): CacheInvalidationMetrics {
+    return { ...this.metrics };
+  }
+
+  private async consume({ message }: EachMessagePayload): Promise<void> {
+    try {
+      await this.handleMessage(JSON.parse(message.value?.toString() ?? ''));
+    } catch (error) {
+      // A bad message is dropped rather than blocking the partition
+      this.metrics.failed++;
+      this.logger.warn(`Failed to apply cache invalidation: ${error.message}`);
+    }
+  }
+
+  private async broadcast(message: CacheInvalidationMessage): Promise<void> {
+    try {
+      await this.kafkaProducerService.send(KAFKA_TOPICS.EVENTS.CACHE_INVALIDATE, [
+        { value: JSON.stringify(message) }
+      ]);
+      this.metrics.published++;
+    } catch (error) {
+      this.metrics.publishFailures++;
+      this.logger.warn(`Failed to broadcast cache invalidation: ${error.message}`);
+    }
+  }
+
+  private async evict(keys: string[], tags: string[]): Promise<void> {
+    await Promise.all([
+      tags.length ? this.cacheTags.invalidate(tags) : Promise.resolve(),
+      Promise.allSettled(keys.map(key => this.cacheManager.del(key)))
+    ]);
+  }
+
+  private recordLag(lagMs: number): void {
+    if (!Number.isFinite(lagMs)) {
+      return;
+    }
+
+    // Clocks of different hosts may disagree slightly; a negative lag counts as none
+    const lag = Math.max(lagMs, 0);
+    this.totalLagMs += lag;
+    this.lagSamples++;
+    this.metrics.lastLagMs = lag;
+    this.metrics.maxLagMs = Math.max(this.metrics.maxLagMs ?? 0, lag);
+    this.metrics.averageLagMs = Math.round(this.totalLagMs / this.lagSamples);
+  }
+
+  private asStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  }
+}
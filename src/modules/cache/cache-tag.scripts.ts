@@ -0,0 +1,38 @@
+/* eslint-disable prettier/prettier */
+
+/**
+ * Tag index steps. Each tag is a Redis set of the cache keys registered under it, shared by every
+ * replica; the scripts keep each step atomic. InMemoryRedisClient implements the same steps.
+ */
+
+/**
+ * Add a cache key to the tag sets. A set never expires before its longest-lived member.
+ * KEYS tag sets; ARGV[1] cache key, ARGV[2] the key's TTL in ms.
+ * Returns the number of tag sets written.
+ */
+export const TAG_ADD_SCRIPT = `
+local ttl = tonumber(ARGV[2])
+for _, key in ipairs(KEYS) do
+  redis.call('SADD', key, ARGV[1])
+  if redis.call('PTTL', key) < ttl then
+    redis.call('PEXPIRE', key, ttl)
+  end
+end
+return #KEYS
+`;
+
+/**
+ * Remove the tag sets and return their members, so a key cached under a tag while it is being
+ * invalidated lands in a new set instead of being lost.
+ * KEYS tag sets. Returns the cache keys registered under any of them.
+ */
+export const TAG_TAKE_SCRIPT = `
+local members = {}
+for _, key in ipairs(KEYS) do
+  for _, member in ipairs(redis.call('SMEMBERS', key)) do
+    table.insert(members, member)
+  end
+  redis.call('DEL', key)
+end
+return members
+`;
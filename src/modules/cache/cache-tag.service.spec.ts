@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheTagService } from './cache-tag.service';
+import { InMemoryRedisClient } from './in-memory-redis.client';
+import { REDIS_CLIENT } from './redis-client';
+
+describe('CacheTagService', () => {
+  let store: Map<string, any>;
+  let client: InMemoryRedisClient;
+
+  // Each call builds a separate instance on the same store, like another replica
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheTagService,
+        {
+          provide: CACHE_MANAGER,
+          useValue: {
+            get: jest.fn(async (key: string) => store.get(key)),
+            set: jest.fn(async (key: string, value: any) =>
+              store.set(key, value),
+            ),
+            del: jest.fn(async (key: string) => store.delete(key)),
+          },
+        },
+        { provide: REDIS_CLIENT, useValue: client },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ keyPrefix: 'test:' }) },
+        },
+      ],
+    }).compile();
+
+    return module.get<CacheTagService>(CacheTagService);
+  };
+
+  beforeEach(() => {
+    store = new Map();
+    client = new InMemoryRedisClient();
+  });
+
+  it('should evict parameterised keys registered under a tag', async () => {
+    const service = await createService();
+
+    await Promise.all([
+      service.set('categories:all:page:1', ['a'], 300, ['tags:list']),
+      service.set('categories:all:page:2', ['b'], 300, ['tags:list']),
+      service.set('categories:id:id:1', { id: 1 }, 600, ['tags:id:1']),
+    ]);
+
+    await service.invalidate(['tags:list']);
+
+    expect(store.has('categories:all:page:1')).toBe(false);
+    expect(store.has('categories:all:page:2')).toBe(false);
+    expect(await client.get('test:tags:list')).toBeNull();
+    expect(store.get('categories:id:id:1')).toEqual({ id: 1 });
+  });
+
+  it('should evict keys cached under a tag by every instance', async () => {
+    const [first, second] = await Promise.all([
+      createService(),
+      createService(),
+    ]);
+
+    await Promise.all([
+      first.set('categories:all:page:1', ['a'], 300, ['tags:list']),
+      second.set('categories:all:page:2', ['b'], 300, ['tags:list']),
+    ]);
+
+    await first.invalidate(['tags:list']);
+
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+/* eslint-disable prettier/prettier */
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { REDIS_CLIENT, RedisCacheConfig, RedisCommandClient } from './redis-client';
+import { TAG_ADD_SCRIPT, TAG_TAKE_SCRIPT } from './cache-tag.scripts';
+
+/**
+ * Tagging layer over the module cache. Entries are written together with the tags they belong to,
+ * and evicting a tag deletes every key registered under it, whatever parameters the key was built from.
+ * Each tag is a set in the shared Redis store, so every replica adds to and evicts the same members.
+ */
+@Injectable()
+export class CacheTagService {
+  private readonly logger = new Logger(CacheTagService.name);
+  private readonly keyPrefix: string;
+
+  constructor(
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache,
+    @Inject(REDIS_CLIENT) private readonly client: RedisCommandClient,
+    configService: ConfigService
+  ) {
+    this.keyPrefix = configService.get<RedisCacheConfig>('redis')?.keyPrefix ?? '';
+  }
+
+  /**
+   * Cache a value and register its key under the given tags
+   * @param ttl - Time to live in milliseconds, as for cache-manager
+   */
+  async set<T>(key: string, value: T, ttl: number, tags: string[]): Promise<void> {
+    try {
+      await this.cacheManager.set(key, value, ttl);
+
+      const uniqueTags = [...new Set(tags)];
+      if (uniqueTags.length) {
+        await this.client.eval(TAG_ADD_SCRIPT, {
+          keys: uniqueTags.map(tag => this.keyPrefix + tag),
+          arguments: [key, String(Math.ceil(ttl))]
+        });
+      }
+    } catch (error) {
+      this.logger.warn(`Error caching ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete every entry registered under any of the tags
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    try {
+      const uniqueTags = [...new Set(tags)];
+      if (!uniqueTags.length) {
+        return;
+      }
+
+      const keys = await this.client.eval(TAG_TAKE_SCRIPT, {
+        keys: uniqueTags.map(tag => this.keyPrefix + tag),
+        arguments: []
+      }) as string[];
+
+      await Promise.allSettled(
+        [...new Set(keys)].map(key => this.cacheManager.del(key))
+      );
+    } catch (error) {
+      this.logger.warn(`Error invalidating cache tags: ${error.message}`);
+    }
+  }
+}
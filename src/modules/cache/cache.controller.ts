@@ -0,0 +1,23 @@
+/* eslint-disable prettier/prettier */
+import { Controller, Get, UseInterceptors } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { CacheInvalidationMetrics, CacheInvalidationService } from './cache-invalidation.service';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+
+@ApiTags('Cache')
+@Controller('cache')
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+export class CacheController {
+  constructor(private readonly cacheInvalidationService: CacheInvalidationService) {}
+
+  @Get('invalidation/metrics')
+  @ApiOperation({
+    summary: 'Get cache invalidation metrics',
+    description: 'Counters of invalidations this instance broadcast and received over Kafka, and the lag between another instance publishing an invalidation and this instance evicting it'
+  })
+  @ApiResponse({ status: 200, description: 'Invalidation metrics of this instance' })
+  getInvalidationMetrics(): CacheInvalidationMetrics {
+    return this.cacheInvalidationService.getMetrics();
+  }
+}
@@ -0,0 +1,74 @@
+/* eslint-disable prettier/prettier */
+import { Global, Inject, Module, OnApplicationShutdown } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheModule } from '@nestjs/cache-manager';
+import { CacheService } from './cache.service';
+import { CacheTagService } from './cache-tag.service';
+import { CacheInvalidationService } from './cache-invalidation.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { CacheController } from './cache.controller';
+import { RedisKeyvStore } from './redis-keyv.store';
+import { KafkaModule } from '../kafka/kafka.module';
+import { createRedisClient, REDIS_CLIENT, RedisCacheConfig, RedisCommandClient } from './redis-client';
+
+// One connection shared by cache-manager, CacheService and the rate limiter
+const redisClientProvider = {
+  provide: REDIS_CLIENT,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService) => createRedisClient(configService.get<RedisCacheConfig>('redis'))
+};
+
+@Module({
+  providers: [redisClientProvider],
+  exports: [redisClientProvider]
+})
+class RedisClientModule {}
+
+/**
+ * Shared cache store for every feature module: Redis when REDIS_URL is configured, in-memory otherwise.
+ * Evictions made through CacheInvalidationService are broadcast to the other instances over Kafka.
+ */
+@Global()
+@Module({
+  imports: [
+    RedisClientModule,
+    CacheModule.registerAsync({
+      imports: [RedisClientModule],
+      inject: [REDIS_CLIENT, ConfigService],
+      useFactory: (client: RedisCommandClient, configService: ConfigService) => {
+        const config = configService.get<RedisCacheConfig>('redis');
+
+        return {
+          stores: [new RedisKeyvStore(client, config?.keyPrefix)],
+          namespace: 'cache',
+          ttl: (config?.defaultTtl ?? 3600) * 1000 // cache-manager TTLs are in milliseconds
+        };
+      }
+    }),
+    KafkaModule,
+  ],
+  controllers: [
+    CacheController
+  ],
+  providers: [
+    CacheService,
+    CacheTagService,
+    CacheInvalidationService,
+    RateLimiterService
+  ],
+  exports: [
+    RedisClientModule,
+    CacheModule,
+    CacheService,
+    CacheTagService,
+    CacheInvalidationService,
+    RateLimiterService
+  ]
+})
+export class SharedCacheModule implements OnApplicationShutdown {
+  constructor(@Inject(REDIS_CLIENT) private readonly client: RedisCommandClient) {}
+
+  async onApplicationShutdown(): Promise<void> {
+    await this.client.close();
+  }
+}
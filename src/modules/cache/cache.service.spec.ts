@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { REDIS_CLIENT } from './redis-client';
+import { InMemoryRedisClient } from './in-memory-redis.client';
+import { RedisKeyvStore } from './redis-keyv.store';
+
+describe('CacheService', () => {
+  let service: CacheService;
+  let client: InMemoryRedisClient;
+
+  beforeEach(async () => {
+    client = new InMemoryRedisClient();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CacheService,
+        { provide: REDIS_CLIENT, useValue: client },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ keyPrefix: 'test:' }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CacheService>(CacheService);
+  });
+
+  it('should store values under the configured key prefix', async () => {
+    await service.set('greeting', 'hello', 60);
+
+    expect(await service.get('greeting')).toBe('hello');
+    expect(await client.get('test:greeting')).toBe('hello');
+  });
+
+  it('should count within a window that starts on the first increment', async () => {
+    await service.increment('rate_limit:1.2.3.4:/categories', 60);
+    const { count, ttlMs } = await service.increment(
+      'rate_limit:1.2.3.4:/categories',
+      60,
+    );
+
+    expect(count).toBe(2);
+    expect(ttlMs).toBeGreaterThan(59000);
+    expect(ttlMs).toBeLessThanOrEqual(60000);
+  });
+
+  it('should clear only the cache-manager namespace', async () => {
+    const store = new RedisKeyvStore(client, 'test:');
+    store.namespace = 'cache';
+
+    await store.set('cache:categories:all', '{"value":[]}', 1000);
+    await client.set('test:rate_limit:x', '1');
+    await store.clear();
+
+    expect(await store.get('cache:categories:all')).toBeUndefined();
+    expect(await client.get('test:rate_limit:x')).toBe('1');
+  });
+});
@@ -1,21 +1,58 @@
 /* eslint-disable prettier/prettier */
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT, RedisCacheConfig, RedisCommandClient } from './redis-client';
 
+/**
+ * String cache and counters on the shared Redis store (or its in-memory stand-in),
+ * so every replica sees the same values
+ */
 @Injectable()
 export class CacheService {
-  private cache: Map<string, { value: string; expiresAt: number }> = new Map();
+  private readonly logger = new Logger(CacheService.name);
+  private readonly keyPrefix: string;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly client: RedisCommandClient,
+    configService: ConfigService
+  ) {
+    this.keyPrefix = configService.get<RedisCacheConfig>('redis')?.keyPrefix ?? '';
+  }
 
   async get(key: string): Promise<string | undefined> {
-    const entry = this.cache.get(key);
-    if (entry && entry.expiresAt > Date.now()) {
-      return entry.value;
+    try {
+      return (await this.client.get(this.keyPrefix + key)) ?? undefined;
+    } catch (error) {
+      this.logger.warn(`Error reading ${key}: ${error.message}`);
+      return undefined;
     }
-    this.cache.delete(key);
-    return undefined;
   }
 
   async set(key: string, value: string, ttlSeconds: number): Promise<void> {
-    const expiresAt = Date.now() + ttlSeconds * 1000;
-    this.cache.set(key, { value, expiresAt });
+    try {
+      await this.client.set(this.keyPrefix + key, value, { expiration: { type: 'PX', value: Math.ceil(ttlSeconds * 1000) } });
+    } catch (error) {
+      this.logger.warn(`Error writing ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Atomically increment a counter that expires windowSeconds after its first increment
+   * @returns The new count and the milliseconds left in the window
+   */
+  async increment(key: string, windowSeconds: number): Promise<{ count: number; ttlMs: number }> {
+    const prefixedKey = this.keyPrefix + key;
+    const windowMs = Math.ceil(windowSeconds * 1000);
+
+    const count = await this.client.incr(prefixedKey);
+    let ttlMs = await this.client.pTTL(prefixedKey);
+
+    // The first increment starts the window; a counter left without expiry is repaired the same way
+    if (count === 1 || ttlMs < 0) {
+      await this.client.pExpire(prefixedKey, windowMs);
+      ttlMs = windowMs;
+    }
+
+    return { count, ttlMs };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,181 @@
+/* eslint-disable prettier/prettier */
+import type { RedisCommandClient } from './redis-client';
+import { SLIDING_WINDOW_SCRIPT, TOKEN_BUCKET_SCRIPT } from './rate-limit.scripts';
+import { TAG_ADD_SCRIPT, TAG_TAKE_SCRIPT } from './cache-tag.scripts';
+
+/**
+ * Process-local stand-in for the Redis commands used by the cache layer.
+ * Used when REDIS_URL is not configured and in tests; entries are not shared between instances.
+ */
+export class InMemoryRedisClient implements RedisCommandClient {
+  private readonly entries = new Map<string, { value: string; expiresAt?: number }>();
+
+  constructor(private readonly maxEntries = 10000) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.read(key)?.value ?? null;
+  }
+
+  async set(key: string, value: string, options?: { expiration: { type: 'PX'; value: number } }): Promise<'OK'> {
+    this.entries.delete(key);
+    this.evictIfFull();
+    this.entries.set(key, {
+      value,
+      ...(options?.expiration && { expiresAt: Date.now() + options.expiration.value })
+    });
+    return 'OK';
+  }
+
+  async del(keys: string | string[]): Promise<number> {
+    return [keys].flat().filter(key => this.read(key) && this.entries.delete(key)).length;
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.read(key);
+    const value = Number(entry?.value ?? 0) + 1;
+
+    // Like Redis, incrementing keeps the key's expiry
+    this.entries.set(key, { value: String(value), expiresAt: entry?.expiresAt });
+    return value;
+  }
+
+  async pExpire(key: string, milliseconds: number): Promise<number> {
+    const entry = this.read(key);
+    if (!entry) {
+      return 0;
+    }
+
+    entry.expiresAt = Date.now() + milliseconds;
+    return 1;
+  }
+
+  async pTTL(key: string): Promise<number> {
+    const entry = this.read(key);
+    if (!entry) {
+      return -2;
+    }
+
+    return entry.expiresAt === undefined ? -1 : entry.expiresAt - Date.now();
+  }
+
+  async *scanIterator(options: { MATCH: string; COUNT?: number }): AsyncIterable<string[]> {
+    // Only the trailing-* patterns used by the cache store are supported
+    const prefix = options.MATCH.replace(/\*$/, '');
+    yield Array.from(this.entries.keys()).filter(key => key.startsWith(prefix) && this.read(key));
+  }
+
+  async eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown> {
+    const [key] = options.keys;
+    const [first, second] = options.arguments.map(Number);
+
+    // Only the scripts used by the cache layer are supported; each runs without yielding, so it is atomic
+    switch (script) {
+      case SLIDING_WINDOW_SCRIPT:
+        return this.slidingWindow(key, first, second);
+      case TOKEN_BUCKET_SCRIPT:
+        return this.tokenBucket(key, first, second);
+      case TAG_ADD_SCRIPT:
+        return this.addToTags(options.keys, options.arguments[0], second);
+      case TAG_TAKE_SCRIPT:
+        return this.takeTags(options.keys);
+      default:
+        throw new Error('Unsupported script');
+    }
+  }
+
+  async ping(): Promise<string> {
+    return 'PONG';
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  // Drop expired entries, then the least recently written ones, like an allkeys-lru Redis
+  private evictIfFull(): void {
+    if (this.entries.size < this.maxEntries) {
+      return;
+    }
+
+    Array.from(this.entries.keys()).forEach(key => this.read(key));
+    for (const key of this.entries.keys()) {
+      if (this.entries.size < this.maxEntries) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+
+  private slidingWindow(key: string, limit: number, window: number): number[] {
+    const now = Date.now();
+    const index = Math.floor(now / window);
+    const currentKey = `${key}:${index}`;
+    const elapsed = now - index * window;
+    const previous = Number(this.read(`${key}:${index - 1}`)?.value ?? 0);
+    let current = Number(this.read(currentKey)?.value ?? 0);
+
+    if ((previous * (window - elapsed)) / window + current >= limit) {
+      return [0, current, previous, elapsed];
+    }
+
+    current += 1;
+    this.evictIfFull();
+    this.entries.set(currentKey, { value: String(current), expiresAt: now + window * 2 });
+    return [1, current, previous, elapsed];
+  }
+
+  private tokenBucket(key: string, capacity: number, interval: number): number[] {
+    const now = Date.now();
+    const [stored, updatedAt] = (this.read(key)?.value.split(':') ?? []).map(Number);
+    let tokens = stored === undefined ? capacity : Math.min(capacity, stored + (now - updatedAt) / interval);
+
+    const allowed = tokens >= 1;
+    const retryMs = allowed ? 0 : Math.ceil((1 - tokens) * interval);
+    if (allowed) {
+      tokens -= 1;
+    }
+
+    const fullMs = Math.ceil((capacity - tokens) * interval);
+    this.entries.delete(key);
+    this.evictIfFull();
+    this.entries.set(key, { value: `${tokens}:${now}`, expiresAt: now + fullMs + 1000 });
+    return [allowed ? 1 : 0, Math.floor(tokens), retryMs, fullMs];
+  }
+
+  // Tag sets are stored as JSON arrays of their members
+  private addToTags(keys: string[], member: string, ttl: number): number {
+    const now = Date.now();
+
+    keys.forEach(key => {
+      const entry = this.read(key);
+      const members = new Set<string>(entry ? JSON.parse(entry.value) : []);
+      members.add(member);
+
+      this.entries.delete(key);
+      this.evictIfFull();
+      this.entries.set(key, {
+        value: JSON.stringify(Array.from(members)),
+        expiresAt: Math.max(entry?.expiresAt ?? 0, now + ttl)
+      });
+    });
+    return keys.length;
+  }
+
+  private takeTags(keys: string[]): string[] {
+    return keys.flatMap(key => {
+      const entry = this.read(key);
+      this.entries.delete(key);
+      return entry ? JSON.parse(entry.value) : [];
+    });
+  }
+
+  private read(key: string): { value: string; expiresAt?: number } | undefined {
+    const entry = this.entries.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,61 @@
+/* eslint-disable prettier/prettier */
+
+/**
+ * Rate limiting steps that must read and write their counters atomically. Both run against
+ * Redis server time so every replica agrees on window boundaries; InMemoryRedisClient
+ * implements the same steps for the in-memory store.
+ */
+
+/**
+ * Sliding window counter: the previous fixed window's count, weighted by how much of it still
+ * overlaps the sliding window, plus the current window's count. Only allowed requests are counted.
+ * KEYS[1] bucket; ARGV[1] limit, ARGV[2] window ms.
+ * Returns { allowed, current count, previous count, ms elapsed in the current window }.
+ */
+export const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local index = math.floor(now / window)
+local currentKey = KEYS[1] .. ':' .. index
+local current = tonumber(redis.call('GET', currentKey) or '0')
+local previous = tonumber(redis.call('GET', KEYS[1] .. ':' .. (index - 1)) or '0')
+local elapsed = now - index * window
+local allowed = 0
+if previous * (window - elapsed) / window + current < limit then
+  current = redis.call('INCR', currentKey)
+  redis.call('PEXPIRE', currentKey, window * 2)
+  allowed = 1
+end
+return { allowed, current, previous, elapsed }
+`;
+
+/**
+ * Token bucket: holds up to ARGV[1] tokens and refills one every ARGV[2] ms; a request takes one.
+ * The bucket is stored as "<tokens>:<updated at ms>" under KEYS[1].
+ * Returns { allowed, whole tokens left, ms until a token is available, ms until the bucket is full }.
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local capacity = tonumber(ARGV[1])
+local interval = tonumber(ARGV[2])
+local tokens = capacity
+local state = redis.call('GET', KEYS[1])
+if state then
+  local stored, updatedAt = string.match(state, '^([^:]+):([^:]+)$')
+  tokens = math.min(capacity, tonumber(stored) + (now - tonumber(updatedAt)) / interval)
+end
+local allowed = 0
+local retryMs = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retryMs = math.ceil((1 - tokens) * interval)
+end
+local fullMs = math.ceil((capacity - tokens) * interval)
+redis.call('SET', KEYS[1], tokens .. ':' .. now, 'PX', fullMs + 1000)
+return { allowed, math.floor(tokens), retryMs, fullMs }
+`;
@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { RateLimiterService } from './rate-limiter.service';
+import { REDIS_CLIENT } from './redis-client';
+import { InMemoryRedisClient } from './in-memory-redis.client';
+import { RateLimitAlgorithm } from '../../common/enums/rate-limit-algorithm.enum';
+
+describe('RateLimiterService', () => {
+  let service: RateLimiterService;
+  let now: number;
+
+  beforeEach(async () => {
+    // Start at the beginning of a minute so fixed windows line up with the test's clock
+    now = 60000 * 29000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimiterService,
+        { provide: REDIS_CLIENT, useValue: new InMemoryRedisClient() },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ keyPrefix: 'test:' }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RateLimiterService>(RateLimiterService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should weigh the previous window into the sliding window', async () => {
+    const policy = {
+      algorithm: RateLimitAlgorithm.SLIDING_WINDOW,
+      limit: 2,
+      windowMs: 60000,
+    };
+
+    await service.consume('rate_limit:api:ip:1.2.3.4', policy);
+    const second = await service.consume('rate_limit:api:ip:1.2.3.4', policy);
+    expect(second).toMatchObject({ allowed: true, remaining: 0 });
+
+    const rejected = await service.consume('rate_limit:api:ip:1.2.3.4', policy);
+    expect(rejected.allowed).toBe(false);
+    expect(rejected.retryAfterMs).toBe(60001);
+
+    // At the start of the next window both previous requests still count in full
+    now += 60000;
+    expect(
+      (await service.consume('rate_limit:api:ip:1.2.3.4', policy)).allowed,
+    ).toBe(false);
+
+    // A quarter in, a quarter of them has slid out
+    now += 15000;
+    expect(
+      await service.consume('rate_limit:api:ip:1.2.3.4', policy),
+    ).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('should allow bursts up to the bucket capacity and then refill steadily', async () => {
+    const policy = {
+      algorithm: RateLimitAlgorithm.TOKEN_BUCKET,
+      limit: 6,
+      windowMs: 60000,
+      burst: 3,
+    };
+
+    for (let i = 0; i < 3; i++) {
+      expect(
+        (await service.consume('rate_limit:bulk:user:1', policy)).allowed,
+      ).toBe(true);
+    }
+
+    const rejected = await service.consume('rate_limit:bulk:user:1', policy);
+    expect(rejected).toMatchObject({
+      allowed: false,
+      limit: 3,
+      remaining: 0,
+      retryAfterMs: 10000,
+      resetMs: 30000,
+    });
+
+    now += 10000;
+    expect(
+      (await service.consume('rate_limit:bulk:user:1', policy)).allowed,
+    ).toBe(true);
+  });
+});
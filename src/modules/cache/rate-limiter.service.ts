@@ -0,0 +1,105 @@
+/* eslint-disable prettier/prettier */
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT, RedisCacheConfig, RedisCommandClient } from './redis-client';
+import { SLIDING_WINDOW_SCRIPT, TOKEN_BUCKET_SCRIPT } from './rate-limit.scripts';
+import { RateLimitAlgorithm } from '../../common/enums/rate-limit-algorithm.enum';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  limit: number;
+  windowMs: number;
+  /** Token bucket capacity; defaults to limit */
+  burst?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Requests allowed per window, or the bucket capacity */
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the full limit is available again */
+  resetMs: number;
+  /** Milliseconds until a rejected request may be retried */
+  retryAfterMs: number;
+}
+
+/**
+ * Sliding window and token bucket limiters on the shared Redis store, so every replica
+ * enforces the same limit
+ */
+@Injectable()
+export class RateLimiterService {
+  private readonly logger = new Logger(RateLimiterService.name);
+  private readonly keyPrefix: string;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly client: RedisCommandClient,
+    configService: ConfigService
+  ) {
+    this.keyPrefix = configService.get<RedisCacheConfig>('redis')?.keyPrefix ?? '';
+  }
+
+  /**
+   * Count a request against the bucket, unless the limit has been reached
+   */
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    try {
+      return policy.algorithm === RateLimitAlgorithm.TOKEN_BUCKET
+        ? await this.takeToken(key, policy)
+        : await this.countInSlidingWindow(key, policy);
+    } catch (error) {
+      this.logger.error(`Error applying rate limit ${key}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private async countInSlidingWindow(key: string, { limit, windowMs }: RateLimitPolicy): Promise<RateLimitResult> {
+    const [allowed, current, previous, elapsed] = await this.run(SLIDING_WINDOW_SCRIPT, key, [limit, windowMs]);
+    const remainingInWindow = windowMs - elapsed;
+    const weighted = (previous * remainingInWindow) / windowMs + current;
+
+    // The current window's requests keep counting, fading out, until the end of the next window
+    const resetMs = current > 0 ? remainingInWindow + windowMs : previous > 0 ? remainingInWindow : 0;
+
+    let retryAfterMs = 0;
+    if (!allowed) {
+      retryAfterMs = current >= limit
+        // Wait for the next window, then until enough of this one has slid out
+        ? remainingInWindow + windowMs * (1 - limit / current)
+        // Wait until enough of the previous window has slid out
+        : remainingInWindow - ((limit - current) * windowMs) / previous;
+    }
+
+    return {
+      allowed: allowed === 1,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - weighted)),
+      resetMs,
+      // A request is allowed only once the weighted count drops below the limit, hence the extra millisecond
+      retryAfterMs: allowed ? 0 : Math.floor(retryAfterMs) + 1
+    };
+  }
+
+  private async takeToken(key: string, { limit, windowMs, burst }: RateLimitPolicy): Promise<RateLimitResult> {
+    const capacity = burst ?? limit;
+    const [allowed, tokens, retryAfterMs, fullMs] = await this.run(TOKEN_BUCKET_SCRIPT, key, [capacity, windowMs / limit]);
+
+    return {
+      allowed: allowed === 1,
+      limit: capacity,
+      remaining: tokens,
+      resetMs: fullMs,
+      retryAfterMs
+    };
+  }
+
+  private async run(script: string, key: string, args: number[]): Promise<number[]> {
+    const reply = await this.client.eval(script, {
+      keys: [this.keyPrefix + key],
+      arguments: args.map(String)
+    });
+
+    return (reply as unknown[]).map(Number);
+  }
+}
@@ -0,0 +1,68 @@
+/* eslint-disable prettier/prettier */
+import { Logger } from '@nestjs/common';
+import { createClient } from 'redis';
+import { redisConfig, RedisConnectionService } from '../../config/redis.config';
+import { InMemoryRedisClient } from './in-memory-redis.client';
+
+export const REDIS_CLIENT = 'REDIS_CLIENT';
+
+export type RedisCacheConfig = ReturnType<typeof redisConfig>;
+
+/**
+ * The Redis commands the cache layer relies on. Implemented by the node-redis client
+ * and by InMemoryRedisClient, which stands in when REDIS_URL is not set and in tests.
+ */
+export interface RedisCommandClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { expiration: { type: 'PX'; value: number } }): Promise<unknown>;
+  del(keys: string | string[]): Promise<number>;
+  incr(key: string): Promise<number>;
+  pExpire(key: string, milliseconds: number): Promise<number>;
+  pTTL(key: string): Promise<number>;
+  scanIterator(options: { MATCH: string; COUNT?: number }): AsyncIterable<string[]>;
+  eval(script: string, options: { keys: string[]; arguments: string[] }): Promise<unknown>;
+  ping(): Promise<string>;
+  close(): Promise<void>;
+}
+
+const logger = new Logger('RedisClient');
+
+/**
+ * Connect to Redis when REDIS_URL is configured, otherwise return the in-memory stand-in
+ */
+export async function createRedisClient(config: RedisCacheConfig): Promise<RedisCommandClient> {
+  if (!config?.redisUrl) {
+    logger.warn('REDIS_URL is not set; using an in-memory cache store local to this instance');
+    return new InMemoryRedisClient();
+  }
+
+  if (config.enableCluster) {
+    logger.warn('Redis cluster mode is not supported by the cache store; connecting to REDIS_URL as a single node');
+  }
+
+  const connection = new RedisConnectionService();
+  const client = createClient({
+    url: config.redisUrl,
+    username: config.username,
+    password: config.password,
+    database: config.db,
+    disableOfflineQueue: !config.enableOfflineQueue,
+    socket: {
+      connectTimeout: config.connectTimeout,
+      keepAlive: config.keepAlive,
+      family: config.family,
+      reconnectStrategy: retries => Math.min((retries + 1) * config.retryDelayOnFailover, 5000)
+    }
+  });
+
+  connection.setupConnectionEvents(client);
+  await client.connect();
+
+  if (config.enableHealthCheck) {
+    const healthCheck = setInterval(() => connection.performHealthCheck(client), config.healthCheckInterval);
+    healthCheck.unref();
+    client.on('end', () => clearInterval(healthCheck));
+  }
+
+  return client as unknown as RedisCommandClient;
+}
@@ -0,0 +1,77 @@
+/* eslint-disable prettier/prettier */
+import { Logger } from '@nestjs/common';
+import type { RedisCommandClient } from './redis-client';
+
+/**
+ * Keyv storage adapter that keeps cache-manager entries in Redis under the configured key prefix.
+ * Cache failures are logged and reported as misses so an unavailable Redis never fails a request.
+ */
+export class RedisKeyvStore {
+  private readonly logger = new Logger(RedisKeyvStore.name);
+
+  // Set by Keyv; keys it passes in are already namespaced with it
+  namespace?: string;
+
+  constructor(
+    private readonly client: RedisCommandClient,
+    private readonly keyPrefix = ''
+  ) {}
+
+  async get(key: string): Promise<string | undefined> {
+    try {
+      return (await this.client.get(this.keyPrefix + key)) ?? undefined;
+    } catch (error) {
+      this.logger.warn(`Error reading cache entry ${key}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: string, ttl?: number): Promise<boolean> {
+    try {
+      await this.client.set(
+        this.keyPrefix + key,
+        value,
+        ttl > 0 ? { expiration: { type: 'PX', value: Math.ceil(ttl) } } : undefined
+      );
+      return true;
+    } catch (error) {
+      this.logger.warn(`Error writing cache entry ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      return (await this.client.del(this.keyPrefix + key)) > 0;
+    } catch (error) {
+      this.logger.warn(`Error deleting cache entry ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async deleteMany(keys: string[]): Promise<boolean> {
+    try {
+      return keys.length > 0 && (await this.client.del(keys.map(key => this.keyPrefix + key))) > 0;
+    } catch (error) {
+      this.logger.warn(`Error deleting cache entries: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Delete the entries of this store's namespace, leaving other keys under the prefix alone
+   */
+  async clear(): Promise<void> {
+    try {
+      const match = `${this.keyPrefix}${this.namespace ? `${this.namespace}:` : ''}*`;
+
+      for await (const keys of this.client.scanIterator({ MATCH: match, COUNT: 500 })) {
+        if (keys.length) {
+          await this.client.del(keys);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(`Error clearing cache: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Category, CategoryDocument } from '../categories/schemas/category.schema';
+import { Subcategory, SubcategoryDocument } from '../subcategories/schema/subcategory.schema';
+import { Collection, CollectionDocument } from '../collections/schemas/collection.schema';
+import { GenderEntity, GenderDocument } from '../gender/schemas/gender.schema';
+import { CatalogSnapshotSection } from './dto/catalog-snapshot.dto';
+
+// Sections written directly through their models; categories go through CategoriesRepository
+export type CatalogDocumentSection = Exclude<CatalogSnapshotSection, 'categories'>;
+
+// Entity as read with lean(), carrying its _id
+export type CatalogLeanDocument<T> = T & { _id: Types.ObjectId };
+
+@Injectable()
+export class CatalogSnapshotRepository {
+  private readonly logger = new Logger(CatalogSnapshotRepository.name);
+
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Subcategory.name) private subcategoryModel: Model<SubcategoryDocument>,
+    @InjectModel(Collection.name) private collectionModel: Model<CollectionDocument>,
+    @InjectModel(GenderEntity.name) private genderModel: Model<GenderDocument>,
+  ) {}
+
+  /**
+   * Iterate over the non-deleted entities of a section in export order without loading them all
+   */
+  stream(section: CatalogSnapshotSection): AsyncIterable<any> {
+    const { model, sort } = this.getSectionModel(section);
+
+    return model
+      .find({ isDeleted: false })
+      .sort(sort)
+      .lean()
+      .cursor();
+  }
+
+  /**
+   * Find all genders, including soft-deleted ones (names stay reserved by them)
+   */
+  async findGenders(): Promise<CatalogLeanDocument<GenderEntity>[]> {
+    try {
+      return await this.genderModel.find().lean<CatalogLeanDocument<GenderEntity>[]>().exec();
+    } catch (error) {
+      this.logger.error(`Error finding genders: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the subcategories of the given categories, including soft-deleted ones
+   */
+  async findSubcategories(categoryIds: string[]): Promise<CatalogLeanDocument<Subcategory>[]> {
+    try {
+      return await this.subcategoryModel
+        .find({ categoryId: { $in: categoryIds.map(id => new Types.ObjectId(id)) } })
+        .lean<CatalogLeanDocument<Subcategory>[]>()
+        .exec();
+    } catch (error) {
+      this.logger.error(`Error finding subcategories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find collections by slug or name, including soft-deleted ones
+   */
+  async findCollections(slugs: string[], names: string[]): Promise<CatalogLeanDocument<Collection>[]> {
+    try {
+      return await this.collectionModel
+        .find({ $or: [{ slug: { $in: slugs } }, { name: { $in: names } }] })
+        .lean<CatalogLeanDocument<Collection>[]>()
+        .exec();
+    } catch (error) {
+      this.logger.error(`Error finding collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Create an entity from snapshot fields
+   */
+  async create(section: CatalogDocumentSection, data: Record<string, any>): Promise<any> {
+    try {
+      const { model } = this.getSectionModel(section);
+      const created = await new model(data).save();
+
+      this.logger.log(`Created ${section} entry from snapshot: ${created._id}`);
+      return created.toObject();
+    } catch (error) {
+      this.logger.error(`Error creating ${section} entry: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite an entity with snapshot fields, restoring it when it was soft deleted
+   */
+  async update(section: CatalogDocumentSection, id: string, data: Record<string, any>): Promise<any> {
+    try {
+      const { model } = this.getSectionModel(section);
+      const updated = await model
+        .findByIdAndUpdate(
+          id,
+          { $set: { ...data, isDeleted: false, updatedAt: new Date() }, $unset: { deletedAt: 1 } },
+          { new: true, runValidators: true }
+        )
+        .lean()
+        .exec();
+
+      if (!updated) {
+        throw new NotFoundException(`${section} entry not found`);
+      }
+
+      this.logger.log(`Updated ${section} entry from snapshot: ${id}`);
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error updating ${section} entry: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private getSectionModel(section: CatalogSnapshotSection): { model: Model<any>; sort: Record<string, 1 | -1> } {
+    switch (section) {
+      case 'genders':
+        return { model: this.genderModel, sort: { sortOrder: 1, name: 1 } };
+      case 'categories':
+        // Parents before children, so the snapshot can be imported in file order
+        return { model: this.categoryModel, sort: { depth: 1, sortOrder: 1, slug: 1 } };
+      case 'subcategories':
+        return { model: this.subcategoryModel, sort: { categoryId: 1, sortOrder: 1, slug: 1 } };
+      case 'collections':
+        return { model: this.collectionModel, sort: { sortOrder: 1, slug: 1 } };
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Types } from 'mongoose';
+import { CatalogSnapshotService } from './catalog-snapshot.service';
+import { CatalogSnapshotRepository } from './catalog-snapshot.repository';
+import { CategoriesRepository } from '../categories/categories.repository';
+import { CategoriesService } from '../categories/categories.service';
+import { SubcategoriesService } from '../subcategories/subcategories.service';
+import { CollectionsService } from '../collections/collections.service';
+import { GenderService } from '../gender/gender.service';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+
+describe('CatalogSnapshotService', () => {
+  let service: CatalogSnapshotService;
+  let snapshotRepository: Record<string, jest.Mock>;
+  let categoriesRepository: Record<string, jest.Mock>;
+
+  const menId = new Types.ObjectId();
+  const categoryId = new Types.ObjectId();
+
+  const snapshotFile = (snapshot: unknown) =>
+    ({
+      buffer: Buffer.from(JSON.stringify(snapshot)),
+      size: 1024,
+    }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    snapshotRepository = {
+      findGenders: jest.fn().mockResolvedValue([
+        {
+          _id: menId,
+          name: 'men',
+          slug: 'men',
+          displayName: 'Men',
+          status: CategoryStatus.ACTIVE,
+          sortOrder: 0,
+          metadata: {},
+          isDeleted: false,
+        },
+      ]),
+      findSubcategories: jest.fn().mockResolvedValue([]),
+      findCollections: jest.fn().mockResolvedValue([]),
+      create: jest.fn(),
+      update: jest.fn(),
+    };
+
+    categoriesRepository = {
+      findBySlugs: jest.fn().mockResolvedValue([
+        {
+          _id: categoryId,
+          name: 'Shoes',
+          slug: 'shoes',
+          description: 'Old description',
+          status: CategoryStatus.ACTIVE,
+          applicableGenders: ['men'],
+          hasSubcategories: false,
+          sortOrder: 0,
+          metadata: {},
+        },
+      ]),
+      findByNames: jest.fn().mockResolvedValue([]),
+      create: jest.fn(),
+      update: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogSnapshotService,
+        { provide: CatalogSnapshotRepository, useValue: snapshotRepository },
+        { provide: CategoriesRepository, useValue: categoriesRepository },
+        {
+          provide: CategoriesService,
+          useValue: { invalidateCache: jest.fn() },
+        },
+        {
+          provide: SubcategoriesService,
+          useValue: { invalidateCache: jest.fn() },
+        },
+        {
+          provide: CollectionsService,
+          useValue: { invalidateCache: jest.fn() },
+        },
+        { provide: GenderService, useValue: { invalidateCache: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CatalogSnapshotService>(CatalogSnapshotService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should report planned changes by slug in a dry run', async () => {
+    const report = await service.importSnapshot(
+      snapshotFile({
+        format: 'lawrose.catalog-snapshot',
+        version: 1,
+        exportedAt: '2025-01-15T10:30:00.000Z',
+        genders: [
+          {
+            id: 'a1',
+            name: 'men',
+            slug: 'men',
+            displayName: 'Men',
+            status: CategoryStatus.ACTIVE,
+            sortOrder: 0,
+          },
+        ],
+        categories: [
+          {
+            id: 'c2',
+            slug: 'shoes/sneakers',
+            name: 'Sneakers',
+            parentSlug: 'shoes',
+            applicableGenders: ['men'],
+          },
+          {
+            id: 'c1',
+            slug: 'shoes',
+            name: 'Shoes',
+            parentSlug: null,
+            description: 'New description',
+            applicableGenders: ['men'],
+          },
+          {
+            slug: 'bags',
+            name: 'Bags',
+            parentSlug: null,
+            applicableGenders: ['kids'],
+          },
+        ],
+        subcategories: [
+          { slug: 'running', categorySlug: 'shoes/sneakers', name: 'Running' },
+        ],
+      }),
+      true,
+    );
+
+    expect(report.genders.unchanged).toBe(1);
+    expect(report.categories.items).toEqual([
+      expect.objectContaining({
+        slug: 'shoes',
+        action: 'update',
+        sourceId: 'c1',
+        id: categoryId.toString(),
+        changes: ['description'],
+      }),
+      expect.objectContaining({ slug: 'bags', action: 'error' }),
+      expect.objectContaining({
+        slug: 'shoes/sneakers',
+        action: 'create',
+        sourceId: 'c2',
+      }),
+    ]);
+    expect(report.subcategories).toEqual(
+      expect.objectContaining({ created: 1, errors: 0 }),
+    );
+    expect(categoriesRepository.create).not.toHaveBeenCalled();
+    expect(categoriesRepository.update).not.toHaveBeenCalled();
+    expect(snapshotRepository.create).not.toHaveBeenCalled();
+  });
+});
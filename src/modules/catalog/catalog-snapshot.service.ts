@@ -0,0 +1,790 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, ConflictException, Injectable, Logger } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { Readable } from 'stream';
+import {
+  CATALOG_SNAPSHOT_FORMAT,
+  CATALOG_SNAPSHOT_RECORD_TYPES,
+  CATALOG_SNAPSHOT_SECTIONS,
+  CATALOG_SNAPSHOT_VERSION,
+  CatalogImportAction,
+  CatalogImportItemResultDto,
+  CatalogImportReportDto,
+  CatalogImportSectionReportDto,
+  CatalogSnapshot,
+  CatalogSnapshotHeader,
+  CatalogSnapshotSection,
+  CategorySnapshot,
+  CollectionSnapshot,
+  GenderSnapshot,
+  MAX_SNAPSHOT_FILE_SIZE,
+  SubcategorySnapshot
+} from './dto/catalog-snapshot.dto';
+import { CatalogLeanDocument, CatalogSnapshotRepository } from './catalog-snapshot.repository';
+import { CategoriesRepository } from '../categories/categories.repository';
+import { CategoriesService } from '../categories/categories.service';
+import { SubcategoriesService } from '../subcategories/subcategories.service';
+import { CollectionsService } from '../collections/collections.service';
+import { GenderService } from '../gender/gender.service';
+import { CreateCategoryDto } from '../categories/dto/create-category.dto';
+import { UpdateCategoryDto } from '../categories/dto/update-category.dto';
+import { Category } from '../categories/schemas/category.schema';
+import { Subcategory } from '../subcategories/schema/subcategory.schema';
+import { Collection } from '../collections/schemas/collection.schema';
+import { GenderEntity } from '../gender/schemas/gender.schema';
+import { CreateSubcategoryDto } from '../subcategories/dto/create-subcategory.dto';
+import { CreateCollectionDto } from '../collections/dto/create-collection.dto';
+import { CreateGenderDto } from '../gender/dto/create-gender.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { generateCategorySlug, getParentSlug } from '../../common/utils/slug.util';
+
+interface SnapshotRecord {
+  type: string;
+  data: any;
+}
+
+// Outcome of one entry, thrown by the section handlers to stop processing it
+class SnapshotEntryRejection extends Error {
+  constructor(readonly action: CatalogImportAction, readonly errors: string[]) {
+    super(errors.join('; '));
+  }
+}
+
+// Category as imported so far: stored, or only planned by a dry run (no _id yet)
+type CategorySnapshotTarget = Partial<Category> & { _id?: { toString(): string } };
+
+@Injectable()
+export class CatalogSnapshotService {
+  private readonly logger = new Logger(CatalogSnapshotService.name);
+
+  constructor(
+    private readonly catalogSnapshotRepository: CatalogSnapshotRepository,
+    private readonly categoriesRepository: CategoriesRepository,
+    private readonly categoriesService: CategoriesService,
+    private readonly subcategoriesService: SubcategoriesService,
+    private readonly collectionsService: CollectionsService,
+    private readonly genderService: GenderService
+  ) {}
+
+  /**
+   * Build the whole snapshot as a single document
+   */
+  async exportJson(): Promise<CatalogSnapshot> {
+    try {
+      const snapshot: Partial<CatalogSnapshot> = { genders: [], categories: [], subcategories: [], collections: [] };
+      const sectionByType = this.getSectionsByRecordType();
+
+      for await (const record of this.readSnapshotRecords()) {
+        if (record.type === 'header') {
+          Object.assign(snapshot, record.data);
+        } else {
+          snapshot[sectionByType[record.type]].push(record.data);
+        }
+      }
+
+      this.logger.log(
+        `Exported catalog snapshot: ${CATALOG_SNAPSHOT_SECTIONS.map(section => `${snapshot[section].length} ${section}`).join(', ')}`
+      );
+
+      return snapshot as CatalogSnapshot;
+    } catch (error) {
+      this.logger.error(`Error exporting catalog snapshot: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the snapshot as NDJSON: a header record followed by one entity record per line
+   */
+  exportNdjson(): Readable {
+    const records = this.readSnapshotRecords();
+
+    return Readable.from((async function* () {
+      for await (const record of records) {
+        yield `${JSON.stringify(record)}\n`;
+      }
+    })());
+  }
+
+  /**
+   * Upsert a JSON or NDJSON snapshot by slug, resolving relationships to the IDs of this environment.
+   * With dryRun nothing is written and the report describes the planned changes.
+   */
+  async importSnapshot(file: Express.Multer.File, dryRun = false, changedBy?: string): Promise<CatalogImportReportDto> {
+    try {
+      const snapshot = this.parseSnapshot(file);
+
+      const report: CatalogImportReportDto = {
+        dryRun,
+        exportedAt: snapshot.exportedAt,
+        genders: this.createSectionReport(),
+        categories: this.createSectionReport(),
+        subcategories: this.createSectionReport(),
+        collections: this.createSectionReport()
+      };
+
+      // Sections are imported in dependency order; later sections see the planned state of earlier ones
+      const activeGenders = await this.importGenders(snapshot.genders, report.genders, dryRun);
+      const categoriesBySlug = await this.importCategories(snapshot.categories, report.categories, activeGenders, dryRun, changedBy);
+      const subcategoryParents = await this.importSubcategories(snapshot.subcategories, report.subcategories, categoriesBySlug, activeGenders, dryRun);
+      await this.importCollections(snapshot.collections, report.collections, activeGenders, dryRun);
+
+      CATALOG_SNAPSHOT_SECTIONS.forEach(section => this.summarizeSection(report[section]));
+
+      if (!dryRun) {
+        // The flag follows the imported subcategories, never the snapshot's copy of it
+        for (const categoryId of subcategoryParents) {
+          await this.categoriesService.syncHasSubcategories(categoryId, changedBy);
+        }
+        await this.invalidateCaches(report, [...subcategoryParents]);
+      }
+
+      this.logger.log(
+        `Catalog snapshot import${dryRun ? ' (dry run)' : ''}: ` +
+        CATALOG_SNAPSHOT_SECTIONS
+          .map(section => `${section} ${report[section].created} created, ${report[section].updated} updated, ${report[section].unchanged} unchanged`)
+          .join('; ')
+      );
+
+      return report;
+    } catch (error) {
+      this.logger.error(`Error importing catalog snapshot: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Upsert genders by slug and return the names that will be active afterwards
+   */
+  private async importGenders(entries: GenderSnapshot[], report: CatalogImportSectionReportDto, dryRun: boolean): Promise<Set<string>> {
+    const existing = await this.catalogSnapshotRepository.findGenders();
+    const bySlug = new Map(existing.map(gender => [gender.slug, gender]));
+    const byName = new Map(existing.map(gender => [gender.name, gender]));
+    const activeNames = new Set(
+      existing.filter(gender => !gender.isDeleted && gender.status === CategoryStatus.ACTIVE).map(gender => gender.name)
+    );
+
+    await this.importSection(entries, report, async (entry, item) => {
+      const fields = {
+        name: entry.name,
+        displayName: entry.displayName,
+        description: entry.description ?? null,
+        status: entry.status ?? CategoryStatus.ACTIVE,
+        sortOrder: entry.sortOrder ?? 0,
+        metadata: entry.metadata ?? {},
+        imageUrl: entry.imageUrl ?? null,
+        icon: entry.icon ?? null,
+        colorTheme: entry.colorTheme ?? null
+      };
+
+      await this.assertValid(CreateGenderDto, fields);
+
+      const current = bySlug.get(entry.slug);
+      const namesake = byName.get(entry.name);
+      if (namesake && namesake !== current) {
+        throw new SnapshotEntryRejection('conflict', [`Gender name "${entry.name}" is used by "${namesake.slug}"`]);
+      }
+
+      await this.upsertDocument('genders', item, current, { ...fields, slug: entry.slug }, dryRun);
+
+      if (current?.name && current.name !== entry.name) {
+        activeNames.delete(current.name);
+      }
+      if (fields.status === CategoryStatus.ACTIVE) {
+        activeNames.add(entry.name);
+      } else {
+        activeNames.delete(entry.name);
+      }
+    });
+
+    return activeNames;
+  }
+
+  /**
+   * Upsert categories by slug, parents first, and return every category known afterwards by slug
+   */
+  private async importCategories(
+    entries: CategorySnapshot[],
+    report: CatalogImportSectionReportDto,
+    activeGenders: Set<string>,
+    dryRun: boolean,
+    changedBy?: string
+  ): Promise<Map<string, CategorySnapshotTarget>> {
+    const ordered = [...entries].sort((a, b) => (a?.slug ?? '').split('/').length - (b?.slug ?? '').split('/').length);
+    const slugs = [...new Set(entries.flatMap(entry => [entry?.slug, entry?.parentSlug]).filter(Boolean))];
+    const names = [...new Set(entries.map(entry => entry?.name).filter(Boolean))];
+
+    const [existingBySlug, existingByName] = await Promise.all([
+      this.categoriesRepository.findBySlugs(slugs),
+      this.categoriesRepository.findByNames(names)
+    ]);
+
+    const bySlug = new Map<string, CategorySnapshotTarget>(existingBySlug.map(category => [category.slug, category]));
+    const takenNames = new Map<string, string>(existingByName.map(category => [category.name, category.slug]));
+    const seen = new Set<string>();
+
+    await this.importSection(ordered, report, async (entry, item) => {
+      if (seen.has(entry.slug)) {
+        throw new SnapshotEntryRejection('conflict', [`Category "${entry.slug}" appears more than once in the snapshot`]);
+      }
+      seen.add(entry.slug);
+
+      // null clears a field the snapshot leaves out
+      const fields: UpdateCategoryDto & Pick<Category, 'imageUrl'> = {
+        name: entry.name,
+        description: entry.description ?? null,
+        status: entry.status ?? CategoryStatus.ACTIVE,
+        applicableGenders: entry.applicableGenders ?? [],
+        sortOrder: entry.sortOrder ?? 0,
+        metadata: entry.metadata ?? {},
+        imageUrl: entry.imageUrl ?? null,
+        icon: entry.icon ?? null
+      };
+
+      await this.assertValid(CreateCategoryDto, { ...fields, description: entry.description, icon: entry.icon });
+      this.assertKnownGenders(fields.applicableGenders, activeGenders);
+
+      // Slugs are derived from the name and the parent path, so they must agree
+      const parentSlug = entry.parentSlug || '';
+      const expectedSlug = generateCategorySlug(entry.name, parentSlug || undefined);
+      if (expectedSlug !== entry.slug || (parentSlug && getParentSlug(entry.slug) !== parentSlug)) {
+        throw new SnapshotEntryRejection('error', [`slug does not match name and parentSlug (expected "${expectedSlug}")`]);
+      }
+
+      const parent = parentSlug ? bySlug.get(parentSlug) : null;
+      if (parentSlug && !parent) {
+        throw new SnapshotEntryRejection('error', [`Parent category "${parentSlug}" not found`]);
+      }
+
+      const current = bySlug.get(entry.slug);
+      if (current) {
+        item.id = current._id?.toString();
+        const changes = this.getChanges(fields, current);
+
+        if (!changes.length) {
+          item.action = 'unchanged';
+          return;
+        }
+
+        if (!dryRun) {
+          bySlug.set(entry.slug, await this.categoriesRepository.update(item.id, fields, changedBy));
+        }
+
+        item.action = 'update';
+        item.changes = changes;
+        return;
+      }
+
+      const owner = takenNames.get(entry.name);
+      if (owner) {
+        throw new SnapshotEntryRejection('conflict', [`Category name "${entry.name}" is used by "${owner}"`]);
+      }
+
+      if (dryRun) {
+        bySlug.set(entry.slug, { slug: entry.slug, name: entry.name });
+      } else {
+        // Parents planned by this import exist by now and have their new ID
+        const created = await this.categoriesRepository.create(
+          { ...fields, ...(parent?._id && { parentId: parent._id.toString() }) } as CreateCategoryDto,
+          changedBy
+        );
+        item.id = created._id.toString();
+        bySlug.set(entry.slug, created);
+      }
+
+      takenNames.set(entry.name, entry.slug);
+      item.action = 'create';
+    });
+
+    return bySlug;
+  }
+
+  /**
+   * Upsert subcategories by category slug and slug, returning the IDs of categories whose subcategories changed
+   */
+  private async importSubcategories(
+    entries: SubcategorySnapshot[],
+    report: CatalogImportSectionReportDto,
+    categoriesBySlug: Map<string, CategorySnapshotTarget>,
+    activeGenders: Set<string>,
+    dryRun: boolean
+  ): Promise<Set<string>> {
+    const categoryIds = [...categoriesBySlug.values()].map(category => category._id?.toString()).filter(Boolean);
+    const existing = await this.catalogSnapshotRepository.findSubcategories(categoryIds);
+    const byKey = new Map(existing.map(subcategory => [`${subcategory.categoryId}:${subcategory.slug}`, subcategory]));
+    const seen = new Set<string>();
+    const touchedCategoryIds = new Set<string>();
+
+    await this.importSection(entries, report, async (entry, item) => {
+      item.slug = `${entry.categorySlug}:${entry.slug}`;
+
+      if (seen.has(item.slug)) {
+        throw new SnapshotEntryRejection('conflict', [`Subcategory "${item.slug}" appears more than once in the snapshot`]);
+      }
+      seen.add(item.slug);
+
+      const fields = {
+        name: entry.name,
+        description: entry.description ?? null,
+        status: entry.status ?? CategoryStatus.ACTIVE,
+        applicableGenders: entry.applicableGenders ?? [],
+        sortOrder: entry.sortOrder ?? 0,
+        metadata: entry.metadata ?? {},
+        imageUrl: entry.imageUrl ?? null,
+        icon: entry.icon ?? null
+      };
+
+      // The category reference is resolved by slug below
+      await this.assertValid(CreateSubcategoryDto, { ...fields, description: entry.description, icon: entry.icon }, ['categoryId']);
+      this.assertKnownGenders(fields.applicableGenders, activeGenders);
+
+      if (!entry.slug) {
+        throw new SnapshotEntryRejection('error', ['slug is required']);
+      }
+
+      const category = categoriesBySlug.get(entry.categorySlug);
+      if (!category) {
+        throw new SnapshotEntryRejection('error', [`Category "${entry.categorySlug}" not found`]);
+      }
+
+      const categoryId = category._id?.toString();
+      const current = categoryId ? byKey.get(`${categoryId}:${entry.slug}`) : undefined;
+
+      await this.upsertDocument('subcategories', item, current, { ...fields, slug: entry.slug, categoryId }, dryRun);
+
+      if (item.action === 'create' || item.action === 'update') {
+        touchedCategoryIds.add(categoryId);
+      }
+    });
+
+    return touchedCategoryIds;
+  }
+
+  /**
+   * Upsert collections by slug
+   */
+  private async importCollections(
+    entries: CollectionSnapshot[],
+    report: CatalogImportSectionReportDto,
+    activeGenders: Set<string>,
+    dryRun: boolean
+  ): Promise<void> {
+    const existing = await this.catalogSnapshotRepository.findCollections(
+      entries.map(entry => entry?.slug).filter(Boolean),
+      entries.map(entry => entry?.name).filter(Boolean)
+    );
+    const bySlug = new Map(existing.map(collection => [collection.slug, collection]));
+    const byName = new Map(existing.map(collection => [collection.name, collection]));
+
+    await this.importSection(entries, report, async (entry, item) => {
+      const fields = {
+        name: entry.name,
+        description: entry.description ?? null,
+        type: entry.type,
+        status: entry.status ?? CategoryStatus.ACTIVE,
+        applicableGenders: entry.applicableGenders ?? [],
+        startDate: entry.startDate ? new Date(entry.startDate) : null,
+        endDate: entry.endDate ? new Date(entry.endDate) : null,
+        year: entry.year,
+        season: entry.season ?? null,
+        sortOrder: entry.sortOrder ?? 0,
+        metadata: entry.metadata ?? {},
+        imageUrl: entry.imageUrl ?? null,
+        bannerImageUrl: entry.bannerImageUrl ?? null,
+        colors: entry.colors ?? [],
+        isFeatured: entry.isFeatured ?? false
+      };
+
+      await this.assertValid(CreateCollectionDto, {
+        ...fields,
+        description: entry.description,
+        season: entry.season,
+        startDate: entry.startDate,
+        endDate: entry.endDate
+      });
+      this.assertKnownGenders(fields.applicableGenders, activeGenders);
+
+      const current = bySlug.get(entry.slug);
+      const namesake = byName.get(entry.name);
+      if (namesake && namesake !== current) {
+        throw new SnapshotEntryRejection('conflict', [`Collection name "${entry.name}" is used by "${namesake.slug}"`]);
+      }
+
+      await this.upsertDocument('collections', item, current, { ...fields, slug: entry.slug }, dryRun);
+    });
+  }
+
+  /**
+   * Create or overwrite a gender, subcategory or collection; soft-deleted matches are restored
+   */
+  private async upsertDocument(
+    section: 'genders' | 'subcategories' | 'collections',
+    item: CatalogImportItemResultDto,
+    current: CatalogLeanDocument<GenderEntity | Subcategory | Collection> | undefined,
+    fields: Record<string, any>,
+    dryRun: boolean
+  ): Promise<void> {
+    if (!current) {
+      if (!dryRun) {
+        const created = await this.catalogSnapshotRepository.create(section, fields);
+        item.id = created._id.toString();
+      }
+      item.action = 'create';
+      return;
+    }
+
+    item.id = current._id.toString();
+    const changes = this.getChanges(fields, current);
+    if (current.isDeleted) {
+      changes.push('isDeleted');
+    }
+
+    if (!changes.length) {
+      item.action = 'unchanged';
+      return;
+    }
+
+    if (!dryRun) {
+      await this.catalogSnapshotRepository.update(section, item.id, fields);
+    }
+
+    item.action = 'update';
+    item.changes = changes.sort();
+  }
+
+  /**
+   * Run a handler for every entry of a section, recording its outcome instead of failing the import
+   */
+  private async importSection<T extends { slug?: string; id?: string }>(
+    entries: T[],
+    report: CatalogImportSectionReportDto,
+    handler: (entry: T, item: CatalogImportItemResultDto) => Promise<void>
+  ): Promise<void> {
+    for (const entry of entries) {
+      const item: CatalogImportItemResultDto = {
+        slug: entry?.slug,
+        action: 'error',
+        ...(entry?.id && { sourceId: String(entry.id) })
+      };
+      report.items.push(item);
+
+      try {
+        if (!entry || typeof entry !== 'object') {
+          throw new SnapshotEntryRejection('error', ['Entry must be an object']);
+        }
+
+        await handler(entry, item);
+      } catch (error) {
+        if (error instanceof SnapshotEntryRejection) {
+          item.action = error.action;
+          item.errors = error.errors;
+        } else {
+          // Duplicate key errors come from unique indexes the lookups did not cover
+          item.action = error instanceof ConflictException || error?.code === 11000 ? 'conflict' : 'error';
+          item.errors = [error.message];
+          this.logger.warn(`Snapshot entry ${item.slug} failed: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Read the snapshot records in dependency order, streaming every section from the database
+   */
+  private async *readSnapshotRecords(): AsyncGenerator<SnapshotRecord> {
+    const header: CatalogSnapshotHeader = {
+      format: CATALOG_SNAPSHOT_FORMAT,
+      version: CATALOG_SNAPSHOT_VERSION,
+      exportedAt: new Date().toISOString()
+    };
+    yield { type: 'header', data: header };
+
+    for await (const gender of this.catalogSnapshotRepository.stream('genders')) {
+      yield {
+        type: CATALOG_SNAPSHOT_RECORD_TYPES.genders,
+        data: this.omitEmpty({
+          id: gender._id.toString(),
+          name: gender.name,
+          slug: gender.slug,
+          displayName: gender.displayName,
+          description: gender.description,
+          status: gender.status,
+          sortOrder: gender.sortOrder ?? 0,
+          metadata: gender.metadata,
+          imageUrl: gender.imageUrl,
+          icon: gender.icon,
+          colorTheme: gender.colorTheme
+        })
+      };
+    }
+
+    // Subcategories reference categories by slug
+    const categorySlugs = new Map<string, string>();
+
+    for await (const category of this.catalogSnapshotRepository.stream('categories')) {
+      categorySlugs.set(category._id.toString(), category.slug);
+
+      yield {
+        type: CATALOG_SNAPSHOT_RECORD_TYPES.categories,
+        data: this.omitEmpty({
+          id: category._id.toString(),
+          slug: category.slug,
+          name: category.name,
+          parentSlug: getParentSlug(category.slug) || null,
+          description: category.description,
+          status: category.status,
+          applicableGenders: category.applicableGenders ?? [],
+          hasSubcategories: category.hasSubcategories ?? false,
+          sortOrder: category.sortOrder ?? 0,
+          metadata: category.metadata,
+          imageUrl: category.imageUrl,
+          icon: category.icon
+        })
+      };
+    }
+
+    for await (const subcategory of this.catalogSnapshotRepository.stream('subcategories')) {
+      const categorySlug = categorySlugs.get(subcategory.categoryId?.toString());
+
+      // Subcategories of deleted categories could not be imported anywhere
+      if (!categorySlug) {
+        continue;
+      }
+
+      yield {
+        type: CATALOG_SNAPSHOT_RECORD_TYPES.subcategories,
+        data: this.omitEmpty({
+          id: subcategory._id.toString(),
+          slug: subcategory.slug,
+          categorySlug,
+          name: subcategory.name,
+          description: subcategory.description,
+          status: subcategory.status,
+          applicableGenders: subcategory.applicableGenders ?? [],
+          sortOrder: subcategory.sortOrder ?? 0,
+          metadata: subcategory.metadata,
+          imageUrl: subcategory.imageUrl,
+          icon: subcategory.icon
+        })
+      };
+    }
+
+    for await (const collection of this.catalogSnapshotRepository.stream('collections')) {
+      yield {
+        type: CATALOG_SNAPSHOT_RECORD_TYPES.collections,
+        data: this.omitEmpty({
+          id: collection._id.toString(),
+          slug: collection.slug,
+          name: collection.name,
+          description: collection.description,
+          type: collection.type,
+          status: collection.status,
+          applicableGenders: collection.applicableGenders ?? [],
+          startDate: collection.startDate?.toISOString(),
+          endDate: collection.endDate?.toISOString(),
+          year: collection.year,
+          season: collection.season,
+          sortOrder: collection.sortOrder ?? 0,
+          metadata: collection.metadata,
+          imageUrl: collection.imageUrl,
+          bannerImageUrl: collection.bannerImageUrl,
+          colors: collection.colors ?? [],
+          isFeatured: collection.isFeatured ?? false
+        })
+      };
+    }
+  }
+
+  /**
+   * Read an uploaded JSON or NDJSON snapshot into sections
+   */
+  private parseSnapshot(file: Express.Multer.File): CatalogSnapshot {
+    if (!file?.buffer?.length) {
+      throw new BadRequestException('A non-empty snapshot file is required');
+    }
+
+    if (file.size > MAX_SNAPSHOT_FILE_SIZE) {
+      throw new BadRequestException('Snapshot file size exceeds the maximum allowed size of 20MB.');
+    }
+
+    const text = file.buffer.toString('utf8').replace(/^﻿/, '').trim();
+    let snapshot: Partial<CatalogSnapshot>;
+
+    let document: any;
+    try {
+      document = JSON.parse(text);
+    } catch {
+      document = undefined;
+    }
+
+    if (document && typeof document === 'object' && !Array.isArray(document) && document.type === undefined) {
+      snapshot = document;
+    } else {
+      snapshot = this.parseNdjson(text);
+    }
+
+    if (snapshot.format !== CATALOG_SNAPSHOT_FORMAT) {
+      throw new BadRequestException(`Not a catalog snapshot (expected format "${CATALOG_SNAPSHOT_FORMAT}")`);
+    }
+
+    if (snapshot.version !== CATALOG_SNAPSHOT_VERSION) {
+      throw new BadRequestException(`Unsupported snapshot version ${snapshot.version}; expected ${CATALOG_SNAPSHOT_VERSION}`);
+    }
+
+    for (const section of CATALOG_SNAPSHOT_SECTIONS) {
+      if (snapshot[section] === undefined) {
+        snapshot[section] = [];
+      } else if (!Array.isArray(snapshot[section])) {
+        throw new BadRequestException(`Snapshot section "${section}" must be an array`);
+      }
+    }
+
+    return snapshot as CatalogSnapshot;
+  }
+
+  /**
+   * Parse NDJSON records; the first record must be the header
+   */
+  private parseNdjson(text: string): Partial<CatalogSnapshot> {
+    const snapshot: Partial<CatalogSnapshot> = { genders: [], categories: [], subcategories: [], collections: [] };
+    const sectionByType = this.getSectionsByRecordType();
+    const lines = text.split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) {
+        return;
+      }
+
+      let record: SnapshotRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new BadRequestException(`Invalid JSON on snapshot line ${index + 1}`);
+      }
+
+      if (record?.type === 'header') {
+        if (snapshot.format !== undefined) {
+          throw new BadRequestException(`Duplicate header on snapshot line ${index + 1}`);
+        }
+        Object.assign(snapshot, record.data);
+        return;
+      }
+
+      if (snapshot.format === undefined) {
+        throw new BadRequestException('Snapshot must start with a header record');
+      }
+
+      const section = sectionByType[record?.type];
+      if (!section) {
+        throw new BadRequestException(`Unknown record type "${record?.type}" on snapshot line ${index + 1}`);
+      }
+
+      snapshot[section].push(record.data);
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * Fail the entry with the class-validator messages of the matching create DTO
+   */
+  private async assertValid(dtoClass: new () => object, data: Record<string, any>, ignoredProperties: string[] = []): Promise<void> {
+    const errors = await validate(plainToInstance(dtoClass, this.omitEmpty(data)));
+    const messages = errors
+      .filter(error => !ignoredProperties.includes(error.property))
+      .flatMap(error => Object.values(error.constraints ?? {}));
+
+    if (messages.length) {
+      throw new SnapshotEntryRejection('error', messages);
+    }
+  }
+
+  private assertKnownGenders(genders: string[], activeGenders: Set<string>): void {
+    const unknown = genders.filter(gender => !activeGenders.has(gender));
+    if (unknown.length) {
+      throw new SnapshotEntryRejection('error', [`Unknown or inactive gender(s): ${unknown.join(', ')}`]);
+    }
+  }
+
+  /**
+   * List the fields whose snapshot value differs from the stored one
+   */
+  private getChanges(fields: Record<string, any>, current: Record<string, any>): string[] {
+    const normalize = (field: string, value: any) =>
+      this.stableStringify(field === 'applicableGenders' ? [...(value ?? [])].sort() : value);
+
+    return Object.keys(fields)
+      .filter(field => normalize(field, fields[field]) !== normalize(field, current[field]))
+      .sort();
+  }
+
+  /**
+   * JSON with sorted object keys; missing values, null and empty strings compare equal
+   */
+  private stableStringify(value: any): string {
+    if (value === undefined || value === null || value === '') {
+      return 'null';
+    }
+
+    if (value instanceof Date) {
+      return JSON.stringify(value.toISOString());
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+
+    if (typeof value === 'object' && typeof value.toHexString === 'function') {
+      return JSON.stringify(value.toString());
+    }
+
+    if (typeof value === 'object') {
+      return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+  }
+
+  private omitEmpty<T extends Record<string, any>>(value: T): T {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, field]) => field !== undefined && field !== null)
+    ) as T;
+  }
+
+  private getSectionsByRecordType(): Record<string, CatalogSnapshotSection> {
+    return Object.fromEntries(
+      CATALOG_SNAPSHOT_SECTIONS.map(section => [CATALOG_SNAPSHOT_RECORD_TYPES[section], section])
+    );
+  }
+
+  private createSectionReport(): CatalogImportSectionReportDto {
+    return { created: 0, updated: 0, unchanged: 0, conflicts: 0, errors: 0, items: [] };
+  }
+
+  private summarizeSection(section: CatalogImportSectionReportDto): void {
+    const count = (action: CatalogImportAction) => section.items.filter(item => item.action === action).length;
+
+    section.created = count('create');
+    section.updated = count('update');
+    section.unchanged = count('unchanged');
+    section.conflicts = count('conflict');
+    section.errors = count('error');
+  }
+
+  /**
+   * Drop cached lists and lookups of every entity the import wrote
+   */
+  private async invalidateCaches(report: CatalogImportReportDto, subcategoryParentIds: string[]): Promise<void> {
+    const writtenIds = (section: CatalogImportSectionReportDto) => section.items
+      .filter(item => (item.action === 'create' || item.action === 'update') && item.id)
+      .map(item => item.id);
+
+    await Promise.all([
+      this.genderService.invalidateCache(writtenIds(report.genders)),
+      this.categoriesService.invalidateCache(writtenIds(report.categories)),
+      this.subcategoriesService.invalidateCache(writtenIds(report.subcategories), subcategoryParentIds),
+      this.collectionsService.invalidateCache(writtenIds(report.collections))
+    ]);
+  }
+}
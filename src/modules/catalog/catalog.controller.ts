@@ -0,0 +1,112 @@
+/* eslint-disable prettier/prettier */
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  StreamableFile,
+  Logger
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiExtraModels,
+  ApiProduces,
+  getSchemaPath
+} from '@nestjs/swagger';
+import { CatalogSnapshotService } from './catalog-snapshot.service';
+import {
+  CatalogImportQueryDto,
+  CatalogImportReportDto,
+  CatalogSnapshotQueryDto
+} from './dto/catalog-snapshot.dto';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+import { Actor } from '../../common/decorators/actor.decorator';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+
+@ApiTags('Catalog')
+@Controller('catalog')
+@UseGuards(RolesGuard)
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiExtraModels(CatalogImportReportDto)
+export class CatalogController {
+  private readonly logger = new Logger(CatalogController.name);
+
+  constructor(private readonly catalogSnapshotService: CatalogSnapshotService) {}
+
+  @Get('snapshot')
+  @ApiOperation({
+    summary: 'Export catalog snapshot',
+    description: 'Downloads genders, categories, subcategories and collections with their relationships expressed by slug, so the snapshot can be imported into another environment. format=ndjson streams one record per line'
+  })
+  @ApiQuery({ name: 'format', required: false, enum: ['json', 'ndjson'], description: 'Snapshot format (default json)' })
+  @ApiProduces('application/json', 'application/x-ndjson')
+  @ApiResponse({ status: 200, description: 'Snapshot file', schema: { type: 'string', format: 'binary' } })
+  async exportSnapshot(@Query(ValidationPipe) queryDto: CatalogSnapshotQueryDto): Promise<StreamableFile> {
+    this.logger.log(`Exporting catalog snapshot as ${queryDto.format ?? 'json'}`);
+
+    if (queryDto.format === 'ndjson') {
+      return new StreamableFile(this.catalogSnapshotService.exportNdjson(), {
+        type: 'application/x-ndjson; charset=utf-8',
+        disposition: 'attachment; filename="catalog-snapshot.ndjson"'
+      });
+    }
+
+    const snapshot = await this.catalogSnapshotService.exportJson();
+    return new StreamableFile(Buffer.from(JSON.stringify(snapshot, null, 2), 'utf8'), {
+      type: 'application/json; charset=utf-8',
+      disposition: 'attachment; filename="catalog-snapshot.json"'
+    });
+  }
+
+  @Post('snapshot/import')
+  @Roles(Role.ADMIN)
+  @ApiOperation({
+    summary: 'Import catalog snapshot',
+    description: 'Upserts a JSON or NDJSON snapshot by slug. Relationships are resolved to the IDs of this environment and soft-deleted matches are restored. Every entry is reported separately; with dryRun=true nothing is written'
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary', description: 'Snapshot file (max 20MB)' }
+      },
+      required: ['file']
+    }
+  })
+  @ApiQuery({ name: 'dryRun', required: false, type: Boolean, description: 'Only validate and report planned changes' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import report per section',
+    schema: { $ref: getSchemaPath(CatalogImportReportDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Missing, malformed or oversized file, or unsupported snapshot version' })
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file'))
+  async importSnapshot(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(ValidationPipe) queryDto: CatalogImportQueryDto,
+    @Actor() actor?: string
+  ): Promise<CatalogImportReportDto> {
+    this.logger.log(`Importing catalog snapshot${queryDto.dryRun ? ' (dry run)' : ''}`);
+    return this.catalogSnapshotService.importSnapshot(file, queryDto.dryRun ?? false, actor);
+  }
+}
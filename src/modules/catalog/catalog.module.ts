@@ -0,0 +1,38 @@
+/* eslint-disable prettier/prettier */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Category, CategorySchema } from '../categories/schemas/category.schema';
+import { Subcategory, SubcategorySchema } from '../subcategories/schema/subcategory.schema';
+import { Collection, CollectionSchema } from '../collections/schemas/collection.schema';
+import { GenderEntity, GenderSchema } from '../gender/schemas/gender.schema';
+import { CatalogController } from './catalog.controller';
+import { CatalogSnapshotService } from './catalog-snapshot.service';
+import { CatalogSnapshotRepository } from './catalog-snapshot.repository';
+import { CategoriesModule } from '../categories/categories.module';
+import { SubcategoriesModule } from '../subcategories/subcategories.module';
+import { CollectionsModule } from '../collections/collections.module';
+import { GenderModule } from '../gender/gender.module';
+
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Category.name, schema: CategorySchema },
+      { name: Subcategory.name, schema: SubcategorySchema },
+      { name: Collection.name, schema: CollectionSchema },
+      { name: GenderEntity.name, schema: GenderSchema }
+    ]),
+    CategoriesModule,
+    SubcategoriesModule,
+    CollectionsModule,
+    GenderModule,
+  ],
+  controllers: [
+    CatalogController
+  ],
+  providers: [
+    CatalogSnapshotService,
+    CatalogSnapshotRepository
+  ]
+})
+export class CatalogModule {}
@@ -0,0 +1,194 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsIn, IsOptional } from "class-validator";
+import { CategoryStatus } from "src/common/enums/category-status.enum";
+import { CollectionType } from "src/common/enums/collection-type.enum";
+
+export const CATALOG_SNAPSHOT_FORMAT = 'lawrose.catalog-snapshot';
+export const CATALOG_SNAPSHOT_VERSION = 1;
+
+export const MAX_SNAPSHOT_FILE_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Entity sections in dependency order: genders are referenced by name, categories by slug
+export const CATALOG_SNAPSHOT_SECTIONS = ['genders', 'categories', 'subcategories', 'collections'] as const;
+export type CatalogSnapshotSection = typeof CATALOG_SNAPSHOT_SECTIONS[number];
+
+// NDJSON record type of each section
+export const CATALOG_SNAPSHOT_RECORD_TYPES: Record<CatalogSnapshotSection, string> = {
+  genders: 'gender',
+  categories: 'category',
+  subcategories: 'subcategory',
+  collections: 'collection'
+};
+
+export interface CatalogSnapshotHeader {
+  format: string;
+  version: number;
+  exportedAt: string;
+}
+
+// Snapshot entries carry the source ObjectId only for reporting; relationships are expressed by slug
+export interface GenderSnapshot {
+  id?: string;
+  name: string;
+  slug: string;
+  displayName: string;
+  description?: string;
+  status: CategoryStatus;
+  sortOrder: number;
+  metadata?: Record<string, any>;
+  imageUrl?: string;
+  icon?: string;
+  colorTheme?: string;
+}
+
+export interface CategorySnapshot {
+  id?: string;
+  slug: string;
+  name: string;
+  parentSlug: string | null;
+  description?: string;
+  status: CategoryStatus;
+  applicableGenders: string[];
+  hasSubcategories: boolean; // exported for reference; derived from the subcategories on import
+  sortOrder: number;
+  metadata?: Record<string, any>;
+  imageUrl?: string;
+  icon?: string;
+}
+
+export interface SubcategorySnapshot {
+  id?: string;
+  slug: string;
+  categorySlug: string;
+  name: string;
+  description?: string;
+  status: CategoryStatus;
+  applicableGenders: string[];
+  sortOrder: number;
+  metadata?: Record<string, any>;
+  imageUrl?: string;
+  icon?: string;
+}
+
+export interface CollectionSnapshot {
+  id?: string;
+  slug: string;
+  name: string;
+  description?: string;
+  type: CollectionType;
+  status: CategoryStatus;
+  applicableGenders: string[];
+  startDate?: string;
+  endDate?: string;
+  year: number;
+  season?: string;
+  sortOrder: number;
+  metadata?: Record<string, any>;
+  imageUrl?: string;
+  bannerImageUrl?: string;
+  colors: string[];
+  isFeatured: boolean;
+}
+
+export interface CatalogSnapshot extends CatalogSnapshotHeader {
+  genders: GenderSnapshot[];
+  categories: CategorySnapshot[];
+  subcategories: SubcategorySnapshot[];
+  collections: CollectionSnapshot[];
+}
+
+export type CatalogImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'error';
+
+export class CatalogSnapshotQueryDto {
+  @ApiPropertyOptional({
+    description: 'json returns one document; ndjson streams a header line followed by one record per line',
+    enum: ['json', 'ndjson'],
+    default: 'json'
+  })
+  @IsOptional()
+  @IsIn(['json', 'ndjson'])
+  format?: 'json' | 'ndjson';
+}
+
+export class CatalogImportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Validate the snapshot and report planned changes without writing anything',
+    type: 'boolean',
+    default: false,
+    example: true
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class CatalogImportItemResultDto {
+  @ApiProperty({ description: 'Slug the entry was matched or would be created with', example: 'men/shoes' })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Outcome (or planned outcome in a dry run) for this entry',
+    enum: ['create', 'update', 'unchanged', 'conflict', 'error'],
+    example: 'update'
+  })
+  action: CatalogImportAction;
+
+  @ApiPropertyOptional({ description: 'ObjectId of the entry in the source environment', example: '65f1c0ffee0000000000beef' })
+  sourceId?: string;
+
+  @ApiPropertyOptional({ description: 'ObjectId of the entry in this environment', example: '507f1f77bcf86cd799439011' })
+  id?: string;
+
+  @ApiPropertyOptional({ description: 'Fields that are (or would be) changed by an update', type: [String], example: ['description'] })
+  changes?: string[];
+
+  @ApiPropertyOptional({ description: 'Validation errors or conflict reasons', type: [String] })
+  errors?: string[];
+}
+
+export class CatalogImportSectionReportDto {
+  @ApiProperty({ example: 1 })
+  created: number;
+
+  @ApiProperty({ example: 2 })
+  updated: number;
+
+  @ApiProperty({ example: 10 })
+  unchanged: number;
+
+  @ApiProperty({ example: 0 })
+  conflicts: number;
+
+  @ApiProperty({ example: 0 })
+  errors: number;
+
+  @ApiProperty({ type: [CatalogImportItemResultDto] })
+  items: CatalogImportItemResultDto[];
+}
+
+export class CatalogImportReportDto {
+  @ApiProperty({ description: 'Whether this was a dry run', example: true })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Time the snapshot was exported', example: '2025-01-15T10:30:00.000Z' })
+  exportedAt: string;
+
+  @ApiProperty({ type: CatalogImportSectionReportDto })
+  genders: CatalogImportSectionReportDto;
+
+  @ApiProperty({ type: CatalogImportSectionReportDto })
+  categories: CatalogImportSectionReportDto;
+
+  @ApiProperty({ type: CatalogImportSectionReportDto })
+  subcategories: CatalogImportSectionReportDto;
+
+  @ApiProperty({ type: CatalogImportSectionReportDto })
+  collections: CatalogImportSectionReportDto;
+}
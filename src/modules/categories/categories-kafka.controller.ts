@@ -1,15 +1,46 @@
 /* eslint-disable prettier/prettier */
-import { Controller, Logger } from '@nestjs/common';
+import { Controller, Logger, UseFilters, UseGuards } from '@nestjs/common';
 import { MessagePattern, Payload, Ctx, KafkaContext } from '@nestjs/microservices';
 import { CategoriesService } from './categories.service';
-import { CreateCategoryDto } from './dto/create-category.dto';
-import { UpdateCategoryDto } from './dto/update-category.dto';
 import { CategoryQueryDto } from './dto/category-filter.dto';
-import { CategoryStatus } from '../../common/enums/category-status.enum';
-import { Gender } from '../../common/enums/gender.enum';
+import { CategorySearchQueryDto, CategorySearchResponseDto } from './dto/category-search.dto';
+import { CategoryRevisionDetailDto, CategoryRevisionListResponseDto } from './dto/category-revision.dto';
+import { CategoryResponseDto } from './dto/category-response.dto';
+import { CategoryListResponseDto } from './dto/category-paginated.dto';
+import { CategoryStatsDto, CategoryValidationDto } from './dto/category.statistics.dto';
+import { BulkOperationResultDto } from './dto/bulk.dto';
+import { BulkDeleteCategoryDto, BulkStatusUpdateDto, BulkUpdateCategoryDto } from './dto/bulk.dto';
+import {
+  BulkCreateCategoriesPayloadDto,
+  CategoryGenderPayloadDto,
+  CategoryIdPayloadDto,
+  CategoryRevisionPayloadDto,
+  CategoryRevisionsPayloadDto,
+  CategorySlugPayloadDto,
+  CreateCategoryPayloadDto,
+  UpdateCategoryPayloadDto,
+  UpdateCategorySortOrderPayloadDto,
+  UpdateCategoryStatusPayloadDto,
+  ValidateCategoryPayloadDto
+} from './dto/category-kafka.dto';
 import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
-
+import { toMulterFile } from '../../common/utils/image.util';
+import { ApiKeyGuard } from '../../common/guards/api-key.guard';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Actor } from '../../common/decorators/actor.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { CustomValidationPipe } from '../../common/pipes/validation.pipe';
+import { KafkaExceptionFilter } from '../../common/filters/kafka-exception.filter';
+import { KafkaSuccessReply } from '../../common/interfaces/kafka-reply.interface';
+
+// Mutations require a bearer token in the message's authorization header, or an API key.
+// Failures are answered with a KafkaErrorReply by KafkaExceptionFilter.
 @Controller()
+@UseGuards(ApiKeyGuard, AuthGuard, RolesGuard)
+@UseFilters(KafkaExceptionFilter)
 export class CategoriesKafkaController {
   private readonly logger = new Logger(CategoriesKafkaController.name);
 
@@ -19,52 +50,35 @@ export class CategoriesKafkaController {
    * Create a new category via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.CREATE)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
   async createCategory(
-    @Payload() data: { createCategoryDto: CreateCategoryDto; imageData?: Buffer; imageName?: string },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { createCategoryDto, imageData, imageName } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category creation - Partition: ${partition}, Offset: ${offset}`);
-
-      let imageFile: Express.Multer.File | undefined;
-      
-      // Convert image data back to Multer file format if provided
-      if (imageData && imageName) {
-        imageFile = {
-          buffer: imageData,
-          originalname: imageName,
-          mimetype: this.getMimeTypeFromExtension(imageName),
-          size: imageData.length,
-          fieldname: 'image',
-          encoding: '7bit',
-          destination: '',
-          filename: imageName,
-          path: '',
-          stream: null
-        } as Express.Multer.File;
-      }
-
-      const result = await this.categoriesService.create(createCategoryDto, imageFile);
-      
-      this.logger.log(`Category created successfully via Kafka: ${result.name} (${result._id})`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category created successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error creating category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to create category'
-      };
+    @Payload(CustomValidationPipe) data: CreateCategoryPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { createCategoryDto, imageData, imageName } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category creation - Partition: ${partition}, Offset: ${offset}`);
+
+    let imageFile: Express.Multer.File | undefined;
+    
+    // Convert image data back to Multer file format if provided
+    if (imageData && imageName) {
+      imageFile = toMulterFile(imageData, imageName);
     }
+
+    const result = await this.categoriesService.create(createCategoryDto, imageFile, actor);
+    
+    this.logger.log(`Category created successfully via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category created successfully'
+    };
   }
 
   /**
@@ -72,32 +86,23 @@ export class CategoriesKafkaController {
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.FIND_ALL)
   async findAllCategories(
-    @Payload() queryDto: CategoryQueryDto,
+    @Payload(CustomValidationPipe) queryDto: CategoryQueryDto,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing find all categories - Partition: ${partition}, Offset: ${offset}`);
-
-      const result = await this.categoriesService.findAll(queryDto);
-      
-      this.logger.log(`Found ${result.data.length} categories via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Categories retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error finding categories via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve categories'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryListResponseDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing find all categories - Partition: ${partition}, Offset: ${offset}`);
+
+    const result = await this.categoriesService.findAll(queryDto);
+    
+    this.logger.log(`Found ${result.data.length} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories retrieved successfully'
+    };
   }
 
   /**
@@ -105,33 +110,24 @@ export class CategoriesKafkaController {
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.FIND_ONE)
   async findOneCategory(
-    @Payload() data: { id: string; includeSubcategories?: boolean },
+    @Payload(CustomValidationPipe) data: CategoryIdPayloadDto,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id, includeSubcategories = false } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing find category by ID - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
-
-      const result = await this.categoriesService.findOne(id, includeSubcategories);
-      
-      this.logger.log(`Category found via Kafka: ${result.name} (${result._id})`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error finding category by ID via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve category'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { id } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing find category by ID - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    const result = await this.categoriesService.findOne(id);
+    
+    this.logger.log(`Category found via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category retrieved successfully'
+    };
   }
 
   /**
@@ -139,260 +135,195 @@ export class CategoriesKafkaController {
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.FIND_BY_SLUG)
   async findCategoryBySlug(
-    @Payload() data: { slug: string; includeSubcategories?: boolean },
+    @Payload(CustomValidationPipe) data: CategorySlugPayloadDto,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { slug, includeSubcategories = false } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing find category by slug - Partition: ${partition}, Offset: ${offset}, Slug: ${slug}`);
-
-      const result = await this.categoriesService.findBySlug(slug, includeSubcategories);
-      
-      this.logger.log(`Category found by slug via Kafka: ${result.name} (${result._id})`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error finding category by slug via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve category'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { slug } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing find category by slug - Partition: ${partition}, Offset: ${offset}, Slug: ${slug}`);
+
+    const result = await this.categoriesService.findBySlug(slug);
+    
+    this.logger.log(`Category found by slug via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category retrieved successfully'
+    };
   }
 
   /**
    * Update a category via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.UPDATE)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
   async updateCategory(
-    @Payload() data: { 
-      id: string; 
-      updateCategoryDto: UpdateCategoryDto; 
-      imageData?: Buffer; 
-      imageName?: string 
-    },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id, updateCategoryDto, imageData, imageName } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category update - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
-
-      let imageFile: Express.Multer.File | undefined;
-      
-      // Convert image data back to Multer file format if provided
-      if (imageData && imageName) {
-        imageFile = {
-          buffer: imageData,
-          originalname: imageName,
-          mimetype: this.getMimeTypeFromExtension(imageName),
-          size: imageData.length,
-          fieldname: 'image',
-          encoding: '7bit',
-          destination: '',
-          filename: imageName,
-          path: '',
-          stream: null
-        } as Express.Multer.File;
-      }
-
-      const result = await this.categoriesService.update(id, updateCategoryDto, imageFile);
-      
-      this.logger.log(`Category updated successfully via Kafka: ${result.name} (${result._id})`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category updated successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error updating category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to update category'
-      };
+    @Payload(CustomValidationPipe) data: UpdateCategoryPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { id, updateCategoryDto, imageData, imageName, expectedVersion } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category update - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    let imageFile: Express.Multer.File | undefined;
+    
+    // Convert image data back to Multer file format if provided
+    if (imageData && imageName) {
+      imageFile = toMulterFile(imageData, imageName);
     }
+
+    // Same optimistic concurrency check as If-Match on HTTP; stale versions are rejected
+    const result = await this.categoriesService.update(id, updateCategoryDto, imageFile, actor, expectedVersion);
+    
+    this.logger.log(`Category updated successfully via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category updated successfully'
+    };
   }
 
   /**
    * Soft delete a category via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.DELETE)
+  @Roles(Role.ADMIN, Role.EDITOR)
   async removeCategory(
-    @Payload() data: { id: string },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
-
-      const result = await this.categoriesService.remove(id);
-      
-      this.logger.log(`Category deleted successfully via Kafka: ${id}`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category deleted successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error deleting category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to delete category'
-      };
-    }
+    @Payload(CustomValidationPipe) data: CategoryIdPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<{ message: string }>> {
+    const { id } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    const result = await this.categoriesService.remove(id, actor);
+    
+    this.logger.log(`Category deleted successfully via Kafka: ${id}`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category deleted successfully'
+    };
   }
 
   /**
    * Restore a soft-deleted category via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.RESTORE)
+  @Roles(Role.ADMIN, Role.EDITOR)
   async restoreCategory(
-    @Payload() data: { id: string },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category restoration - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
-
-      const result = await this.categoriesService.restore(id);
-      
-      this.logger.log(`Category restored successfully via Kafka: ${result.name} (${result._id})`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category restored successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error restoring category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to restore category'
-      };
-    }
+    @Payload(CustomValidationPipe) data: CategoryIdPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { id } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category restoration - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    const result = await this.categoriesService.restore(id, actor);
+    
+    this.logger.log(`Category restored successfully via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category restored successfully'
+    };
   }
 
   /**
    * Hard delete a category via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.HARD_DELETE)
+  @Roles(Role.ADMIN)
   async hardDeleteCategory(
-    @Payload() data: { id: string },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category hard deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
-
-      const result = await this.categoriesService.hardDelete(id);
-      
-      this.logger.log(`Category hard deleted successfully via Kafka: ${id}`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category permanently deleted'
-      };
-    } catch (error) {
-      this.logger.error(`Error hard deleting category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to permanently delete category'
-      };
-    }
+    @Payload(CustomValidationPipe) data: CategoryIdPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<{ message: string }>> {
+    const { id } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category hard deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    const result = await this.categoriesService.hardDelete(id, actor);
+    
+    this.logger.log(`Category hard deleted successfully via Kafka: ${id}`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category permanently deleted'
+    };
   }
 
   /**
    * Update category status via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.UPDATE_STATUS)
+  @Roles(Role.ADMIN, Role.EDITOR)
   async updateCategoryStatus(
-    @Payload() data: { id: string; status: CategoryStatus },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { id, status } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category status update - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Status: ${status}`);
-
-      const result = await this.categoriesService.updateStatus(id, status);
-      
-      this.logger.log(`Category status updated successfully via Kafka: ${result.name} (${result._id}) -> ${status}`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category status updated successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error updating category status via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to update category status'
-      };
-    }
+    @Payload(CustomValidationPipe) data: UpdateCategoryStatusPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { id, status } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category status update - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Status: ${status}`);
+
+    const result = await this.categoriesService.updateStatus(id, status, actor);
+    
+    this.logger.log(`Category status updated successfully via Kafka: ${result.name} (${result._id}) -> ${status}`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category status updated successfully'
+    };
   }
 
   /**
    * Update sort order for multiple categories via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.UPDATE_SORT_ORDER)
+  @Roles(Role.ADMIN, Role.EDITOR)
   async updateCategorySortOrder(
-    @Payload() data: { updates: { id: string; sortOrder: number }[] },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { updates } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category sort order update - Partition: ${partition}, Offset: ${offset}, Updates: ${updates.length}`);
-
-      const result = await this.categoriesService.updateSortOrder(updates);
-      
-      this.logger.log(`Category sort order updated successfully via Kafka: ${result.updated} categories`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category sort order updated successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error updating category sort order via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to update category sort order'
-      };
-    }
+    @Payload(CustomValidationPipe) data: UpdateCategorySortOrderPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<{ message: string; updated: number }>> {
+    const { updates } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category sort order update - Partition: ${partition}, Offset: ${offset}, Updates: ${updates.length}`);
+
+    const result = await this.categoriesService.updateSortOrder(updates, actor);
+    
+    this.logger.log(`Category sort order updated successfully via Kafka: ${result.updated} categories`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category sort order updated successfully'
+    };
   }
 
   /**
@@ -400,33 +331,24 @@ export class CategoriesKafkaController {
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.FIND_BY_GENDER)
   async findCategoriesByGender(
-    @Payload() data: { gender: Gender },
+    @Payload(CustomValidationPipe) data: CategoryGenderPayloadDto,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { gender } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing find categories by gender - Partition: ${partition}, Offset: ${offset}, Gender: ${gender}`);
-
-      const result = await this.categoriesService.findByGender(gender);
-      
-      this.logger.log(`Found ${result.length} categories by gender via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Categories retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error finding categories by gender via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve categories by gender'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryResponseDto[]>> {
+    const { gender } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing find categories by gender - Partition: ${partition}, Offset: ${offset}, Gender: ${gender}`);
+
+    const result = await this.categoriesService.findByGender(gender);
+    
+    this.logger.log(`Found ${result.length} categories by gender via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories retrieved successfully'
+    };
   }
 
   /**
@@ -436,64 +358,229 @@ export class CategoriesKafkaController {
   async findCategoriesWithSubcategories(
     @Payload() data: object,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing find categories with subcategories - Partition: ${partition}, Offset: ${offset}`);
-
-      const result = await this.categoriesService.findWithSubcategories();
-      
-      this.logger.log(`Found ${result.length} categories with subcategories via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Categories with subcategories retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error finding categories with subcategories via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve categories with subcategories'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryResponseDto[]>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing find categories with subcategories - Partition: ${partition}, Offset: ${offset}`);
+
+    const result = await this.categoriesService.findWithSubcategories();
+    
+    this.logger.log(`Found ${result.length} categories with subcategories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories with subcategories retrieved successfully'
+    };
+  }
+
+  /**
+   * Relevance-ranked category search via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.SEARCH)
+  async searchCategories(
+    @Payload(CustomValidationPipe) queryDto: CategorySearchQueryDto,
+    @Ctx() context: KafkaContext
+  ): Promise<KafkaSuccessReply<CategorySearchResponseDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category search - Partition: ${partition}, Offset: ${offset}, Query: ${queryDto.q}`);
+
+    const result = await this.categoriesService.search(queryDto);
+    
+    this.logger.log(`Category search matched ${result.pagination.total} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories searched successfully'
+    };
+  }
+
+  /**
+   * Get the revision history of a category via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.GET_REVISIONS)
+  async getCategoryRevisions(
+    @Payload(CustomValidationPipe) data: CategoryRevisionsPayloadDto,
+    @Ctx() context: KafkaContext
+  ): Promise<KafkaSuccessReply<CategoryRevisionListResponseDto>> {
+    const { id, queryDto } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category revisions request - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+    const result = await this.categoriesService.getRevisions(id, queryDto);
+    
+    this.logger.log(`Retrieved ${result.data.length} revisions of category ${id} via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category revisions retrieved successfully'
+    };
+  }
+
+  /**
+   * Get a single category revision via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.GET_REVISION)
+  async getCategoryRevision(
+    @Payload(CustomValidationPipe) data: CategoryRevisionPayloadDto,
+    @Ctx() context: KafkaContext
+  ): Promise<KafkaSuccessReply<CategoryRevisionDetailDto>> {
+    const { id, revision } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category revision request - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Revision: ${revision}`);
+
+    const result = await this.categoriesService.getRevision(id, revision);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category revision retrieved successfully'
+    };
+  }
+
+  /**
+   * Revert a category to a previous revision via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.REVERT_REVISION)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  async revertCategoryRevision(
+    @Payload(CustomValidationPipe) data: CategoryRevisionPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto>> {
+    const { id, revision } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category revert - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Revision: ${revision}`);
+
+    const result = await this.categoriesService.revertToRevision(id, revision, actor);
+    
+    this.logger.log(`Category reverted successfully via Kafka: ${result.name} (${result._id})`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category reverted successfully'
+    };
   }
 
   /**
    * Bulk create categories via Kafka
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.BULK_CREATE)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
   async bulkCreateCategories(
-    @Payload() data: { categories: CreateCategoryDto[] },
-    @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { categories } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing bulk category creation - Partition: ${partition}, Offset: ${offset}, Count: ${categories.length}`);
-
-      const result = await this.categoriesService.bulkCreate(categories);
-      
-      this.logger.log(`Bulk created ${result.length} categories via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Categories bulk created successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error bulk creating categories via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to bulk create categories'
-      };
-    }
+    @Payload(CustomValidationPipe) data: BulkCreateCategoriesPayloadDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<CategoryResponseDto[]>> {
+    const { categories } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing bulk category creation - Partition: ${partition}, Offset: ${offset}, Count: ${categories.length}`);
+
+    const result = await this.categoriesService.bulkCreate(categories, actor);
+    
+    this.logger.log(`Bulk created ${result.length} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories bulk created successfully'
+    };
+  }
+
+  /**
+   * Bulk update categories via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.BULK_UPDATE)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
+  async bulkUpdateCategories(
+    @Payload(CustomValidationPipe) bulkDto: BulkUpdateCategoryDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<BulkOperationResultDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing bulk category update - Partition: ${partition}, Offset: ${offset}, Count: ${bulkDto.ids?.length ?? 0}`);
+
+    const result = await this.categoriesService.bulkUpdate(bulkDto, actor);
+    
+    this.logger.log(`Bulk updated ${result.succeeded}/${result.total} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories bulk updated'
+    };
+  }
+
+  /**
+   * Bulk update category status via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.BULK_UPDATE_STATUS)
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
+  async bulkUpdateCategoryStatus(
+    @Payload(CustomValidationPipe) bulkDto: BulkStatusUpdateDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<BulkOperationResultDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing bulk category status update - Partition: ${partition}, Offset: ${offset}, Count: ${bulkDto.ids?.length ?? 0}`);
+
+    const result = await this.categoriesService.bulkUpdateStatus(bulkDto, actor);
+    
+    this.logger.log(`Bulk status updated ${result.succeeded}/${result.total} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category statuses bulk updated'
+    };
+  }
+
+  /**
+   * Bulk delete categories via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.CATEGORIES.BULK_DELETE)
+  @Roles(Role.ADMIN)
+  @Idempotent()
+  async bulkDeleteCategories(
+    @Payload(CustomValidationPipe) bulkDto: BulkDeleteCategoryDto,
+    @Ctx() context: KafkaContext,
+    @Actor() actor?: string
+  ): Promise<KafkaSuccessReply<BulkOperationResultDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing bulk category deletion - Partition: ${partition}, Offset: ${offset}, Count: ${bulkDto.ids?.length ?? 0}`);
+
+    const result = await this.categoriesService.bulkDelete(bulkDto, actor);
+    
+    this.logger.log(`Bulk deleted ${result.succeeded}/${result.total} categories via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Categories bulk deleted'
+    };
   }
 
   /**
@@ -503,30 +590,21 @@ export class CategoriesKafkaController {
   async getCategoryStats(
     @Payload() data: object,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing get category stats - Partition: ${partition}, Offset: ${offset}`);
-
-      const result = await this.categoriesService.getStats();
-      
-      this.logger.log(`Category stats retrieved successfully via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category statistics retrieved successfully'
-      };
-    } catch (error) {
-      this.logger.error(`Error getting category stats via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to retrieve category statistics'
-      };
-    }
+  ): Promise<KafkaSuccessReply<CategoryStatsDto>> {
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing get category stats - Partition: ${partition}, Offset: ${offset}`);
+
+    const result = await this.categoriesService.getStats();
+    
+    this.logger.log(`Category stats retrieved successfully via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category statistics retrieved successfully'
+    };
   }
 
   /**
@@ -534,53 +612,23 @@ export class CategoriesKafkaController {
    */
   @MessagePattern(KAFKA_TOPICS.CATEGORIES.VALIDATE)
   async validateCategory(
-    @Payload() data: { name: string; slug: string; excludeId?: string },
+    @Payload(CustomValidationPipe) data: ValidateCategoryPayloadDto,
     @Ctx() context: KafkaContext
-  ) {
-    try {
-      const { name, slug, excludeId } = data;
-      const partition = context.getPartition();
-      const offset = context.getMessage().offset;
-      
-      this.logger.log(`Processing category validation - Partition: ${partition}, Offset: ${offset}, Name: ${name}, Slug: ${slug}`);
-
-      const result = await this.categoriesService.validateCategory(name, slug, excludeId);
-      
-      this.logger.log(`Category validation completed via Kafka`);
-      
-      return {
-        success: true,
-        data: result,
-        message: 'Category validation completed'
-      };
-    } catch (error) {
-      this.logger.error(`Error validating category via Kafka: ${error.message}`, error.stack);
-      return {
-        success: false,
-        error: error.message,
-        message: 'Failed to validate category'
-      };
-    }
-  }
+  ): Promise<KafkaSuccessReply<CategoryValidationDto>> {
+    const { name, slug, excludeId } = data;
+    const partition = context.getPartition();
+    const offset = context.getMessage().offset;
+    
+    this.logger.log(`Processing category validation - Partition: ${partition}, Offset: ${offset}, Name: ${name}, Slug: ${slug}`);
 
-  /**
-   * Helper method to get MIME type from file extension
-   */
-  private getMimeTypeFromExtension(filename: string): string {
-    const ext = filename.split('.').pop()?.toLowerCase();
-    
-    switch (ext) {
-      case 'jpg':
-      case 'jpeg':
-        return 'image/jpeg';
-      case 'png':
-        return 'image/png';
-      case 'gif':
-        return 'image/gif';
-      case 'webp':
-        return 'image/webp';
-      default:
-        return 'application/octet-stream';
-    }
+    const result = await this.categoriesService.validateCategory(name, slug, excludeId);
+    
+    this.logger.log(`Category validation completed via Kafka`);
+    
+    return {
+      success: true,
+      data: result,
+      message: 'Category validation completed'
+    };
   }
 }
\ No newline at end of file
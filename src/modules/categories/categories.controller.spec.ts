@@ -1,6 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CategoriesController } from './categories.controller';
 import { CategoriesService } from './categories.service';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheTagService } from '../cache/cache-tag.service';
+import { ConfigService } from '@nestjs/config';
+import { JwtVerifierService } from '../auth/jwt-verifier.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { RateLimiterService } from '../cache/rate-limiter.service';
+import { IdempotencyService } from '../idempotency/idempotency.service';
 
 describe('CategoriesController', () => {
   let controller: CategoriesController;
@@ -8,7 +15,22 @@ describe('CategoriesController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [CategoriesController],
-      providers: [CategoriesService],
+      providers: [
+        { provide: CategoriesService, useValue: {} },
+        {
+          provide: CacheTagService,
+          useValue: { set: jest.fn(), invalidate: jest.fn() },
+        },
+        { provide: CACHE_MANAGER, useValue: { get: jest.fn() } },
+        {
+          provide: JwtVerifierService,
+          useValue: { isEnabled: jest.fn(), verify: jest.fn() },
+        },
+        { provide: ApiKeysService, useValue: { authenticate: jest.fn() } },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: RateLimiterService, useValue: { consume: jest.fn() } },
+        { provide: IdempotencyService, useValue: { execute: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<CategoriesController>(CategoriesController);
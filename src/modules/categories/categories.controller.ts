@@ -5,16 +5,19 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
-  //UseGuards,
+  UseGuards,
   UseInterceptors,
   UploadedFile,
   HttpCode,
   HttpStatus,
   ValidationPipe,
   ParseEnumPipe,
+  ParseIntPipe,
+  StreamableFile,
   Logger
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
@@ -27,34 +30,86 @@ import {
   ApiParam,
   ApiQuery,
   ApiBearerAuth,
+  ApiSecurity,
   ApiExtraModels,
+  ApiHeader,
+  ApiProduces,
   getSchemaPath
 } from '@nestjs/swagger';
 import { CategoriesService } from './categories.service';
+import { categoryChildrenTags, categoryDetailTags, categoryGenderTags } from './category-cache-tags';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
-import { CategoryQueryDto } from './dto/category-filter.dto';
+import { CATEGORY_SORT_FIELDS, CategoryQueryDto } from './dto/category-filter.dto';
 import { CategoryResponseDto } from './dto/category-response.dto';
 import { CategoryListResponseDto } from './dto/category-paginated.dto';
+import { CategorySearchQueryDto, CategorySearchResponseDto } from './dto/category-search.dto';
 import { CategoryStatsDto, CategoryValidationDto } from './dto/category.statistics.dto';
+import { CategoryBreadcrumbDto, CategoryTreeNodeDto, CategoryTreeQueryDto } from './dto/category-tree.dto';
+import { MoveCategoryDto } from './dto/move-category.dto';
+import { AddCategoryMediaDto, ReorderCategoryMediaDto, UpdateCategoryMediaDto } from './dto/category-media.dto';
+import { 
+  BulkDeleteCategoryDto, 
+  BulkOperationResultDto, 
+  BulkStatusUpdateDto, 
+  BulkUpdateCategoryDto 
+} from './dto/bulk.dto';
+import { 
+  CategoryExportQueryDto, 
+  CategoryImportQueryDto, 
+  CategoryImportReportDto 
+} from './dto/category-import.dto';
+import { 
+  CategoryRevisionDetailDto, 
+  CategoryRevisionListResponseDto, 
+  CategoryRevisionQueryDto 
+} from './dto/category-revision.dto';
 import { CategoryStatus } from '../../common/enums/category-status.enum';
-import { Gender } from '../../common/enums/gender.enum';
-//import { AuthGuard } from '../../common/guards/auth.guard';
-//import { RateLimitGuard } from '../../common/guards/rate-limit.guard';
+import { CategoryMediaRole } from '../../common/enums/category-media-role.enum';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { Role } from '../../common/enums/role.enum';
+import { RateLimit, RateLimitOptions } from '../../common/decorators/rate-limit.decorator';
+import { Idempotent } from '../../common/decorators/idempotent.decorator';
+import { RateLimitAlgorithm } from '../../common/enums/rate-limit-algorithm.enum';
 import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
-import { CacheInterceptor } from '../../common/interceptors/cache.interceptor';
+import { Cacheable } from '../../common/decorators/cache.decorator';
+import { CACHE_KEYS, CACHE_TAGS } from '../../common/constants/cache-keys.constants';
 import { ParseObjectIdPipe } from '../../common/pipes/parse-object-id.pipe';
+import { Actor } from '../../common/decorators/actor.decorator';
+import { IfMatch } from '../../common/decorators/if-match.decorator';
+import { ETagInterceptor } from '../../common/interceptors/etag.interceptor';
+
+// Bulk writes share one bucket per caller: short bursts, then one request every 3 seconds
+const BULK_RATE_LIMIT: RateLimitOptions = {
+  bucket: CACHE_KEYS.RATE_LIMIT.BULK_OPERATIONS,
+  algorithm: RateLimitAlgorithm.TOKEN_BUCKET,
+  limit: 20,
+  windowSeconds: 60,
+  burst: 5
+};
 
 @ApiTags('Categories')
 @Controller('categories')
-//@UseGuards(AuthGuard, RateLimitGuard)
-@UseInterceptors(TransformInterceptor)
+@UseGuards(RolesGuard)
+@UseInterceptors(TransformInterceptor, ETagInterceptor)
 @ApiBearerAuth()
+@ApiSecurity('api-key')
+@ApiResponse({ status: 401, description: 'Missing, invalid or expired bearer token' })
+@ApiResponse({ status: 403, description: 'Authenticated user lacks a role the endpoint requires' })
+@ApiResponse({ status: 429, description: 'Rate limit exceeded; see the Retry-After header' })
 @ApiExtraModels(
   CategoryResponseDto,
   CategoryListResponseDto,
   CategoryStatsDto,
-  CategoryValidationDto
+  CategoryValidationDto,
+  CategoryTreeNodeDto,
+  CategoryBreadcrumbDto,
+  CategorySearchResponseDto,
+  CategoryRevisionListResponseDto,
+  CategoryRevisionDetailDto,
+  BulkOperationResultDto,
+  CategoryImportReportDto
 )
 export class CategoriesController {
   private readonly logger = new Logger(CategoriesController.name);
@@ -62,9 +117,12 @@ export class CategoriesController {
   constructor(private readonly categoriesService: CategoriesService) {}
 
   @Post()
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
   @ApiOperation({ 
     summary: 'Create a new category',
-    description: 'Creates a new category with optional image upload. Supports multipart/form-data for image uploads.'
+    description: 'Creates a new category with optional image upload. Supports multipart/form-data for image uploads. ' +
+      'The image is checked as a hero image: at least 600x300 px and at most 8000x8000 px, landscape or square (width / height from 1 to 4), not animated. Portrait, animated or smaller images are rejected with 422.'
   })
   @ApiConsumes('multipart/form-data', 'application/json')
   @ApiBody({
@@ -73,6 +131,7 @@ export class CategoriesController {
       properties: {
         name: { type: 'string', description: 'Category name' },
         description: { type: 'string', description: 'Category description' },
+        parentId: { type: 'string', description: 'Parent category ID (omit for a root category)' },
         status: { 
           type: 'string', 
           enum: Object.values(CategoryStatus),
@@ -80,8 +139,8 @@ export class CategoriesController {
         },
         applicableGenders: {
           type: 'array',
-          items: { type: 'string', enum: Object.values(Gender) },
-          description: 'Applicable genders'
+          items: { type: 'string' },
+          description: 'Applicable genders (names of active gender records)'
         },
         sortOrder: { type: 'number', description: 'Sort order' },
         metadata: { type: 'object', description: 'Additional metadata' },
@@ -89,7 +148,7 @@ export class CategoriesController {
         image: {
           type: 'string',
           format: 'binary',
-          description: 'Category image file'
+          description: 'Category hero image file (JPEG, PNG, GIF or WebP)'
         }
       },
       required: ['name', 'description', 'applicableGenders']
@@ -101,16 +160,19 @@ export class CategoriesController {
     schema: { $ref: getSchemaPath(CategoryResponseDto) }
   })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Parent category not found' })
   @ApiResponse({ status: 409, description: 'Category name or slug already exists' })
   @ApiResponse({ status: 413, description: 'Image file too large' })
   @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
   @UseInterceptors(FileInterceptor('image'))
   async create(
     @Body(ValidationPipe) createCategoryDto: CreateCategoryDto,
-    @UploadedFile() imageFile?: Express.Multer.File
+    @UploadedFile() imageFile?: Express.Multer.File,
+    @Actor() actor?: string
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Creating category: ${createCategoryDto.name}`);
-    return this.categoriesService.create(createCategoryDto, imageFile);
+    return this.categoriesService.create(createCategoryDto, imageFile, actor);
   }
 
   @Get()
@@ -145,7 +207,7 @@ export class CategoriesController {
   @ApiQuery({
     name: 'gender',
     required: false,
-    enum: Gender,
+    type: String,
     description: 'Filter by applicable gender'
   })
   @ApiQuery({
@@ -157,8 +219,8 @@ export class CategoriesController {
   @ApiQuery({
     name: 'sortBy',
     required: false,
-    type: String,
-    description: 'Sort field (name, createdAt, updatedAt, sortOrder)'
+    enum: CATEGORY_SORT_FIELDS,
+    description: 'Sort field (default: sortOrder)'
   })
   @ApiQuery({
     name: 'sortOrder',
@@ -172,17 +234,58 @@ export class CategoriesController {
     type: Boolean,
     description: 'Include soft-deleted categories'
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    type: String,
+    description: 'Keyset pagination cursor from nextCursor/prevCursor; send it empty to start from the first item. Replaces page'
+  })
+  @ApiQuery({
+    name: 'includeTotal',
+    required: false,
+    type: Boolean,
+    description: 'Also count matching categories in cursor mode (default: false)'
+  })
   @ApiResponse({
     status: 200,
     description: 'Categories retrieved successfully',
-    schema: { $ref: getSchemaPath(CategoryListResponseDto) }
+    schema: { $ref: getSchemaPath(CategoryListResponseDto) },
+    headers: {
+      'X-Total-Count': { description: 'Total matching categories, when counted', schema: { type: 'integer' } },
+      'X-Next-Cursor': { description: 'Cursor for the next page, when there is one', schema: { type: 'string' } },
+      'X-Prev-Cursor': { description: 'Cursor for the previous page, when there is one', schema: { type: 'string' } }
+    }
   })
-  @UseInterceptors(CacheInterceptor)
+  @ApiResponse({ status: 400, description: 'Invalid cursor, or cursor issued for a different sort or filters' })
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.ALL, ttl: 300, tags: [CACHE_TAGS.CATEGORIES.LIST] })
   async findAll(@Query(ValidationPipe) queryDto: CategoryQueryDto): Promise<CategoryListResponseDto> {
     this.logger.log(`Retrieving categories with filters: ${JSON.stringify(queryDto)}`);
     return this.categoriesService.findAll(queryDto);
   }
 
+  @Get('search')
+  @RateLimit({ bucket: CACHE_KEYS.RATE_LIMIT.SEARCH, limit: 60, windowSeconds: 60 })
+  @ApiOperation({ 
+    summary: 'Search categories',
+    description: 'Relevance-ranked full-text search over name, slug, description and metadata keywords, with scores and highlighted matches'
+  })
+  @ApiQuery({ name: 'q', required: true, type: String, description: 'Search text; special characters are ignored' })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Filter by category status' })
+  @ApiQuery({ name: 'gender', required: false, type: String, description: 'Filter by applicable gender' })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 20, max: 100)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Search results ordered by relevance',
+    schema: { $ref: getSchemaPath(CategorySearchResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Search text has nothing searchable' })
+  @Cacheable({ key: CACHE_KEYS.SEARCH.CATEGORIES, ttl: 300, tags: [CACHE_TAGS.CATEGORIES.LIST] })
+  async search(@Query(ValidationPipe) queryDto: CategorySearchQueryDto): Promise<CategorySearchResponseDto> {
+    this.logger.log(`Searching categories: ${JSON.stringify(queryDto)}`);
+    return this.categoriesService.search(queryDto);
+  }
+
   @Get('stats')
   @ApiOperation({ 
     summary: 'Get category statistics',
@@ -193,7 +296,7 @@ export class CategoriesController {
     description: 'Category statistics retrieved successfully',
     schema: { $ref: getSchemaPath(CategoryStatsDto) }
   })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORY_STATS, ttl: 900, tags: [CACHE_TAGS.CATEGORIES.STATS] })
   async getStats(): Promise<CategoryStatsDto> {
     this.logger.log('Retrieving category statistics');
     return this.categoriesService.getStats();
@@ -212,7 +315,7 @@ export class CategoriesController {
     description: 'Validation result',
     schema: { $ref: getSchemaPath(CategoryValidationDto) }
   })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORY_VALIDATION, ttl: 60, varyBy: ['query'], tags: [CACHE_TAGS.CATEGORIES.VALIDATION] })
   async validateCategory(
     @Query('name') name: string,
     @Query('slug') slug: string,
@@ -222,6 +325,46 @@ export class CategoriesController {
     return this.categoriesService.validateCategory(name, slug, excludeId);
   }
 
+  @Get('export.csv')
+  @RateLimit({ limit: 10, windowSeconds: 60 })
+  @ApiOperation({ 
+    summary: 'Export categories as CSV',
+    description: 'Downloads the catalog as CSV, parents before children. applicableGenders are separated by "|" and metadata is flattened into metadata.<key> columns; the file can be edited and imported again'
+  })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Only export categories with this status' })
+  @ApiProduces('text/csv')
+  @ApiResponse({ status: 200, description: 'CSV file', schema: { type: 'string', format: 'binary' } })
+  async exportCsv(@Query(ValidationPipe) queryDto: CategoryExportQueryDto): Promise<StreamableFile> {
+    this.logger.log('Exporting categories as CSV');
+    const csv = await this.categoriesService.exportCsv(queryDto);
+    return new StreamableFile(Buffer.from(csv, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="categories.csv"'
+    });
+  }
+
+  @Get('tree')
+  @ApiOperation({ 
+    summary: 'Get category tree',
+    description: 'Retrieves categories as a nested tree, optionally limited to the subtree below a root category'
+  })
+  @ApiQuery({ name: 'rootId', required: false, type: String, description: 'Only return the subtree below this category' })
+  @ApiQuery({ name: 'maxDepth', required: false, type: Number, description: 'Maximum number of levels to return (1-10)' })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Filter by category status' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category tree retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CategoryTreeNodeDto) }
+    }
+  })
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.TREE, ttl: 300, varyBy: ['query'], tags: [CACHE_TAGS.CATEGORIES.LIST] })
+  async findTree(@Query(ValidationPipe) queryDto: CategoryTreeQueryDto): Promise<CategoryTreeNodeDto[]> {
+    this.logger.log(`Retrieving category tree: ${JSON.stringify(queryDto)}`);
+    return this.categoriesService.findTree(queryDto);
+  }
+
   @Get('gender/:gender')
   @ApiOperation({ 
     summary: 'Get categories by gender',
@@ -229,8 +372,8 @@ export class CategoriesController {
   })
   @ApiParam({
     name: 'gender',
-    enum: Gender,
-    description: 'Gender to filter by'
+    type: String,
+    description: 'Gender name to filter by'
   })
   @ApiResponse({
     status: 200,
@@ -240,9 +383,9 @@ export class CategoriesController {
       items: { $ref: getSchemaPath(CategoryResponseDto) }
     }
   })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.BY_GENDER, ttl: 300, varyBy: ['params'], tags: (_, request) => categoryGenderTags(request.params.gender) })
   async findByGender(
-    @Param('gender', new ParseEnumPipe(Gender)) gender: Gender
+    @Param('gender') gender: string
   ): Promise<CategoryResponseDto[]> {
     this.logger.log(`Retrieving categories for gender: ${gender}`);
     return this.categoriesService.findByGender(gender);
@@ -261,7 +404,7 @@ export class CategoriesController {
       items: { $ref: getSchemaPath(CategoryResponseDto) }
     }
   })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.WITH_SUBCATEGORIES, ttl: 300, varyBy: [], tags: [CACHE_TAGS.CATEGORIES.LIST] })
   async findWithSubcategories(): Promise<CategoryResponseDto[]> {
     this.logger.log('Retrieving categories with subcategories');
     return this.categoriesService.findWithSubcategories();
@@ -277,25 +420,19 @@ export class CategoriesController {
     type: String,
     description: 'Category slug'
   })
-  @ApiQuery({
-    name: 'includeSubcategories',
-    required: false,
-    type: Boolean,
-    description: 'Include subcategories in response'
-  })
   @ApiResponse({
     status: 200,
     description: 'Category retrieved successfully',
-    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+    schema: { $ref: getSchemaPath(CategoryResponseDto) },
+    headers: { ETag: { description: 'Version of the category, for use in If-Match', schema: { type: 'string' } } }
   })
   @ApiResponse({ status: 404, description: 'Category not found' })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.BY_SLUG, ttl: 600, varyBy: ['params'], tags: categoryDetailTags })
   async findBySlug(
-    @Param('slug') slug: string,
-    @Query('includeSubcategories') includeSubcategories?: boolean
+    @Param('slug') slug: string
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Retrieving category by slug: ${slug}`);
-    return this.categoriesService.findBySlug(slug, includeSubcategories);
+    return this.categoriesService.findBySlug(slug);
   }
 
   @Get(':id')
@@ -308,32 +445,483 @@ export class CategoriesController {
     type: String,
     description: 'Category ID'
   })
-  @ApiQuery({
-    name: 'includeSubcategories',
-    required: false,
-    type: Boolean,
-    description: 'Include subcategories in response'
-  })
   @ApiResponse({
     status: 200,
     description: 'Category retrieved successfully',
-    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+    schema: { $ref: getSchemaPath(CategoryResponseDto) },
+    headers: { ETag: { description: 'Version of the category, for use in If-Match', schema: { type: 'string' } } }
   })
   @ApiResponse({ status: 400, description: 'Invalid category ID format' })
   @ApiResponse({ status: 404, description: 'Category not found' })
-  @UseInterceptors(CacheInterceptor)
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.BY_ID, ttl: 600, varyBy: ['params'], tags: categoryDetailTags })
   async findOne(
-    @Param('id', ParseObjectIdPipe) id: string,
-    @Query('includeSubcategories') includeSubcategories?: boolean
+    @Param('id', ParseObjectIdPipe) id: string
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Retrieving category by ID: ${id}`);
-    return this.categoriesService.findOne(id, includeSubcategories);
+    return this.categoriesService.findOne(id);
+  }
+
+  @Get(':id/children')
+  @ApiOperation({ 
+    summary: 'Get child categories',
+    description: 'Retrieves the direct children of a category'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Parent category ID'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Child categories retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CategoryResponseDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  @Cacheable({ key: CACHE_KEYS.CATEGORIES.BY_PARENT, ttl: 300, varyBy: ['params'], tags: (children, request) => categoryChildrenTags(request.params.id, children) })
+  async findChildren(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<CategoryResponseDto[]> {
+    this.logger.log(`Retrieving children of category: ${id}`);
+    return this.categoriesService.findChildren(id);
+  }
+
+  @Get(':id/breadcrumbs')
+  @ApiOperation({ 
+    summary: 'Get category breadcrumbs',
+    description: 'Retrieves the path from the root category down to the given category'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Breadcrumbs retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CategoryBreadcrumbDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async getBreadcrumbs(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<CategoryBreadcrumbDto[]> {
+    this.logger.log(`Retrieving breadcrumbs for category: ${id}`);
+    return this.categoriesService.getBreadcrumbs(id);
+  }
+
+  @Get(':id/revisions')
+  @ApiOperation({ 
+    summary: 'Get category revision history',
+    description: 'Lists every recorded change to a category, newest first, with who made it and a field-level diff'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revisions retrieved successfully',
+    schema: { $ref: getSchemaPath(CategoryRevisionListResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async getRevisions(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Query(ValidationPipe) queryDto: CategoryRevisionQueryDto
+  ): Promise<CategoryRevisionListResponseDto> {
+    this.logger.log(`Retrieving revisions of category: ${id}`);
+    return this.categoriesService.getRevisions(id, queryDto);
+  }
+
+  @Get(':id/revisions/:rev')
+  @ApiOperation({ 
+    summary: 'Get category revision',
+    description: 'Retrieves a single revision including the category state after the change'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiParam({
+    name: 'rev',
+    type: Number,
+    description: 'Revision number'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Revision retrieved successfully',
+    schema: { $ref: getSchemaPath(CategoryRevisionDetailDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format or revision number' })
+  @ApiResponse({ status: 404, description: 'Revision not found' })
+  async getRevision(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Param('rev', ParseIntPipe) revision: number
+  ): Promise<CategoryRevisionDetailDto> {
+    this.logger.log(`Retrieving revision ${revision} of category: ${id}`);
+    return this.categoriesService.getRevision(id, revision);
+  }
+
+  @Post(':id/revisions/:rev/revert')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Revert category to a revision',
+    description: 'Restores name, description, status, genders, sort order, metadata and icon from a revision through the regular update, recording a new revision'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiParam({
+    name: 'rev',
+    type: Number,
+    description: 'Revision number to revert to'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category reverted successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input or revision has no state to revert to' })
+  @ApiResponse({ status: 404, description: 'Category or revision not found' })
+  @ApiResponse({ status: 409, description: 'Reverted name conflicts with another category' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
+  @HttpCode(HttpStatus.OK)
+  async revertToRevision(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Param('rev', ParseIntPipe) revision: number,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Reverting category ${id} to revision ${revision}`);
+    return this.categoriesService.revertToRevision(id, revision, actor, expectedVersion);
+  }
+
+  @Patch('bulk')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
+  @RateLimit(BULK_RATE_LIMIT)
+  @ApiOperation({ 
+    summary: 'Bulk update categories',
+    description: 'Applies the same changes to multiple categories; each ID succeeds or fails on its own'
+  })
+  @ApiBody({ type: BulkUpdateCategoryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-ID results of the bulk update',
+    schema: { $ref: getSchemaPath(BulkOperationResultDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async bulkUpdate(
+    @Body(ValidationPipe) bulkUpdateDto: BulkUpdateCategoryDto,
+    @Actor() actor?: string
+  ): Promise<BulkOperationResultDto> {
+    this.logger.log(`Bulk updating ${bulkUpdateDto.ids.length} categories`);
+    return this.categoriesService.bulkUpdate(bulkUpdateDto, actor);
+  }
+
+  @Patch('bulk/status')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
+  @RateLimit(BULK_RATE_LIMIT)
+  @ApiOperation({ 
+    summary: 'Bulk update category status',
+    description: 'Sets the status of multiple categories; each ID succeeds or fails on its own'
+  })
+  @ApiBody({ type: BulkStatusUpdateDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-ID results of the status update',
+    schema: { $ref: getSchemaPath(BulkOperationResultDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async bulkUpdateStatus(
+    @Body(ValidationPipe) bulkStatusDto: BulkStatusUpdateDto,
+    @Actor() actor?: string
+  ): Promise<BulkOperationResultDto> {
+    this.logger.log(`Bulk updating status of ${bulkStatusDto.ids.length} categories -> ${bulkStatusDto.status}`);
+    return this.categoriesService.bulkUpdateStatus(bulkStatusDto, actor);
+  }
+
+  @Delete('bulk')
+  @Roles(Role.ADMIN)
+  @Idempotent()
+  @RateLimit(BULK_RATE_LIMIT)
+  @ApiOperation({ 
+    summary: 'Bulk delete categories',
+    description: 'Soft deletes (or permanently deletes with hardDelete) multiple categories and their images; each ID succeeds or fails on its own'
+  })
+  @ApiBody({ type: BulkDeleteCategoryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-ID results of the bulk delete',
+    schema: { $ref: getSchemaPath(BulkOperationResultDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async bulkDelete(
+    @Body(ValidationPipe) bulkDeleteDto: BulkDeleteCategoryDto,
+    @Actor() actor?: string
+  ): Promise<BulkOperationResultDto> {
+    this.logger.log(`Bulk ${bulkDeleteDto.hardDelete ? 'hard' : 'soft'} deleting ${bulkDeleteDto.ids.length} categories`);
+    return this.categoriesService.bulkDelete(bulkDeleteDto, actor);
+  }
+
+  @Patch(':id/move')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Move category',
+    description: 'Moves a category under a new parent (or to the root when parentId is null) and rebuilds the slugs of the whole subtree'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiBody({ type: MoveCategoryDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Category moved successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format or move would create a cycle' })
+  @ApiResponse({ status: 404, description: 'Category or parent category not found' })
+  @ApiResponse({ status: 409, description: 'Slug already exists under the new parent' })
+  async move(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) moveCategoryDto: MoveCategoryDto,
+    @Actor() actor?: string
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Moving category: ${id} -> ${moveCategoryDto.parentId ?? 'root'}`);
+    return this.categoriesService.move(id, moveCategoryDto.parentId ?? null, actor);
+  }
+
+  @Post(':id/media')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Add category media',
+    description: 'Uploads an image and adds it to the category gallery. The hero image (else the first image) is also exposed as imageUrl'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        role: {
+          type: 'string',
+          enum: Object.values(CategoryMediaRole),
+          description: 'What the image is used for; a category has at most one hero and one thumbnail'
+        },
+        alt: { type: 'string', description: 'Alternative text' },
+        gender: { type: 'string', description: 'Gender the image is meant for (lifestyle shots)' },
+        focalX: { type: 'number', description: 'Horizontal focal point, from 0 (left) to 1 (right)' },
+        focalY: { type: 'number', description: 'Vertical focal point, from 0 (top) to 1 (bottom)' },
+        order: { type: 'number', description: 'Position in the gallery (default: last)' },
+        image: {
+          type: 'string',
+          format: 'binary',
+          description: 'Image file'
+        }
+      },
+      required: ['role', 'alt', 'image']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Media added successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data, missing image or gallery full' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  @ApiResponse({ status: 409, description: 'Category already has an image with this role' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async addMedia(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) addMediaDto: AddCategoryMediaDto,
+    @UploadedFile() imageFile?: Express.Multer.File,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Adding ${addMediaDto.role} media to category: ${id}`);
+    return this.categoriesService.addMedia(id, imageFile, addMediaDto, actor, expectedVersion);
+  }
+
+  @Patch(':id/media/order')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Reorder category media',
+    description: 'Puts the gallery in the given order; every media item must be listed exactly once'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiBody({ type: ReorderCategoryMediaDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Media reordered successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Media IDs do not match the gallery' })
+  @ApiResponse({ status: 404, description: 'Category or media item not found' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
+  async reorderMedia(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) reorderMediaDto: ReorderCategoryMediaDto,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Reordering media of category: ${id}`);
+    return this.categoriesService.reorderMedia(id, reorderMediaDto.mediaIds, actor, expectedVersion);
+  }
+
+  @Put(':id/media/:mediaId')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Replace category media',
+    description: 'Updates the role, alt text, gender or focal point of a media item; an uploaded image replaces the current one'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiParam({
+    name: 'mediaId',
+    type: String,
+    description: 'Media item ID'
+  })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        role: {
+          type: 'string',
+          enum: Object.values(CategoryMediaRole),
+          description: 'What the image is used for; a category has at most one hero and one thumbnail'
+        },
+        alt: { type: 'string', description: 'Alternative text' },
+        gender: { type: 'string', description: 'Gender the image is meant for (lifestyle shots)' },
+        focalX: { type: 'number', description: 'Horizontal focal point, from 0 (left) to 1 (right)' },
+        focalY: { type: 'number', description: 'Vertical focal point, from 0 (top) to 1 (bottom)' },
+        image: {
+          type: 'string',
+          format: 'binary',
+          description: 'Replacement image file'
+        }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Media updated successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Category or media item not found' })
+  @ApiResponse({ status: 409, description: 'Category already has an image with this role' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async replaceMedia(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Param('mediaId', ParseObjectIdPipe) mediaId: string,
+    @Body(ValidationPipe) updateMediaDto: UpdateCategoryMediaDto,
+    @UploadedFile() imageFile?: Express.Multer.File,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Updating media ${mediaId} of category: ${id}`);
+    return this.categoriesService.replaceMedia(id, mediaId, updateMediaDto, imageFile, actor, expectedVersion);
+  }
+
+  @Delete(':id/media/:mediaId')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @ApiOperation({ 
+    summary: 'Remove category media',
+    description: 'Removes a media item from the gallery and deletes its image'
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Category ID'
+  })
+  @ApiParam({
+    name: 'mediaId',
+    type: String,
+    description: 'Media item ID'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Media removed successfully',
+    schema: { $ref: getSchemaPath(CategoryResponseDto) }
+  })
+  @ApiResponse({ status: 404, description: 'Category or media item not found' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
+  async removeMedia(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Param('mediaId', ParseObjectIdPipe) mediaId: string,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
+  ): Promise<CategoryResponseDto> {
+    this.logger.log(`Removing media ${mediaId} from category: ${id}`);
+    return this.categoriesService.removeMedia(id, mediaId, actor, expectedVersion);
   }
 
   @Patch(':id')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
   @ApiOperation({ 
     summary: 'Update category',
-    description: 'Updates an existing category with optional image upload'
+    description: 'Updates an existing category with optional image upload, which replaces the hero of its gallery. ' +
+      'The image is checked as a hero image: at least 600x300 px and at most 8000x8000 px, landscape or square (width / height from 1 to 4), not animated. Portrait, animated or smaller images are rejected with 422.'
   })
   @ApiParam({
     name: 'id',
@@ -354,8 +942,8 @@ export class CategoriesController {
         },
         applicableGenders: {
           type: 'array',
-          items: { type: 'string', enum: Object.values(Gender) },
-          description: 'Applicable genders'
+          items: { type: 'string' },
+          description: 'Applicable genders (names of active gender records)'
         },
         sortOrder: { type: 'number', description: 'Sort order' },
         metadata: { type: 'object', description: 'Additional metadata' },
@@ -363,7 +951,7 @@ export class CategoriesController {
         image: {
           type: 'string',
           format: 'binary',
-          description: 'Category image file'
+          description: 'Category hero image file (JPEG, PNG, GIF or WebP)'
         }
       }
     }
@@ -378,17 +966,27 @@ export class CategoriesController {
   @ApiResponse({ status: 409, description: 'Category name or slug already exists' })
   @ApiResponse({ status: 413, description: 'Image file too large' })
   @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
   @UseInterceptors(FileInterceptor('image'))
   async update(
     @Param('id', ParseObjectIdPipe) id: string,
     @Body(ValidationPipe) updateCategoryDto: UpdateCategoryDto,
-    @UploadedFile() imageFile?: Express.Multer.File
+    @UploadedFile() imageFile?: Express.Multer.File,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Updating category: ${id}`);
-    return this.categoriesService.update(id, updateCategoryDto, imageFile);
+    return this.categoriesService.update(id, updateCategoryDto, imageFile, actor, expectedVersion);
   }
 
   @Patch(':id/status')
+  @Roles(Role.ADMIN, Role.EDITOR)
   @ApiOperation({ 
     summary: 'Update category status',
     description: 'Updates the status of a specific category'
@@ -418,15 +1016,24 @@ export class CategoriesController {
   })
   @ApiResponse({ status: 400, description: 'Invalid category ID format or status' })
   @ApiResponse({ status: 404, description: 'Category not found' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
   async updateStatus(
     @Param('id', ParseObjectIdPipe) id: string,
-    @Body('status', new ParseEnumPipe(CategoryStatus)) status: CategoryStatus
+    @Body('status', new ParseEnumPipe(CategoryStatus)) status: CategoryStatus,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Updating category status: ${id} -> ${status}`);
-    return this.categoriesService.updateStatus(id, status);
+    return this.categoriesService.updateStatus(id, status, actor, expectedVersion);
   }
 
   @Patch('sort-order')
+  @Roles(Role.ADMIN, Role.EDITOR)
   @ApiOperation({ 
     summary: 'Update sort order for multiple categories',
     description: 'Updates the sort order for multiple categories in a single request'
@@ -463,13 +1070,17 @@ export class CategoriesController {
   })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   async updateSortOrder(
-    @Body('updates', ValidationPipe) updates: { id: string; sortOrder: number }[]
+    @Body('updates', ValidationPipe) updates: { id: string; sortOrder: number }[],
+    @Actor() actor?: string
   ): Promise<{ message: string; updated: number }> {
     this.logger.log(`Updating sort order for ${updates.length} categories`);
-    return this.categoriesService.updateSortOrder(updates);
+    return this.categoriesService.updateSortOrder(updates, actor);
   }
 
   @Post('bulk')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @Idempotent()
+  @RateLimit(BULK_RATE_LIMIT)
   @ApiOperation({ 
     summary: 'Bulk create categories',
     description: 'Creates multiple categories in a single request'
@@ -497,13 +1108,50 @@ export class CategoriesController {
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @HttpCode(HttpStatus.CREATED)
   async bulkCreate(
-    @Body('categories', ValidationPipe) categories: CreateCategoryDto[]
+    @Body('categories', ValidationPipe) categories: CreateCategoryDto[],
+    @Actor() actor?: string
   ): Promise<CategoryResponseDto[]> {
     this.logger.log(`Bulk creating ${categories.length} categories`);
-    return this.categoriesService.bulkCreate(categories);
+    return this.categoriesService.bulkCreate(categories, actor);
+  }
+
+  @Post('import')
+  @Roles(Role.ADMIN, Role.EDITOR)
+  @RateLimit(BULK_RATE_LIMIT)
+  @ApiOperation({ 
+    summary: 'Import categories from CSV',
+    description: 'Creates or updates categories by slug from a CSV file in the export format. Empty cells leave fields unchanged and metadata cells are merged key by key. Metadata cells holding true/false, a number or a JSON array/object are read as that type; text that looks like one is written quoted as a JSON string (e.g. \"123\") by the export and read back as text. Every row is reported separately; with dryRun=true nothing is written'
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary', description: 'CSV file (max 5MB)' }
+      },
+      required: ['file']
+    }
+  })
+  @ApiQuery({ name: 'dryRun', required: false, type: Boolean, description: 'Only validate and report planned changes' })
+  @ApiResponse({
+    status: 200,
+    description: 'Row-level import report',
+    schema: { $ref: getSchemaPath(CategoryImportReportDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Missing, malformed or oversized file, or unknown columns' })
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file'))
+  async importCsv(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(ValidationPipe) queryDto: CategoryImportQueryDto,
+    @Actor() actor?: string
+  ): Promise<CategoryImportReportDto> {
+    this.logger.log(`Importing categories from CSV${queryDto.dryRun ? ' (dry run)' : ''}`);
+    return this.categoriesService.importCsv(file, queryDto.dryRun ?? false, actor);
   }
 
   @Post(':id/restore')
+  @Roles(Role.ADMIN, Role.EDITOR)
   @ApiOperation({ 
     summary: 'Restore soft-deleted category',
     description: 'Restores a soft-deleted category'
@@ -520,14 +1168,24 @@ export class CategoriesController {
   })
   @ApiResponse({ status: 400, description: 'Invalid category ID format' })
   @ApiResponse({ status: 404, description: 'Category not found or not deleted' })
+  @ApiResponse({ status: 409, description: 'Parent category is deleted' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
   async restore(
-    @Param('id', ParseObjectIdPipe) id: string
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
   ): Promise<CategoryResponseDto> {
     this.logger.log(`Restoring category: ${id}`);
-    return this.categoriesService.restore(id);
+    return this.categoriesService.restore(id, actor, expectedVersion);
   }
 
   @Delete(':id')
+  @Roles(Role.ADMIN, Role.EDITOR)
   @ApiOperation({ 
     summary: 'Soft delete category',
     description: 'Soft deletes a category (can be restored later)'
@@ -549,14 +1207,24 @@ export class CategoriesController {
   })
   @ApiResponse({ status: 400, description: 'Invalid category ID format' })
   @ApiResponse({ status: 404, description: 'Category not found' })
+  @ApiResponse({ status: 409, description: 'Category still has child categories' })
+  @ApiHeader({
+    name: 'If-Match',
+    required: false,
+    description: 'ETag of the version being modified; the write is rejected with 412 when the category changed since'
+  })
+  @ApiResponse({ status: 412, description: 'Category was modified since the given ETag' })
   async remove(
-    @Param('id', ParseObjectIdPipe) id: string
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Actor() actor?: string,
+    @IfMatch() expectedVersion?: number
   ): Promise<{ message: string }> {
     this.logger.log(`Soft deleting category: ${id}`);
-    return this.categoriesService.remove(id);
+    return this.categoriesService.remove(id, actor, expectedVersion);
   }
 
   @Delete(':id/permanent')
+  @Roles(Role.ADMIN)
   @ApiOperation({ 
     summary: 'Permanently delete category',
     description: 'Permanently deletes a category (cannot be restored)'
@@ -578,10 +1246,12 @@ export class CategoriesController {
   })
   @ApiResponse({ status: 400, description: 'Invalid category ID format' })
   @ApiResponse({ status: 404, description: 'Category not found' })
+  @ApiResponse({ status: 409, description: 'Category still has child categories' })
   async hardDelete(
-    @Param('id', ParseObjectIdPipe) id: string
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Actor() actor?: string
   ): Promise<{ message: string }> {
     this.logger.log(`Permanently deleting category: ${id}`);
-    return this.categoriesService.hardDelete(id);
+    return this.categoriesService.hardDelete(id, actor);
   }
 }
\ No newline at end of file
@@ -1,35 +1,38 @@
 /* eslint-disable prettier/prettier */
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
-import { CacheModule } from '@nestjs/cache-manager';
 import { Category, CategorySchema } from './schemas/category.schema';
+import { CategoryRevision, CategoryRevisionSchema } from './schemas/category-revision.schema';
+import { Subcategory, SubcategorySchema } from '../subcategories/schema/subcategory.schema';
 import { CategoriesController } from './categories.controller';
 import { CategoriesService } from './categories.service';
 import { CategoriesRepository } from './categories.repository';
-import { CloudinaryService } from '../cloudinary/cloudinary.service';
-import { CacheService } from '../cache/cache.service';
-//import { CategoriesKafkaController } from './categories-kafka.controller';
+import { CategoryRevisionsRepository } from './category-revisions.repository';
+import { GenderModule } from '../gender/gender.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { KafkaModule } from '../kafka/kafka.module';
+import { CategoriesKafkaController } from './categories-kafka.controller';
 
 
 @Module({
   imports: [
     MongooseModule.forFeature([
-      { name: Category.name, schema: CategorySchema }
+      { name: Category.name, schema: CategorySchema },
+      { name: CategoryRevision.name, schema: CategoryRevisionSchema },
+      { name: Subcategory.name, schema: SubcategorySchema }
     ]),
-    CacheModule.register({
-      ttl: 300, // 5 minutes
-      max: 1000, // maximum number of items in cache
-    }),
+    GenderModule,
+    OutboxModule,
+    KafkaModule,
   ],
   controllers: [
     CategoriesController,
-    //CategoriesKafkaController
+    CategoriesKafkaController
   ],
   providers: [
     CategoriesService,
     CategoriesRepository,
-    CloudinaryService,
-    CacheService
+    CategoryRevisionsRepository
   ],
   exports: [
     CategoriesService,
@@ -1,15 +1,27 @@
 /* eslint-disable prettier/prettier */
-import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
-import { Category, CategoryDocument } from '../categories/schemas/category.schema';
+import { Injectable, Logger, NotFoundException, ConflictException, BadRequestException } from '@nestjs/common';
+import { InjectConnection, InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Connection, Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
+import { Category, CategoryDocument, LeanCategory } from '../categories/schemas/category.schema';
+import { CategoryMedia } from '../categories/schemas/category-media.schema';
+import { Subcategory, SubcategoryDocument } from '../subcategories/schema/subcategory.schema';
 import { CreateCategoryDto } from '../categories/dto/create-category.dto';
 import { UpdateCategoryDto } from '../categories/dto/update-category.dto';
 import { CategoryQueryDto } from '../categories/dto/category-filter.dto';
+import { CategorySearchQueryDto } from '../categories/dto/category-search.dto';
 import { CategoryStatus } from '../../common/enums/category-status.enum';
-import { Gender } from '../../common/enums/gender.enum';
-import { PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
-import { slugify } from '../../common/utils/slug.util';
+import { CursorPaginationMeta, PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
+import { extractBaseSlug, generateCategorySlug, getParentSlug } from '../../common/utils/slug.util';
+import { sanitizeTextSearch } from '../../common/utils/search.util';
+import { buildDomainEvent } from '../../common/utils/domain-event.util';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+import { DomainEventInput } from '../../common/interfaces/domain-event.interface';
+import { assertVersionMatches } from '../../common/utils/etag.util';
+import { buildKeysetFilter, CursorContext, cursorScope, decodeCursor, DecodedCursor, encodeCursor } from '../../common/utils/cursor.util';
+import { OutboxRepository } from '../outbox/outbox.repository';
+import { CategoryRevisionsRepository } from './category-revisions.repository';
+
+const AGGREGATE_TYPE = 'category';
 
 @Injectable()
 export class CategoriesRepository {
@@ -17,17 +29,26 @@ export class CategoriesRepository {
 
   constructor(
     @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Subcategory.name) private subcategoryModel: Model<SubcategoryDocument>,
+    @InjectConnection() private readonly connection: Connection,
+    private readonly outboxRepository: OutboxRepository,
+    private readonly categoryRevisionsRepository: CategoryRevisionsRepository,
   ) {}
 
   /**
    * Create a new category
    */
-  async create(createCategoryDto: CreateCategoryDto): Promise<CategoryDocument> {
+  async create(createCategoryDto: CreateCategoryDto, changedBy?: string): Promise<CategoryDocument> {
     try {
       this.logger.log(`Creating category: ${createCategoryDto.name}`);
       
-      // Generate slug from name
-      const slug = slugify(createCategoryDto.name);
+      const { parentId, ...categoryFields } = createCategoryDto;
+
+      // Resolve parent so the slug and ancestry reflect the category's position in the tree
+      const parent = parentId ? await this.findParent(parentId) : null;
+
+      // Generate hierarchical slug from name and parent slug
+      const slug = generateCategorySlug(createCategoryDto.name, parent?.slug);
       
       // Check if category with same name or slug already exists
       const existingCategory = await this.categoryModel.findOne({
@@ -43,14 +64,20 @@ export class CategoriesRepository {
       }
 
       const categoryData = {
-        ...createCategoryDto,
+        ...categoryFields,
         slug,
+        ...this.buildHierarchyFields(parent),
+        version: 1,
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      const createdCategory = new this.categoryModel(categoryData);
-      const savedCategory = await createdCategory.save();
+      // The category and its outbox event commit together
+      const savedCategory = await this.connection.transaction(async session => {
+        const createdCategory = await new this.categoryModel(categoryData).save({ session });
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.CREATED, null, createdCategory)], session, changedBy);
+        return createdCategory;
+      });
       
       this.logger.log(`Category created successfully: ${savedCategory._id}`);
       return savedCategory.toObject();
@@ -63,7 +90,7 @@ export class CategoriesRepository {
   /**
    * Find all categories with pagination and filtering
    */
-  async findAll(query: CategoryQueryDto): Promise<PaginationResult<Category>> {
+  async findAll(query: CategoryQueryDto): Promise<PaginationResult<Category, PaginationMeta | CursorPaginationMeta>> {
   try {
     const {
       page = 1,
@@ -72,6 +99,7 @@ export class CategoriesRepository {
       gender,
       hasSubcategories,
       search,
+      cursor,
       sortBy = 'sortOrder',
       sortOrder = 'asc'
     } = query;
@@ -91,44 +119,85 @@ export class CategoriesRepository {
       filter.hasSubcategories = hasSubcategories;
     }
 
-    if (search) {
-      filter.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { slug: { $regex: search, $options: 'i' } }
-      ];
+    // Full-text search through the weighted text index; input is sanitized, never used as a regex
+    const textSearch = search ? sanitizeTextSearch(search) : '';
+    if (textSearch) {
+      filter.$text = { $search: textSearch };
     }
 
-    // Build sort query
+    // Cursor mode walks the (sortBy, _id) order, so relevance ranking is only available with page numbers
+    const cursorMode = cursor !== undefined;
+    const rankByScore = !!textSearch && !query.sortBy && !cursorMode;
+    const cursorContext: CursorContext = {
+      sortBy,
+      sortOrder,
+      scope: cursorScope({ status, gender, hasSubcategories, search: textSearch })
+    };
+    const decoded: DecodedCursor | undefined = cursor ? decodeCursor(cursor, cursorContext) : undefined;
+    const backwards = decoded?.direction === 'prev';
+
+    // Build sort query; _id breaks ties so equal sort values keep a stable order across pages
+    const direction = (sortOrder === 'desc' ? -1 : 1) * (backwards ? -1 : 1);
     const sort: any = {};
-    sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+    if (rankByScore) {
+      sort.score = { $meta: 'textScore' };
+    }
+    sort[sortBy] = direction;
+    sort._id = direction;
 
-    // Calculate pagination
-    const skip = (page - 1) * limit;
-    const total = await this.categoryModel.countDocuments(filter);
-    const totalPages = Math.ceil(total / limit);
+    const pageFilter: FilterQuery<CategoryDocument> = decoded
+      ? { $and: [filter, buildKeysetFilter(decoded)] }
+      : filter;
 
-    // Execute query
-    const categories = await this.categoryModel
-      .find(filter)
+    // Fetch one extra item to know whether another page follows without counting
+    const rows = await this.categoryModel
+      .find(pageFilter, textSearch ? { score: { $meta: 'textScore' } } : undefined)
       .sort(sort)
-      .skip(skip)
-      .limit(limit)
+      .skip(cursorMode ? 0 : (page - 1) * limit)
+      .limit(limit + 1)
       .populate('subcategories')
       .exec();
 
-    const pagination: PaginationMeta = {
-      page,
-      limit,
-      total,
-      totalPages,
-      hasNext: page < totalPages,
-      hasPrev: page > 1
-    };
+    const hasMore = rows.length > limit;
+    const categories = rows.slice(0, limit).map(cat => cat.toObject());
+    if (backwards) {
+      categories.reverse();
+    }
+
+    const hasNext = backwards || hasMore;
+    const hasPrev = cursorMode ? (backwards ? hasMore : !!decoded) : page > 1;
+
+    const first = categories[0];
+    const last = categories[categories.length - 1];
+    const nextCursor = !rankByScore && hasNext && last ? encodeCursor(last, 'next', cursorContext) : null;
+    const prevCursor = !rankByScore && hasPrev && first ? encodeCursor(first, 'prev', cursorContext) : null;
+
+    let pagination: PaginationMeta | CursorPaginationMeta;
+    if (cursorMode) {
+      pagination = { limit, hasNext, hasPrev, nextCursor, prevCursor };
+
+      if (query.includeTotal) {
+        pagination.total = await this.categoryModel.countDocuments(filter);
+        pagination.totalPages = Math.ceil(pagination.total / limit);
+      }
+    } else {
+      const total = await this.categoryModel.countDocuments(filter);
+
+      pagination = {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+        hasNext,
+        hasPrev,
+        nextCursor,
+        prevCursor
+      };
+    }
 
     this.logger.log(`Found ${categories.length} categories`);
     return {
-      data: categories.map(cat => cat.toObject()),
+      data: categories,
       pagination
     };
   } catch (error) {
@@ -137,6 +206,63 @@ export class CategoriesRepository {
   }
 }
 
+  /**
+   * Relevance-ranked full-text search combined with status and gender filters
+   */
+  async search(query: CategorySearchQueryDto): Promise<PaginationResult<Category & { score: number }>> {
+    try {
+      const { q, status, gender, page = 1, limit = 20 } = query;
+
+      const textSearch = sanitizeTextSearch(q);
+      if (!textSearch) {
+        throw new BadRequestException('Search text must contain at least one letter or number');
+      }
+
+      const filter: FilterQuery<CategoryDocument> = {
+        $text: { $search: textSearch },
+        isDeleted: false
+      };
+
+      if (status) {
+        filter.status = status;
+      }
+
+      if (gender) {
+        filter.applicableGenders = { $in: [gender] };
+      }
+
+      const skip = (page - 1) * limit;
+      const total = await this.categoryModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / limit);
+
+      const categories = await this.categoryModel
+        .find(filter, { score: { $meta: 'textScore' } })
+        .sort({ score: { $meta: 'textScore' }, sortOrder: 1, _id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean()
+        .exec();
+
+      const pagination: PaginationMeta = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+
+      this.logger.log(`Search "${textSearch}" matched ${total} categories`);
+      return {
+        data: categories as unknown as (Category & { score: number })[],
+        pagination
+      };
+    } catch (error) {
+      this.logger.error(`Error searching categories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Find category by ID
    */
@@ -188,7 +314,12 @@ export class CategoriesRepository {
   /**
    * Update category by ID
    */
-  async update(id: string, updateCategoryDto: UpdateCategoryDto): Promise<CategoryDocument> {
+  async update(
+    id: string,
+    updateCategoryDto: UpdateCategoryDto & Partial<Pick<Category, 'imageUrl' | 'media'>>,
+    changedBy?: string,
+    expectedVersion?: number
+  ): Promise<CategoryDocument> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new NotFoundException('Invalid category ID format');
@@ -196,39 +327,64 @@ export class CategoriesRepository {
 
       const updateData: UpdateQuery<CategoryDocument> = {
         ...updateCategoryDto,
-        updatedAt: new Date()
+        updatedAt: new Date(),
+        $inc: { version: 1 }
       };
 
-      // If name is being updated, regenerate slug
-      if (updateCategoryDto.name) {
-        const newSlug = slugify(updateCategoryDto.name);
-        
-        // Check if new slug conflicts with existing categories
-        const existingCategory = await this.categoryModel.findOne({
-          slug: newSlug,
-          _id: { $ne: id },
-          isDeleted: false
-        });
+      const updatedCategory = await this.connection.transaction(async session => {
+        const currentCategory = await this.categoryModel
+          .findOne({ _id: id, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
 
-        if (existingCategory) {
-          throw new ConflictException('Category with this name already exists');
+        if (!currentCategory) {
+          throw new NotFoundException('Category not found');
         }
 
-        updateData.slug = newSlug;
-      }
+        assertVersionMatches(currentCategory.version, expectedVersion);
 
-      const updatedCategory = await this.categoryModel
-        .findOneAndUpdate(
-          { _id: id, isDeleted: false },
-          updateData,
-          { new: true, runValidators: true }
-        )
-        .populate('subcategories')
-        .exec();
+        // If name is being updated, regenerate slug under the same parent path
+        if (updateCategoryDto.name) {
+          const newSlug = generateCategorySlug(updateCategoryDto.name, getParentSlug(currentCategory.slug));
+          
+          // Check if new slug conflicts with existing categories
+          const existingCategory = await this.categoryModel.findOne({
+            slug: newSlug,
+            _id: { $ne: id },
+            isDeleted: false
+          }).session(session);
+
+          if (existingCategory) {
+            throw new ConflictException('Category with this name already exists');
+          }
+
+          updateData.slug = newSlug;
+        }
 
-      if (!updatedCategory) {
-        throw new NotFoundException('Category not found');
-      }
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: false },
+            updateData,
+            { new: true, runValidators: true, session }
+          )
+          .populate('subcategories')
+          .exec();
+
+        if (!category) {
+          throw new NotFoundException('Category not found');
+        }
+
+        const events = [this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, currentCategory, category)];
+
+        // Keep descendant slugs in sync with the renamed category
+        if (currentCategory.slug !== category.slug) {
+          events.push(...await this.rebuildDescendantPaths(category, currentCategory.slug, session));
+        }
+
+        await this.recordChanges(events, session, changedBy);
+        return category;
+      });
 
       this.logger.log(`Category updated successfully: ${updatedCategory._id}`);
       return updatedCategory.toObject();
@@ -241,27 +397,41 @@ export class CategoriesRepository {
   /**
    * Soft delete category by ID
    */
-  async softDelete(id: string): Promise<Category> {
+  async softDelete(id: string, changedBy?: string, expectedVersion?: number): Promise<Category> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new NotFoundException('Invalid category ID format');
       }
 
-      const deletedCategory = await this.categoryModel
-        .findOneAndUpdate(
-          { _id: id, isDeleted: false },
-          { 
-            isDeleted: true, 
-            deletedAt: new Date(),
-            updatedAt: new Date()
-          },
-          { new: true }
-        )
-        .exec();
+      const deletedCategory = await this.connection.transaction(async session => {
+        const before = await this.categoryModel
+          .findOne({ _id: id, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
 
-      if (!deletedCategory) {
-        throw new NotFoundException('Category not found');
-      }
+        if (!before) {
+          throw new NotFoundException('Category not found');
+        }
+
+        assertVersionMatches(before.version, expectedVersion);
+
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: false },
+            { 
+              isDeleted: true, 
+              deletedAt: new Date(),
+              updatedAt: new Date(),
+              $inc: { version: 1 }
+            },
+            { new: true, session }
+          )
+          .exec();
+
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.DELETED, before, category)], session, changedBy);
+        return category;
+      });
 
       this.logger.log(`Category soft deleted: ${deletedCategory._id}`);
       return deletedCategory.toObject();
@@ -274,19 +444,29 @@ export class CategoriesRepository {
   /**
    * Hard delete category by ID (use with caution)
    */
-  async hardDelete(id: string): Promise<void> {
+  async hardDelete(id: string, changedBy?: string): Promise<Category> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new NotFoundException('Invalid category ID format');
       }
 
-      const result = await this.categoryModel.deleteOne({ _id: id }).exec();
+      const deleted = await this.connection.transaction(async session => {
+        const deletedCategory = await this.categoryModel
+          .findOneAndDelete({ _id: id }, { session })
+          .lean()
+          .exec();
 
-      if (result.deletedCount === 0) {
-        throw new NotFoundException('Category not found');
-      }
+        if (!deletedCategory) {
+          throw new NotFoundException('Category not found');
+        }
+
+        // A hard delete is published as a deleted event without an after snapshot
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.DELETED, deletedCategory, null)], session, changedBy);
+        return deletedCategory;
+      });
 
       this.logger.log(`Category hard deleted: ${id}`);
+      return deleted;
     } catch (error) {
       this.logger.error(`Error hard deleting category: ${error.message}`, error.stack);
       throw error;
@@ -296,27 +476,51 @@ export class CategoriesRepository {
   /**
    * Restore soft deleted category
    */
-  async restore(id: string): Promise<Category> {
+  async restore(id: string, changedBy?: string, expectedVersion?: number): Promise<Category> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new NotFoundException('Invalid category ID format');
       }
 
-      const restoredCategory = await this.categoryModel
-        .findOneAndUpdate(
-          { _id: id, isDeleted: true },
-          { 
-            isDeleted: false, 
-            deletedAt: null,
-            updatedAt: new Date()
-          },
-          { new: true }
-        )
-        .exec();
+      const restoredCategory = await this.connection.transaction(async session => {
+        const deletedCategory = await this.categoryModel
+          .findOne({ _id: id, isDeleted: true })
+          .session(session)
+          .lean()
+          .exec();
 
-      if (!restoredCategory) {
-        throw new NotFoundException('Category not found or not deleted');
-      }
+        if (!deletedCategory) {
+          throw new NotFoundException('Category not found or not deleted');
+        }
+
+        assertVersionMatches(deletedCategory.version, expectedVersion);
+
+        // A child cannot be restored while its parent is still deleted
+        if (deletedCategory.parentId) {
+          const parentExists = await this.categoryModel
+            .exists({ _id: deletedCategory.parentId, isDeleted: false })
+            .session(session);
+          if (!parentExists) {
+            throw new ConflictException('Parent category is deleted; restore the parent category first');
+          }
+        }
+
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: true },
+            { 
+              isDeleted: false, 
+              deletedAt: null,
+              updatedAt: new Date(),
+              $inc: { version: 1 }
+            },
+            { new: true, session }
+          )
+          .exec();
+
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.RESTORED, deletedCategory, category)], session, changedBy);
+        return category;
+      });
 
       this.logger.log(`Category restored: ${restoredCategory._id}`);
       return restoredCategory.toObject();
@@ -329,23 +533,36 @@ export class CategoriesRepository {
   /**
    * Update category status
    */
-  async updateStatus(id: string, status: CategoryStatus): Promise<Category> {
+  async updateStatus(id: string, status: CategoryStatus, changedBy?: string, expectedVersion?: number): Promise<Category> {
     try {
       if (!Types.ObjectId.isValid(id)) {
         throw new NotFoundException('Invalid category ID format');
       }
 
-      const updatedCategory = await this.categoryModel
-        .findOneAndUpdate(
-          { _id: id, isDeleted: false },
-          { status, updatedAt: new Date() },
-          { new: true }
-        )
-        .exec();
+      const updatedCategory = await this.connection.transaction(async session => {
+        const before = await this.categoryModel
+          .findOne({ _id: id, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
 
-      if (!updatedCategory) {
-        throw new NotFoundException('Category not found');
-      }
+        if (!before) {
+          throw new NotFoundException('Category not found');
+        }
+
+        assertVersionMatches(before.version, expectedVersion);
+
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: false },
+            { status, updatedAt: new Date(), $inc: { version: 1 } },
+            { new: true, session }
+          )
+          .exec();
+
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.STATUS_CHANGED, before, category)], session, changedBy);
+        return category;
+      });
 
       this.logger.log(`Category status updated: ${updatedCategory._id} -> ${status}`);
       return updatedCategory.toObject();
@@ -355,19 +572,88 @@ export class CategoriesRepository {
     }
   }
 
+  /**
+   * Replace the media gallery and the primary image URL derived from it
+   */
+  async updateMedia(id: string, media: CategoryMedia[], imageUrl: string | undefined, changedBy?: string, expectedVersion?: number): Promise<Category> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid category ID format');
+      }
+
+      const updatedCategory = await this.connection.transaction(async session => {
+        const before = await this.categoryModel
+          .findOne({ _id: id, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
+
+        if (!before) {
+          throw new NotFoundException('Category not found');
+        }
+
+        assertVersionMatches(before.version, expectedVersion);
+
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: false },
+            {
+              media,
+              ...(imageUrl ? { imageUrl } : { $unset: { imageUrl: 1 } }),
+              updatedAt: new Date(),
+              $inc: { version: 1 }
+            },
+            { new: true, runValidators: true, session }
+          )
+          .exec();
+
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, before, category)], session, changedBy);
+        return category;
+      });
+
+      this.logger.log(`Category media updated: ${updatedCategory._id} (${media.length} items)`);
+      return updatedCategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating category media: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Update sort order for multiple categories
    */
-  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<void> {
+  async updateSortOrder(updates: { id: string; sortOrder: number }[], changedBy?: string): Promise<void> {
     try {
       const bulkOps = updates.map(update => ({
         updateOne: {
           filter: { _id: update.id, isDeleted: false },
-          update: { sortOrder: update.sortOrder, updatedAt: new Date() }
+          update: { sortOrder: update.sortOrder, updatedAt: new Date(), $inc: { version: 1 } }
         }
       }));
+      const ids = updates.map(update => update.id);
+
+      await this.connection.transaction(async session => {
+        const before = await this.categoryModel
+          .find({ _id: { $in: ids }, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
+
+        await this.categoryModel.bulkWrite(bulkOps, { session });
+
+        const after = await this.categoryModel
+          .find({ _id: { $in: ids }, isDeleted: false })
+          .session(session)
+          .lean()
+          .exec();
+        const afterById = new Map(after.map(category => [String(category._id), category]));
+
+        const events = before.map(category =>
+          this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, category, afterById.get(String(category._id)))
+        );
+        await this.recordChanges(events, session, changedBy);
+      });
 
-      await this.categoryModel.bulkWrite(bulkOps);
       this.logger.log(`Updated sort order for ${updates.length} categories`);
     } catch (error) {
       this.logger.error(`Error updating sort order: ${error.message}`, error.stack);
@@ -375,10 +661,54 @@ export class CategoriesRepository {
     }
   }
 
+  /**
+   * Recompute the hasSubcategories flag from the live subcategory count. Counting and writing
+   * share one transaction, so concurrent subcategory writes conflict instead of leaving a stale flag.
+   */
+  async syncHasSubcategories(id: string, changedBy?: string): Promise<void> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid category ID format');
+      }
+
+      await this.connection.transaction(async session => {
+        const count = await this.subcategoryModel
+          .countDocuments({ categoryId: new Types.ObjectId(id), isDeleted: false })
+          .session(session)
+          .exec();
+        const hasSubcategories = count > 0;
+
+        const before = await this.categoryModel
+          .findOne({ _id: id })
+          .session(session)
+          .lean()
+          .exec();
+
+        if (!before || before.hasSubcategories === hasSubcategories) {
+          return;
+        }
+
+        const category = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id },
+            { hasSubcategories, updatedAt: new Date(), $inc: { version: 1 } },
+            { new: true, session }
+          )
+          .exec();
+
+        await this.recordChanges([this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, before, category)], session, changedBy);
+        this.logger.log(`Category ${id} hasSubcategories -> ${hasSubcategories}`);
+      });
+    } catch (error) {
+      this.logger.error(`Error updating hasSubcategories flag: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
   /**
    * Find categories by gender
    */
-  async findByGender(gender: Gender): Promise<Category[]> {
+  async findByGender(gender: string): Promise<Category[]> {
     try {
       const categories = await this.categoryModel
         .find({
@@ -477,16 +807,33 @@ export class CategoriesRepository {
   /**
    * Bulk create categories
    */
-  async bulkCreate(categories: CreateCategoryDto[]): Promise<Category[]> {
+  async bulkCreate(categories: CreateCategoryDto[], changedBy?: string): Promise<Category[]> {
     try {
-      const categoriesWithSlugs = categories.map(cat => ({
-        ...cat,
-        slug: slugify(cat.name),
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }));
+      // Resolve all referenced parents up front
+      const parentIds = [...new Set(categories.map(cat => cat.parentId).filter(Boolean))];
+      const parents = new Map<string, CategoryDocument>();
+      for (const parentId of parentIds) {
+        parents.set(parentId, await this.findParent(parentId));
+      }
 
-      const createdCategories = await this.categoryModel.insertMany(categoriesWithSlugs);
+      const categoriesWithSlugs = categories.map(({ parentId, ...cat }) => {
+        const parent = parentId ? parents.get(parentId) : null;
+        return {
+          ...cat,
+          slug: generateCategorySlug(cat.name, parent?.slug),
+          ...this.buildHierarchyFields(parent),
+          version: 1,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+      });
+
+      const createdCategories = await this.connection.transaction(async session => {
+        const categoriesCreated = await this.categoryModel.insertMany(categoriesWithSlugs, { session });
+        const events = categoriesCreated.map(category => this.categoryEvent(KAFKA_TOPICS.CATEGORIES.CREATED, null, category));
+        await this.recordChanges(events, session, changedBy);
+        return categoriesCreated;
+      });
       
       this.logger.log(`Bulk created ${createdCategories.length} categories`);
       return createdCategories.map(cat => cat.toObject());
@@ -534,7 +881,7 @@ export class CategoriesRepository {
   /**
   * Get gender breakdown for statistics
   */
-  async getGenderBreakdown(): Promise<Record<Gender, number>> {
+  async getGenderBreakdown(): Promise<Record<string, number>> {
     const pipeline = [
       { $match: { isDeleted: false } },
       { $unwind: '$applicableGenders' },
@@ -548,19 +895,11 @@ export class CategoriesRepository {
 
     const results = await this.categoryModel.aggregate(pipeline);
   
-    // Initialize with all genders at 0
-    const breakdown: Record<Gender, number> = {
-      [Gender.MEN]: 0,
-      [Gender.WOMEN]: 0,
-      [Gender.UNISEX]: 0,
-      //[Gender.KIDS]: 0
-    };
+    // Genders are data-driven, so report every value that is in use
+    const breakdown: Record<string, number> = {};
 
-    // Fill in actual counts
     results.forEach(result => {
-      if (result._id in breakdown) {
-        breakdown[result._id] = result.count;
-      }
+      breakdown[result._id] = result.count;
     });
 
     return breakdown;
@@ -587,4 +926,297 @@ export class CategoriesRepository {
       .limit(limit)
       .exec();
   }
+
+  /**
+   * Find direct children of a category (root categories when parentId is null)
+   */
+  async findChildren(parentId: string | null): Promise<Category[]> {
+    try {
+      if (parentId && !Types.ObjectId.isValid(parentId)) {
+        throw new NotFoundException('Invalid category ID format');
+      }
+
+      const categories = await this.categoryModel
+        .find({ parentId: parentId ? new Types.ObjectId(parentId) : null, isDeleted: false })
+        .sort({ sortOrder: 1, name: 1 })
+        .exec();
+
+      this.logger.log(`Found ${categories.length} child categories for parent: ${parentId ?? 'root'}`);
+      return categories.map(cat => cat.toObject());
+    } catch (error) {
+      this.logger.error(`Error finding child categories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Count non-deleted direct children of a category
+   */
+  async countChildren(parentId: string): Promise<number> {
+    return this.categoryModel.countDocuments({
+      parentId: new Types.ObjectId(parentId),
+      isDeleted: false
+    });
+  }
+
+  /**
+   * Find all categories of a (sub)tree as a flat list ordered by depth and sort order
+   */
+  async findTreeNodes(options: { rootId?: string; maxDepth?: number; status?: CategoryStatus } = {}): Promise<Category[]> {
+    try {
+      const { rootId, maxDepth, status } = options;
+      const filter: FilterQuery<CategoryDocument> = { isDeleted: false };
+      let baseDepth = 0;
+
+      if (rootId) {
+        const root = await this.categoryModel
+          .findOne({ _id: rootId, isDeleted: false })
+          .select('depth')
+          .lean()
+          .exec();
+
+        if (!root) {
+          throw new NotFoundException('Category not found');
+        }
+
+        filter.ancestors = new Types.ObjectId(rootId);
+        baseDepth = root.depth + 1;
+      }
+
+      if (maxDepth) {
+        filter.depth = { $lt: baseDepth + maxDepth };
+      }
+
+      if (status) {
+        filter.status = status;
+      }
+
+      const categories = await this.categoryModel
+        .find(filter)
+        .sort({ depth: 1, sortOrder: 1, name: 1 })
+        .exec();
+
+      this.logger.log(`Found ${categories.length} categories for tree${rootId ? ` below ${rootId}` : ''}`);
+      return categories.map(cat => cat.toObject());
+    } catch (error) {
+      this.logger.error(`Error finding category tree: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find categories by a list of slugs
+   */
+  async findBySlugs(slugs: string[]): Promise<LeanCategory[]> {
+    try {
+      const categories = await this.categoryModel
+        .find({ slug: { $in: slugs }, isDeleted: false })
+        .exec();
+
+      return categories.map(cat => cat.toObject<LeanCategory>());
+    } catch (error) {
+      this.logger.error(`Error finding categories by slugs: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find categories by exact names
+   */
+  async findByNames(names: string[]): Promise<Category[]> {
+    try {
+      return await this.categoryModel
+        .find({ name: { $in: names }, isDeleted: false })
+        .lean()
+        .exec();
+    } catch (error) {
+      this.logger.error(`Error finding categories by names: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find categories by IDs, optionally including soft-deleted ones
+   */
+  async findByIds(ids: string[], includeDeleted = false): Promise<LeanCategory[]> {
+    try {
+      const filter: FilterQuery<CategoryDocument> = {
+        _id: { $in: ids.filter(id => Types.ObjectId.isValid(id)).map(id => new Types.ObjectId(id)) }
+      };
+      if (!includeDeleted) {
+        filter.isDeleted = false;
+      }
+
+      return await this.categoryModel.find(filter).lean<LeanCategory[]>().exec();
+    } catch (error) {
+      this.logger.error(`Error finding categories by IDs: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a category (and its whole subtree) under a new parent, or to the root when parentId is null
+   */
+  async move(id: string, parentId: string | null, changedBy?: string): Promise<Category> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid category ID format');
+      }
+
+      const category = await this.categoryModel
+        .findOne({ _id: id, isDeleted: false })
+        .exec();
+
+      if (!category) {
+        throw new NotFoundException('Category not found');
+      }
+
+      const parent = parentId ? await this.findParent(parentId) : null;
+
+      // Prevent cycles: a category cannot become its own ancestor
+      const categoryId = category._id as Types.ObjectId;
+      if (parent && (categoryId.equals(parent._id as Types.ObjectId) || parent.ancestors.some(ancestor => ancestor.equals(categoryId)))) {
+        throw new BadRequestException('A category cannot be moved under itself or one of its descendants');
+      }
+
+      const previousSlug = category.slug;
+      const newSlug = generateCategorySlug(extractBaseSlug(previousSlug), parent?.slug);
+
+      if (newSlug !== previousSlug) {
+        const existingCategory = await this.categoryModel.findOne({
+          slug: newSlug,
+          _id: { $ne: id },
+          isDeleted: false
+        });
+
+        if (existingCategory) {
+          throw new ConflictException(`A category with slug '${newSlug}' already exists at the destination`);
+        }
+      }
+
+      const movedCategory = await this.connection.transaction(async session => {
+        const moved = await this.categoryModel
+          .findOneAndUpdate(
+            { _id: id, isDeleted: false },
+            {
+              ...this.buildHierarchyFields(parent),
+              slug: newSlug,
+              updatedAt: new Date(),
+              $inc: { version: 1 }
+            },
+            { new: true, runValidators: true, session }
+          )
+          .exec();
+
+        if (!moved) {
+          throw new NotFoundException('Category not found');
+        }
+
+        const events = [
+          this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, category, moved),
+          ...await this.rebuildDescendantPaths(moved, previousSlug, session)
+        ];
+        await this.recordChanges(events, session, changedBy);
+        return moved;
+      });
+
+      this.logger.log(`Category moved: ${id} -> ${parentId ?? 'root'}`);
+      return movedCategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error moving category: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a non-deleted parent category, failing with 404 when it does not exist
+   */
+  private async findParent(parentId: string): Promise<CategoryDocument> {
+    if (!Types.ObjectId.isValid(parentId)) {
+      throw new NotFoundException('Invalid parent category ID format');
+    }
+
+    const parent = await this.categoryModel
+      .findOne({ _id: parentId, isDeleted: false })
+      .exec();
+
+    if (!parent) {
+      throw new NotFoundException('Parent category not found');
+    }
+
+    return parent;
+  }
+
+  /**
+   * Build parentId/ancestors/depth for a category placed under the given parent
+   */
+  private buildHierarchyFields(parent?: CategoryDocument | null): Pick<Category, 'parentId' | 'ancestors' | 'depth'> {
+    if (!parent) {
+      return { parentId: null, ancestors: [], depth: 0 };
+    }
+
+    const ancestors = [...(parent.ancestors || []), parent._id as Types.ObjectId];
+    return { parentId: parent._id as Types.ObjectId, ancestors, depth: ancestors.length };
+  }
+
+  /**
+   * Rewrite ancestors, depth and slug prefix of every descendant after a category moved or was renamed,
+   * returning an updated event per descendant
+   */
+  private async rebuildDescendantPaths(
+    category: CategoryDocument,
+    previousSlug: string,
+    session: ClientSession
+  ): Promise<DomainEventInput[]> {
+    const descendants = await this.categoryModel
+      .find({ ancestors: category._id })
+      .session(session)
+      .lean()
+      .exec();
+
+    if (descendants.length === 0) {
+      return [];
+    }
+
+    const categoryAncestors = [...(category.ancestors || []), category._id as Types.ObjectId];
+
+    const events: DomainEventInput[] = [];
+    const bulkOps = descendants.map(descendant => {
+      const position = descendant.ancestors.findIndex(ancestor => ancestor.equals(category._id as Types.ObjectId));
+      const ancestors = [...categoryAncestors, ...descendant.ancestors.slice(position + 1)];
+      const slug = descendant.slug.startsWith(`${previousSlug}/`)
+        ? `${category.slug}${descendant.slug.slice(previousSlug.length)}`
+        : descendant.slug;
+      const update = { ancestors, depth: ancestors.length, slug, updatedAt: new Date() };
+      const after = { ...descendant, ...update, version: (descendant.version ?? 0) + 1 };
+
+      events.push(this.categoryEvent(KAFKA_TOPICS.CATEGORIES.UPDATED, descendant, after));
+
+      return {
+        updateOne: {
+          filter: { _id: descendant._id },
+          update: { ...update, $inc: { version: 1 } }
+        }
+      };
+    });
+
+    await this.categoryModel.bulkWrite(bulkOps, { session });
+    this.logger.log(`Rebuilt paths for ${descendants.length} descendants of category: ${category._id}`);
+    return events;
+  }
+
+  /**
+   * Build an outbox event for a category mutation
+   */
+  private categoryEvent(eventType: string, before: any, after: any): DomainEventInput {
+    return buildDomainEvent(AGGREGATE_TYPE, eventType, before, after);
+  }
+
+  /**
+   * Write outbox events and revisions within the transaction of the mutation that produced them
+   */
+  private async recordChanges(events: DomainEventInput[], session: ClientSession, changedBy?: string): Promise<void> {
+    await this.outboxRepository.add(events, session);
+    await this.categoryRevisionsRepository.record(events, changedBy, session);
+  }
 }
\ No newline at end of file
@@ -1,12 +1,107 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, PreconditionFailedException } from '@nestjs/common';
+import { Types } from 'mongoose';
 import { CategoriesService } from './categories.service';
+import { CategoriesRepository } from './categories.repository';
+import { CategoryRevisionsRepository } from './category-revisions.repository';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { GenderService } from '../gender/gender.service';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
+import { CategoryMediaRole } from '../../common/enums/category-media-role.enum';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
 
 describe('CategoriesService', () => {
   let service: CategoriesService;
+  let repository: Record<string, jest.Mock>;
+  let revisionsRepository: Record<string, jest.Mock>;
+  let imageStorage: Record<string, jest.Mock>;
+  let imageCleanupService: Record<string, jest.Mock>;
+
+  const buildCategory = (name: string, slug: string, parent?: any) => {
+    const _id = new Types.ObjectId();
+    return {
+      _id,
+      name,
+      slug,
+      description: `${name} description`,
+      parentId: parent ? parent._id : null,
+      ancestors: parent ? [...parent.ancestors, parent._id] : [],
+      depth: parent ? parent.depth + 1 : 0,
+      status: 'active',
+      applicableGenders: ['men'],
+      sortOrder: 0,
+      isDeleted: false,
+    };
+  };
 
   beforeEach(async () => {
+    repository = {
+      findById: jest.fn(),
+      findTreeNodes: jest.fn(),
+      findBySlugs: jest.fn(),
+      countChildren: jest.fn(),
+      softDelete: jest.fn(),
+      search: jest.fn(),
+      update: jest.fn(),
+      findAll: jest.fn(),
+      findByIds: jest.fn(),
+      findByNames: jest.fn(),
+      create: jest.fn(),
+      updateMedia: jest
+        .fn()
+        .mockImplementation(async (id, media, imageUrl) => ({
+          ...buildCategory('Shoes', 'shoes'),
+          _id: new Types.ObjectId(id),
+          media,
+          imageUrl,
+        })),
+    };
+    revisionsRepository = {
+      findByCategory: jest.fn(),
+      findOne: jest.fn(),
+    };
+    imageStorage = {
+      extractPublicId: jest.fn(),
+      delete: jest.fn(),
+      upload: jest.fn(),
+    };
+    imageCleanupService = {
+      runWithUploads: jest.fn((publicIds, write) => write()),
+      deleteImages: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CategoriesService],
+      providers: [
+        CategoriesService,
+        { provide: CategoriesRepository, useValue: repository },
+        {
+          provide: CategoryRevisionsRepository,
+          useValue: revisionsRepository,
+        },
+        { provide: IMAGE_STORAGE, useValue: imageStorage },
+        {
+          provide: ImageValidationService,
+          useValue: { sanitize: jest.fn((file) => file) },
+        },
+        { provide: ImageCleanupService, useValue: imageCleanupService },
+        {
+          provide: GenderService,
+          useValue: {
+            validateApplicableGenders: jest.fn(),
+            checkApplicableGenders: jest.fn().mockResolvedValue({
+              valid: true,
+              unknown: [],
+              available: ['men', 'women'],
+            }),
+          },
+        },
+        {
+          provide: CacheInvalidationService,
+          useValue: { invalidate: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<CategoriesService>(CategoriesService);
@@ -15,4 +110,404 @@ describe('CategoriesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should assemble a nested tree from flat categories', async () => {
+    const men = buildCategory('Men', 'men');
+    const shoes = buildCategory('Shoes', 'men/shoes', men);
+    const sneakers = buildCategory('Sneakers', 'men/shoes/sneakers', shoes);
+    repository.findTreeNodes.mockResolvedValue([men, shoes, sneakers]);
+
+    const tree = await service.findTree();
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].slug).toBe('men');
+    expect(tree[0].children[0].slug).toBe('men/shoes');
+    expect(tree[0].children[0].children[0].slug).toBe('men/shoes/sneakers');
+  });
+
+  it('should return breadcrumbs ordered from the root', async () => {
+    const men = buildCategory('Men', 'men');
+    const shoes = buildCategory('Shoes', 'men/shoes', men);
+    repository.findById.mockResolvedValue(shoes);
+    repository.findBySlugs.mockResolvedValue([shoes, men]);
+
+    const breadcrumbs = await service.getBreadcrumbs(shoes._id.toString());
+
+    expect(breadcrumbs.map((crumb) => crumb.slug)).toEqual([
+      'men',
+      'men/shoes',
+    ]);
+    expect(repository.findBySlugs).toHaveBeenCalledWith(['men', 'men/shoes']);
+  });
+
+  it('should refuse to delete a category that still has children', async () => {
+    const men = buildCategory('Men', 'men');
+    repository.findById.mockResolvedValue(men);
+    repository.countChildren.mockResolvedValue(2);
+
+    await expect(service.remove(men._id.toString())).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    expect(repository.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('should reject a delete against a stale version', async () => {
+    const men = { ...buildCategory('Men', 'men'), version: 4 };
+    repository.findById.mockResolvedValue(men);
+
+    await expect(
+      service.remove(men._id.toString(), 'user-42', 3),
+    ).rejects.toBeInstanceOf(PreconditionFailedException);
+    expect(repository.softDelete).not.toHaveBeenCalled();
+  });
+
+  it('should return search hits with scores and highlighted matches', async () => {
+    const shoes = {
+      ...buildCategory('Running Shoes', 'running-shoes'),
+      description: 'Lightweight shoes for road running',
+      metadata: { keywords: ['marathon', 'trail'] },
+      score: 12.5,
+    };
+    repository.search.mockResolvedValue({
+      data: [shoes],
+      pagination: {
+        total: 1,
+        page: 1,
+        limit: 20,
+        totalPages: 1,
+        hasNext: false,
+        hasPrev: false,
+      },
+    });
+
+    const result = await service.search({ q: 'shoe "<script>' });
+
+    expect(result.terms).toEqual(['shoe', 'script']);
+    expect(result.data[0].score).toBe(12.5);
+    expect(result.data[0].highlights).toEqual({
+      name: 'Running <mark>Shoes</mark>',
+      slug: 'running-<mark>shoes</mark>',
+      description: 'Lightweight <mark>shoes</mark> for road running',
+    });
+  });
+
+  it('should revert to a revision through the regular update path', async () => {
+    const shoes = buildCategory('Shoes', 'men/shoes');
+    revisionsRepository.findOne.mockResolvedValue({
+      categoryId: shoes._id,
+      revision: 2,
+      action: 'updated',
+      snapshot: { ...shoes, name: 'Sneakers', metadata: { season: 'ss24' } },
+    });
+    repository.update.mockResolvedValue({ ...shoes, name: 'Sneakers' });
+
+    const result = await service.revertToRevision(
+      shoes._id.toString(),
+      2,
+      'user-42',
+    );
+
+    expect(result.name).toBe('Sneakers');
+    expect(repository.update).toHaveBeenCalledWith(
+      shoes._id.toString(),
+      expect.objectContaining({
+        name: 'Sneakers',
+        description: 'Shoes description',
+        metadata: { season: 'ss24' },
+      }),
+      'user-42',
+      undefined,
+    );
+  });
+
+  it('should pass cursor pagination through without totals', async () => {
+    const shoes = buildCategory('Shoes', 'shoes');
+    repository.findAll.mockResolvedValue({
+      data: [shoes],
+      pagination: {
+        limit: 1,
+        hasNext: true,
+        hasPrev: false,
+        nextCursor: 'next-cursor',
+        prevCursor: null,
+      },
+    });
+
+    const result = await service.findAll({ cursor: '', limit: 1 });
+
+    expect(repository.findAll).toHaveBeenCalledWith({ cursor: '', limit: 1 });
+    expect(result.data[0].slug).toBe('shoes');
+    expect(result.pagination).toEqual({
+      limit: 1,
+      hasNext: true,
+      hasPrev: false,
+      nextCursor: 'next-cursor',
+      prevCursor: null,
+    });
+  });
+
+  it('should bulk delete children before parents and report per-ID results', async () => {
+    const men = buildCategory('Men', 'men');
+    const shoes = {
+      ...buildCategory('Shoes', 'men/shoes', men),
+      imageUrl:
+        'https://res.cloudinary.com/demo/image/upload/v1/categories/shoes.jpg',
+    };
+    const missingId = new Types.ObjectId().toString();
+    repository.findByIds.mockResolvedValue([men, shoes]);
+    repository.countChildren.mockResolvedValue(0);
+    repository.softDelete.mockImplementation(async (id: string) =>
+      [men, shoes].find((category) => category._id.toString() === id),
+    );
+    imageStorage.extractPublicId.mockReturnValue('categories/shoes');
+
+    const result = await service.bulkDelete({
+      ids: [men._id.toString(), missingId, shoes._id.toString()],
+    });
+
+    expect(repository.softDelete.mock.calls.map(([id]) => id)).toEqual([
+      shoes._id.toString(),
+      men._id.toString(),
+    ]);
+    expect(result).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(result.results.map((item) => item.id)).toEqual([
+      men._id.toString(),
+      missingId,
+      shoes._id.toString(),
+    ]);
+    expect(result.results[1]).toMatchObject({
+      success: false,
+      statusCode: 404,
+    });
+    expect(imageCleanupService.deleteImages).toHaveBeenCalledWith(
+      ['categories/shoes'],
+      ImageDeletionReason.REMOVED,
+    );
+  });
+
+  it('should report planned creates, updates and errors of a dry-run CSV import', async () => {
+    const men = {
+      ...buildCategory('Men', 'men'),
+      metadata: { season: 'ss24' },
+    };
+    repository.findBySlugs.mockResolvedValue([men]);
+    repository.findByNames.mockResolvedValue([men]);
+    const csv = [
+      'slug,name,description,parentSlug,applicableGenders,metadata.seo.title',
+      'men/shoes,Shoes,,men,men|women,Shoes for men',
+      'men,,Everything for men,,,',
+      'men/hats,Hats,,men,kids,',
+    ].join('\n');
+
+    const report = await service.importCsv(
+      {
+        buffer: Buffer.from(csv),
+        size: csv.length,
+        mimetype: 'text/csv',
+        originalname: 'categories.csv',
+      } as Express.Multer.File,
+      true,
+    );
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      total: 3,
+      created: 1,
+      updated: 1,
+      errors: 1,
+    });
+    expect(report.rows.map((row) => row.action)).toEqual([
+      'create',
+      'update',
+      'error',
+    ]);
+    expect(report.rows[1].changes).toEqual(['description']);
+    expect(report.rows[2].errors[0]).toContain('kids');
+    expect(repository.create).not.toHaveBeenCalled();
+    expect(repository.update).not.toHaveBeenCalled();
+  });
+
+  it('should keep metadata types through a CSV export and import', async () => {
+    const men = {
+      ...buildCategory('Men', 'men'),
+      metadata: {
+        code: '123',
+        legacy: 'true',
+        label: '[x]',
+        rank: 3,
+        featured: true,
+        keywords: ['suits', 'shoes'],
+        seo: { title: 'Men' },
+      },
+    };
+    repository.findTreeNodes.mockResolvedValue([men]);
+    repository.findBySlugs.mockResolvedValue([men]);
+    repository.findByNames.mockResolvedValue([men]);
+
+    const csv = await service.exportCsv();
+    const report = await service.importCsv(
+      {
+        buffer: Buffer.from(csv),
+        size: csv.length,
+        mimetype: 'text/csv',
+        originalname: 'categories.csv',
+      } as Express.Multer.File,
+      true,
+    );
+
+    expect(csv).toContain('"""123"""');
+    expect(report.rows.map((row) => row.action)).toEqual(['unchanged']);
+  });
+
+  describe('media gallery', () => {
+    const image = {
+      buffer: Buffer.from('image'),
+      size: 5,
+      mimetype: 'image/webp',
+      originalname: 'look.webp',
+    } as Express.Multer.File;
+
+    it('should add media next to the legacy image, which becomes the hero', async () => {
+      const shoes = {
+        ...buildCategory('Shoes', 'shoes'),
+        version: 2,
+        imageUrl:
+          'https://res.cloudinary.com/demo/image/upload/v1/categories/shoes.webp',
+      };
+      repository.findById.mockResolvedValue(shoes);
+      imageStorage.extractPublicId.mockReturnValue('categories/shoes');
+      imageStorage.upload.mockResolvedValue({
+        url: 'https://res.cloudinary.com/demo/image/upload/v1/categories/look.webp',
+        publicId: 'categories/look',
+        width: 800,
+        height: 600,
+      });
+
+      const result = await service.addMedia(
+        shoes._id.toString(),
+        image,
+        {
+          role: CategoryMediaRole.LIFESTYLE,
+          alt: 'Runner on a trail',
+          gender: 'women',
+          focalX: 0.5,
+          focalY: 0.3,
+        },
+        'user-42',
+      );
+
+      expect(result.imageUrl).toBe(shoes.imageUrl);
+      expect(result.media).toEqual([
+        expect.objectContaining({
+          role: 'hero',
+          publicId: 'categories/shoes',
+          order: 0,
+        }),
+        expect.objectContaining({
+          role: 'lifestyle',
+          alt: 'Runner on a trail',
+          gender: 'women',
+          width: 800,
+          focalPoint: { x: 0.5, y: 0.3 },
+          order: 1,
+        }),
+      ]);
+      expect(repository.updateMedia).toHaveBeenCalledWith(
+        shoes._id.toString(),
+        expect.any(Array),
+        shoes.imageUrl,
+        'user-42',
+        2,
+      );
+    });
+
+    it('should replace the hero on update only if the gallery is unchanged', async () => {
+      const shoes = {
+        ...buildCategory('Shoes', 'shoes'),
+        version: 4,
+        media: [],
+      };
+      repository.findById.mockResolvedValue(shoes);
+      repository.update.mockResolvedValue({ ...shoes, version: 5 });
+      imageStorage.upload.mockResolvedValue({
+        url: 'https://res.cloudinary.com/demo/image/upload/v1/categories/new.webp',
+        publicId: 'categories/new',
+      });
+
+      await service.update(shoes._id.toString(), {}, image, 'user-42');
+
+      expect(repository.update).toHaveBeenCalledWith(
+        shoes._id.toString(),
+        expect.objectContaining({
+          media: [expect.objectContaining({ publicId: 'categories/new' })],
+        }),
+        'user-42',
+        4,
+      );
+    });
+
+    it('should refuse a second hero image before uploading it', async () => {
+      const shoes = {
+        ...buildCategory('Shoes', 'shoes'),
+        media: [
+          {
+            _id: new Types.ObjectId(),
+            url: 'https://res.cloudinary.com/demo/image/upload/v1/categories/hero.webp',
+            publicId: 'categories/hero',
+            role: CategoryMediaRole.HERO,
+            alt: 'Shoes',
+            order: 0,
+          },
+        ],
+      };
+      repository.findById.mockResolvedValue(shoes);
+
+      await expect(
+        service.addMedia(shoes._id.toString(), image, {
+          role: CategoryMediaRole.HERO,
+          alt: 'Another hero',
+        }),
+      ).rejects.toBeInstanceOf(ConflictException);
+      expect(imageStorage.upload).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the first image when the hero is removed', async () => {
+      const hero = {
+        _id: new Types.ObjectId(),
+        url: 'https://res.cloudinary.com/demo/image/upload/v1/categories/hero.webp',
+        publicId: 'categories/hero',
+        role: CategoryMediaRole.HERO,
+        alt: 'Shoes',
+        order: 0,
+      };
+      const thumbnail = {
+        ...hero,
+        _id: new Types.ObjectId(),
+        url: 'https://res.cloudinary.com/demo/image/upload/v1/categories/thumb.webp',
+        publicId: 'categories/thumb',
+        role: CategoryMediaRole.THUMBNAIL,
+        order: 1,
+      };
+      const shoes = {
+        ...buildCategory('Shoes', 'shoes'),
+        imageUrl: hero.url,
+        media: [thumbnail, hero],
+      };
+      repository.findById.mockResolvedValue(shoes);
+
+      const result = await service.removeMedia(
+        shoes._id.toString(),
+        hero._id.toString(),
+      );
+
+      expect(result.imageUrl).toBe(thumbnail.url);
+      expect(result.media).toEqual([
+        expect.objectContaining({ role: 'thumbnail', order: 0 }),
+      ]);
+      expect(imageCleanupService.deleteImages).toHaveBeenCalledWith(
+        ['categories/hero'],
+        ImageDeletionReason.REMOVED,
+      );
+    });
+  });
 });
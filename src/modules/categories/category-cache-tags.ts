@@ -0,0 +1,62 @@
+/* eslint-disable prettier/prettier */
+import { CACHE_TAGS } from '../../common/constants/cache-keys.constants';
+import { generateCacheKey } from '../../common/utils/cache-key.util';
+import { CategoryResponseDto } from './dto/category-response.dto';
+
+/**
+ * Tags of a cached category detail: its own ID and slug plus its ancestors' IDs,
+ * so writes that rename or move an ancestor also drop the stale paths below it
+ */
+export function categoryDetailTags(category: CategoryResponseDto): string[] {
+  return [
+    generateCacheKey(CACHE_TAGS.CATEGORIES.BY_ID, { id: category._id }),
+    generateCacheKey(CACHE_TAGS.CATEGORIES.BY_SLUG, { slug: category.slug }),
+    ...(category.ancestors ?? []).map(id => generateCacheKey(CACHE_TAGS.CATEGORIES.BY_ID, { id }))
+  ];
+}
+
+/**
+ * Tags of a cached child list; also tagged with each child, so writes to a child drop its parent's list
+ */
+export function categoryChildrenTags(parentId: string, children: CategoryResponseDto[]): string[] {
+  return [
+    generateCacheKey(CACHE_TAGS.CATEGORIES.BY_PARENT, { parentId }),
+    ...children.map(child => generateCacheKey(CACHE_TAGS.CATEGORIES.BY_ID, { id: child._id }))
+  ];
+}
+
+/**
+ * Tags of a cached per-gender list
+ */
+export function categoryGenderTags(gender: string): string[] {
+  return [
+    CACHE_TAGS.CATEGORIES.LIST,
+    generateCacheKey(CACHE_TAGS.CATEGORIES.BY_GENDER, { gender })
+  ];
+}
+
+/**
+ * Tags evicted by a category write: every list, stats and validation entry,
+ * plus the details and child lists of the given categories and their parents
+ */
+export function categoryInvalidationTags(
+  categoryIds: string | string[] = [],
+  parentIds: (string | null | undefined)[] = []
+): string[] {
+  const tags = new Set<string>([
+    CACHE_TAGS.CATEGORIES.LIST,
+    CACHE_TAGS.CATEGORIES.STATS,
+    CACHE_TAGS.CATEGORIES.VALIDATION
+  ]);
+
+  [categoryIds].flat().forEach(categoryId => {
+    tags.add(generateCacheKey(CACHE_TAGS.CATEGORIES.BY_ID, { id: categoryId }));
+    tags.add(generateCacheKey(CACHE_TAGS.CATEGORIES.BY_PARENT, { parentId: categoryId }));
+  });
+
+  parentIds
+    .filter(Boolean)
+    .forEach(parentId => tags.add(generateCacheKey(CACHE_TAGS.CATEGORIES.BY_PARENT, { parentId })));
+
+  return Array.from(tags);
+}
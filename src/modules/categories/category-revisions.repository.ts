@@ -0,0 +1,124 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model, Types } from 'mongoose';
+import { CategoryRevision, CategoryRevisionDocument } from './schemas/category-revision.schema';
+import { DomainEventInput } from '../../common/interfaces/domain-event.interface';
+import { PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
+
+@Injectable()
+export class CategoryRevisionsRepository {
+  private readonly logger = new Logger(CategoryRevisionsRepository.name);
+
+  constructor(
+    @InjectModel(CategoryRevision.name) private categoryRevisionModel: Model<CategoryRevisionDocument>,
+  ) {}
+
+  /**
+   * Store one revision per category change inside the caller's transaction
+   */
+  async record(events: DomainEventInput[], changedBy: string | undefined, session: ClientSession): Promise<void> {
+    try {
+      if (events.length === 0) {
+        return;
+      }
+
+      const categoryIds = [...new Set(events.map(event => event.aggregateId))].map(id => new Types.ObjectId(id));
+
+      // Concurrent changes to a category conflict on the category document itself, so reading
+      // the latest revision inside the transaction is safe
+      const latest = await this.categoryRevisionModel
+        .aggregate<{ _id: Types.ObjectId; revision: number }>([
+          { $match: { categoryId: { $in: categoryIds } } },
+          { $group: { _id: '$categoryId', revision: { $max: '$revision' } } }
+        ])
+        .session(session);
+
+      const revisions = new Map(latest.map(entry => [String(entry._id), entry.revision]));
+
+      const documents = events.map(event => {
+        const revision = (revisions.get(event.aggregateId) || 0) + 1;
+        revisions.set(event.aggregateId, revision);
+
+        return {
+          categoryId: new Types.ObjectId(event.aggregateId),
+          revision,
+          action: event.eventType.slice(event.eventType.indexOf('.') + 1),
+          changedBy: changedBy || null,
+          changes: event.data.changedFields.map(field => ({
+            field,
+            before: event.data.before?.[field] ?? null,
+            after: event.data.after?.[field] ?? null
+          })),
+          snapshot: event.data.after
+        };
+      });
+
+      await this.categoryRevisionModel.insertMany(documents, { session, ordered: true });
+      this.logger.debug(`Recorded ${documents.length} category revisions`);
+    } catch (error) {
+      this.logger.error(`Error recording category revisions: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * List the revisions of a category, newest first, without snapshots
+   */
+  async findByCategory(categoryId: string, page = 1, limit = 20): Promise<PaginationResult<CategoryRevision>> {
+    try {
+      const filter = { categoryId: new Types.ObjectId(categoryId) };
+
+      const skip = (page - 1) * limit;
+      const total = await this.categoryRevisionModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / limit);
+
+      const revisions = await this.categoryRevisionModel
+        .find(filter)
+        .select('-snapshot')
+        .sort({ revision: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean()
+        .exec();
+
+      const pagination: PaginationMeta = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+
+      return {
+        data: revisions as CategoryRevision[],
+        pagination
+      };
+    } catch (error) {
+      this.logger.error(`Error finding category revisions: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a single revision of a category
+   */
+  async findOne(categoryId: string, revision: number): Promise<CategoryRevision> {
+    try {
+      const categoryRevision = await this.categoryRevisionModel
+        .findOne({ categoryId: new Types.ObjectId(categoryId), revision })
+        .lean()
+        .exec();
+
+      if (!categoryRevision) {
+        throw new NotFoundException(`Revision ${revision} of category not found`);
+      }
+
+      return categoryRevision as CategoryRevision;
+    } catch (error) {
+      this.logger.error(`Error finding category revision: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
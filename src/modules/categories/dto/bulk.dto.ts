@@ -1,6 +1,6 @@
 /* eslint-disable prettier/prettier */
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsArray, IsBoolean, IsEnum, IsMongoId, IsOptional, MinLength, ValidateNested } from "class-validator";
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsBoolean, IsEnum, IsMongoId, IsOptional, MinLength, ValidateNested } from "class-validator";
 import { CategoryStatus } from "src/common/enums/category-status.enum";
 import { UpdateCategoryDto } from "./update-category.dto";
 import { Type } from "class-transformer";
@@ -8,11 +8,13 @@ import { Type } from "class-transformer";
 
 export class BulkCategoryOperationDto {
   @ApiProperty({
-    description: 'Array of category IDs to operate on',
+    description: 'Array of category IDs to operate on (at most 100)',
     type: [String],
     example: ['507f1f77bcf86cd799439011', '507f1f77bcf86cd799439012', '507f1f77bcf86cd799439013']
   })
   @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
   @IsMongoId({ each: true })
   @MinLength(1, { each: true })
   ids: string[];
@@ -47,4 +49,32 @@ export class BulkStatusUpdateDto extends BulkCategoryOperationDto {
   })
   @IsEnum(CategoryStatus)
   status: CategoryStatus;
-}
\ No newline at end of file
+}
+
+export class BulkOperationItemResultDto {
+  @ApiProperty({ description: 'Category ID', example: '507f1f77bcf86cd799439011' })
+  id: string;
+
+  @ApiProperty({ description: 'Whether the operation succeeded for this category', example: false })
+  success: boolean;
+
+  @ApiPropertyOptional({ description: 'HTTP status code describing the failure', example: 409 })
+  statusCode?: number;
+
+  @ApiPropertyOptional({ description: 'Reason the operation failed', example: 'Category has 2 child categories; move or delete them first' })
+  error?: string;
+}
+
+export class BulkOperationResultDto {
+  @ApiProperty({ description: 'Number of distinct IDs processed', example: 3 })
+  total: number;
+
+  @ApiProperty({ description: 'Number of categories the operation succeeded for', example: 2 })
+  succeeded: number;
+
+  @ApiProperty({ description: 'Number of categories the operation failed for', example: 1 })
+  failed: number;
+
+  @ApiProperty({ description: 'Per-ID outcome, in request order', type: [BulkOperationItemResultDto] })
+  results: BulkOperationItemResultDto[];
+}
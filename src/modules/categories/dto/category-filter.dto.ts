@@ -1,9 +1,11 @@
 /* eslint-disable prettier/prettier */
 import { ApiPropertyOptional } from "@nestjs/swagger";
 import { Transform } from "class-transformer";
-import { IsBoolean, IsEnum, IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from "class-validator";
+import { IsBoolean, IsEnum, IsIn, IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from "class-validator";
 import { CategoryStatus } from "src/common/enums/category-status.enum";
-import { Gender } from "src/common/enums/gender.enum";
+
+export const CATEGORY_SORT_FIELDS = ['name', 'slug', 'createdAt', 'updatedAt', 'sortOrder', 'status'] as const;
+export type CategorySortField = typeof CATEGORY_SORT_FIELDS[number];
 
 
 export class CategoryQueryDto {
@@ -17,13 +19,13 @@ export class CategoryQueryDto {
   status?: CategoryStatus;
 
   @ApiPropertyOptional({
-    description: 'Filter by applicable gender',
-    enum: Gender,
-    example: Gender.UNISEX
+    description: 'Filter by applicable gender (name of a gender record)',
+    example: 'unisex'
   })
   @IsOptional()
-  @IsEnum(Gender)
-  gender?: Gender;
+  @IsString()
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  gender?: string;
 
   @ApiPropertyOptional({
     description: 'Filter by whether category has subcategories',
@@ -40,7 +42,7 @@ export class CategoryQueryDto {
   hasSubcategories?: boolean;
 
   @ApiPropertyOptional({
-    description: 'Search term for name or description (case-insensitive)',
+    description: 'Full-text search over name, slug, description and metadata keywords; results are relevance-ranked unless sortBy is given',
     example: 'electronics',
     minLength: 2,
     maxLength: 100
@@ -78,6 +80,29 @@ export class CategoryQueryDto {
   @Min(1)
   page?: number;
 
+  @ApiPropertyOptional({
+    description: 'Opaque cursor (nextCursor/prevCursor of a previous response) for keyset pagination; send an empty value to start from the first item. Takes precedence over page',
+    example: 'eyJmIjoic29ydE9yZGVyIiwibyI6ImFzYyJ9'
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(512)
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Count the matching categories (total/totalPages) in cursor mode; page mode always includes totals',
+    type: 'boolean',
+    example: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  includeTotal?: boolean;
+
   @ApiPropertyOptional({
     description: 'Number of items per page',
     minimum: 1,
@@ -94,13 +119,13 @@ export class CategoryQueryDto {
 
   @ApiPropertyOptional({
     description: 'Sort field',
-    enum: ['name', 'slug', 'createdAt', 'updatedAt', 'sortOrder', 'status'],
+    enum: CATEGORY_SORT_FIELDS,
     default: 'sortOrder',
     example: 'name'
   })
   @IsOptional()
-  @IsString()
-  sortBy?: 'name' | 'slug' | 'createdAt' | 'updatedAt' | 'sortOrder' | 'status';
+  @IsIn(CATEGORY_SORT_FIELDS)
+  sortBy?: CategorySortField;
 
   @ApiPropertyOptional({
     description: 'Sort direction',
@@ -109,7 +134,7 @@ export class CategoryQueryDto {
     example: 'asc'
   })
   @IsOptional()
-  @IsString()
+  @IsIn(['asc', 'desc'])
   sortOrder?: 'asc' | 'desc';
 
   @ApiPropertyOptional({
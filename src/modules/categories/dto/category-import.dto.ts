@@ -0,0 +1,102 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsEnum, IsOptional } from "class-validator";
+import { CategoryStatus } from "src/common/enums/category-status.enum";
+
+// Columns of the catalog CSV; metadata keys follow as metadata.<dotted.path> columns
+export const CATEGORY_CSV_COLUMNS = [
+  'slug',
+  'name',
+  'description',
+  'parentSlug',
+  'status',
+  'applicableGenders',
+  'sortOrder',
+  'icon',
+  'imageUrl'
+];
+
+// Separates the values of list columns such as applicableGenders
+export const CSV_LIST_SEPARATOR = '|';
+
+export const MAX_CSV_IMPORT_ROWS = 5000;
+
+export type CategoryImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'error';
+
+export class CategoryImportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Validate the file and report planned changes without writing anything',
+    type: 'boolean',
+    default: false,
+    example: true
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export class CategoryExportQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only export categories with this status',
+    enum: CategoryStatus
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+}
+
+export class CategoryImportRowResultDto {
+  @ApiProperty({ description: 'Record number in the file (the header is record 1)', example: 2 })
+  row: number;
+
+  @ApiPropertyOptional({ description: 'Slug the row was matched or would be created with', example: 'men/shoes' })
+  slug?: string;
+
+  @ApiProperty({
+    description: 'Outcome (or planned outcome in a dry run) for this row',
+    enum: ['create', 'update', 'unchanged', 'conflict', 'error'],
+    example: 'update'
+  })
+  action: CategoryImportAction;
+
+  @ApiPropertyOptional({ description: 'ID of the created or updated category', example: '507f1f77bcf86cd799439011' })
+  id?: string;
+
+  @ApiPropertyOptional({ description: 'Fields that are (or would be) changed by an update', type: [String], example: ['description', 'sortOrder'] })
+  changes?: string[];
+
+  @ApiPropertyOptional({ description: 'Validation errors or conflict reasons', type: [String], example: ['sortOrder must be a number'] })
+  errors?: string[];
+}
+
+export class CategoryImportReportDto {
+  @ApiProperty({ description: 'Whether this was a dry run', example: true })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Number of data rows in the file', example: 4 })
+  total: number;
+
+  @ApiProperty({ description: 'Rows that created (or would create) a category', example: 1 })
+  created: number;
+
+  @ApiProperty({ description: 'Rows that updated (or would update) a category', example: 1 })
+  updated: number;
+
+  @ApiProperty({ description: 'Rows matching a category without changes', example: 1 })
+  unchanged: number;
+
+  @ApiProperty({ description: 'Rows conflicting with existing data or other rows', example: 0 })
+  conflicts: number;
+
+  @ApiProperty({ description: 'Rows with validation errors', example: 1 })
+  errors: number;
+
+  @ApiProperty({ description: 'Row-level report in file order', type: [CategoryImportRowResultDto] })
+  rows: CategoryImportRowResultDto[];
+}
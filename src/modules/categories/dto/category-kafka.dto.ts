@@ -0,0 +1,115 @@
+/* eslint-disable prettier/prettier */
+import { Allow, ArrayMaxSize, ArrayNotEmpty, IsArray, IsEnum, IsInt, IsMongoId, IsNotEmpty, IsNumber, IsOptional, IsString, Min, ValidateNested } from "class-validator";
+import { Type } from "class-transformer";
+import { CreateCategoryDto } from "./create-category.dto";
+import { UpdateCategoryDto } from "./update-category.dto";
+import { CategoryRevisionQueryDto } from "./category-revision.dto";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+
+// Payloads of the category Kafka patterns, validated like the equivalent HTTP requests
+
+export class CategoryIdPayloadDto {
+  @IsMongoId()
+  id: string;
+}
+
+export class CategorySlugPayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  slug: string;
+}
+
+export class CategoryGenderPayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  gender: string;
+}
+
+export class CreateCategoryPayloadDto {
+  @ValidateNested()
+  @Type(() => CreateCategoryDto)
+  createCategoryDto: CreateCategoryDto;
+
+  @Allow()
+  imageData?: Buffer;
+
+  @IsOptional()
+  @IsString()
+  imageName?: string;
+}
+
+export class UpdateCategoryPayloadDto extends CategoryIdPayloadDto {
+  @ValidateNested()
+  @Type(() => UpdateCategoryDto)
+  updateCategoryDto: UpdateCategoryDto;
+
+  @Allow()
+  imageData?: Buffer;
+
+  @IsOptional()
+  @IsString()
+  imageName?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  expectedVersion?: number;
+}
+
+export class UpdateCategoryStatusPayloadDto extends CategoryIdPayloadDto {
+  @IsEnum(CategoryStatus)
+  status: CategoryStatus;
+}
+
+export class CategorySortOrderUpdateDto {
+  @IsMongoId()
+  id: string;
+
+  @IsNumber()
+  sortOrder: number;
+}
+
+export class UpdateCategorySortOrderPayloadDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => CategorySortOrderUpdateDto)
+  updates: CategorySortOrderUpdateDto[];
+}
+
+export class CategoryRevisionsPayloadDto extends CategoryIdPayloadDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CategoryRevisionQueryDto)
+  queryDto?: CategoryRevisionQueryDto;
+}
+
+export class CategoryRevisionPayloadDto extends CategoryIdPayloadDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  revision: number;
+}
+
+export class BulkCreateCategoriesPayloadDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => CreateCategoryDto)
+  categories: CreateCategoryDto[];
+}
+
+export class ValidateCategoryPayloadDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  slug: string;
+
+  @IsOptional()
+  @IsMongoId()
+  excludeId?: string;
+}
@@ -0,0 +1,115 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ArrayNotEmpty, IsArray, IsEnum, IsInt, IsMongoId, IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { CategoryMediaRole } from "../../../common/enums/category-media-role.enum";
+
+export class CategoryMediaFocalPointDto {
+  @ApiProperty({ description: 'Horizontal position, from 0 (left) to 1 (right)', example: 0.5 })
+  x: number;
+
+  @ApiProperty({ description: 'Vertical position, from 0 (top) to 1 (bottom)', example: 0.35 })
+  y: number;
+}
+
+export class CategoryMediaDto {
+  @ApiProperty({ description: 'Media item ID', example: '65a4f1c2e4b0a1b2c3d4e5f6' })
+  _id: string;
+
+  @ApiProperty({ description: 'Image URL', example: 'https://res.cloudinary.com/demo/image/upload/categories/hero.webp' })
+  url: string;
+
+  @ApiProperty({ description: 'Storage public ID', example: 'categories/hero' })
+  publicId: string;
+
+  @ApiProperty({ description: 'What the image is used for', enum: CategoryMediaRole, example: CategoryMediaRole.HERO })
+  role: CategoryMediaRole;
+
+  @ApiProperty({ description: 'Alternative text', example: 'Model wearing a linen summer dress' })
+  alt: string;
+
+  @ApiPropertyOptional({ description: 'Gender the image is meant for', example: 'women' })
+  gender?: string;
+
+  @ApiPropertyOptional({ description: 'Width in pixels', example: 800 })
+  width?: number;
+
+  @ApiPropertyOptional({ description: 'Height in pixels', example: 600 })
+  height?: number;
+
+  @ApiPropertyOptional({ description: 'Point kept in frame when the image is cropped', type: CategoryMediaFocalPointDto })
+  focalPoint?: CategoryMediaFocalPointDto;
+
+  @ApiProperty({ description: 'Position in the gallery', example: 0 })
+  order: number;
+}
+
+// Fields of a media item; sent as multipart form fields next to the image
+export class UpdateCategoryMediaDto {
+  @ApiPropertyOptional({ description: 'What the image is used for', enum: CategoryMediaRole })
+  @IsOptional()
+  @IsEnum(CategoryMediaRole)
+  role?: CategoryMediaRole;
+
+  @ApiPropertyOptional({ description: 'Alternative text', maxLength: 250 })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(250)
+  @Transform(({ value }) => value?.trim())
+  alt?: string;
+
+  @ApiPropertyOptional({ description: 'Gender the image is meant for (name of an active gender record)', example: 'women' })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  gender?: string;
+
+  @ApiPropertyOptional({ description: 'Horizontal focal point, from 0 (left) to 1 (right); requires focalY', example: 0.5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  focalX?: number;
+
+  @ApiPropertyOptional({ description: 'Vertical focal point, from 0 (top) to 1 (bottom); requires focalX', example: 0.35 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @Type(() => Number)
+  focalY?: number;
+}
+
+export class AddCategoryMediaDto extends UpdateCategoryMediaDto {
+  @ApiProperty({ description: 'What the image is used for', enum: CategoryMediaRole })
+  @IsEnum(CategoryMediaRole)
+  role: CategoryMediaRole;
+
+  @ApiProperty({ description: 'Alternative text', maxLength: 250 })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(250)
+  @Transform(({ value }) => value?.trim())
+  alt: string;
+
+  @ApiPropertyOptional({ description: 'Position in the gallery (default: last)', example: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  order?: number;
+}
+
+export class ReorderCategoryMediaDto {
+  @ApiProperty({
+    description: 'IDs of every media item of the category, in the new order',
+    type: [String],
+    example: ['65a4f1c2e4b0a1b2c3d4e5f6', '65a4f1c2e4b0a1b2c3d4e5f7']
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsMongoId({ each: true })
+  mediaIds: string[];
+}
@@ -3,6 +3,7 @@ import { ApiProperty } from "@nestjs/swagger";
 import { CategoryResponseDto } from "./category-response.dto";
 import { Type } from "class-transformer";
 import { ValidateNested } from "class-validator";
+import { CursorPaginationMeta, PaginationMeta } from "src/common/interfaces/pagination.interface";
 
 
 export class CategoryListResponseDto {
@@ -19,20 +20,15 @@ export class CategoryListResponseDto {
     description: 'Pagination metadata',
     type: 'object',
     properties: {
-      total: { type: 'number', description: 'Total number of categories', example: 150 },
-      page: { type: 'number', description: 'Current page number', example: 1 },
+      total: { type: 'number', description: 'Total number of categories (omitted in cursor mode unless includeTotal=true)', example: 150 },
+      page: { type: 'number', description: 'Current page number (page mode only)', example: 1 },
       limit: { type: 'number', description: 'Items per page', example: 20 },
-      totalPages: { type: 'number', description: 'Total number of pages', example: 8 },
+      totalPages: { type: 'number', description: 'Total number of pages (omitted in cursor mode unless includeTotal=true)', example: 8 },
       hasNext: { type: 'boolean', description: 'Whether there is a next page', example: true },
-      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false },
+      nextCursor: { type: 'string', nullable: true, description: 'Cursor for the next page, null on the last page', example: 'eyJmIjoic29ydE9yZGVyIiwibyI6ImFzYyJ9' },
+      prevCursor: { type: 'string', nullable: true, description: 'Cursor for the previous page, null on the first page', example: null }
     }
   })
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNext: boolean;
-    hasPrev: boolean;
-  };
+  pagination: PaginationMeta | CursorPaginationMeta;
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 /* eslint-disable prettier/prettier */
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { CategoryStatus } from "src/common/enums/category-status.enum";
-import { Gender } from "src/common/enums/gender.enum";
+import { CategoryMediaDto } from "./category-media.dto";
 
 
 export class CategoryResponseDto {
@@ -29,6 +29,26 @@ export class CategoryResponseDto {
   })
   description?: string;
 
+  @ApiPropertyOptional({
+    description: 'Parent category ID (null for root categories)',
+    example: '507f1f77bcf86cd799439012',
+    nullable: true
+  })
+  parentId?: string | null;
+
+  @ApiProperty({
+    description: 'Ancestor category IDs, ordered from the root down',
+    type: [String],
+    example: ['507f1f77bcf86cd799439012']
+  })
+  ancestors: string[];
+
+  @ApiProperty({
+    description: 'Depth in the category tree (0 for root categories)',
+    example: 1
+  })
+  depth: number;
+
   @ApiProperty({
     description: 'Category status',
     enum: CategoryStatus,
@@ -38,11 +58,10 @@ export class CategoryResponseDto {
 
   @ApiProperty({
     description: 'Applicable genders',
-    enum: Gender,
-    isArray: true,
-    example: [Gender.MEN, Gender.WOMEN],
+    type: [String],
+    example: ['men', 'women']
   })
-  applicableGenders: Gender[];
+  applicableGenders: string[];
 
   @ApiProperty({
     description: 'Has subcategories flag',
@@ -69,11 +88,17 @@ export class CategoryResponseDto {
   metadata: Record<string, any>;
 
   @ApiPropertyOptional({
-    description: 'Category image URL',
+    description: 'URL of the primary image (the hero image, else the first in the gallery)',
     example: 'https://example.com/images/electronics-category.jpg'
   })
   imageUrl?: string;
 
+  @ApiProperty({
+    description: 'Image gallery, in display order',
+    type: [CategoryMediaDto]
+  })
+  media: CategoryMediaDto[];
+
   @ApiPropertyOptional({
     description: 'Icon identifier',
     example: 'fas fa-laptop'
@@ -94,6 +119,12 @@ export class CategoryResponseDto {
   })
   deletedAt?: Date;
 
+  @ApiProperty({
+    description: 'Version of the category, incremented on every change; also sent as the ETag header',
+    example: 3
+  })
+  version: number;
+
   @ApiProperty({
     description: 'Creation timestamp',
     type: 'string',
@@ -0,0 +1,105 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional, PickType } from "@nestjs/swagger";
+import { CategoryQueryDto } from "./category-filter.dto";
+
+
+export class CategoryRevisionQueryDto extends PickType(CategoryQueryDto, ['page', 'limit'] as const) {}
+
+export class CategoryFieldChangeDto {
+  @ApiProperty({
+    description: 'Changed field',
+    example: 'name'
+  })
+  field: string;
+
+  @ApiPropertyOptional({
+    description: 'Value before the change',
+    example: 'Sneakers'
+  })
+  before: any;
+
+  @ApiPropertyOptional({
+    description: 'Value after the change',
+    example: 'Running Shoes'
+  })
+  after: any;
+}
+
+export class CategoryRevisionDto {
+  @ApiProperty({
+    description: 'Category unique identifier',
+    example: '507f1f77bcf86cd799439011'
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Revision number, starting at 1',
+    example: 3
+  })
+  revision: number;
+
+  @ApiProperty({
+    description: 'Kind of change',
+    example: 'updated',
+    enum: ['created', 'updated', 'deleted', 'restored', 'status_changed']
+  })
+  action: string;
+
+  @ApiPropertyOptional({
+    description: 'Who made the change, when known',
+    example: 'user-42',
+    nullable: true
+  })
+  changedBy: string | null;
+
+  @ApiProperty({
+    description: 'Field-level diff against the previous revision',
+    type: [CategoryFieldChangeDto]
+  })
+  changes: CategoryFieldChangeDto[];
+
+  @ApiProperty({
+    description: 'When the change was made',
+    example: '2024-01-15T10:30:00.000Z'
+  })
+  createdAt: Date;
+}
+
+export class CategoryRevisionDetailDto extends CategoryRevisionDto {
+  @ApiPropertyOptional({
+    description: 'Category state after this revision; null for a permanent delete',
+    type: 'object',
+    additionalProperties: true,
+    nullable: true
+  })
+  snapshot: Record<string, any> | null;
+}
+
+export class CategoryRevisionListResponseDto {
+  @ApiProperty({
+    description: 'Revisions, newest first',
+    type: [CategoryRevisionDto]
+  })
+  data: CategoryRevisionDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Total number of revisions', example: 12 },
+      page: { type: 'number', description: 'Current page number', example: 1 },
+      limit: { type: 'number', description: 'Items per page', example: 20 },
+      totalPages: { type: 'number', description: 'Total number of pages', example: 1 },
+      hasNext: { type: 'boolean', description: 'Whether there is a next page', example: false },
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+    }
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
@@ -0,0 +1,100 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional, PickType } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import { IsString, MaxLength, MinLength, ValidateNested } from "class-validator";
+import { CategoryQueryDto } from "./category-filter.dto";
+import { CategoryResponseDto } from "./category-response.dto";
+
+
+export class CategorySearchQueryDto extends PickType(CategoryQueryDto, ['status', 'gender', 'page', 'limit'] as const) {
+  @ApiProperty({
+    description: 'Search text; special characters are ignored',
+    example: 'running shoes',
+    minLength: 1,
+    maxLength: 100
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  @Transform(({ value }) => value?.trim())
+  q: string;
+}
+
+export class CategorySearchHighlightsDto {
+  @ApiPropertyOptional({
+    description: 'Name with matched terms marked',
+    example: '<mark>Running</mark> <mark>Shoes</mark>'
+  })
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Slug with matched terms marked',
+    example: '<mark>running</mark>-<mark>shoes</mark>'
+  })
+  slug?: string;
+
+  @ApiPropertyOptional({
+    description: 'Description snippet with matched terms marked',
+    example: '…lightweight <mark>shoes</mark> for road <mark>running</mark>…'
+  })
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Metadata keywords with matched terms marked',
+    example: '<mark>running</mark>, trail, marathon'
+  })
+  keywords?: string;
+}
+
+export class CategorySearchResultDto extends CategoryResponseDto {
+  @ApiProperty({
+    description: 'Relevance score from the weighted text index (higher is better)',
+    example: 15.5
+  })
+  score: number;
+
+  @ApiProperty({
+    description: 'Fields containing matched terms',
+    type: CategorySearchHighlightsDto
+  })
+  highlights: CategorySearchHighlightsDto;
+}
+
+export class CategorySearchResponseDto {
+  @ApiProperty({
+    description: 'Categories ordered by relevance',
+    type: [CategorySearchResultDto],
+    isArray: true
+  })
+  @ValidateNested({ each: true })
+  @Type(() => CategorySearchResultDto)
+  data: CategorySearchResultDto[];
+
+  @ApiProperty({
+    description: 'Terms that were searched for after sanitizing the input',
+    type: [String],
+    example: ['running', 'shoes']
+  })
+  terms: string[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Total number of matching categories', example: 12 },
+      page: { type: 'number', description: 'Current page number', example: 1 },
+      limit: { type: 'number', description: 'Items per page', example: 20 },
+      totalPages: { type: 'number', description: 'Total number of pages', example: 1 },
+      hasNext: { type: 'boolean', description: 'Whether there is a next page', example: false },
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+    }
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
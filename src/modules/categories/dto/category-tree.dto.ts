@@ -0,0 +1,73 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsEnum, IsMongoId, IsNumber, IsOptional, Max, Min } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+import { CategoryResponseDto } from "./category-response.dto";
+
+
+export class CategoryTreeQueryDto {
+  @ApiPropertyOptional({
+    description: 'Only return the subtree below this category',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @IsOptional()
+  @IsMongoId()
+  rootId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Maximum number of levels to return below the root',
+    minimum: 1,
+    maximum: 10,
+    example: 3
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  @Min(1)
+  @Max(10)
+  maxDepth?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only include categories with this status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+}
+
+export class CategoryTreeNodeDto extends CategoryResponseDto {
+  @ApiProperty({
+    description: 'Child categories',
+    type: () => [CategoryTreeNodeDto]
+  })
+  children: CategoryTreeNodeDto[];
+}
+
+export class CategoryBreadcrumbDto {
+  @ApiProperty({
+    description: 'Category unique identifier',
+    example: '507f1f77bcf86cd799439011'
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Category name',
+    example: 'Shoes'
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'Hierarchical category slug',
+    example: 'men/shoes'
+  })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Depth in the category tree',
+    example: 1
+  })
+  depth: number;
+}
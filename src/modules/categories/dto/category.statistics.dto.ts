@@ -1,7 +1,6 @@
 /* eslint-disable prettier/prettier */
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { CategoryResponseDto } from "./category-response.dto";
-import { Gender } from "src/common/enums/gender.enum";
 import { CategoryStatus } from "src/common/enums/category-status.enum";
 import { IsArray, IsOptional, IsString, ValidateNested } from "class-validator";
 import { CategoryQueryDto } from "./category-filter.dto";
@@ -29,14 +28,10 @@ export class CategoryStatsDto {
   @ApiProperty({
     description: 'Categories breakdown by gender applicability',
     type: 'object',
-    properties: {
-      male: { type: 'number', example: 45 },
-      female: { type: 'number', example: 50 },
-      unisex: { type: 'number', example: 40 },
-      kids: { type: 'number', example: 15 }
-    }
+    additionalProperties: { type: 'number' },
+    example: { men: 45, women: 50, unisex: 40 }
   })
-  byGender: Record<Gender, number>;
+  byGender: Record<string, number>;
 
   @ApiProperty({
     description: 'Number of categories with subcategories',
@@ -5,15 +5,14 @@ import {
   IsEnum, 
   IsOptional, 
   IsArray, 
-  IsBoolean, 
   IsNumber, 
   IsObject, 
   MinLength,
   MaxLength,
+  IsMongoId,
 } from 'class-validator';
 //import { Type, Transform } from 'class-transformer';
 import { CategoryStatus } from '../../../common/enums/category-status.enum';
-import { Gender } from '../../../common/enums/gender.enum';
 import { Transform, Type } from 'class-transformer';
 
 // Create Category DTO
@@ -41,6 +40,14 @@ export class CreateCategoryDto {
   @Transform(({ value }) => value?.trim())
   description?: string;
 
+  @ApiPropertyOptional({ 
+    description: 'Parent category ID (omit for a root category)',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string;
+
   @ApiPropertyOptional({ 
     description: 'Category status',
     enum: CategoryStatus,
@@ -51,24 +58,15 @@ export class CreateCategoryDto {
   status?: CategoryStatus;
 
   @ApiPropertyOptional({ 
-    description: 'Applicable genders',
-    enum: Gender,
-    isArray: true,
-    example: [Gender.MEN, Gender.WOMEN]
+    description: 'Applicable genders (names of active gender records)',
+    type: [String],
+    example: ['men', 'women']
   })
   @IsOptional()
   @IsArray()
-  @IsEnum(Gender, { each: true })
-  applicableGenders?: Gender[];
-
-  @ApiPropertyOptional({ 
-    description: 'Has subcategories',
-    default: false
-  })
-  @IsOptional()
-  @IsBoolean()
-  @Type(() => Boolean)
-  hasSubcategories?: boolean;
+  @IsString({ each: true })
+  @Transform(({ value }) => Array.isArray(value) ? value.map(gender => String(gender).trim().toLowerCase()) : value)
+  applicableGenders?: string[];
 
   @ApiPropertyOptional({ 
     description: 'Sort order',
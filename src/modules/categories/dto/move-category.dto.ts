@@ -0,0 +1,15 @@
+/* eslint-disable prettier/prettier */
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { IsMongoId, IsOptional } from "class-validator";
+
+
+export class MoveCategoryDto {
+  @ApiPropertyOptional({
+    description: 'New parent category ID. Use null to move the category to the root level',
+    example: '507f1f77bcf86cd799439011',
+    nullable: true
+  })
+  @IsOptional()
+  @IsMongoId()
+  parentId?: string | null;
+}
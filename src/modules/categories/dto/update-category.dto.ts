@@ -1,10 +1,9 @@
 /* eslint-disable prettier/prettier */
 import { ApiPropertyOptional } from "@nestjs/swagger";
-import { IsArray, IsBoolean, IsEnum, IsNumber, IsObject, IsOptional, IsString, MaxLength, MinLength } from "class-validator";
+import { IsArray, IsEnum, IsNumber, IsObject, IsOptional, IsString, MaxLength, MinLength } from "class-validator";
 //import { CreateCategoryDto } from "./create-category.dto";
 import { Transform, Type } from "class-transformer";
 import { CategoryStatus } from "src/common/enums/category-status.enum";
-import { Gender } from "src/common/enums/gender.enum";
 export class UpdateCategoryDto {
   @ApiPropertyOptional({ 
     description: 'Category name',
@@ -37,22 +36,14 @@ export class UpdateCategoryDto {
   status?: CategoryStatus;
 
   @ApiPropertyOptional({ 
-    description: 'Applicable genders',
-    enum: Gender,
-    isArray: true
+    description: 'Applicable genders (names of active gender records)',
+    type: [String]
   })
   @IsOptional()
   @IsArray()
-  @IsEnum(Gender, { each: true })
-  applicableGenders?: Gender[];
-
-  @ApiPropertyOptional({ 
-    description: 'Has subcategories'
-  })
-  @IsOptional()
-  @IsBoolean()
-  @Type(() => Boolean)
-  hasSubcategories?: boolean;
+  @IsString({ each: true })
+  @Transform(({ value }) => Array.isArray(value) ? value.map(gender => String(gender).trim().toLowerCase()) : value)
+  applicableGenders?: string[];
 
   @ApiPropertyOptional({ 
     description: 'Sort order'
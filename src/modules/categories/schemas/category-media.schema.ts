@@ -0,0 +1,59 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { CategoryMediaRole } from '../../../common/enums/category-media-role.enum';
+
+@Schema({ _id: false })
+export class CategoryMediaFocalPoint {
+  @Prop({ required: true, min: 0, max: 1 })
+  x: number; // 0 = left edge, 1 = right edge
+
+  @Prop({ required: true, min: 0, max: 1 })
+  y: number; // 0 = top edge, 1 = bottom edge
+}
+
+export const CategoryMediaFocalPointSchema = SchemaFactory.createForClass(CategoryMediaFocalPoint);
+
+// One image of a category gallery, embedded in the category document
+@Schema()
+export class CategoryMedia {
+  _id?: Types.ObjectId;
+
+  @Prop({
+    type: String,
+    required: true,
+    validate: {
+      validator: function(v: string) {
+        return /^https?:\/\/.+/.test(v);
+      },
+      message: 'Invalid media URL format'
+    }
+  })
+  url: string;
+
+  @Prop({ type: String, required: true })
+  publicId: string; // Image storage public ID, used to replace or delete the file
+
+  @Prop({ type: String, enum: CategoryMediaRole, required: true })
+  role: CategoryMediaRole;
+
+  @Prop({ type: String, required: true, trim: true })
+  alt: string; // Alternative text for screen readers
+
+  @Prop({ type: String, lowercase: true, required: false })
+  gender?: string; // Set on lifestyle shots meant for one gender
+
+  @Prop({ type: Number, required: false })
+  width?: number;
+
+  @Prop({ type: Number, required: false })
+  height?: number;
+
+  @Prop({ type: CategoryMediaFocalPointSchema, required: false })
+  focalPoint?: CategoryMediaFocalPoint; // Kept in frame when the image is cropped
+
+  @Prop({ default: 0, min: 0 })
+  order: number;
+}
+
+export const CategoryMediaSchema = SchemaFactory.createForClass(CategoryMedia);
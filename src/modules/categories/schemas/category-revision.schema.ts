@@ -0,0 +1,42 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema, Types } from 'mongoose';
+
+export type CategoryRevisionDocument = CategoryRevision & Document;
+
+export class CategoryFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+@Schema({
+  timestamps: { createdAt: true, updatedAt: false },
+  collection: 'category_revisions'
+})
+export class CategoryRevision {
+  @Prop({ type: Types.ObjectId, ref: 'Category', required: true })
+  categoryId: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  revision: number; // 1 for the create, incremented on every change
+
+  @Prop({ required: true, type: String })
+  action: string; // created, updated, deleted, restored, status_changed
+
+  @Prop({ type: String, default: null })
+  changedBy: string | null;
+
+  @Prop({ type: [MongooseSchema.Types.Mixed], default: [] })
+  changes: CategoryFieldChange[];
+
+  @Prop({ type: MongooseSchema.Types.Mixed, default: null })
+  snapshot: Record<string, any> | null; // state after the change; null after a hard delete
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+}
+
+export const CategoryRevisionSchema = SchemaFactory.createForClass(CategoryRevision);
+
+CategoryRevisionSchema.index({ categoryId: 1, revision: -1 }, { unique: true });
@@ -1,11 +1,14 @@
 /* eslint-disable prettier/prettier */
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 import { CategoryStatus } from '../../../common/enums/category-status.enum';
-import { Gender } from '../../../common/enums/gender.enum';
+import { CategoryMedia, CategoryMediaSchema } from './category-media.schema';
 
 export type CategoryDocument = Category & Document;
 
+// Category as read with lean() or toObject(), carrying its _id
+export type LeanCategory = Category & { _id: Types.ObjectId };
+
 @Schema({
   timestamps: true,
   collection: 'categories',
@@ -22,6 +25,19 @@ export class Category {
   @Prop({ required: false, trim: true })
   description?: string;
 
+  @Prop({ 
+    type: Types.ObjectId, 
+    ref: 'Category', 
+    default: null
+  })
+  parentId?: Types.ObjectId | null;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  ancestors: Types.ObjectId[]; // Root-first path of parent IDs
+
+  @Prop({ default: 0, min: 0 })
+  depth: number; // 0 for root categories
+
   @Prop({ 
     type: String, 
     enum: CategoryStatus, 
@@ -29,8 +45,8 @@ export class Category {
   })
   status: CategoryStatus;
 
-  @Prop({ type: [String], enum: Gender, default: [] })
-  applicableGenders: Gender[];
+  @Prop({ type: [String], lowercase: true, default: [] })
+  applicableGenders: string[]; // names of GenderEntity records
 
   @Prop({ default: false })
   hasSubcategories: boolean;
@@ -51,7 +67,10 @@ export class Category {
       message: 'Invalid image URL format'
     }
   })
-  imageUrl?: string;
+  imageUrl?: string; // URL of the primary media item, kept for clients that predate the gallery
+
+  @Prop({ type: [CategoryMediaSchema], default: [] })
+  media: CategoryMedia[];
 
   @Prop({ type: String, required: false })
   icon?: string;
@@ -62,6 +81,9 @@ export class Category {
   @Prop({ type: Date, required: false })
   deletedAt?: Date;
 
+  @Prop({ default: 0, min: 0 })
+  version: number; // Bumped on every write; exposed as the ETag for If-Match checks
+
   @Prop({ type: Date, default: Date.now })
   createdAt: Date;
 
@@ -78,6 +100,13 @@ CategorySchema.virtual('subcategories', {
   localField: '_id',
   foreignField: 'categoryId'
 });
+
+// Virtual for direct child categories
+CategorySchema.virtual('children', {
+  ref: 'Category',
+  localField: '_id',
+  foreignField: 'parentId'
+});
 // Indexes for performance
 CategorySchema.index({ slug: 1 });
 CategorySchema.index({ status: 1 });
@@ -85,3 +114,16 @@ CategorySchema.index({ applicableGenders: 1 });
 CategorySchema.index({ sortOrder: 1 });
 CategorySchema.index({ createdAt: -1 });
 CategorySchema.index({ isDeleted: 1, status: 1 });
+CategorySchema.index({ parentId: 1, sortOrder: 1 });
+CategorySchema.index({ ancestors: 1 });
+CategorySchema.index({ depth: 1 });
+
+// Weighted full-text index backing relevance-ranked search
+CategorySchema.index(
+  { name: 'text', slug: 'text', description: 'text', 'metadata.keywords': 'text' },
+  {
+    name: 'category_text_search',
+    weights: { name: 10, slug: 5, description: 2, 'metadata.keywords': 1 },
+    default_language: 'english'
+  }
+);
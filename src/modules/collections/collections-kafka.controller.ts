@@ -0,0 +1,522 @@
+/* eslint-disable prettier/prettier */
+import { Controller, Logger } from '@nestjs/common';
+import { MessagePattern, Payload, Ctx, KafkaContext } from '@nestjs/microservices';
+import { CollectionsService, CollectionImageFiles } from './collections.service';
+import { CreateCollectionDto } from './dto/create-collection.dto';
+import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { CollectionQueryDto } from './dto/collection-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { CollectionType } from '../../common/enums/collection-type.enum';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+import { toMulterFile } from '../../common/utils/image.util';
+
+/**
+ * Raw image payload fields accepted on collection create/update messages
+ */
+interface CollectionImagePayload {
+  imageData?: Buffer;
+  imageName?: string;
+  bannerData?: Buffer;
+  bannerName?: string;
+}
+
+@Controller()
+export class CollectionsKafkaController {
+  private readonly logger = new Logger(CollectionsKafkaController.name);
+
+  constructor(private readonly collectionsService: CollectionsService) {}
+
+  /**
+   * Create a new collection via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.CREATE)
+  async createCollection(
+    @Payload() data: { createCollectionDto: CreateCollectionDto } & CollectionImagePayload,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { createCollectionDto } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection creation - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.collectionsService.create(createCollectionDto, this.toImageFiles(data));
+      
+      this.logger.log(`Collection created successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection created successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error creating collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to create collection'
+      };
+    }
+  }
+
+  /**
+   * Find all collections with filtering and pagination via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.FIND_ALL)
+  async findAllCollections(
+    @Payload() queryDto: CollectionQueryDto,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find all collections - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.collectionsService.findAll(queryDto);
+      
+      this.logger.log(`Found ${result.data.length} collections via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collections retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding collections via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve collections'
+      };
+    }
+  }
+
+  /**
+   * Find a collection by ID via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.FIND_ONE)
+  async findOneCollection(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find collection - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.collectionsService.findOne(id);
+      
+      this.logger.log(`Collection found via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve collection'
+      };
+    }
+  }
+
+  /**
+   * Find a collection by slug via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.FIND_BY_SLUG)
+  async findCollectionBySlug(
+    @Payload() data: { slug: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { slug } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find collection by slug - Partition: ${partition}, Offset: ${offset}, Slug: ${slug}`);
+
+      const result = await this.collectionsService.findBySlug(slug);
+      
+      this.logger.log(`Collection found by slug via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding collection by slug via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve collection'
+      };
+    }
+  }
+
+  /**
+   * Find active collections of a type via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.FIND_BY_TYPE)
+  async findCollectionsByType(
+    @Payload() data: { type: CollectionType },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { type } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find collections by type - Partition: ${partition}, Offset: ${offset}, Type: ${type}`);
+
+      const result = await this.collectionsService.findByType(type);
+      
+      this.logger.log(`Found ${result.length} ${type} collections via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collections retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding collections by type via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve collections'
+      };
+    }
+  }
+
+  /**
+   * Update a collection via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.UPDATE)
+  async updateCollection(
+    @Payload() data: { 
+      id: string; 
+      updateCollectionDto: UpdateCollectionDto; 
+    } & CollectionImagePayload,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, updateCollectionDto } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection update - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.collectionsService.update(id, updateCollectionDto, this.toImageFiles(data));
+      
+      this.logger.log(`Collection updated successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update collection'
+      };
+    }
+  }
+
+  /**
+   * Soft delete a collection via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.DELETE)
+  async removeCollection(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.collectionsService.remove(id);
+      
+      this.logger.log(`Collection deleted successfully via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection deleted successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error deleting collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to delete collection'
+      };
+    }
+  }
+
+  /**
+   * Restore a soft-deleted collection via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.RESTORE)
+  async restoreCollection(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection restore - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.collectionsService.restore(id);
+      
+      this.logger.log(`Collection restored successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection restored successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error restoring collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to restore collection'
+      };
+    }
+  }
+
+  /**
+   * Permanently delete a collection via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.HARD_DELETE)
+  async hardDeleteCollection(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection hard delete - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.collectionsService.hardDelete(id);
+      
+      this.logger.log(`Collection permanently deleted via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection permanently deleted'
+      };
+    } catch (error) {
+      this.logger.error(`Error hard deleting collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to permanently delete collection'
+      };
+    }
+  }
+
+  /**
+   * Update collection status via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.UPDATE_STATUS)
+  async updateCollectionStatus(
+    @Payload() data: { id: string; status: CategoryStatus },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, status } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection status update - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Status: ${status}`);
+
+      const result = await this.collectionsService.updateStatus(id, status);
+      
+      this.logger.log(`Collection status updated via Kafka: ${result.name} (${result._id}) -> ${status}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection status updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating collection status via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update collection status'
+      };
+    }
+  }
+
+  /**
+   * Update sort order for multiple collections via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.UPDATE_SORT_ORDER)
+  async updateCollectionSortOrder(
+    @Payload() data: { updates: { id: string; sortOrder: number }[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { updates } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection sort order update - Partition: ${partition}, Offset: ${offset}, Count: ${updates.length}`);
+
+      const result = await this.collectionsService.updateSortOrder(updates);
+      
+      this.logger.log(`Collection sort order updated via Kafka: ${result.updated} collections`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Sort order updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating collection sort order via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update sort order'
+      };
+    }
+  }
+
+  /**
+   * Bulk create collections via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.BULK_CREATE)
+  async bulkCreateCollections(
+    @Payload() data: { collections: CreateCollectionDto[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { collections } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing bulk collection creation - Partition: ${partition}, Offset: ${offset}, Count: ${collections.length}`);
+
+      const result = await this.collectionsService.bulkCreate(collections);
+      
+      this.logger.log(`Bulk created ${result.length} collections via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collections created successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error bulk creating collections via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to create collections'
+      };
+    }
+  }
+
+  /**
+   * Get collection statistics via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.GET_STATS)
+  async getCollectionStats(
+    @Payload() data: object,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing get collection stats - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.collectionsService.getStats();
+      
+      this.logger.log(`Collection stats retrieved successfully via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection statistics retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error getting collection stats via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve collection statistics'
+      };
+    }
+  }
+
+  /**
+   * Validate collection name and slug availability via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.COLLECTIONS.VALIDATE)
+  async validateCollection(
+    @Payload() data: { name: string; excludeId?: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { name, excludeId } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing collection validation - Partition: ${partition}, Offset: ${offset}, Name: ${name}`);
+
+      const result = await this.collectionsService.validateCollection(name, excludeId);
+      
+      this.logger.log(`Collection validation completed via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Collection validation completed'
+      };
+    } catch (error) {
+      this.logger.error(`Error validating collection via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to validate collection'
+      };
+    }
+  }
+
+  /**
+   * Convert raw cover and banner payloads back to Multer file format
+   */
+  private toImageFiles(data: CollectionImagePayload): CollectionImageFiles {
+    const files: CollectionImageFiles = {};
+
+    if (data.imageData && data.imageName) {
+      files.image = toMulterFile(data.imageData, data.imageName, 'image');
+    }
+
+    if (data.bannerData && data.bannerName) {
+      files.banner = toMulterFile(data.bannerData, data.bannerName, 'banner');
+    }
+
+    return files;
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CollectionsController } from './collections.controller';
 import { CollectionsService } from './collections.service';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheTagService } from '../cache/cache-tag.service';
 
 describe('CollectionsController', () => {
   let controller: CollectionsController;
@@ -8,7 +10,14 @@ describe('CollectionsController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [CollectionsController],
-      providers: [CollectionsService],
+      providers: [
+        { provide: CollectionsService, useValue: {} },
+        {
+          provide: CacheTagService,
+          useValue: { set: jest.fn(), invalidate: jest.fn() },
+        },
+        { provide: CACHE_MANAGER, useValue: { get: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<CollectionsController>(CollectionsController);
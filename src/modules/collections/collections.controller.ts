@@ -1,35 +1,501 @@
-import { Controller } from '@nestjs/common';
-import { MessagePattern, Payload } from '@nestjs/microservices';
+/* eslint-disable prettier/prettier */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseInterceptors,
+  UploadedFiles,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  ParseEnumPipe,
+  Logger
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath
+} from '@nestjs/swagger';
 import { CollectionsService } from './collections.service';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { CollectionQueryDto } from './dto/collection-filter.dto';
+import { CollectionListResponseDto, CollectionResponseDto } from './dto/collection-response.dto';
+import { CollectionStatsDto, CollectionValidationDto } from './dto/collection.statistics.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { CollectionType } from '../../common/enums/collection-type.enum';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+import { CacheInterceptor } from '../../common/interceptors/cache.interceptor';
+import { ParseObjectIdPipe } from '../../common/pipes/parse-object-id.pipe';
 
-@Controller()
+// Multipart fields accepted for collection images
+const COLLECTION_IMAGE_FIELDS = [
+  { name: 'image', maxCount: 1 },
+  { name: 'banner', maxCount: 1 }
+];
+
+// Shared multipart body schema properties for create and update
+const COLLECTION_BODY_PROPERTIES = {
+  name: { type: 'string', description: 'Collection name' },
+  description: { type: 'string', description: 'Collection description' },
+  type: {
+    type: 'string',
+    enum: Object.values(CollectionType),
+    description: 'Collection type'
+  },
+  status: {
+    type: 'string',
+    enum: Object.values(CategoryStatus),
+    description: 'Collection status'
+  },
+  applicableGenders: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Applicable genders (names of active gender records)'
+  },
+  startDate: { type: 'string', format: 'date-time', description: 'Date the collection goes live' },
+  endDate: { type: 'string', format: 'date-time', description: 'Date the collection ends' },
+  year: { type: 'number', description: 'Collection year' },
+  season: { type: 'string', description: 'Season label' },
+  sortOrder: { type: 'number', description: 'Sort order' },
+  metadata: { type: 'object', description: 'Additional metadata' },
+  colors: { type: 'array', items: { type: 'string' }, description: 'Colour palette' },
+  isFeatured: { type: 'boolean', description: 'Whether the collection is featured' },
+  image: {
+    type: 'string',
+    format: 'binary',
+    description: 'Collection cover image file'
+  },
+  banner: {
+    type: 'string',
+    format: 'binary',
+    description: 'Collection banner image file'
+  }
+};
+
+@ApiTags('Collections')
+@Controller('collections')
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+@ApiExtraModels(
+  CollectionResponseDto,
+  CollectionListResponseDto,
+  CollectionStatsDto,
+  CollectionValidationDto
+)
 export class CollectionsController {
+  private readonly logger = new Logger(CollectionsController.name);
+
   constructor(private readonly collectionsService: CollectionsService) {}
 
-  @MessagePattern('createCollection')
-  create(@Payload() createCollectionDto: CreateCollectionDto) {
-    return this.collectionsService.create(createCollectionDto);
+  @Post()
+  @ApiOperation({
+    summary: 'Create a new collection',
+    description: 'Creates a new collection with optional cover and banner image uploads'
+  })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: COLLECTION_BODY_PROPERTIES,
+      required: ['name', 'year']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Collection created successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Collection name or slug already exists' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileFieldsInterceptor(COLLECTION_IMAGE_FIELDS))
+  async create(
+    @Body(ValidationPipe) createCollectionDto: CreateCollectionDto,
+    @UploadedFiles() files?: { image?: Express.Multer.File[]; banner?: Express.Multer.File[] }
+  ): Promise<CollectionResponseDto> {
+    this.logger.log(`Creating collection: ${createCollectionDto.name}`);
+    return this.collectionsService.create(createCollectionDto, {
+      image: files?.image?.[0],
+      banner: files?.banner?.[0]
+    });
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all collections',
+    description: 'Retrieves collections with optional filtering, sorting, and pagination'
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 10, max: 100)' })
+  @ApiQuery({ name: 'type', required: false, enum: CollectionType, description: 'Filter by collection type' })
+  @ApiQuery({ name: 'year', required: false, type: Number, description: 'Filter by year' })
+  @ApiQuery({ name: 'season', required: false, type: String, description: 'Filter by season label' })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Filter by status' })
+  @ApiQuery({ name: 'gender', required: false, type: String, description: 'Filter by applicable gender' })
+  @ApiQuery({ name: 'isFeatured', required: false, type: Boolean, description: 'Filter by featured flag' })
+  @ApiQuery({ name: 'search', required: false, type: String, description: 'Search in name, slug and description' })
+  @ApiQuery({ name: 'sortBy', required: false, type: String, description: 'Sort field (name, slug, year, startDate, createdAt, updatedAt, sortOrder)' })
+  @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort order (asc or desc)' })
+  @ApiQuery({ name: 'includeDeleted', required: false, type: Boolean, description: 'Include soft-deleted collections' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collections retrieved successfully',
+    schema: { $ref: getSchemaPath(CollectionListResponseDto) }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async findAll(@Query(ValidationPipe) queryDto: CollectionQueryDto): Promise<CollectionListResponseDto> {
+    this.logger.log(`Retrieving collections with filters: ${JSON.stringify(queryDto)}`);
+    return this.collectionsService.findAll(queryDto);
+  }
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Get collection statistics',
+    description: 'Retrieves statistics about collections'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection statistics retrieved successfully',
+    schema: { $ref: getSchemaPath(CollectionStatsDto) }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async getStats(): Promise<CollectionStatsDto> {
+    this.logger.log('Retrieving collection statistics');
+    return this.collectionsService.getStats();
+  }
+
+  @Get('validate')
+  @ApiOperation({
+    summary: 'Validate collection name',
+    description: 'Validates if a collection name and its generated slug are available'
+  })
+  @ApiQuery({ name: 'name', required: true, type: String, description: 'Collection name to validate' })
+  @ApiQuery({ name: 'excludeId', required: false, type: String, description: 'Collection ID to exclude from validation' })
+  @ApiResponse({
+    status: 200,
+    description: 'Validation result',
+    schema: { $ref: getSchemaPath(CollectionValidationDto) }
+  })
+  async validateCollection(
+    @Query('name') name: string,
+    @Query('excludeId') excludeId?: string
+  ): Promise<CollectionValidationDto> {
+    this.logger.log(`Validating collection: ${name}`);
+    return this.collectionsService.validateCollection(name, excludeId);
+  }
+
+  @Get('featured')
+  @ApiOperation({
+    summary: 'Get featured collections',
+    description: 'Retrieves all active featured collections, in sort order'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Featured collections retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CollectionResponseDto) }
+    }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async findFeatured(): Promise<CollectionResponseDto[]> {
+    this.logger.log('Retrieving featured collections');
+    return this.collectionsService.findFeatured();
   }
 
-  @MessagePattern('findAllCollections')
-  findAll() {
-    return this.collectionsService.findAll();
+  @Get('type/:type')
+  @ApiOperation({
+    summary: 'Get collections by type',
+    description: 'Retrieves all active collections of a type, newest year first'
+  })
+  @ApiParam({ name: 'type', enum: CollectionType, description: 'Collection type' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collections retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CollectionResponseDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection type' })
+  @UseInterceptors(CacheInterceptor)
+  async findByType(
+    @Param('type', new ParseEnumPipe(CollectionType)) type: CollectionType
+  ): Promise<CollectionResponseDto[]> {
+    this.logger.log(`Retrieving collections by type: ${type}`);
+    return this.collectionsService.findByType(type);
   }
 
-  @MessagePattern('findOneCollection')
-  findOne(@Payload() id: number) {
+  @Get('slug/:slug')
+  @ApiOperation({
+    summary: 'Get collection by slug',
+    description: 'Retrieves a collection by its slug'
+  })
+  @ApiParam({ name: 'slug', type: String, description: 'Collection slug' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection retrieved successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findBySlug(@Param('slug') slug: string): Promise<CollectionResponseDto> {
+    this.logger.log(`Retrieving collection by slug: ${slug}`);
+    return this.collectionsService.findBySlug(slug);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get collection by ID',
+    description: 'Retrieves a single collection by its ID'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection retrieved successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection ID format' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findOne(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<CollectionResponseDto> {
+    this.logger.log(`Retrieving collection by ID: ${id}`);
     return this.collectionsService.findOne(id);
   }
 
-  @MessagePattern('updateCollection')
-  update(@Payload() updateCollectionDto: UpdateCollectionDto) {
-    return this.collectionsService.update(updateCollectionDto.id, updateCollectionDto);
+  @Patch('sort-order')
+  @ApiOperation({
+    summary: 'Update sort order for multiple collections',
+    description: 'Updates the sort order for multiple collections in a single request'
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Collection ID' },
+              sortOrder: { type: 'number', description: 'New sort order' }
+            },
+            required: ['id', 'sortOrder']
+          }
+        }
+      },
+      required: ['updates']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sort order updated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        updated: { type: 'number' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async updateSortOrder(
+    @Body('updates', ValidationPipe) updates: { id: string; sortOrder: number }[]
+  ): Promise<{ message: string; updated: number }> {
+    this.logger.log(`Updating sort order for ${updates.length} collections`);
+    return this.collectionsService.updateSortOrder(updates);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update collection',
+    description: 'Updates an existing collection with optional cover and banner image uploads'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: COLLECTION_BODY_PROPERTIES
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection updated successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data or collection ID format' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  @ApiResponse({ status: 409, description: 'Collection name or slug already exists' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileFieldsInterceptor(COLLECTION_IMAGE_FIELDS))
+  async update(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) updateCollectionDto: UpdateCollectionDto,
+    @UploadedFiles() files?: { image?: Express.Multer.File[]; banner?: Express.Multer.File[] }
+  ): Promise<CollectionResponseDto> {
+    this.logger.log(`Updating collection: ${id}`);
+    return this.collectionsService.update(id, updateCollectionDto, {
+      image: files?.image?.[0],
+      banner: files?.banner?.[0]
+    });
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary: 'Update collection status',
+    description: 'Updates the status of a specific collection'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: Object.values(CategoryStatus),
+          description: 'New collection status'
+        }
+      },
+      required: ['status']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection status updated successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection ID format or status' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  async updateStatus(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body('status', new ParseEnumPipe(CategoryStatus)) status: CategoryStatus
+  ): Promise<CollectionResponseDto> {
+    this.logger.log(`Updating collection status: ${id} -> ${status}`);
+    return this.collectionsService.updateStatus(id, status);
   }
 
-  @MessagePattern('removeCollection')
-  remove(@Payload() id: number) {
+  @Post('bulk')
+  @ApiOperation({
+    summary: 'Bulk create collections',
+    description: 'Creates multiple collections in a single request'
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        collections: {
+          type: 'array',
+          items: { $ref: getSchemaPath(CreateCollectionDto) }
+        }
+      },
+      required: ['collections']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Collections created successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(CollectionResponseDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @HttpCode(HttpStatus.CREATED)
+  async bulkCreate(
+    @Body('collections', ValidationPipe) collections: CreateCollectionDto[]
+  ): Promise<CollectionResponseDto[]> {
+    this.logger.log(`Bulk creating ${collections.length} collections`);
+    return this.collectionsService.bulkCreate(collections);
+  }
+
+  @Post(':id/restore')
+  @ApiOperation({
+    summary: 'Restore soft-deleted collection',
+    description: 'Restores a soft-deleted collection'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection restored successfully',
+    schema: { $ref: getSchemaPath(CollectionResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection ID format' })
+  @ApiResponse({ status: 404, description: 'Collection not found or not deleted' })
+  async restore(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<CollectionResponseDto> {
+    this.logger.log(`Restoring collection: ${id}`);
+    return this.collectionsService.restore(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Soft delete collection',
+    description: 'Soft deletes a collection (can be restored later)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection ID format' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  async remove(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting collection: ${id}`);
     return this.collectionsService.remove(id);
   }
+
+  @Delete(':id/permanent')
+  @ApiOperation({
+    summary: 'Permanently delete collection',
+    description: 'Permanently deletes a collection (cannot be restored)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Collection ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Collection permanently deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid collection ID format' })
+  @ApiResponse({ status: 404, description: 'Collection not found' })
+  async hardDelete(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Permanently deleting collection: ${id}`);
+    return this.collectionsService.hardDelete(id);
+  }
 }
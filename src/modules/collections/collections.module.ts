@@ -1,9 +1,32 @@
+/* eslint-disable prettier/prettier */
 import { Module } from '@nestjs/common';
-import { CollectionsService } from './collections.service';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Collection, CollectionSchema } from './schemas/collection.schema';
 import { CollectionsController } from './collections.controller';
+import { CollectionsKafkaController } from './collections-kafka.controller';
+import { CollectionsService } from './collections.service';
+import { CollectionsRepository } from './collections.repository';
+import { GenderModule } from '../gender/gender.module';
+
 
 @Module({
-  controllers: [CollectionsController],
-  providers: [CollectionsService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Collection.name, schema: CollectionSchema }
+    ]),
+    GenderModule,
+  ],
+  controllers: [
+    CollectionsController,
+    CollectionsKafkaController
+  ],
+  providers: [
+    CollectionsService,
+    CollectionsRepository
+  ],
+  exports: [
+    CollectionsService,
+    CollectionsRepository
+  ]
 })
 export class CollectionsModule {}
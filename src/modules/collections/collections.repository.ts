@@ -0,0 +1,547 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
+import { Collection, CollectionDocument } from './schemas/collection.schema';
+import { CreateCollectionDto } from './dto/create-collection.dto';
+import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { CollectionQueryDto } from './dto/collection-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { CollectionType } from '../../common/enums/collection-type.enum';
+import { PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
+import { slugify } from '../../common/utils/slug.util';
+import { escapeRegex } from '../../common/utils/search.util';
+
+type CollectionImageFields = { imageUrl?: string; bannerImageUrl?: string };
+
+@Injectable()
+export class CollectionsRepository {
+  private readonly logger = new Logger(CollectionsRepository.name);
+
+  constructor(
+    @InjectModel(Collection.name) private collectionModel: Model<CollectionDocument>,
+  ) {}
+
+  /**
+   * Create a new collection
+   */
+  async create(createCollectionDto: CreateCollectionDto & CollectionImageFields): Promise<Collection> {
+    try {
+      this.logger.log(`Creating collection: ${createCollectionDto.name}`);
+
+      const slug = slugify(createCollectionDto.name);
+
+      // Check if collection with same name or slug already exists
+      const existingCollection = await this.collectionModel.findOne({
+        $or: [
+          { name: createCollectionDto.name },
+          { slug }
+        ],
+        isDeleted: false
+      });
+
+      if (existingCollection) {
+        throw new ConflictException('Collection with this name or slug already exists');
+      }
+
+      const createdCollection = new this.collectionModel({
+        ...createCollectionDto,
+        slug,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      const savedCollection = await createdCollection.save();
+
+      this.logger.log(`Collection created successfully: ${savedCollection._id}`);
+      return savedCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error creating collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all collections with pagination and filtering
+   */
+  async findAll(query: CollectionQueryDto): Promise<PaginationResult<Collection>> {
+    try {
+      const {
+        page = 1,
+        limit = 10,
+        type,
+        year,
+        season,
+        status,
+        gender,
+        isFeatured,
+        search,
+        includeDeleted = false,
+        sortBy = 'sortOrder',
+        sortOrder = 'asc'
+      } = query;
+
+      // Build filter query
+      const filter: FilterQuery<CollectionDocument> = {};
+
+      if (!includeDeleted) {
+        filter.isDeleted = false;
+      }
+
+      if (type) {
+        filter.type = type;
+      }
+
+      if (year) {
+        filter.year = year;
+      }
+
+      if (season) {
+        filter.season = { $regex: `^${escapeRegex(season)}$`, $options: 'i' };
+      }
+
+      if (status) {
+        filter.status = status;
+      }
+
+      if (gender) {
+        filter.applicableGenders = { $in: [gender] };
+      }
+
+      if (isFeatured !== undefined) {
+        filter.isFeatured = isFeatured;
+      }
+
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { description: { $regex: search, $options: 'i' } },
+          { slug: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      // Build sort query
+      const sort: any = {};
+      sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+      // Calculate pagination
+      const skip = (page - 1) * limit;
+      const total = await this.collectionModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / limit);
+
+      const collections = await this.collectionModel
+        .find(filter)
+        .sort(sort)
+        .skip(skip)
+        .limit(limit)
+        .exec();
+
+      const pagination: PaginationMeta = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+
+      this.logger.log(`Found ${collections.length} collections`);
+      return {
+        data: collections.map(col => col.toObject()),
+        pagination
+      };
+    } catch (error) {
+      this.logger.error(`Error finding collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find collection by ID
+   */
+  async findById(id: string): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const collection = await this.collectionModel
+        .findOne({ _id: id, isDeleted: false })
+        .exec();
+
+      if (!collection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      return collection.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding collection by ID: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find collection by slug
+   */
+  async findBySlug(slug: string): Promise<Collection> {
+    try {
+      const collection = await this.collectionModel
+        .findOne({ slug, isDeleted: false })
+        .exec();
+
+      if (!collection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      this.logger.log(`Found collection by slug: ${slug}`);
+      return collection.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding collection by slug: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active collections of a type, newest first
+   */
+  async findByType(type: CollectionType): Promise<Collection[]> {
+    try {
+      const collections = await this.collectionModel
+        .find({ type, status: CategoryStatus.ACTIVE, isDeleted: false })
+        .sort({ year: -1, sortOrder: 1 })
+        .exec();
+
+      this.logger.log(`Found ${collections.length} collections of type: ${type}`);
+      return collections.map(col => col.toObject());
+    } catch (error) {
+      this.logger.error(`Error finding collections by type: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active featured collections
+   */
+  async findFeatured(): Promise<Collection[]> {
+    try {
+      const collections = await this.collectionModel
+        .find({ isFeatured: true, status: CategoryStatus.ACTIVE, isDeleted: false })
+        .sort({ sortOrder: 1, year: -1 })
+        .exec();
+
+      this.logger.log(`Found ${collections.length} featured collections`);
+      return collections.map(col => col.toObject());
+    } catch (error) {
+      this.logger.error(`Error finding featured collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update collection by ID
+   */
+  async update(id: string, updateCollectionDto: UpdateCollectionDto & CollectionImageFields): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const updateData: UpdateQuery<CollectionDocument> = {
+        ...updateCollectionDto,
+        updatedAt: new Date()
+      };
+
+      // If name is being updated, regenerate slug
+      if (updateCollectionDto.name) {
+        const newSlug = slugify(updateCollectionDto.name);
+
+        const existingCollection = await this.collectionModel.findOne({
+          $or: [
+            { name: updateCollectionDto.name },
+            { slug: newSlug }
+          ],
+          _id: { $ne: id },
+          isDeleted: false
+        });
+
+        if (existingCollection) {
+          throw new ConflictException('Collection with this name already exists');
+        }
+
+        updateData.slug = newSlug;
+      }
+
+      const updatedCollection = await this.collectionModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          updateData,
+          { new: true, runValidators: true }
+        )
+        .exec();
+
+      if (!updatedCollection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      this.logger.log(`Collection updated successfully: ${updatedCollection._id}`);
+      return updatedCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete collection by ID
+   */
+  async softDelete(id: string): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const deletedCollection = await this.collectionModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          {
+            isDeleted: true,
+            deletedAt: new Date(),
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!deletedCollection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      this.logger.log(`Collection soft deleted: ${deletedCollection._id}`);
+      return deletedCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error soft deleting collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Hard delete collection by ID (use with caution)
+   */
+  async hardDelete(id: string): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const deletedCollection = await this.collectionModel.findOneAndDelete({ _id: id }).exec();
+
+      if (!deletedCollection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      this.logger.log(`Collection hard deleted: ${id}`);
+      return deletedCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error hard deleting collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore soft deleted collection
+   */
+  async restore(id: string): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const restoredCollection = await this.collectionModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: true },
+          {
+            isDeleted: false,
+            deletedAt: null,
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!restoredCollection) {
+        throw new NotFoundException('Collection not found or not deleted');
+      }
+
+      this.logger.log(`Collection restored: ${restoredCollection._id}`);
+      return restoredCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error restoring collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update collection status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<Collection> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid collection ID format');
+      }
+
+      const updatedCollection = await this.collectionModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          { status, updatedAt: new Date() },
+          { new: true }
+        )
+        .exec();
+
+      if (!updatedCollection) {
+        throw new NotFoundException('Collection not found');
+      }
+
+      this.logger.log(`Collection status updated: ${updatedCollection._id} -> ${status}`);
+      return updatedCollection.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating collection status: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update sort order for multiple collections
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<void> {
+    try {
+      const bulkOps = updates.map(update => ({
+        updateOne: {
+          filter: { _id: update.id, isDeleted: false },
+          update: { sortOrder: update.sortOrder, updatedAt: new Date() }
+        }
+      }));
+
+      await this.collectionModel.bulkWrite(bulkOps);
+      this.logger.log(`Updated sort order for ${updates.length} collections`);
+    } catch (error) {
+      this.logger.error(`Error updating collection sort order: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Bulk create collections
+   */
+  async bulkCreate(collections: CreateCollectionDto[]): Promise<Collection[]> {
+    try {
+      const collectionsWithSlugs = collections.map(col => ({
+        ...col,
+        slug: slugify(col.name),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }));
+
+      const createdCollections = await this.collectionModel.insertMany(collectionsWithSlugs);
+
+      this.logger.log(`Bulk created ${createdCollections.length} collections`);
+      return createdCollections.map(col => col.toObject());
+    } catch (error) {
+      this.logger.error(`Error bulk creating collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if collection exists by name or slug
+   */
+  async exists(name: string, slug?: string, excludeId?: string): Promise<boolean> {
+    try {
+      const query: FilterQuery<CollectionDocument> = {
+        isDeleted: false,
+        $or: [{ name }]
+      };
+
+      if (slug) {
+        query.$or.push({ slug });
+      }
+
+      if (excludeId && Types.ObjectId.isValid(excludeId)) {
+        query._id = { $ne: new Types.ObjectId(excludeId) };
+      }
+
+      const count = await this.collectionModel.countDocuments(query);
+      return count > 0;
+    } catch (error) {
+      this.logger.error(`Error checking collection existence: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get collection statistics
+   */
+  async getStats(): Promise<{
+    total: number;
+    deleted: number;
+    featured: number;
+    byStatus: Record<CategoryStatus, number>;
+    byType: Record<CollectionType, number>;
+  }> {
+    try {
+      const [total, deleted, featured, statusResults, typeResults] = await Promise.all([
+        this.collectionModel.countDocuments({ isDeleted: false }),
+        this.collectionModel.countDocuments({ isDeleted: true }),
+        this.collectionModel.countDocuments({ isFeatured: true, isDeleted: false }),
+        this.collectionModel.aggregate([
+          { $match: { isDeleted: false } },
+          { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]),
+        this.collectionModel.aggregate([
+          { $match: { isDeleted: false } },
+          { $group: { _id: '$type', count: { $sum: 1 } } }
+        ])
+      ]);
+
+      // Initialize with all statuses and types at 0
+      const byStatus: Record<CategoryStatus, number> = {
+        [CategoryStatus.ACTIVE]: 0,
+        [CategoryStatus.INACTIVE]: 0,
+        [CategoryStatus.ARCHIVED]: 0
+      };
+      statusResults.forEach(result => {
+        if (result._id in byStatus) {
+          byStatus[result._id] = result.count;
+        }
+      });
+
+      const byType: Record<CollectionType, number> = {
+        [CollectionType.SEASONAL]: 0,
+        [CollectionType.CORE]: 0,
+        [CollectionType.LIMITED]: 0,
+        [CollectionType.SPECIAL]: 0
+      };
+      typeResults.forEach(result => {
+        if (result._id in byType) {
+          byType[result._id] = result.count;
+        }
+      });
+
+      return { total, deleted, featured, byStatus, byType };
+    } catch (error) {
+      this.logger.error(`Error getting collection stats: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get recently created collections
+   */
+  async getRecentlyCreated(limit: number = 5): Promise<Collection[]> {
+    const collections = await this.collectionModel
+      .find({ isDeleted: false })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+
+    return collections.map(col => col.toObject());
+  }
+}
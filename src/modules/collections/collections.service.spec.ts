@@ -1,12 +1,85 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Types } from 'mongoose';
 import { CollectionsService } from './collections.service';
+import { CollectionsRepository } from './collections.repository';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { GenderService } from '../gender/gender.service';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
 
 describe('CollectionsService', () => {
   let service: CollectionsService;
+  let repository: Record<string, jest.Mock>;
+  let imageStorage: Record<string, jest.Mock>;
+  let imageCleanupService: Record<string, jest.Mock>;
+
+  const buildCollection = (overrides: Record<string, any> = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Spring Summer 2025',
+    slug: 'spring-summer-2025',
+    type: 'seasonal',
+    status: 'active',
+    applicableGenders: ['women'],
+    year: 2025,
+    sortOrder: 0,
+    colors: [],
+    isFeatured: false,
+    isDeleted: false,
+    ...overrides,
+  });
+
+  const imageFile = (originalname: string) =>
+    ({
+      originalname,
+      mimetype: 'image/png',
+      size: 1024,
+      buffer: Buffer.from('image'),
+    }) as Express.Multer.File;
 
   beforeEach(async () => {
+    repository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      update: jest.fn(),
+      softDelete: jest.fn(),
+    };
+    imageStorage = {
+      upload: jest.fn(),
+      extractPublicId: jest.fn((url: string) => url),
+      delete: jest.fn(),
+    };
+    imageCleanupService = {
+      runWithUploads: jest.fn((publicIds, write) => write()),
+      deleteImages: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CollectionsService],
+      providers: [
+        CollectionsService,
+        { provide: CollectionsRepository, useValue: repository },
+        { provide: IMAGE_STORAGE, useValue: imageStorage },
+        {
+          provide: ImageValidationService,
+          useValue: { sanitize: jest.fn((file) => file) },
+        },
+        { provide: ImageCleanupService, useValue: imageCleanupService },
+        {
+          provide: GenderService,
+          useValue: { validateApplicableGenders: jest.fn() },
+        },
+        {
+          provide: CacheInvalidationService,
+          useValue: { invalidate: jest.fn() },
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<CollectionsService>(CollectionsService);
@@ -15,4 +88,60 @@ describe('CollectionsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should upload cover and banner images into their folders', async () => {
+    imageStorage.upload
+      .mockResolvedValueOnce({ url: 'cover-url', publicId: 'cover-id' })
+      .mockResolvedValueOnce({ url: 'banner-url', publicId: 'banner-id' });
+    repository.create.mockImplementation((dto) =>
+      Promise.resolve(buildCollection(dto)),
+    );
+
+    const result = await service.create(
+      { name: 'Spring Summer 2025', year: 2025 },
+      { image: imageFile('cover.png'), banner: imageFile('banner.png') },
+    );
+
+    expect(imageStorage.upload).toHaveBeenCalledWith(
+      expect.anything(),
+      'collections',
+    );
+    expect(imageStorage.upload).toHaveBeenCalledWith(
+      expect.anything(),
+      'collections/banners',
+    );
+    expect(result.imageUrl).toBe('cover-url');
+    expect(result.bannerImageUrl).toBe('banner-url');
+    expect(imageCleanupService.runWithUploads).toHaveBeenLastCalledWith(
+      ['cover-id', 'banner-id'],
+      expect.any(Function),
+    );
+  });
+
+  it('should reject an end date before the start date', async () => {
+    await expect(
+      service.create({
+        name: 'Spring Summer 2025',
+        year: 2025,
+        startDate: new Date('2025-06-01'),
+        endDate: new Date('2025-03-01'),
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(repository.create).not.toHaveBeenCalled();
+  });
+
+  it('should delete cover and banner images on soft delete', async () => {
+    const collection = buildCollection({
+      imageUrl: 'cover-url',
+      bannerImageUrl: 'banner-url',
+    });
+    repository.softDelete.mockResolvedValue({ ...collection, isDeleted: true });
+
+    await service.remove(collection._id.toString());
+
+    expect(imageCleanupService.deleteImages).toHaveBeenCalledWith(
+      ['cover-url', 'banner-url'],
+      ImageDeletionReason.REMOVED,
+    );
+  });
 });
@@ -1,26 +1,685 @@
-import { Injectable } from '@nestjs/common';
+/* eslint-disable prettier/prettier */
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  Inject
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Types } from 'mongoose';
 import { CreateCollectionDto } from './dto/create-collection.dto';
 import { UpdateCollectionDto } from './dto/update-collection.dto';
+import { CollectionQueryDto } from './dto/collection-filter.dto';
+import { CollectionListResponseDto, CollectionResponseDto } from './dto/collection-response.dto';
+import { CollectionStatsDto, CollectionValidationDto } from './dto/collection.statistics.dto';
+import { CollectionsRepository } from './collections.repository';
+import { IMAGE_STORAGE, ImageStorage } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { GenderService } from '../gender/gender.service';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+import { ImageUsage } from '../../common/enums/image-usage.enum';
+import { CollectionType } from '../../common/enums/collection-type.enum';
+import { generateCacheKey } from '../../common/utils/cache-key.util';
+import { CACHE_KEYS } from '../../common/constants/cache-keys.constants';
+import { slugify } from '../../common/utils/slug.util';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
+
+/**
+ * Image files accepted for a collection: the cover (imageUrl) and the banner (bannerImageUrl)
+ */
+export interface CollectionImageFiles {
+  image?: Express.Multer.File;
+  banner?: Express.Multer.File;
+}
+
+interface UploadedCollectionImages {
+  imageUrls: { imageUrl?: string; bannerImageUrl?: string };
+  publicIds: string[]; // deleted again if the write that references them fails
+}
 
 @Injectable()
 export class CollectionsService {
-  create(createCollectionDto: CreateCollectionDto) {
-    return 'This action adds a new collection';
+  private readonly logger = new Logger(CollectionsService.name);
+
+  // Cache TTL constants for different types of data
+  // Cache TTLs in milliseconds, as cache-manager expects
+  private readonly CACHE_TTL = {
+    LIST: 300 * 1000, // 5 minutes for lists
+    DETAIL: 600 * 1000, // 10 minutes for single items
+    STATS: 900 * 1000, // 15 minutes for statistics
+    VALIDATION: 60 * 1000 // 1 minute for validation
+  };
+
+  // Storage folders per image role
+  private readonly IMAGE_FOLDERS = {
+    image: 'collections',
+    banner: 'collections/banners'
+  };
+
+  constructor(
+    private readonly collectionsRepository: CollectionsRepository,
+    @Inject(IMAGE_STORAGE) private readonly imageStorage: ImageStorage,
+    private readonly imageValidationService: ImageValidationService,
+    private readonly imageCleanupService: ImageCleanupService,
+    private readonly genderService: GenderService,
+    private readonly cacheInvalidation: CacheInvalidationService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache
+  ) {}
+
+  /**
+   * Create a new collection with optional cover and banner uploads
+   */
+  async create(
+    createCollectionDto: CreateCollectionDto,
+    files: CollectionImageFiles = {}
+  ): Promise<CollectionResponseDto> {
+    try {
+      this.validateDateRange(createCollectionDto.startDate, createCollectionDto.endDate);
+      await this.genderService.validateApplicableGenders(createCollectionDto.applicableGenders);
+
+      const { imageUrls, publicIds } = await this.uploadImages(files, createCollectionDto.name);
+
+      // A collection that fails to save must not leave its images behind
+      const collection = await this.imageCleanupService.runWithUploads(
+        publicIds,
+        () => this.collectionsRepository.create({
+          ...createCollectionDto,
+          ...imageUrls
+        })
+      );
+
+      // Clear relevant caches
+      await this.clearCollectionCache();
+
+      this.logger.log(`Collection created successfully: ${collection.name} (${(collection as any)._id})`);
+
+      return this.mapToResponseDto(collection);
+    } catch (error) {
+      this.logger.error(`Error creating collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all collections with filtering and pagination
+   */
+  async findAll(queryDto: CollectionQueryDto): Promise<CollectionListResponseDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.ALL, { ...queryDto });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionListResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const result = await this.collectionsRepository.findAll(queryDto);
+
+      const response: CollectionListResponseDto = {
+        data: result.data.map(collection => this.mapToResponseDto(collection)),
+        pagination: result.pagination
+      };
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a single collection by ID
+   */
+  async findOne(id: string): Promise<CollectionResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.BY_ID, { id });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const collection = await this.collectionsRepository.findById(id);
+
+      const response = this.mapToResponseDto(collection);
+
+      // Cache with longer TTL for single items
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding collection ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a collection by slug
+   */
+  async findBySlug(slug: string): Promise<CollectionResponseDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.BY_SLUG, { slug });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const collection = await this.collectionsRepository.findBySlug(slug);
+
+      const response = this.mapToResponseDto(collection);
+
+      // Cache with longer TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding collection by slug ${slug}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active collections of a type
+   */
+  async findByType(type: CollectionType): Promise<CollectionResponseDto[]> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.BY_TYPE, { type });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionResponseDto[]>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const collections = await this.collectionsRepository.findByType(type);
+
+      const response = collections.map(collection => this.mapToResponseDto(collection));
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding collections by type ${type}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active featured collections
+   */
+  async findFeatured(): Promise<CollectionResponseDto[]> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.FEATURED);
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionResponseDto[]>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const collections = await this.collectionsRepository.findFeatured();
+
+      const response = collections.map(collection => this.mapToResponseDto(collection));
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding featured collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a collection with optional cover and banner uploads
+   */
+  async update(
+    id: string,
+    updateCollectionDto: UpdateCollectionDto,
+    files: CollectionImageFiles = {}
+  ): Promise<CollectionResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const currentCollection = await this.collectionsRepository.findById(id);
+
+      // Validate the resulting date range, not just the fields being changed
+      this.validateDateRange(
+        updateCollectionDto.startDate ?? currentCollection.startDate,
+        updateCollectionDto.endDate ?? currentCollection.endDate
+      );
+      await this.genderService.validateApplicableGenders(updateCollectionDto.applicableGenders);
+
+      // Remember which images are being replaced
+      const replacedImageUrls = [
+        files.image ? currentCollection.imageUrl : undefined,
+        files.banner ? currentCollection.bannerImageUrl : undefined
+      ].filter(Boolean);
+
+      const { imageUrls, publicIds } = await this.uploadImages(files, currentCollection.name);
+
+      const updatedCollection = await this.imageCleanupService.runWithUploads(
+        publicIds,
+        () => this.collectionsRepository.update(id, {
+          ...updateCollectionDto,
+          ...imageUrls
+        })
+      );
+
+      // Delete replaced images from image storage once the update succeeded
+      await this.deleteImages(replacedImageUrls, ImageDeletionReason.REPLACED);
+
+      // Clear relevant caches
+      await this.clearCollectionCache(id);
+
+      this.logger.log(`Collection updated successfully: ${updatedCollection.name} (${id})`);
+
+      return this.mapToResponseDto(updatedCollection);
+    } catch (error) {
+      this.logger.error(`Error updating collection ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete a collection and its associated images
+   */
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const deletedCollection = await this.collectionsRepository.softDelete(id);
+
+      // Delete cover and banner images from image storage
+      await this.deleteImages([deletedCollection.imageUrl, deletedCollection.bannerImageUrl], ImageDeletionReason.REMOVED);
+
+      // Clear relevant caches
+      await this.clearCollectionCache(id);
+
+      this.logger.log(`Collection soft deleted successfully: ${deletedCollection.name} (${id})`);
+
+      return { message: 'Collection deleted successfully' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error deleting collection ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a soft-deleted collection
+   */
+  async restore(id: string): Promise<CollectionResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const restoredCollection = await this.collectionsRepository.restore(id);
+
+      // Clear relevant caches
+      await this.clearCollectionCache(id);
+
+      this.logger.log(`Collection restored successfully: ${restoredCollection.name} (${id})`);
+
+      return this.mapToResponseDto(restoredCollection);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository errors
+      }
+      this.logger.error(`Error restoring collection ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Hard delete a collection (permanent)
+   */
+  async hardDelete(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const deletedCollection = await this.collectionsRepository.hardDelete(id);
+
+      // A soft-deleted collection has already released its images
+      if (!deletedCollection.isDeleted) {
+        await this.deleteImages([deletedCollection.imageUrl, deletedCollection.bannerImageUrl], ImageDeletionReason.REMOVED);
+      }
+
+      // Clear relevant caches
+      await this.clearCollectionCache(id);
+
+      this.logger.log(`Collection hard deleted successfully: (${id})`);
+
+      return { message: 'Collection permanently deleted' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error hard deleting collection ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update collection status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<CollectionResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid collection ID format');
+      }
+
+      const updatedCollection = await this.collectionsRepository.updateStatus(id, status);
+
+      // Clear relevant caches
+      await this.clearCollectionCache(id);
+
+      this.logger.log(`Collection status updated: ${updatedCollection.name} (${id}) -> ${status}`);
+
+      return this.mapToResponseDto(updatedCollection);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error updating collection status ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update sort order for multiple collections
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<{ message: string; updated: number }> {
+    try {
+      // Validate all IDs upfront
+      const invalidIds = updates.filter(update => !Types.ObjectId.isValid(update.id));
+      if (invalidIds.length > 0) {
+        throw new BadRequestException(`Invalid ID format: ${invalidIds.map(u => u.id).join(', ')}`);
+      }
+
+      await this.collectionsRepository.updateSortOrder(updates);
+
+      // Clear relevant caches
+      await this.clearCollectionCache();
+
+      this.logger.log(`Sort order updated for ${updates.length} collections`);
+
+      return {
+        message: 'Sort order updated successfully',
+        updated: updates.length
+      };
+    } catch (error) {
+      this.logger.error(`Error updating collection sort order: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Bulk create collections
+   */
+  async bulkCreate(collections: CreateCollectionDto[]): Promise<CollectionResponseDto[]> {
+    try {
+      collections.forEach(collection => this.validateDateRange(collection.startDate, collection.endDate));
+      await this.genderService.validateApplicableGenders(
+        collections.flatMap(collection => collection.applicableGenders ?? [])
+      );
+
+      const createdCollections = await this.collectionsRepository.bulkCreate(collections);
+
+      // Clear relevant caches
+      await this.clearCollectionCache();
+
+      this.logger.log(`Bulk created ${createdCollections.length} collections`);
+
+      return createdCollections.map(collection => this.mapToResponseDto(collection));
+    } catch (error) {
+      this.logger.error(`Error bulk creating collections: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get collection statistics
+   */
+  async getStats(): Promise<CollectionStatsDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.STATS);
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<CollectionStatsDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const [basicStats, recentlyCreated] = await Promise.all([
+        this.collectionsRepository.getStats(),
+        this.collectionsRepository.getRecentlyCreated(5)
+      ]);
+
+      const stats: CollectionStatsDto = {
+        total: basicStats.total,
+        byStatus: basicStats.byStatus,
+        byType: basicStats.byType,
+        featured: basicStats.featured,
+        softDeleted: basicStats.deleted,
+        recentlyCreated: recentlyCreated.map(collection => this.mapToResponseDto(collection))
+      };
+
+      // Cache with longer TTL for stats
+      await this.cacheManager.set(cacheKey, stats, this.CACHE_TTL.STATS);
+
+      return stats;
+    } catch (error) {
+      this.logger.error(`Error getting collection stats: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate collection name and slug availability
+   */
+  async validateCollection(name: string, excludeId?: string): Promise<CollectionValidationDto> {
+    try {
+      const slug = slugify(name);
+      const cacheKey = generateCacheKey(CACHE_KEYS.COLLECTIONS.VALIDATION, { name, excludeId });
+
+      // Try cache first (shorter TTL for validation)
+      const cachedResult = await this.cacheManager.get<CollectionValidationDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const nameAvailable = !(await this.collectionsRepository.exists(name, undefined, excludeId));
+      const slugAvailable = !(await this.collectionsRepository.exists('', slug, excludeId));
+      const messages: string[] = [];
+
+      messages.push(nameAvailable ? 'Collection name is available' : 'Collection name is already in use');
+
+      let suggestedSlug: string | undefined;
+      if (!slugAvailable) {
+        suggestedSlug = await this.generateUniqueSlug(slug);
+        messages.push(`Suggested alternative slug: ${suggestedSlug}`);
+      } else {
+        messages.push('Collection slug is available');
+      }
+
+      const result: CollectionValidationDto = {
+        nameAvailable,
+        slugAvailable,
+        suggestedSlug,
+        messages
+      };
+
+      // Cache validation result briefly
+      await this.cacheManager.set(cacheKey, result, this.CACHE_TTL.VALIDATION);
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error validating collection: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate unique slug
+   */
+  private async generateUniqueSlug(baseSlug: string): Promise<string> {
+    let counter = 1;
+    let uniqueSlug = `${baseSlug}-${counter}`;
+
+    while (await this.collectionsRepository.exists('', uniqueSlug)) {
+      counter++;
+      uniqueSlug = `${baseSlug}-${counter}`;
+    }
+
+    return uniqueSlug;
+  }
+
+  /**
+   * Ensure endDate is not before startDate
+   */
+  private validateDateRange(startDate?: Date, endDate?: Date): void {
+    if (startDate && endDate && new Date(endDate) < new Date(startDate)) {
+      throw new BadRequestException('Collection endDate must not be before startDate');
+    }
   }
 
-  findAll() {
-    return `This action returns all collections`;
+  /**
+   * Validate and upload cover and banner images, returning the resulting URLs
+   */
+  private async uploadImages(
+    files: CollectionImageFiles,
+    collectionName: string
+  ): Promise<UploadedCollectionImages> {
+    // Validate everything before uploading anything
+    const image = files.image && this.imageValidationService.sanitize(files.image, ImageUsage.HERO);
+    const banner = files.banner && this.imageValidationService.sanitize(files.banner, ImageUsage.BANNER);
+
+    const uploaded: UploadedCollectionImages = { imageUrls: {}, publicIds: [] };
+
+    if (image) {
+      this.logger.log(`Uploading cover image for collection: ${collectionName}`);
+      const uploadResult = await this.imageStorage.upload(image, this.IMAGE_FOLDERS.image);
+      uploaded.imageUrls.imageUrl = uploadResult.url;
+      uploaded.publicIds.push(uploadResult.publicId);
+    }
+
+    if (banner) {
+      this.logger.log(`Uploading banner image for collection: ${collectionName}`);
+      // A failed banner upload must not strand the cover uploaded just before it
+      const uploadResult = await this.imageCleanupService.runWithUploads(
+        [...uploaded.publicIds],
+        () => this.imageStorage.upload(banner, this.IMAGE_FOLDERS.banner)
+      );
+      uploaded.imageUrls.bannerImageUrl = uploadResult.url;
+      uploaded.publicIds.push(uploadResult.publicId);
+    }
+
+    return uploaded;
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} collection`;
+  /**
+   * Delete images from image storage without failing the surrounding operation; failures are retried
+   */
+  private async deleteImages(imageUrls: (string | undefined)[], reason: ImageDeletionReason): Promise<void> {
+    await this.imageCleanupService.deleteImages(
+      imageUrls.filter(Boolean).map(imageUrl => this.imageStorage.extractPublicId(imageUrl)),
+      reason
+    );
   }
 
-  update(id: number, updateCollectionDto: UpdateCollectionDto) {
-    return `This action updates a #${id} collection`;
+  /**
+   * Map collection document to response DTO
+   */
+  private mapToResponseDto(collection: any): CollectionResponseDto {
+    return {
+      _id: collection._id?.toString() || collection.id?.toString(),
+      name: collection.name,
+      slug: collection.slug,
+      description: collection.description,
+      type: collection.type,
+      status: collection.status,
+      applicableGenders: collection.applicableGenders,
+      startDate: collection.startDate,
+      endDate: collection.endDate,
+      year: collection.year,
+      season: collection.season,
+      sortOrder: collection.sortOrder,
+      metadata: collection.metadata,
+      imageUrl: collection.imageUrl,
+      bannerImageUrl: collection.bannerImageUrl,
+      colors: collection.colors || [],
+      isFeatured: collection.isFeatured,
+      isDeleted: collection.isDeleted,
+      deletedAt: collection.deletedAt,
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt
+    };
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} collection`;
+  /**
+   * Drop cached collection data after writes made outside this service (e.g. catalog snapshot imports)
+   */
+  async invalidateCache(collectionIds: string[] = []): Promise<void> {
+    await Promise.all([undefined, ...collectionIds].map(id => this.clearCollectionCache(id)));
+  }
+
+  /**
+   * Clear collection-related cache
+   */
+  private async clearCollectionCache(collectionId?: string): Promise<void> {
+    try {
+      const cacheKeys = new Set<string>([
+        CACHE_KEYS.COLLECTIONS.ALL,
+        CACHE_KEYS.COLLECTIONS.BY_TYPE,
+        CACHE_KEYS.COLLECTIONS.FEATURED,
+        CACHE_KEYS.COLLECTIONS.STATS
+      ]);
+
+      if (collectionId) {
+        cacheKeys.add(generateCacheKey(CACHE_KEYS.COLLECTIONS.BY_ID, { id: collectionId }));
+      }
+
+      await this.cacheInvalidation.invalidate({ keys: Array.from(cacheKeys) });
+    } catch (error) {
+      this.logger.warn(`Error clearing collection cache: ${error.message}`);
+    }
   }
 }
@@ -0,0 +1,140 @@
+/* eslint-disable prettier/prettier */
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsEnum, IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+import { CollectionType } from "../../../common/enums/collection-type.enum";
+
+
+export class CollectionQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by collection type',
+    enum: CollectionType,
+    example: CollectionType.SEASONAL
+  })
+  @IsOptional()
+  @IsEnum(CollectionType)
+  type?: CollectionType;
+
+  @ApiPropertyOptional({
+    description: 'Filter by year',
+    example: 2025
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  year?: number;
+
+  @ApiPropertyOptional({
+    description: 'Filter by season label (case-insensitive)',
+    example: 'Spring-Summer'
+  })
+  @IsOptional()
+  @IsString()
+  season?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by collection status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by applicable gender (name of a gender record)',
+    example: 'women'
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  gender?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by featured flag',
+    type: 'boolean',
+    example: true
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  isFeatured?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Search term for name, slug or description (case-insensitive)',
+    example: 'summer',
+    minLength: 2,
+    maxLength: 100
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include deleted collections in results',
+    type: 'boolean',
+    default: false,
+    example: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  includeDeleted?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Page number for pagination',
+    minimum: 1,
+    default: 1,
+    example: 1
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+    example: 20
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: ['name', 'slug', 'year', 'startDate', 'createdAt', 'updatedAt', 'sortOrder'],
+    default: 'sortOrder',
+    example: 'year'
+  })
+  @IsOptional()
+  @IsString()
+  sortBy?: 'name' | 'slug' | 'year' | 'startDate' | 'createdAt' | 'updatedAt' | 'sortOrder';
+
+  @ApiPropertyOptional({
+    description: 'Sort direction',
+    enum: ['asc', 'desc'],
+    default: 'asc',
+    example: 'desc'
+  })
+  @IsOptional()
+  @IsString()
+  sortOrder?: 'asc' | 'desc';
+}
@@ -0,0 +1,172 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { ValidateNested } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+import { CollectionType } from "../../../common/enums/collection-type.enum";
+
+
+export class CollectionResponseDto {
+  @ApiProperty({
+    description: 'Collection unique identifier',
+    example: '507f1f77bcf86cd799439021'
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Collection name',
+    example: 'Spring Summer 2025'
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'URL-friendly slug',
+    example: 'spring-summer-2025'
+  })
+  slug: string;
+
+  @ApiPropertyOptional({
+    description: 'Collection description',
+    example: 'Light fabrics and bright colours for the warm season'
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Collection type',
+    enum: CollectionType,
+    example: CollectionType.SEASONAL
+  })
+  type: CollectionType;
+
+  @ApiProperty({
+    description: 'Collection status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  status: CategoryStatus;
+
+  @ApiProperty({
+    description: 'Applicable genders',
+    type: [String],
+    example: ['women']
+  })
+  applicableGenders: string[];
+
+  @ApiPropertyOptional({
+    description: 'Date the collection goes live',
+    example: '2025-03-01T00:00:00.000Z'
+  })
+  startDate?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Date the collection ends',
+    example: '2025-08-31T23:59:59.000Z'
+  })
+  endDate?: Date;
+
+  @ApiProperty({
+    description: 'Collection year',
+    example: 2025
+  })
+  year: number;
+
+  @ApiPropertyOptional({
+    description: 'Season label',
+    example: 'Spring-Summer'
+  })
+  season?: string;
+
+  @ApiProperty({
+    description: 'Sort order for display',
+    example: 1
+  })
+  sortOrder: number;
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata',
+    example: { campaign: 'ss25-launch' }
+  })
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Cover image URL',
+    example: 'https://res.cloudinary.com/demo/image/upload/collections/ss25.webp'
+  })
+  imageUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Banner image URL',
+    example: 'https://res.cloudinary.com/demo/image/upload/collections/banners/ss25.webp'
+  })
+  bannerImageUrl?: string;
+
+  @ApiProperty({
+    description: 'Collection colour palette',
+    type: [String],
+    example: ['#F4D35E', '#0D3B66']
+  })
+  colors: string[];
+
+  @ApiProperty({
+    description: 'Whether the collection is featured',
+    example: true
+  })
+  isFeatured: boolean;
+
+  @ApiProperty({
+    description: 'Soft delete flag',
+    example: false
+  })
+  isDeleted: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Deletion timestamp',
+    example: null,
+    nullable: true
+  })
+  deletedAt?: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z'
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-20T14:45:00.000Z'
+  })
+  updatedAt: Date;
+}
+
+export class CollectionListResponseDto {
+  @ApiProperty({
+    description: 'Array of collections',
+    type: [CollectionResponseDto],
+    isArray: true
+  })
+  @ValidateNested({ each: true })
+  @Type(() => CollectionResponseDto)
+  data: CollectionResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Total number of collections', example: 40 },
+      page: { type: 'number', description: 'Current page number', example: 1 },
+      limit: { type: 'number', description: 'Items per page', example: 20 },
+      totalPages: { type: 'number', description: 'Total number of pages', example: 2 },
+      hasNext: { type: 'boolean', description: 'Whether there is a next page', example: true },
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+    }
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
@@ -0,0 +1,85 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+import { CollectionType } from "../../../common/enums/collection-type.enum";
+import { CollectionResponseDto } from "./collection-response.dto";
+
+
+export class CollectionStatsDto {
+  @ApiProperty({
+    description: 'Total number of collections',
+    example: 40
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Collections breakdown by status',
+    type: 'object',
+    properties: {
+      active: { type: 'number', example: 30 },
+      inactive: { type: 'number', example: 6 },
+      archived: { type: 'number', example: 4 }
+    }
+  })
+  byStatus: Record<CategoryStatus, number>;
+
+  @ApiProperty({
+    description: 'Collections breakdown by type',
+    type: 'object',
+    properties: {
+      seasonal: { type: 'number', example: 20 },
+      core: { type: 'number', example: 10 },
+      limited: { type: 'number', example: 6 },
+      special: { type: 'number', example: 4 }
+    }
+  })
+  byType: Record<CollectionType, number>;
+
+  @ApiProperty({
+    description: 'Number of featured collections',
+    example: 5
+  })
+  featured: number;
+
+  @ApiProperty({
+    description: 'Number of soft-deleted collections',
+    example: 2
+  })
+  softDeleted: number;
+
+  @ApiProperty({
+    description: 'Most recently created collections',
+    type: [CollectionResponseDto],
+    maxItems: 5
+  })
+  recentlyCreated: CollectionResponseDto[];
+}
+
+// Collection Validation Response DTO
+export class CollectionValidationDto {
+  @ApiProperty({
+    description: 'Whether the collection name is available',
+    example: true
+  })
+  nameAvailable: boolean;
+
+  @ApiProperty({
+    description: 'Whether the generated slug is available',
+    example: false
+  })
+  slugAvailable: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Suggested alternative slug if current is unavailable',
+    example: 'spring-summer-2025-2'
+  })
+  suggestedSlug?: string;
+
+  @ApiProperty({
+    description: 'Validation messages',
+    type: 'array',
+    items: { type: 'string' },
+    example: ['Collection name is available']
+  })
+  messages: string[];
+}
@@ -1 +1,150 @@
-export class CreateCollectionDto {}
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { 
+  IsString, 
+  IsEnum, 
+  IsOptional, 
+  IsArray, 
+  IsBoolean, 
+  IsNumber, 
+  IsObject, 
+  IsDate,
+  MinLength,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { CategoryStatus } from '../../../common/enums/category-status.enum';
+import { CollectionType } from '../../../common/enums/collection-type.enum';
+
+// Create Collection DTO
+export class CreateCollectionDto {
+  @ApiProperty({ 
+    description: 'Collection name', 
+    example: 'Spring Summer 2025',
+    minLength: 2,
+    maxLength: 100
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Collection description',
+    example: 'Light fabrics and bright colours for the warm season',
+    maxLength: 1000
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Collection type',
+    enum: CollectionType,
+    default: CollectionType.SEASONAL
+  })
+  @IsOptional()
+  @IsEnum(CollectionType)
+  type?: CollectionType;
+
+  @ApiPropertyOptional({ 
+    description: 'Collection status',
+    enum: CategoryStatus,
+    default: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+
+  @ApiPropertyOptional({ 
+    description: 'Applicable genders (names of active gender records)',
+    type: [String],
+    example: ['women']
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(({ value }) => Array.isArray(value) ? value.map(gender => String(gender).trim().toLowerCase()) : value)
+  applicableGenders?: string[];
+
+  @ApiPropertyOptional({ 
+    description: 'Date the collection goes live',
+    example: '2025-03-01T00:00:00.000Z'
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiPropertyOptional({ 
+    description: 'Date the collection ends',
+    example: '2025-08-31T23:59:59.000Z'
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  @ApiProperty({ 
+    description: 'Collection year',
+    example: 2025
+  })
+  @IsNumber()
+  @Type(() => Number)
+  @Min(1900)
+  @Max(2100)
+  year: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Season label',
+    example: 'Spring-Summer'
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  season?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Sort order',
+    default: 0
+  })
+  @IsOptional()
+  @IsNumber()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Additional metadata',
+    example: { campaign: 'ss25-launch' }
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional({ 
+    description: 'Collection colour palette',
+    type: [String],
+    example: ['#F4D35E', '#0D3B66']
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  colors?: string[];
+
+  @ApiPropertyOptional({ 
+    description: 'Feature the collection on the storefront',
+    default: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  @Type(() => Boolean)
+  isFeatured?: boolean;
+
+  // Note: imageUrl (cover) and bannerImageUrl are handled by the service after file upload
+  // The actual file uploads are handled via multipart form data
+}
@@ -1,6 +1,6 @@
-import { PartialType } from '@nestjs/mapped-types';
+/* eslint-disable prettier/prettier */
+import { PartialType } from '@nestjs/swagger';
 import { CreateCollectionDto } from './create-collection.dto';
 
-export class UpdateCollectionDto extends PartialType(CreateCollectionDto) {
-  id: number;
-}
+// Update Collection DTO
+export class UpdateCollectionDto extends PartialType(CreateCollectionDto) {}
@@ -3,7 +3,6 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
 import { CategoryStatus } from '../../../common/enums/category-status.enum';
 import { CollectionType } from '../../../common/enums/collection-type.enum';
-import { Gender } from '../../../common/enums/gender.enum';
 
 export type CollectionDocument = Collection & Document;
 
@@ -37,8 +36,8 @@ export class Collection {
   })
   status: CategoryStatus;
 
-  @Prop({ type: [String], enum: Gender, default: [] })
-  applicableGenders: Gender[];
+  @Prop({ type: [String], lowercase: true, default: [] })
+  applicableGenders: string[]; // names of GenderEntity records
 
   @Prop({ type: Date, required: false })
   startDate?: Date;
@@ -1 +1,100 @@
-export class CreateGenderDto {}
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { 
+  IsString, 
+  IsEnum, 
+  IsOptional, 
+  IsNumber, 
+  IsObject, 
+  IsHexColor,
+  Matches,
+  MinLength,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { CategoryStatus } from '../../../common/enums/category-status.enum';
+
+// Create Gender DTO
+export class CreateGenderDto {
+  @ApiProperty({ 
+    description: 'Gender identifier referenced by applicableGenders (lowercase letters, numbers and hyphens)', 
+    example: 'kids',
+    minLength: 2,
+    maxLength: 50
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(50)
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'name may only contain lowercase letters, numbers and single hyphens'
+  })
+  name: string;
+
+  @ApiProperty({ 
+    description: 'Human readable label', 
+    example: 'Kids',
+    minLength: 2,
+    maxLength: 100
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  @Transform(({ value }) => value?.trim())
+  displayName: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Gender description',
+    example: 'Clothing and footwear for children',
+    maxLength: 500
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Gender status',
+    enum: CategoryStatus,
+    default: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+
+  @ApiPropertyOptional({ 
+    description: 'Sort order',
+    default: 0
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Hex colour used for UI theming',
+    example: '#FFB400'
+  })
+  @IsOptional()
+  @IsHexColor()
+  colorTheme?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Gender icon',
+    example: 'child'
+  })
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Additional metadata',
+    example: { ageRange: '2-14' }
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
@@ -0,0 +1,155 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { ValidateNested } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+
+
+export class GenderResponseDto {
+  @ApiProperty({
+    description: 'Gender unique identifier',
+    example: '507f1f77bcf86cd799439031'
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Gender identifier referenced by applicableGenders',
+    example: 'women'
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'URL-friendly slug',
+    example: 'women'
+  })
+  slug: string;
+
+  @ApiProperty({
+    description: 'Human readable label',
+    example: 'Women'
+  })
+  displayName: string;
+
+  @ApiPropertyOptional({
+    description: 'Gender description',
+    example: 'Womenswear, shoes and accessories'
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Gender status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  status: CategoryStatus;
+
+  @ApiProperty({
+    description: 'Sort order for display',
+    example: 1
+  })
+  sortOrder: number;
+
+  @ApiPropertyOptional({
+    description: 'Hex colour used for UI theming',
+    example: '#C2185B'
+  })
+  colorTheme?: string;
+
+  @ApiPropertyOptional({
+    description: 'Gender image URL',
+    example: 'https://res.cloudinary.com/demo/image/upload/genders/women.webp'
+  })
+  imageUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Gender icon',
+    example: 'female'
+  })
+  icon?: string;
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata',
+    example: {}
+  })
+  metadata?: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Soft delete flag',
+    example: false
+  })
+  isDeleted: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Deletion timestamp',
+    example: null,
+    nullable: true
+  })
+  deletedAt?: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z'
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-20T14:45:00.000Z'
+  })
+  updatedAt: Date;
+}
+
+export class GenderListResponseDto {
+  @ApiProperty({
+    description: 'Array of genders',
+    type: [GenderResponseDto],
+    isArray: true
+  })
+  @ValidateNested({ each: true })
+  @Type(() => GenderResponseDto)
+  data: GenderResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Total number of genders', example: 4 },
+      page: { type: 'number', description: 'Current page number', example: 1 },
+      limit: { type: 'number', description: 'Items per page', example: 20 },
+      totalPages: { type: 'number', description: 'Total number of pages', example: 1 },
+      hasNext: { type: 'boolean', description: 'Whether there is a next page', example: false },
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+    }
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+// Applicable genders validation response DTO
+export class GenderValidationDto {
+  @ApiProperty({
+    description: 'Whether every value matches an active gender',
+    example: false
+  })
+  valid: boolean;
+
+  @ApiProperty({
+    description: 'Values that do not match an active gender',
+    type: [String],
+    example: ['teens']
+  })
+  unknown: string[];
+
+  @ApiProperty({
+    description: 'Names of all active genders',
+    type: [String],
+    example: ['men', 'women', 'unisex']
+  })
+  available: string[];
+}
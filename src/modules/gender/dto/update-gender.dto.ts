@@ -1,6 +1,15 @@
-import { PartialType } from '@nestjs/mapped-types';
+/* eslint-disable prettier/prettier */
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import { CreateGenderDto } from './create-gender.dto';
 
-export class UpdateGenderDto extends PartialType(CreateGenderDto) {
-  id: number;
+// Update Gender DTO
+export class UpdateGenderDto extends PartialType(CreateGenderDto) {}
+
+export class UpdateGenderWithFileDto extends UpdateGenderDto {
+  @ApiPropertyOptional({ 
+    description: 'Gender image file',
+    type: 'string',
+    format: 'binary'
+  })
+  image?: Express.Multer.File;
 }
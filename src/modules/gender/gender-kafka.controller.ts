@@ -0,0 +1,409 @@
+/* eslint-disable prettier/prettier */
+import { Controller, Logger } from '@nestjs/common';
+import { MessagePattern, Payload, Ctx, KafkaContext } from '@nestjs/microservices';
+import { GenderService } from './gender.service';
+import { CreateGenderDto } from './dto/create-gender.dto';
+import { UpdateGenderDto } from './dto/update-gender.dto';
+import { GenderQueryDto } from './dto/gender-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+import { toMulterFile } from '../../common/utils/image.util';
+
+@Controller()
+export class GenderKafkaController {
+  private readonly logger = new Logger(GenderKafkaController.name);
+
+  constructor(private readonly genderService: GenderService) {}
+
+  /**
+   * Create a new gender via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.CREATE)
+  async createGender(
+    @Payload() data: { createGenderDto: CreateGenderDto; imageData?: Buffer; imageName?: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { createGenderDto, imageData, imageName } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender creation - Partition: ${partition}, Offset: ${offset}`);
+
+      let imageFile: Express.Multer.File | undefined;
+      
+      // Convert image data back to Multer file format if provided
+      if (imageData && imageName) {
+        imageFile = toMulterFile(imageData, imageName);
+      }
+
+      const result = await this.genderService.create(createGenderDto, imageFile);
+      
+      this.logger.log(`Gender created successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender created successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error creating gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to create gender'
+      };
+    }
+  }
+
+  /**
+   * Find all genders with filtering and pagination via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.FIND_ALL)
+  async findAllGenders(
+    @Payload() queryDto: GenderQueryDto,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find all genders - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.genderService.findAll(queryDto);
+      
+      this.logger.log(`Found ${result.data.length} genders via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Genders retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding genders via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve genders'
+      };
+    }
+  }
+
+  /**
+   * Find a gender by ID via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.FIND_ONE)
+  async findOneGender(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find gender - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.genderService.findOne(id);
+      
+      this.logger.log(`Gender found via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve gender'
+      };
+    }
+  }
+
+  /**
+   * Find a gender by slug via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.FIND_BY_SLUG)
+  async findGenderBySlug(
+    @Payload() data: { slug: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { slug } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find gender by slug - Partition: ${partition}, Offset: ${offset}, Slug: ${slug}`);
+
+      const result = await this.genderService.findBySlug(slug);
+      
+      this.logger.log(`Gender found by slug via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding gender by slug via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve gender'
+      };
+    }
+  }
+
+  /**
+   * Update a gender via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.UPDATE)
+  async updateGender(
+    @Payload() data: { 
+      id: string; 
+      updateGenderDto: UpdateGenderDto; 
+      imageData?: Buffer; 
+      imageName?: string 
+    },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, updateGenderDto, imageData, imageName } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender update - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      let imageFile: Express.Multer.File | undefined;
+      
+      // Convert image data back to Multer file format if provided
+      if (imageData && imageName) {
+        imageFile = toMulterFile(imageData, imageName);
+      }
+
+      const result = await this.genderService.update(id, updateGenderDto, imageFile);
+      
+      this.logger.log(`Gender updated successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update gender'
+      };
+    }
+  }
+
+  /**
+   * Soft delete a gender via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.DELETE)
+  async removeGender(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.genderService.remove(id);
+      
+      this.logger.log(`Gender deleted successfully via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender deleted successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error deleting gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to delete gender'
+      };
+    }
+  }
+
+  /**
+   * Restore a soft-deleted gender via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.RESTORE)
+  async restoreGender(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender restore - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.genderService.restore(id);
+      
+      this.logger.log(`Gender restored successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender restored successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error restoring gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to restore gender'
+      };
+    }
+  }
+
+  /**
+   * Permanently delete a gender via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.HARD_DELETE)
+  async hardDeleteGender(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender hard delete - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.genderService.hardDelete(id);
+      
+      this.logger.log(`Gender permanently deleted via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender permanently deleted'
+      };
+    } catch (error) {
+      this.logger.error(`Error hard deleting gender via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to permanently delete gender'
+      };
+    }
+  }
+
+  /**
+   * Update gender status via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.UPDATE_STATUS)
+  async updateGenderStatus(
+    @Payload() data: { id: string; status: CategoryStatus },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, status } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender status update - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Status: ${status}`);
+
+      const result = await this.genderService.updateStatus(id, status);
+      
+      this.logger.log(`Gender status updated via Kafka: ${result.name} (${result._id}) -> ${status}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender status updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating gender status via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update gender status'
+      };
+    }
+  }
+
+  /**
+   * Update sort order for multiple genders via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.UPDATE_SORT_ORDER)
+  async updateGenderSortOrder(
+    @Payload() data: { updates: { id: string; sortOrder: number }[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { updates } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender sort order update - Partition: ${partition}, Offset: ${offset}, Count: ${updates.length}`);
+
+      const result = await this.genderService.updateSortOrder(updates);
+      
+      this.logger.log(`Gender sort order updated via Kafka: ${result.updated} genders`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Sort order updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating gender sort order via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update sort order'
+      };
+    }
+  }
+
+  /**
+   * Check applicableGenders values against the active genders via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.GENDER.VALIDATE)
+  async validateGenders(
+    @Payload() data: { values: string[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { values } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing gender validation - Partition: ${partition}, Offset: ${offset}, Values: ${values?.join(',')}`);
+
+      const result = await this.genderService.checkApplicableGenders(values);
+      
+      this.logger.log(`Gender validation completed via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Gender validation completed'
+      };
+    } catch (error) {
+      this.logger.error(`Error validating genders via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to validate genders'
+      };
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { GenderController } from './gender.controller';
 import { GenderService } from './gender.service';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheTagService } from '../cache/cache-tag.service';
 
 describe('GenderController', () => {
   let controller: GenderController;
@@ -8,7 +10,14 @@ describe('GenderController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [GenderController],
-      providers: [GenderService],
+      providers: [
+        { provide: GenderService, useValue: {} },
+        {
+          provide: CacheTagService,
+          useValue: { set: jest.fn(), invalidate: jest.fn() },
+        },
+        { provide: CACHE_MANAGER, useValue: { get: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<GenderController>(GenderController);
@@ -1,35 +1,366 @@
-import { Controller } from '@nestjs/common';
-import { MessagePattern, Payload } from '@nestjs/microservices';
+/* eslint-disable prettier/prettier */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseInterceptors,
+  UploadedFile,
+  ValidationPipe,
+  ParseEnumPipe,
+  Logger
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath
+} from '@nestjs/swagger';
 import { GenderService } from './gender.service';
 import { CreateGenderDto } from './dto/create-gender.dto';
 import { UpdateGenderDto } from './dto/update-gender.dto';
+import { GenderQueryDto } from './dto/gender-filter.dto';
+import { GenderListResponseDto, GenderResponseDto, GenderValidationDto } from './dto/gender-response.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+import { CacheInterceptor } from '../../common/interceptors/cache.interceptor';
+import { ParseObjectIdPipe } from '../../common/pipes/parse-object-id.pipe';
 
-@Controller()
+// Shared multipart body schema properties for create and update
+const GENDER_BODY_PROPERTIES = {
+  name: { type: 'string', description: 'Gender identifier referenced by applicableGenders' },
+  displayName: { type: 'string', description: 'Human readable label' },
+  description: { type: 'string', description: 'Gender description' },
+  status: {
+    type: 'string',
+    enum: Object.values(CategoryStatus),
+    description: 'Gender status'
+  },
+  sortOrder: { type: 'number', description: 'Sort order' },
+  colorTheme: { type: 'string', description: 'Hex colour used for UI theming' },
+  icon: { type: 'string', description: 'Gender icon' },
+  metadata: { type: 'object', description: 'Additional metadata' },
+  image: {
+    type: 'string',
+    format: 'binary',
+    description: 'Gender image file'
+  }
+};
+
+@ApiTags('Gender')
+@Controller('gender')
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+@ApiExtraModels(
+  GenderResponseDto,
+  GenderListResponseDto,
+  GenderValidationDto
+)
 export class GenderController {
+  private readonly logger = new Logger(GenderController.name);
+
   constructor(private readonly genderService: GenderService) {}
 
-  @MessagePattern('createGender')
-  create(@Payload() createGenderDto: CreateGenderDto) {
-    return this.genderService.create(createGenderDto);
+  @Post()
+  @ApiOperation({
+    summary: 'Create a new gender',
+    description: 'Creates a new gender that can be referenced by applicableGenders, with optional image upload'
+  })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: GENDER_BODY_PROPERTIES,
+      required: ['name', 'displayName']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Gender created successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 409, description: 'Gender name already exists' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async create(
+    @Body(ValidationPipe) createGenderDto: CreateGenderDto,
+    @UploadedFile() imageFile?: Express.Multer.File
+  ): Promise<GenderResponseDto> {
+    this.logger.log(`Creating gender: ${createGenderDto.name}`);
+    return this.genderService.create(createGenderDto, imageFile);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all genders',
+    description: 'Retrieves genders with optional filtering, sorting, and pagination'
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 10, max: 100)' })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Filter by status' })
+  @ApiQuery({ name: 'search', required: false, type: String, description: 'Search in name, display name and description' })
+  @ApiQuery({ name: 'sortBy', required: false, type: String, description: 'Sort field (name, displayName, createdAt, updatedAt, sortOrder)' })
+  @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort order (asc or desc)' })
+  @ApiQuery({ name: 'includeDeleted', required: false, type: Boolean, description: 'Include soft-deleted genders' })
+  @ApiResponse({
+    status: 200,
+    description: 'Genders retrieved successfully',
+    schema: { $ref: getSchemaPath(GenderListResponseDto) }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async findAll(@Query(ValidationPipe) queryDto: GenderQueryDto): Promise<GenderListResponseDto> {
+    this.logger.log(`Retrieving genders with filters: ${JSON.stringify(queryDto)}`);
+    return this.genderService.findAll(queryDto);
+  }
+
+  @Get('validate')
+  @ApiOperation({
+    summary: 'Validate applicable genders',
+    description: 'Checks comma-separated values against the active genders'
+  })
+  @ApiQuery({ name: 'values', required: true, type: String, description: 'Comma-separated gender names, e.g. men,women' })
+  @ApiResponse({
+    status: 200,
+    description: 'Validation result',
+    schema: { $ref: getSchemaPath(GenderValidationDto) }
+  })
+  async validateGenders(@Query('values') values: string = ''): Promise<GenderValidationDto> {
+    this.logger.log(`Validating genders: ${values}`);
+    const names = values.split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+    return this.genderService.checkApplicableGenders(names);
   }
 
-  @MessagePattern('findAllGender')
-  findAll() {
-    return this.genderService.findAll();
+  @Get('slug/:slug')
+  @ApiOperation({
+    summary: 'Get gender by slug',
+    description: 'Retrieves a gender by its slug'
+  })
+  @ApiParam({ name: 'slug', type: String, description: 'Gender slug' })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender retrieved successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findBySlug(@Param('slug') slug: string): Promise<GenderResponseDto> {
+    this.logger.log(`Retrieving gender by slug: ${slug}`);
+    return this.genderService.findBySlug(slug);
   }
 
-  @MessagePattern('findOneGender')
-  findOne(@Payload() id: number) {
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get gender by ID',
+    description: 'Retrieves a single gender by its ID'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender retrieved successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid gender ID format' })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findOne(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<GenderResponseDto> {
+    this.logger.log(`Retrieving gender by ID: ${id}`);
     return this.genderService.findOne(id);
   }
 
-  @MessagePattern('updateGender')
-  update(@Payload() updateGenderDto: UpdateGenderDto) {
-    return this.genderService.update(updateGenderDto.id, updateGenderDto);
+  @Patch('sort-order')
+  @ApiOperation({
+    summary: 'Update sort order for multiple genders',
+    description: 'Updates the sort order for multiple genders in a single request'
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Gender ID' },
+              sortOrder: { type: 'number', description: 'New sort order' }
+            },
+            required: ['id', 'sortOrder']
+          }
+        }
+      },
+      required: ['updates']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sort order updated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        updated: { type: 'number' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async updateSortOrder(
+    @Body('updates', ValidationPipe) updates: { id: string; sortOrder: number }[]
+  ): Promise<{ message: string; updated: number }> {
+    this.logger.log(`Updating sort order for ${updates.length} genders`);
+    return this.genderService.updateSortOrder(updates);
   }
 
-  @MessagePattern('removeGender')
-  remove(@Payload() id: number) {
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update gender',
+    description: 'Updates an existing gender with optional image upload'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: GENDER_BODY_PROPERTIES
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender updated successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data or gender ID format' })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  @ApiResponse({ status: 409, description: 'Gender name already exists' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async update(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) updateGenderDto: UpdateGenderDto,
+    @UploadedFile() imageFile?: Express.Multer.File
+  ): Promise<GenderResponseDto> {
+    this.logger.log(`Updating gender: ${id}`);
+    return this.genderService.update(id, updateGenderDto, imageFile);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary: 'Update gender status',
+    description: 'Updates the status of a gender; only active genders are accepted in applicableGenders'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: Object.values(CategoryStatus),
+          description: 'New gender status'
+        }
+      },
+      required: ['status']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender status updated successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid gender ID format or status' })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  async updateStatus(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body('status', new ParseEnumPipe(CategoryStatus)) status: CategoryStatus
+  ): Promise<GenderResponseDto> {
+    this.logger.log(`Updating gender status: ${id} -> ${status}`);
+    return this.genderService.updateStatus(id, status);
+  }
+
+  @Post(':id/restore')
+  @ApiOperation({
+    summary: 'Restore soft-deleted gender',
+    description: 'Restores a soft-deleted gender'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender restored successfully',
+    schema: { $ref: getSchemaPath(GenderResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid gender ID format' })
+  @ApiResponse({ status: 404, description: 'Gender not found or not deleted' })
+  async restore(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<GenderResponseDto> {
+    this.logger.log(`Restoring gender: ${id}`);
+    return this.genderService.restore(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Soft delete gender',
+    description: 'Soft deletes a gender (can be restored later)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid gender ID format' })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  async remove(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting gender: ${id}`);
     return this.genderService.remove(id);
   }
+
+  @Delete(':id/permanent')
+  @ApiOperation({
+    summary: 'Permanently delete gender',
+    description: 'Permanently deletes a gender (cannot be restored)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Gender ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Gender permanently deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid gender ID format' })
+  @ApiResponse({ status: 404, description: 'Gender not found' })
+  async hardDelete(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Permanently deleting gender: ${id}`);
+    return this.genderService.hardDelete(id);
+  }
 }
@@ -1,9 +1,30 @@
+/* eslint-disable prettier/prettier */
 import { Module } from '@nestjs/common';
-import { GenderService } from './gender.service';
+import { MongooseModule } from '@nestjs/mongoose';
+import { GenderEntity, GenderSchema } from './schemas/gender.schema';
 import { GenderController } from './gender.controller';
+import { GenderKafkaController } from './gender-kafka.controller';
+import { GenderService } from './gender.service';
+import { GenderRepository } from './gender.repository';
+
 
 @Module({
-  controllers: [GenderController],
-  providers: [GenderService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: GenderEntity.name, schema: GenderSchema }
+    ]),
+  ],
+  controllers: [
+    GenderController,
+    GenderKafkaController
+  ],
+  providers: [
+    GenderService,
+    GenderRepository
+  ],
+  exports: [
+    GenderService,
+    GenderRepository
+  ]
 })
 export class GenderModule {}
@@ -0,0 +1,408 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
+import { GenderEntity, GenderDocument } from './schemas/gender.schema';
+import { CreateGenderDto } from './dto/create-gender.dto';
+import { UpdateGenderDto } from './dto/update-gender.dto';
+import { GenderQueryDto } from './dto/gender-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
+import { slugify } from '../../common/utils/slug.util';
+
+@Injectable()
+export class GenderRepository {
+  private readonly logger = new Logger(GenderRepository.name);
+
+  constructor(
+    @InjectModel(GenderEntity.name) private genderModel: Model<GenderDocument>,
+  ) {}
+
+  /**
+   * Create a new gender
+   */
+  async create(createGenderDto: CreateGenderDto & { imageUrl?: string }): Promise<GenderEntity> {
+    try {
+      this.logger.log(`Creating gender: ${createGenderDto.name}`);
+
+      // Names stay reserved by soft-deleted records, which can be restored instead
+      const existingGender = await this.genderModel.findOne({ name: createGenderDto.name });
+
+      if (existingGender) {
+        throw new ConflictException(
+          existingGender.isDeleted
+            ? 'Gender with this name exists but is deleted; restore it instead'
+            : 'Gender with this name already exists'
+        );
+      }
+
+      const createdGender = new this.genderModel({
+        ...createGenderDto,
+        slug: slugify(createGenderDto.name),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      const savedGender = await createdGender.save();
+
+      this.logger.log(`Gender created successfully: ${savedGender._id}`);
+      return savedGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error creating gender: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all genders with pagination and filtering
+   */
+  async findAll(query: GenderQueryDto): Promise<PaginationResult<GenderEntity>> {
+    try {
+      const {
+        page = 1,
+        limit = 10,
+        status,
+        search,
+        includeDeleted = false,
+        sortBy = 'sortOrder',
+        sortOrder = 'asc'
+      } = query;
+
+      // Build filter query
+      const filter: FilterQuery<GenderDocument> = {};
+
+      if (!includeDeleted) {
+        filter.isDeleted = false;
+      }
+
+      if (status) {
+        filter.status = status;
+      }
+
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { displayName: { $regex: search, $options: 'i' } },
+          { description: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      // Build sort query
+      const sort: any = {};
+      sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+      // Calculate pagination
+      const skip = (page - 1) * limit;
+      const total = await this.genderModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / limit);
+
+      const genders = await this.genderModel
+        .find(filter)
+        .sort(sort)
+        .skip(skip)
+        .limit(limit)
+        .exec();
+
+      const pagination: PaginationMeta = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+
+      this.logger.log(`Found ${genders.length} genders`);
+      return {
+        data: genders.map(gender => gender.toObject()),
+        pagination
+      };
+    } catch (error) {
+      this.logger.error(`Error finding genders: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find gender by ID
+   */
+  async findById(id: string): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const gender = await this.genderModel
+        .findOne({ _id: id, isDeleted: false })
+        .exec();
+
+      if (!gender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      return gender.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding gender by ID: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find gender by slug
+   */
+  async findBySlug(slug: string): Promise<GenderEntity> {
+    try {
+      const gender = await this.genderModel
+        .findOne({ slug, isDeleted: false })
+        .exec();
+
+      if (!gender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      this.logger.log(`Found gender by slug: ${slug}`);
+      return gender.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding gender by slug: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the names of all active genders, in sort order
+   */
+  async findActiveNames(): Promise<string[]> {
+    try {
+      const genders = await this.genderModel
+        .find({ status: CategoryStatus.ACTIVE, isDeleted: false })
+        .sort({ sortOrder: 1, name: 1 })
+        .select('name')
+        .lean()
+        .exec();
+
+      return genders.map(gender => gender.name);
+    } catch (error) {
+      this.logger.error(`Error finding active gender names: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update gender by ID
+   */
+  async update(id: string, updateGenderDto: UpdateGenderDto & { imageUrl?: string }): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const updateData: UpdateQuery<GenderDocument> = {
+        ...updateGenderDto,
+        updatedAt: new Date()
+      };
+
+      // Re-check name uniqueness and regenerate slug when the name changes
+      if (updateGenderDto.name) {
+        const existingGender = await this.genderModel.findOne({
+          name: updateGenderDto.name,
+          _id: { $ne: id }
+        });
+
+        if (existingGender) {
+          throw new ConflictException('Gender with this name already exists');
+        }
+
+        updateData.slug = slugify(updateGenderDto.name);
+      }
+
+      const updatedGender = await this.genderModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          updateData,
+          { new: true, runValidators: true }
+        )
+        .exec();
+
+      if (!updatedGender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      this.logger.log(`Gender updated successfully: ${updatedGender._id}`);
+      return updatedGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating gender: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete gender by ID
+   */
+  async softDelete(id: string): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const deletedGender = await this.genderModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          {
+            isDeleted: true,
+            deletedAt: new Date(),
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!deletedGender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      this.logger.log(`Gender soft deleted: ${deletedGender._id}`);
+      return deletedGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error soft deleting gender: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Hard delete gender by ID (use with caution)
+   */
+  async hardDelete(id: string): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const deletedGender = await this.genderModel.findOneAndDelete({ _id: id }).exec();
+
+      if (!deletedGender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      this.logger.log(`Gender hard deleted: ${id}`);
+      return deletedGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error hard deleting gender: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore soft deleted gender
+   */
+  async restore(id: string): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const restoredGender = await this.genderModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: true },
+          {
+            isDeleted: false,
+            deletedAt: null,
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!restoredGender) {
+        throw new NotFoundException('Gender not found or not deleted');
+      }
+
+      this.logger.log(`Gender restored: ${restoredGender._id}`);
+      return restoredGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error restoring gender: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update gender status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<GenderEntity> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid gender ID format');
+      }
+
+      const updatedGender = await this.genderModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          { status, updatedAt: new Date() },
+          { new: true }
+        )
+        .exec();
+
+      if (!updatedGender) {
+        throw new NotFoundException('Gender not found');
+      }
+
+      this.logger.log(`Gender status updated: ${updatedGender._id} -> ${status}`);
+      return updatedGender.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating gender status: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update sort order for multiple genders
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<void> {
+    try {
+      const bulkOps = updates.map(update => ({
+        updateOne: {
+          filter: { _id: update.id, isDeleted: false },
+          update: { sortOrder: update.sortOrder, updatedAt: new Date() }
+        }
+      }));
+
+      await this.genderModel.bulkWrite(bulkOps);
+      this.logger.log(`Updated sort order for ${updates.length} genders`);
+    } catch (error) {
+      this.logger.error(`Error updating gender sort order: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Insert genders that do not exist yet; existing records are left untouched
+   */
+  async seed(genders: CreateGenderDto[]): Promise<number> {
+    try {
+      const bulkOps = genders.map(gender => ({
+        updateOne: {
+          filter: { name: gender.name },
+          update: {
+            $setOnInsert: {
+              ...gender,
+              slug: slugify(gender.name),
+              status: gender.status ?? CategoryStatus.ACTIVE,
+              isDeleted: false,
+              createdAt: new Date(),
+              updatedAt: new Date()
+            }
+          },
+          upsert: true
+        }
+      }));
+
+      const result = await this.genderModel.bulkWrite(bulkOps);
+
+      if (result.upsertedCount > 0) {
+        this.logger.log(`Seeded ${result.upsertedCount} genders`);
+      }
+      return result.upsertedCount;
+    } catch (error) {
+      this.logger.error(`Error seeding genders: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
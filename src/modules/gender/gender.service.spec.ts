@@ -1,12 +1,55 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { GenderService } from './gender.service';
+import { GenderRepository } from './gender.repository';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
 
 describe('GenderService', () => {
   let service: GenderService;
+  let repository: Record<string, jest.Mock>;
 
   beforeEach(async () => {
+    repository = {
+      findActiveNames: jest.fn().mockResolvedValue(['men', 'women', 'kids']),
+      seed: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [GenderService],
+      providers: [
+        GenderService,
+        { provide: GenderRepository, useValue: repository },
+        {
+          provide: IMAGE_STORAGE,
+          useValue: {
+            upload: jest.fn(),
+            extractPublicId: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: ImageValidationService,
+          useValue: { sanitize: jest.fn((file) => file) },
+        },
+        {
+          provide: ImageCleanupService,
+          useValue: {
+            runWithUploads: jest.fn((publicIds, write) => write()),
+            deleteImages: jest.fn(),
+          },
+        },
+        {
+          provide: CacheInvalidationService,
+          useValue: { invalidate: jest.fn() },
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<GenderService>(GenderService);
@@ -15,4 +58,35 @@ describe('GenderService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should seed the default genders on init', async () => {
+    await service.onModuleInit();
+
+    expect(repository.seed).toHaveBeenCalledWith(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'men' }),
+        expect.objectContaining({ name: 'women' }),
+        expect.objectContaining({ name: 'unisex' }),
+      ]),
+    );
+  });
+
+  it('should accept genders added as data', async () => {
+    await expect(
+      service.validateApplicableGenders(['kids', 'women']),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should reject unknown or inactive genders', async () => {
+    await expect(
+      service.validateApplicableGenders(['men', 'unisex']),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    const result = await service.checkApplicableGenders(['men', 'unisex']);
+    expect(result).toEqual({
+      valid: false,
+      unknown: ['unisex'],
+      available: ['men', 'women', 'kids'],
+    });
+  });
 });
@@ -1,26 +1,522 @@
-import { Injectable } from '@nestjs/common';
+/* eslint-disable prettier/prettier */
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  Inject,
+  OnModuleInit
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Types } from 'mongoose';
 import { CreateGenderDto } from './dto/create-gender.dto';
 import { UpdateGenderDto } from './dto/update-gender.dto';
+import { GenderQueryDto } from './dto/gender-filter.dto';
+import { GenderListResponseDto, GenderResponseDto, GenderValidationDto } from './dto/gender-response.dto';
+import { GenderRepository } from './gender.repository';
+import { IMAGE_STORAGE, ImageStorage } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+import { ImageUsage } from '../../common/enums/image-usage.enum';
+import { Gender } from '../../common/enums/gender.enum';
+import { generateCacheKey } from '../../common/utils/cache-key.util';
+import { CACHE_KEYS } from '../../common/constants/cache-keys.constants';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
 
 @Injectable()
-export class GenderService {
-  create(createGenderDto: CreateGenderDto) {
-    return 'This action adds a new gender';
+export class GenderService implements OnModuleInit {
+  private readonly logger = new Logger(GenderService.name);
+
+  // Cache TTL constants for different types of data
+  // Cache TTLs in milliseconds, as cache-manager expects
+  private readonly CACHE_TTL = {
+    LIST: 300 * 1000, // 5 minutes for lists
+    DETAIL: 600 * 1000, // 10 minutes for single items
+    ACTIVE: 60 * 1000 // 1 minute for the active names used in validation
+  };
+
+  // Genders inserted on first start so existing applicableGenders values stay valid
+  private readonly DEFAULT_GENDERS: CreateGenderDto[] = [
+    { name: Gender.MEN, displayName: 'Men', sortOrder: 0 },
+    { name: Gender.WOMEN, displayName: 'Women', sortOrder: 1 },
+    { name: Gender.UNISEX, displayName: 'Unisex', sortOrder: 2 }
+  ];
+
+  constructor(
+    private readonly genderRepository: GenderRepository,
+    @Inject(IMAGE_STORAGE) private readonly imageStorage: ImageStorage,
+    private readonly imageValidationService: ImageValidationService,
+    private readonly imageCleanupService: ImageCleanupService,
+    private readonly cacheInvalidation: CacheInvalidationService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache
+  ) {}
+
+  /**
+   * Seed the default genders when they are missing
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.genderRepository.seed(this.DEFAULT_GENDERS);
+    } catch (error) {
+      // Seeding must not prevent the service from starting
+      this.logger.warn(`Failed to seed default genders: ${error.message}`);
+    }
   }
 
-  findAll() {
-    return `This action returns all gender`;
+  /**
+   * Create a new gender with optional image upload
+   */
+  async create(
+    createGenderDto: CreateGenderDto,
+    imageFile?: Express.Multer.File
+  ): Promise<GenderResponseDto> {
+    try {
+      let imageUrl: string | undefined;
+      let uploadedPublicId: string | undefined;
+
+      // Handle image upload if provided
+      if (imageFile) {
+        this.logger.log(`Uploading image for gender: ${createGenderDto.name}`);
+
+        // Check the image by its content and strip its metadata
+        imageFile = this.imageValidationService.sanitize(imageFile, ImageUsage.HERO);
+
+        const uploadResult = await this.imageStorage.upload(imageFile, 'genders');
+        imageUrl = uploadResult.url;
+        uploadedPublicId = uploadResult.publicId;
+
+        this.logger.log(`Image uploaded successfully: ${uploadResult.publicId}`);
+      }
+
+      // A gender that fails to save must not leave its image behind
+      const gender = await this.imageCleanupService.runWithUploads(
+        uploadedPublicId ? [uploadedPublicId] : [],
+        () => this.genderRepository.create({
+          ...createGenderDto,
+          ...(imageUrl && { imageUrl })
+        })
+      );
+
+      // Clear relevant caches
+      await this.clearGenderCache();
+
+      this.logger.log(`Gender created successfully: ${gender.name} (${(gender as any)._id})`);
+
+      return this.mapToResponseDto(gender);
+    } catch (error) {
+      this.logger.error(`Error creating gender: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} gender`;
+  /**
+   * Find all genders with filtering and pagination
+   */
+  async findAll(queryDto: GenderQueryDto): Promise<GenderListResponseDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.GENDER.ALL, { ...queryDto });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<GenderListResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const result = await this.genderRepository.findAll(queryDto);
+
+      const response: GenderListResponseDto = {
+        data: result.data.map(gender => this.mapToResponseDto(gender)),
+        pagination: result.pagination
+      };
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding genders: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  update(id: number, updateGenderDto: UpdateGenderDto) {
-    return `This action updates a #${id} gender`;
+  /**
+   * Find a single gender by ID
+   */
+  async findOne(id: string): Promise<GenderResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      const cacheKey = generateCacheKey(CACHE_KEYS.GENDER.BY_ID, { id });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<GenderResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const gender = await this.genderRepository.findById(id);
+
+      const response = this.mapToResponseDto(gender);
+
+      // Cache with longer TTL for single items
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding gender ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} gender`;
+  /**
+   * Find a gender by slug
+   */
+  async findBySlug(slug: string): Promise<GenderResponseDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.GENDER.BY_SLUG, { slug });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<GenderResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const gender = await this.genderRepository.findBySlug(slug);
+
+      const response = this.mapToResponseDto(gender);
+
+      // Cache with longer TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding gender by slug ${slug}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a gender with optional image upload
+   */
+  async update(
+    id: string,
+    updateGenderDto: UpdateGenderDto,
+    imageFile?: Express.Multer.File
+  ): Promise<GenderResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      let imageUrl: string | undefined;
+      let oldImagePublicId: string | undefined;
+      let uploadedPublicId: string | undefined;
+
+      // Handle image upload if provided
+      if (imageFile) {
+        this.logger.log(`Uploading new image for gender: ${id}`);
+
+        // Check the image by its content and strip its metadata
+        imageFile = this.imageValidationService.sanitize(imageFile, ImageUsage.HERO);
+
+        const currentGender = await this.genderRepository.findById(id);
+        if (currentGender.imageUrl) {
+          oldImagePublicId = this.imageStorage.extractPublicId(currentGender.imageUrl);
+        }
+
+        // Upload new image to image storage
+        const uploadResult = await this.imageStorage.upload(imageFile, 'genders');
+        imageUrl = uploadResult.url;
+        uploadedPublicId = uploadResult.publicId;
+
+        this.logger.log(`New image uploaded successfully: ${uploadResult.publicId}`);
+      }
+
+      const updatedGender = await this.imageCleanupService.runWithUploads(
+        uploadedPublicId ? [uploadedPublicId] : [],
+        () => this.genderRepository.update(id, {
+          ...updateGenderDto,
+          ...(imageUrl && { imageUrl })
+        })
+      );
+
+      // Delete the replaced image once the gender no longer references it; failures are retried
+      if (oldImagePublicId) {
+        await this.imageCleanupService.deleteImages([oldImagePublicId], ImageDeletionReason.REPLACED);
+      }
+
+      // Clear relevant caches
+      await this.clearGenderCache(id);
+
+      this.logger.log(`Gender updated successfully: ${updatedGender.name} (${id})`);
+
+      return this.mapToResponseDto(updatedGender);
+    } catch (error) {
+      this.logger.error(`Error updating gender ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete a gender; existing applicableGenders references are kept but no longer accepted on writes
+   */
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      const deletedGender = await this.genderRepository.softDelete(id);
+
+      // Clear relevant caches
+      await this.clearGenderCache(id);
+
+      this.logger.log(`Gender soft deleted successfully: ${deletedGender.name} (${id})`);
+
+      return { message: 'Gender deleted successfully' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error deleting gender ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a soft-deleted gender
+   */
+  async restore(id: string): Promise<GenderResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      const restoredGender = await this.genderRepository.restore(id);
+
+      // Clear relevant caches
+      await this.clearGenderCache(id);
+
+      this.logger.log(`Gender restored successfully: ${restoredGender.name} (${id})`);
+
+      return this.mapToResponseDto(restoredGender);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository errors
+      }
+      this.logger.error(`Error restoring gender ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Hard delete a gender and its image (permanent)
+   */
+  async hardDelete(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      const deletedGender = await this.genderRepository.hardDelete(id);
+
+      // Delete image from image storage if it exists
+      if (deletedGender.imageUrl) {
+        await this.imageCleanupService.deleteImages(
+          [this.imageStorage.extractPublicId(deletedGender.imageUrl)],
+          ImageDeletionReason.REMOVED
+        );
+      }
+
+      // Clear relevant caches
+      await this.clearGenderCache(id);
+
+      this.logger.log(`Gender hard deleted successfully: (${id})`);
+
+      return { message: 'Gender permanently deleted' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error hard deleting gender ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update gender status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<GenderResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid gender ID format');
+      }
+
+      const updatedGender = await this.genderRepository.updateStatus(id, status);
+
+      // Clear relevant caches
+      await this.clearGenderCache(id);
+
+      this.logger.log(`Gender status updated: ${updatedGender.name} (${id}) -> ${status}`);
+
+      return this.mapToResponseDto(updatedGender);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error updating gender status ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update sort order for multiple genders
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<{ message: string; updated: number }> {
+    try {
+      // Validate all IDs upfront
+      const invalidIds = updates.filter(update => !Types.ObjectId.isValid(update.id));
+      if (invalidIds.length > 0) {
+        throw new BadRequestException(`Invalid ID format: ${invalidIds.map(u => u.id).join(', ')}`);
+      }
+
+      await this.genderRepository.updateSortOrder(updates);
+
+      // Clear relevant caches
+      await this.clearGenderCache();
+
+      this.logger.log(`Sort order updated for ${updates.length} genders`);
+
+      return {
+        message: 'Sort order updated successfully',
+        updated: updates.length
+      };
+    } catch (error) {
+      this.logger.error(`Error updating gender sort order: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the names of all active genders
+   */
+  async getActiveNames(): Promise<string[]> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.GENDER.ACTIVE);
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<string[]>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const names = await this.genderRepository.findActiveNames();
+
+      // Keep this short-lived: it gates every write that carries applicableGenders
+      await this.cacheManager.set(cacheKey, names, this.CACHE_TTL.ACTIVE);
+
+      return names;
+    } catch (error) {
+      this.logger.error(`Error getting active gender names: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Check applicableGenders values against the active gender records
+   */
+  async checkApplicableGenders(values: string[] = []): Promise<GenderValidationDto> {
+    const available = await this.getActiveNames();
+    const unknown = [...new Set(values)].filter(value => !available.includes(value));
+
+    return {
+      valid: unknown.length === 0,
+      unknown,
+      available
+    };
+  }
+
+  /**
+   * Throw when any applicableGenders value is not an active gender
+   */
+  async validateApplicableGenders(values?: string[]): Promise<void> {
+    if (!values?.length) {
+      return;
+    }
+
+    const { valid, unknown, available } = await this.checkApplicableGenders(values);
+
+    if (!valid) {
+      throw new BadRequestException(
+        `Unknown or inactive gender(s): ${unknown.join(', ')}. Allowed values: ${available.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Map gender document to response DTO
+   */
+  private mapToResponseDto(gender: any): GenderResponseDto {
+    return {
+      _id: gender._id?.toString() || gender.id?.toString(),
+      name: gender.name,
+      slug: gender.slug,
+      displayName: gender.displayName,
+      description: gender.description,
+      status: gender.status,
+      sortOrder: gender.sortOrder,
+      colorTheme: gender.colorTheme,
+      imageUrl: gender.imageUrl,
+      icon: gender.icon,
+      metadata: gender.metadata,
+      isDeleted: gender.isDeleted,
+      deletedAt: gender.deletedAt,
+      createdAt: gender.createdAt,
+      updatedAt: gender.updatedAt
+    };
+  }
+
+  /**
+   * Drop cached gender data after writes made outside this service (e.g. catalog snapshot imports)
+   */
+  async invalidateCache(genderIds: string[] = []): Promise<void> {
+    await Promise.all([undefined, ...genderIds].map(id => this.clearGenderCache(id)));
+  }
+
+  /**
+   * Clear gender-related cache
+   */
+  private async clearGenderCache(genderId?: string): Promise<void> {
+    try {
+      const cacheKeys = new Set<string>([
+        CACHE_KEYS.GENDER.ALL,
+        CACHE_KEYS.GENDER.ACTIVE
+      ]);
+
+      if (genderId) {
+        cacheKeys.add(generateCacheKey(CACHE_KEYS.GENDER.BY_ID, { id: genderId }));
+      }
+
+      await this.cacheInvalidation.invalidate({ keys: Array.from(cacheKeys) });
+    } catch (error) {
+      this.logger.warn(`Error clearing gender cache: ${error.message}`);
+    }
   }
 }
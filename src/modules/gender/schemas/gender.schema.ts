@@ -1,7 +1,6 @@
 /* eslint-disable prettier/prettier */
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
-import { Gender as GenderEnum } from '../../../common/enums/gender.enum';
 import { CategoryStatus } from '../../../common/enums/category-status.enum';
 
 export type GenderDocument = GenderEntity & Document;
@@ -17,9 +16,10 @@ export class GenderEntity {
     required: true, 
     unique: true, 
     type: String, 
-    enum: GenderEnum 
+    trim: true,
+    lowercase: true
   })
-  name: GenderEnum;
+  name: string; // e.g., 'men', 'women'; referenced by applicableGenders
 
   @Prop({ required: true, unique: true, lowercase: true })
   slug: string;
@@ -0,0 +1,26 @@
+/* eslint-disable prettier/prettier */
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { IdempotencyRecord, IdempotencyRecordSchema } from './schemas/idempotency-record.schema';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyService } from './idempotency.service';
+
+/**
+ * Stored responses of idempotent writes; global so @Idempotent can be applied in any module
+ */
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: IdempotencyRecord.name, schema: IdempotencyRecordSchema }
+    ])
+  ],
+  providers: [
+    IdempotencyRepository,
+    IdempotencyService
+  ],
+  exports: [
+    IdempotencyService
+  ]
+})
+export class IdempotencyModule {}
@@ -0,0 +1,74 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { IdempotencyRecord, IdempotencyRecordDocument } from './schemas/idempotency-record.schema';
+import { IdempotencyRecordStatus } from '../../common/enums/idempotency-record-status.enum';
+
+@Injectable()
+export class IdempotencyRepository {
+  private readonly logger = new Logger(IdempotencyRepository.name);
+
+  constructor(
+    @InjectModel(IdempotencyRecord.name) private idempotencyRecordModel: Model<IdempotencyRecordDocument>,
+  ) {}
+
+  /**
+   * Claim a key for a request about to run
+   * @returns The claimed record, or null when the key is already taken
+   */
+  async claim(key: string, requestHash: string, lockedUntil: Date, expiresAt: Date): Promise<IdempotencyRecordDocument | null> {
+    try {
+      return await this.idempotencyRecordModel.create({ key, requestHash, lockedUntil, expiresAt });
+    } catch (error) {
+      if (error.code === 11000) {
+        return null;
+      }
+      this.logger.error(`Error claiming idempotency key ${key}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Take over a key whose request died while in progress, or whose record expired but was not yet removed
+   */
+  async reclaim(key: string, requestHash: string, lockedUntil: Date, expiresAt: Date): Promise<IdempotencyRecordDocument | null> {
+    const now = new Date();
+
+    return this.idempotencyRecordModel
+      .findOneAndUpdate(
+        {
+          key,
+          $or: [
+            { status: IdempotencyRecordStatus.PROCESSING, lockedUntil: { $lte: now } },
+            { expiresAt: { $lte: now } }
+          ]
+        },
+        {
+          $set: { requestHash, status: IdempotencyRecordStatus.PROCESSING, lockedUntil, expiresAt },
+          $unset: { response: 1 }
+        },
+        { new: true }
+      )
+      .exec();
+  }
+
+  async findByKey(key: string): Promise<IdempotencyRecordDocument | null> {
+    return this.idempotencyRecordModel.findOne({ key }).exec();
+  }
+
+  async complete(key: string, response: unknown): Promise<void> {
+    await this.idempotencyRecordModel
+      .updateOne({ key }, { $set: { status: IdempotencyRecordStatus.COMPLETED, response } })
+      .exec();
+  }
+
+  /**
+   * Release a key whose request failed, so a retry runs it again
+   */
+  async release(key: string): Promise<void> {
+    await this.idempotencyRecordModel
+      .deleteOne({ key, status: IdempotencyRecordStatus.PROCESSING })
+      .exec();
+  }
+}
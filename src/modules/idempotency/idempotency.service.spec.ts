@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyRecordStatus } from '../../common/enums/idempotency-record-status.enum';
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+  let stored: Record<string, any>;
+  let repository: {
+    claim: jest.Mock;
+    reclaim: jest.Mock;
+    findByKey: jest.Mock;
+    complete: jest.Mock;
+    release: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    stored = null;
+    repository = {
+      claim: jest.fn().mockImplementation(async (key, requestHash) => {
+        if (stored) {
+          return null;
+        }
+        stored = {
+          key,
+          requestHash,
+          status: IdempotencyRecordStatus.PROCESSING,
+        };
+        return stored;
+      }),
+      reclaim: jest.fn().mockResolvedValue(null),
+      findByKey: jest.fn().mockImplementation(async () => stored),
+      complete: jest.fn().mockImplementation(async (_key, response) => {
+        stored = {
+          ...stored,
+          status: IdempotencyRecordStatus.COMPLETED,
+          response,
+        };
+      }),
+      release: jest.fn().mockImplementation(async () => {
+        stored = null;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: IdempotencyRepository, useValue: repository },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest
+              .fn()
+              .mockReturnValue({ ttlSeconds: 60, lockTimeoutSeconds: 10 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  it('should run the operation once and replay the stored response', async () => {
+    const operation = jest
+      .fn()
+      .mockResolvedValue({ _id: 'cat-1', createdAt: new Date(0) });
+
+    const first = await service.execute(
+      'create:user-1:key-1',
+      'hash',
+      operation,
+    );
+    const retry = await service.execute(
+      'create:user-1:key-1',
+      'hash',
+      operation,
+    );
+
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(first.replayed).toBe(false);
+    expect(retry).toEqual({
+      response: { _id: 'cat-1', createdAt: new Date(0).toISOString() },
+      replayed: true,
+    });
+  });
+
+  it('should refuse a key reused for a different request', async () => {
+    await service.execute('create:user-1:key-1', 'hash', async () => ({}));
+
+    await expect(
+      service.execute('create:user-1:key-1', 'other-hash', async () => ({})),
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+  });
+
+  it('should reject a retry while the first request is still running', async () => {
+    stored = {
+      key: 'create:user-1:key-1',
+      requestHash: 'hash',
+      status: IdempotencyRecordStatus.PROCESSING,
+    };
+
+    await expect(
+      service.execute('create:user-1:key-1', 'hash', async () => ({})),
+    ).rejects.toBeInstanceOf(ConflictException);
+  });
+
+  it('should release the key when the operation fails so a retry runs it', async () => {
+    await expect(
+      service.execute('create:user-1:key-1', 'hash', async () => {
+        throw new Error('upload failed');
+      }),
+    ).rejects.toThrow('upload failed');
+
+    const retry = await service.execute(
+      'create:user-1:key-1',
+      'hash',
+      async () => ({ _id: 'cat-1' }),
+    );
+
+    expect(repository.release).toHaveBeenCalledWith('create:user-1:key-1');
+    expect(retry).toEqual({ response: { _id: 'cat-1' }, replayed: false });
+  });
+});
@@ -0,0 +1,83 @@
+/* eslint-disable prettier/prettier */
+import { ConflictException, Injectable, Logger, UnprocessableEntityException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IdempotencyRepository } from './idempotency.repository';
+import { IdempotencyConfig } from '../../config/idempotency.config';
+import { IdempotencyRecordStatus } from '../../common/enums/idempotency-record-status.enum';
+
+export interface IdempotentResult<T> {
+  response: T;
+  // True when the response is the stored one of an earlier request with the same key
+  replayed: boolean;
+}
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly config: IdempotencyConfig;
+
+  constructor(
+    private readonly idempotencyRepository: IdempotencyRepository,
+    private readonly configService: ConfigService,
+  ) {
+    this.config = this.configService.get<IdempotencyConfig>('idempotency') ?? { ttlSeconds: 86400, lockTimeoutSeconds: 120 };
+  }
+
+  /**
+   * Run the operation once per key; a retry of the same request gets the stored response
+   * @param key Idempotency key, scoped to the operation and caller
+   * @param requestHash Fingerprint of the request, so a key reused for another request is refused
+   */
+  async execute<T>(key: string, requestHash: string, operation: () => Promise<T>): Promise<IdempotentResult<T>> {
+    const now = Date.now();
+    const lockedUntil = new Date(now + this.config.lockTimeoutSeconds * 1000);
+    const expiresAt = new Date(now + this.config.ttlSeconds * 1000);
+
+    const claimed = await this.idempotencyRepository.claim(key, requestHash, lockedUntil, expiresAt)
+      ?? await this.idempotencyRepository.reclaim(key, requestHash, lockedUntil, expiresAt);
+
+    if (!claimed) {
+      return { response: await this.replay<T>(key, requestHash), replayed: true };
+    }
+
+    let response: T;
+    try {
+      response = await operation();
+    } catch (error) {
+      await this.idempotencyRepository.release(key).catch(releaseError =>
+        this.logger.error(`Error releasing idempotency key ${key}: ${releaseError.message}`, releaseError.stack)
+      );
+      throw error;
+    }
+
+    try {
+      // Stored as JSON, exactly as the response is sent
+      await this.idempotencyRepository.complete(key, JSON.parse(JSON.stringify(response ?? null)));
+    } catch (error) {
+      // The write went through; a retry after the lock timeout would run it again
+      this.logger.error(`Error storing response for idempotency key ${key}: ${error.message}`, error.stack);
+    }
+
+    return { response, replayed: false };
+  }
+
+  private async replay<T>(key: string, requestHash: string): Promise<T> {
+    const record = await this.idempotencyRepository.findByKey(key);
+
+    if (!record) {
+      // Released by a failed request in the meantime
+      throw new ConflictException('A request with this Idempotency-Key has just failed; retry it');
+    }
+
+    if (record.requestHash !== requestHash) {
+      throw new UnprocessableEntityException('Idempotency-Key has already been used for a different request');
+    }
+
+    if (record.status !== IdempotencyRecordStatus.COMPLETED) {
+      throw new ConflictException('A request with this Idempotency-Key is still in progress');
+    }
+
+    this.logger.log(`Replaying stored response for idempotency key ${key}`);
+    return record.response as T;
+  }
+}
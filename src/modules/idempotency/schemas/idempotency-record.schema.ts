@@ -0,0 +1,46 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { IdempotencyRecordStatus } from '../../../common/enums/idempotency-record-status.enum';
+
+export type IdempotencyRecordDocument = IdempotencyRecord & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'idempotency_records'
+})
+export class IdempotencyRecord {
+  @Prop({ required: true, type: String })
+  key: string; // <operation>:<caller>:<Idempotency-Key>
+
+  @Prop({ required: true, type: String })
+  requestHash: string; // SHA-256 of the request, so a key reused for a different request is refused
+
+  @Prop({
+    type: String,
+    enum: IdempotencyRecordStatus,
+    default: IdempotencyRecordStatus.PROCESSING
+  })
+  status: IdempotencyRecordStatus;
+
+  @Prop({ type: MongooseSchema.Types.Mixed, required: false })
+  response?: unknown;
+
+  @Prop({ type: Date, required: true })
+  lockedUntil: Date;
+
+  @Prop({ type: Date, required: true })
+  expiresAt: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  updatedAt: Date;
+}
+
+export const IdempotencyRecordSchema = SchemaFactory.createForClass(IdempotencyRecord);
+
+IdempotencyRecordSchema.index({ key: 1 }, { unique: true });
+// MongoDB removes records once their window has passed
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
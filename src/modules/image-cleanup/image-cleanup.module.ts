@@ -0,0 +1,39 @@
+/* eslint-disable prettier/prettier */
+import { Global, Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ImageDeletion, ImageDeletionSchema } from './schemas/image-deletion.schema';
+import { Category, CategorySchema } from '../categories/schemas/category.schema';
+import { Subcategory, SubcategorySchema } from '../subcategories/schema/subcategory.schema';
+import { Collection, CollectionSchema } from '../collections/schemas/collection.schema';
+import { GenderEntity, GenderSchema } from '../gender/schemas/gender.schema';
+import { ImageDeletionRepository } from './image-deletion.repository';
+import { ImageReferenceRepository } from './image-reference.repository';
+import { ImageCleanupService } from './image-cleanup.service';
+import { ImageReconciliationService } from './image-reconciliation.service';
+
+/**
+ * Deletion of unreferenced images with retries, and reconciliation of stored images with the
+ * catalog; global so every module that uploads images can release them
+ */
+@Global()
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: ImageDeletion.name, schema: ImageDeletionSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: Subcategory.name, schema: SubcategorySchema },
+      { name: Collection.name, schema: CollectionSchema },
+      { name: GenderEntity.name, schema: GenderSchema }
+    ])
+  ],
+  providers: [
+    ImageDeletionRepository,
+    ImageReferenceRepository,
+    ImageCleanupService,
+    ImageReconciliationService
+  ],
+  exports: [
+    ImageCleanupService
+  ]
+})
+export class ImageCleanupModule {}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ImageCleanupService } from './image-cleanup.service';
+import { ImageDeletionRepository } from './image-deletion.repository';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+
+describe('ImageCleanupService', () => {
+  let service: ImageCleanupService;
+  let repository: Record<string, jest.Mock>;
+  let imageStorage: { driver: ImageStorageDriver; delete: jest.Mock };
+
+  beforeEach(async () => {
+    repository = {
+      enqueue: jest.fn(),
+      findDue: jest.fn(),
+      remove: jest.fn(),
+      markForRetry: jest.fn(),
+      markFailed: jest.fn(),
+    };
+    imageStorage = {
+      driver: ImageStorageDriver.LOCAL,
+      delete: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageCleanupService,
+        { provide: ImageDeletionRepository, useValue: repository },
+        { provide: IMAGE_STORAGE, useValue: imageStorage },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue({
+              retryEnabled: true,
+              retryInterval: 60000,
+              batchSize: 50,
+              maxAttempts: 3,
+              retryBaseDelay: 1000,
+              retryMaxDelay: 60000,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImageCleanupService>(ImageCleanupService);
+  });
+
+  it('should delete the uploads of a failed write and rethrow its error', async () => {
+    const failure = new Error('E11000 duplicate key');
+
+    await expect(
+      service.runWithUploads(['categories/a.png'], () =>
+        Promise.reject(failure),
+      ),
+    ).rejects.toBe(failure);
+
+    expect(imageStorage.delete).toHaveBeenCalledWith('categories/a.png');
+    expect(repository.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should queue only the deletions that failed', async () => {
+    imageStorage.delete.mockImplementation(async (publicId: string) => {
+      if (publicId === 'categories/b.png') {
+        throw new Error('storage unavailable');
+      }
+    });
+
+    await service.deleteImages(
+      ['categories/a.png', 'categories/b.png', null, 'categories/a.png'],
+      ImageDeletionReason.REPLACED,
+    );
+
+    expect(imageStorage.delete).toHaveBeenCalledTimes(2);
+    expect(repository.enqueue).toHaveBeenCalledWith(
+      [{ publicId: 'categories/b.png', lastError: 'storage unavailable' }],
+      ImageStorageDriver.LOCAL,
+      ImageDeletionReason.REPLACED,
+      expect.any(Date),
+    );
+  });
+
+  it('should not fail the caller when the queue is unavailable', async () => {
+    imageStorage.delete.mockRejectedValue(new Error('storage unavailable'));
+    repository.enqueue.mockRejectedValue(new Error('connection reset'));
+
+    await expect(
+      service.deleteImages(['categories/a.png'], ImageDeletionReason.REMOVED),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should remove deleted entries and back off or give up on the others', async () => {
+    repository.findDue.mockResolvedValue([
+      { _id: 'd1', publicId: 'categories/a.png', attempts: 1 },
+      { _id: 'd2', publicId: 'categories/b.png', attempts: 1 },
+      { _id: 'd3', publicId: 'categories/c.png', attempts: 2 },
+    ]);
+    imageStorage.delete.mockImplementation(async (publicId: string) => {
+      if (publicId !== 'categories/a.png') {
+        throw new Error('storage unavailable');
+      }
+    });
+
+    const result = await service.retryPending();
+
+    expect(result).toEqual({ deleted: 1, retried: 1, failed: 1 });
+    expect(repository.findDue).toHaveBeenCalledWith(
+      ImageStorageDriver.LOCAL,
+      50,
+    );
+    expect(repository.remove).toHaveBeenCalledWith('d1');
+    expect(repository.markForRetry).toHaveBeenCalledWith(
+      'd2',
+      2,
+      expect.any(Date),
+      'storage unavailable',
+    );
+    expect(repository.markFailed).toHaveBeenCalledWith(
+      'd3',
+      3,
+      'storage unavailable',
+    );
+  });
+});
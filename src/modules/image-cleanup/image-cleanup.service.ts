@@ -0,0 +1,157 @@
+/* eslint-disable prettier/prettier */
+import { Inject, Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ImageDeletionRepository } from './image-deletion.repository';
+import { ImageDeletion } from './schemas/image-deletion.schema';
+import { IMAGE_STORAGE, ImageStorage } from '../storage/image-storage';
+import { ImageCleanupConfig } from '../../config/image-cleanup.config';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+
+export interface ImageDeletionRetryResult {
+  deleted: number;
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Deletes images the catalog no longer references. Deletions that fail are queued in
+ * image_deletions and retried with exponential backoff, so storage does not fill with orphans
+ * whenever the storage provider has a bad moment.
+ */
+@Injectable()
+export class ImageCleanupService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ImageCleanupService.name);
+  private readonly cleanupConfig: ImageCleanupConfig;
+  private retryTimer?: NodeJS.Timeout;
+  private retrying = false;
+
+  constructor(
+    private readonly imageDeletionRepository: ImageDeletionRepository,
+    @Inject(IMAGE_STORAGE) private readonly imageStorage: ImageStorage,
+    private readonly configService: ConfigService
+  ) {
+    this.cleanupConfig = this.configService.get<ImageCleanupConfig>('imageCleanup');
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.cleanupConfig.retryEnabled) {
+      this.logger.log('Image deletion retries disabled on this instance');
+      return;
+    }
+
+    this.retryTimer = setInterval(() => void this.retryPending(), this.cleanupConfig.retryInterval);
+    this.logger.log(`Image deletion retries started (every ${this.cleanupConfig.retryInterval}ms)`);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.retryTimer);
+  }
+
+  /**
+   * Run a write that references freshly uploaded images; if the write fails, the uploads are
+   * deleted before its error is rethrown
+   */
+  async runWithUploads<T>(publicIds: string[], write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      await this.deleteImages(publicIds, ImageDeletionReason.ABANDONED);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete images from storage; never throws, so callers can run it after their write succeeded
+   * or while unwinding a failed one
+   */
+  async deleteImages(publicIds: (string | null | undefined)[], reason: ImageDeletionReason): Promise<void> {
+    const uniquePublicIds = [...new Set(publicIds.filter(Boolean))];
+
+    const outcomes = await Promise.allSettled(
+      uniquePublicIds.map(publicId => this.imageStorage.delete(publicId))
+    );
+
+    const failures = outcomes.flatMap((outcome, index) => outcome.status === 'rejected'
+      ? [{ publicId: uniquePublicIds[index], lastError: outcome.reason?.message ?? String(outcome.reason) }]
+      : []
+    );
+
+    if (failures.length === 0) {
+      return;
+    }
+
+    const failedPublicIds = failures.map(failure => failure.publicId).join(', ');
+    try {
+      const nextAttemptAt = new Date(Date.now() + this.getRetryDelay(1));
+      await this.imageDeletionRepository.enqueue(failures, this.imageStorage.driver, reason, nextAttemptAt);
+      this.logger.warn(`Failed to delete ${reason} images, retrying at ${nextAttemptAt.toISOString()}: ${failedPublicIds}`);
+    } catch (error) {
+      // Reconciliation still finds these images once they are unreferenced
+      this.logger.error(`Error queueing ${reason} images for deletion (${failedPublicIds}): ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * Retry the queued deletions that are due
+   */
+  async retryPending(): Promise<ImageDeletionRetryResult> {
+    const result: ImageDeletionRetryResult = { deleted: 0, retried: 0, failed: 0 };
+
+    // Skip the tick while the previous one is still deleting
+    if (this.retrying) {
+      return result;
+    }
+
+    this.retrying = true;
+    try {
+      const deletions = await this.imageDeletionRepository.findDue(this.imageStorage.driver, this.cleanupConfig.batchSize);
+
+      for (const deletion of deletions) {
+        result[await this.retry(deletion)]++;
+      }
+
+      if (deletions.length > 0) {
+        this.logger.log(`Image deletion retries: ${result.deleted} deleted, ${result.retried} retrying, ${result.failed} failed`);
+      }
+    } catch (error) {
+      this.logger.error(`Error retrying image deletions: ${error.message}`, error.stack);
+    } finally {
+      this.retrying = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Retry one deletion and record the outcome; after maxAttempts it is marked failed
+   */
+  private async retry(deletion: ImageDeletion & { _id?: any }): Promise<keyof ImageDeletionRetryResult> {
+    const id = String(deletion._id);
+
+    try {
+      await this.imageStorage.delete(deletion.publicId);
+      await this.imageDeletionRepository.remove(id);
+      return 'deleted';
+    } catch (error) {
+      const attempts = deletion.attempts + 1;
+
+      if (attempts >= this.cleanupConfig.maxAttempts) {
+        await this.imageDeletionRepository.markFailed(id, attempts, error.message);
+        this.logger.error(`Deleting image ${deletion.publicId} failed after ${attempts} attempts: ${error.message}`);
+        return 'failed';
+      }
+
+      const nextAttemptAt = new Date(Date.now() + this.getRetryDelay(attempts));
+      await this.imageDeletionRepository.markForRetry(id, attempts, nextAttemptAt, error.message);
+      return 'retried';
+    }
+  }
+
+  /**
+   * Exponential backoff capped at retryMaxDelay
+   */
+  private getRetryDelay(attempts: number): number {
+    const { retryBaseDelay, retryMaxDelay } = this.cleanupConfig;
+    return Math.min(retryBaseDelay * 2 ** (attempts - 1), retryMaxDelay);
+  }
+}
@@ -0,0 +1,104 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ImageDeletion, ImageDeletionDocument } from './schemas/image-deletion.schema';
+import { ImageDeletionStatus } from '../../common/enums/image-deletion-status.enum';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+
+export interface FailedImageDeletion {
+  publicId: string;
+  lastError: string;
+}
+
+@Injectable()
+export class ImageDeletionRepository {
+  private readonly logger = new Logger(ImageDeletionRepository.name);
+
+  constructor(
+    @InjectModel(ImageDeletion.name) private imageDeletionModel: Model<ImageDeletionDocument>,
+  ) {}
+
+  /**
+   * Queue deletions whose first attempt failed; images already queued keep their entry
+   */
+  async enqueue(
+    deletions: FailedImageDeletion[],
+    driver: ImageStorageDriver,
+    reason: ImageDeletionReason,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    try {
+      if (deletions.length === 0) {
+        return;
+      }
+
+      await this.imageDeletionModel.bulkWrite(
+        deletions.map(({ publicId, lastError }) => ({
+          updateOne: {
+            filter: { driver, publicId },
+            update: {
+              $setOnInsert: { reason, status: ImageDeletionStatus.PENDING, attempts: 1, nextAttemptAt, lastError }
+            },
+            upsert: true
+          }
+        })),
+        { ordered: false }
+      );
+    } catch (error) {
+      this.logger.error(`Error queueing image deletions: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find pending deletions of a driver that are due, oldest first
+   */
+  async findDue(driver: ImageStorageDriver, limit: number, now: Date = new Date()): Promise<ImageDeletion[]> {
+    try {
+      const deletions = await this.imageDeletionModel
+        .find({ status: ImageDeletionStatus.PENDING, driver, nextAttemptAt: { $lte: now } })
+        .sort({ nextAttemptAt: 1 })
+        .limit(limit)
+        .lean()
+        .exec();
+
+      return deletions as ImageDeletion[];
+    } catch (error) {
+      this.logger.error(`Error finding due image deletions: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a deletion from the queue once the image is gone
+   */
+  async remove(id: string): Promise<void> {
+    await this.imageDeletionModel.deleteOne({ _id: id }).exec();
+  }
+
+  /**
+   * Schedule another attempt for a deletion
+   */
+  async markForRetry(id: string, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    await this.imageDeletionModel
+      .updateOne(
+        { _id: id },
+        { attempts, nextAttemptAt, lastError, updatedAt: new Date() }
+      )
+      .exec();
+  }
+
+  /**
+   * Give up on a deletion after it exhausted its attempts; it stays queued for inspection
+   */
+  async markFailed(id: string, attempts: number, lastError: string): Promise<void> {
+    await this.imageDeletionModel
+      .updateOne(
+        { _id: id },
+        { status: ImageDeletionStatus.FAILED, attempts, lastError, updatedAt: new Date() }
+      )
+      .exec();
+  }
+}
@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ImageReconciliationService } from './image-reconciliation.service';
+import { ImageReferenceRepository } from './image-reference.repository';
+import { ImageCleanupService } from './image-cleanup.service';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+
+describe('ImageReconciliationService', () => {
+  let service: ImageReconciliationService;
+  let imageStorage: Record<string, jest.Mock>;
+  let imageCleanupService: Record<string, jest.Mock>;
+
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    imageStorage = {
+      list: jest.fn().mockResolvedValue([
+        { publicId: 'categories/hero', createdAt: daysAgo(10) },
+        { publicId: 'categories/gallery', createdAt: daysAgo(10) },
+        { publicId: 'categories/orphan', createdAt: daysAgo(10) },
+        { publicId: 'categories/uploading', createdAt: new Date() },
+      ]),
+      extractPublicId: jest.fn((url: string) =>
+        url.replace('https://cdn.test/', ''),
+      ),
+    };
+    imageCleanupService = { deleteImages: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageReconciliationService,
+        {
+          provide: ImageReferenceRepository,
+          useValue: {
+            findImageReferences: jest.fn().mockResolvedValue({
+              imageUrls: ['https://cdn.test/categories/hero'],
+              publicIds: ['categories/gallery'],
+            }),
+          },
+        },
+        { provide: ImageCleanupService, useValue: imageCleanupService },
+        { provide: IMAGE_STORAGE, useValue: imageStorage },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue({
+              reconcileEnabled: true,
+              reconcileInterval: 86400000,
+              reconcileFolders: ['categories'],
+              purgeOrphans: false,
+              orphanGracePeriod: 86400000,
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImageReconciliationService>(
+      ImageReconciliationService,
+    );
+  });
+
+  it('should report unreferenced images past the grace period without deleting them', async () => {
+    const report = await service.reconcile();
+
+    expect(imageStorage.list).toHaveBeenCalledWith('categories');
+    expect(report).toEqual({
+      folders: ['categories'],
+      stored: 4,
+      referenced: 2,
+      recent: 1,
+      orphans: ['categories/orphan'],
+      purged: false,
+    });
+    expect(imageCleanupService.deleteImages).not.toHaveBeenCalled();
+  });
+
+  it('should purge orphans when asked to', async () => {
+    const report = await service.reconcile(true);
+
+    expect(report.purged).toBe(true);
+    expect(imageCleanupService.deleteImages).toHaveBeenCalledWith(
+      ['categories/orphan'],
+      ImageDeletionReason.ORPHANED,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+/* eslint-disable prettier/prettier */
+import { Inject, Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ImageReferenceRepository } from './image-reference.repository';
+import { ImageCleanupService } from './image-cleanup.service';
+import { IMAGE_STORAGE, ImageStorage } from '../storage/image-storage';
+import { ImageCleanupConfig } from '../../config/image-cleanup.config';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+
+export interface ImageReconciliationReport {
+  folders: string[];
+  stored: number;
+  referenced: number;
+  recent: number; // unreferenced, but still within the grace period
+  orphans: string[];
+  purged: boolean;
+}
+
+// Orphans named in the log; the report returned has all of them
+const LOGGED_ORPHANS = 20;
+
+/**
+ * Compares the images stored under the configured folders with the images the catalog
+ * references, and reports or purges the ones nothing references. Catches what compensating
+ * deletes cannot: uploads of a process that died mid-write, or queue entries that never made it.
+ */
+@Injectable()
+export class ImageReconciliationService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ImageReconciliationService.name);
+  private readonly cleanupConfig: ImageCleanupConfig;
+  private reconcileTimer?: NodeJS.Timeout;
+  private reconciling = false;
+
+  constructor(
+    private readonly imageReferenceRepository: ImageReferenceRepository,
+    private readonly imageCleanupService: ImageCleanupService,
+    @Inject(IMAGE_STORAGE) private readonly imageStorage: ImageStorage,
+    private readonly configService: ConfigService
+  ) {
+    this.cleanupConfig = this.configService.get<ImageCleanupConfig>('imageCleanup');
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.cleanupConfig.reconcileEnabled) {
+      return;
+    }
+
+    this.reconcileTimer = setInterval(() => void this.runScheduled(), this.cleanupConfig.reconcileInterval);
+    this.logger.log(
+      `Image reconciliation of ${this.cleanupConfig.reconcileFolders.join(', ')} scheduled every ${this.cleanupConfig.reconcileInterval}ms ` +
+      `(${this.cleanupConfig.purgeOrphans ? 'purging' : 'reporting'} orphans)`
+    );
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.reconcileTimer);
+  }
+
+  /**
+   * Find the unreferenced images under the configured folders, deleting them when purge is set
+   */
+  async reconcile(purge: boolean = this.cleanupConfig.purgeOrphans): Promise<ImageReconciliationReport> {
+    try {
+      const folders = this.cleanupConfig.reconcileFolders;
+      const stored = (await Promise.all(folders.map(folder => this.imageStorage.list(folder)))).flat();
+
+      const references = await this.imageReferenceRepository.findImageReferences();
+      const referenced = new Set([
+        ...references.publicIds,
+        ...references.imageUrls.map(imageUrl => this.imageStorage.extractPublicId(imageUrl)).filter(Boolean)
+      ]);
+
+      // Young images may belong to a write that has uploaded but not yet saved
+      const cutoff = Date.now() - this.cleanupConfig.orphanGracePeriod;
+      const unreferenced = stored.filter(image => !referenced.has(image.publicId));
+      const orphans = unreferenced
+        .filter(image => !image.createdAt || image.createdAt.getTime() < cutoff)
+        .map(image => image.publicId);
+
+      const report: ImageReconciliationReport = {
+        folders,
+        stored: stored.length,
+        referenced: stored.length - unreferenced.length,
+        recent: unreferenced.length - orphans.length,
+        orphans,
+        purged: purge && orphans.length > 0
+      };
+
+      if (report.purged) {
+        await this.imageCleanupService.deleteImages(orphans, ImageDeletionReason.ORPHANED);
+      }
+
+      this.logReport(report);
+      return report;
+    } catch (error) {
+      this.logger.error(`Error reconciling images: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  private async runScheduled(): Promise<void> {
+    // Skip the run while the previous one is still listing or purging
+    if (this.reconciling) {
+      return;
+    }
+
+    this.reconciling = true;
+    try {
+      await this.reconcile();
+    } catch {
+      // Already logged; the next run tries again
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  private logReport(report: ImageReconciliationReport): void {
+    this.logger.log(
+      `Image reconciliation of ${report.folders.join(', ')}: ${report.stored} stored, ${report.referenced} referenced, ` +
+      `${report.recent} recent, ${report.orphans.length} orphaned${report.purged ? ' and purged' : ''}`
+    );
+
+    if (report.orphans.length > 0 && !report.purged) {
+      const more = report.orphans.length > LOGGED_ORPHANS ? ` and ${report.orphans.length - LOGGED_ORPHANS} more` : '';
+      this.logger.warn(`Orphaned images: ${report.orphans.slice(0, LOGGED_ORPHANS).join(', ')}${more}`);
+    }
+  }
+}
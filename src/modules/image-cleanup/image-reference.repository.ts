@@ -0,0 +1,55 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Category, CategoryDocument } from '../categories/schemas/category.schema';
+import { Subcategory, SubcategoryDocument } from '../subcategories/schema/subcategory.schema';
+import { Collection, CollectionDocument } from '../collections/schemas/collection.schema';
+import { GenderEntity, GenderDocument } from '../gender/schemas/gender.schema';
+
+export interface ImageReferences {
+  imageUrls: string[]; // imageUrl and bannerImageUrl of every catalog entity
+  publicIds: string[]; // public IDs recorded by category media items
+}
+
+@Injectable()
+export class ImageReferenceRepository {
+  private readonly logger = new Logger(ImageReferenceRepository.name);
+
+  constructor(
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(Subcategory.name) private subcategoryModel: Model<SubcategoryDocument>,
+    @InjectModel(Collection.name) private collectionModel: Model<CollectionDocument>,
+    @InjectModel(GenderEntity.name) private genderModel: Model<GenderDocument>,
+  ) {}
+
+  /**
+   * Collect the images referenced across all catalog collections, including soft-deleted
+   * entities, which reference their images again once restored
+   */
+  async findImageReferences(): Promise<ImageReferences> {
+    try {
+      const [categories, subcategories, collections, genders] = await Promise.all([
+        this.categoryModel.find({}, { imageUrl: 1, 'media.url': 1, 'media.publicId': 1 }).lean().exec(),
+        this.subcategoryModel.find({}, { imageUrl: 1 }).lean().exec(),
+        this.collectionModel.find({}, { imageUrl: 1, bannerImageUrl: 1 }).lean().exec(),
+        this.genderModel.find({}, { imageUrl: 1 }).lean().exec()
+      ]);
+
+      const imageUrls = [
+        ...categories.flatMap(category => [category.imageUrl, ...(category.media || []).map(item => item.url)]),
+        ...subcategories.map(subcategory => subcategory.imageUrl),
+        ...collections.flatMap(collection => [collection.imageUrl, collection.bannerImageUrl]),
+        ...genders.map(gender => gender.imageUrl)
+      ];
+
+      return {
+        imageUrls: imageUrls.filter(Boolean),
+        publicIds: categories.flatMap(category => (category.media || []).map(item => item.publicId)).filter(Boolean)
+      };
+    } catch (error) {
+      this.logger.error(`Error finding image references: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
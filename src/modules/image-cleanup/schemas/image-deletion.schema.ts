@@ -0,0 +1,51 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { ImageDeletionStatus } from '../../../common/enums/image-deletion-status.enum';
+import { ImageDeletionReason } from '../../../common/enums/image-deletion-reason.enum';
+import { ImageStorageDriver } from '../../../common/enums/image-storage-driver.enum';
+
+export type ImageDeletionDocument = ImageDeletion & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'image_deletions'
+})
+export class ImageDeletion {
+  @Prop({ required: true, type: String })
+  publicId: string;
+
+  @Prop({ required: true, type: String, enum: ImageStorageDriver })
+  driver: ImageStorageDriver; // only an instance using this driver can delete the image
+
+  @Prop({ required: true, type: String, enum: ImageDeletionReason })
+  reason: ImageDeletionReason;
+
+  @Prop({
+    type: String,
+    enum: ImageDeletionStatus,
+    default: ImageDeletionStatus.PENDING
+  })
+  status: ImageDeletionStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: Date.now })
+  nextAttemptAt: Date;
+
+  @Prop({ type: String, required: false })
+  lastError?: string;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  updatedAt: Date;
+}
+
+export const ImageDeletionSchema = SchemaFactory.createForClass(ImageDeletion);
+
+// An image is queued at most once; the retry loop reads due deletions of its own driver
+ImageDeletionSchema.index({ driver: 1, publicId: 1 }, { unique: true });
+ImageDeletionSchema.index({ status: 1, driver: 1, nextAttemptAt: 1 });
@@ -0,0 +1,31 @@
+/* eslint-disable prettier/prettier */
+import { Kafka, logLevel, SASLOptions } from 'kafkajs';
+import { KafkaConfig } from '../../config/kafka.config';
+
+/**
+ * Kafka client built from the service configuration, shared by the producer and ad-hoc consumers
+ */
+export function createKafkaClient(config: KafkaConfig): Kafka {
+  return new Kafka({
+    clientId: config.clientId,
+    brokers: config.brokers,
+    ssl: config.ssl,
+    sasl: config.enableSasl
+      ? {
+          mechanism: config.saslMechanism,
+          username: config.saslUsername,
+          password: config.saslPassword
+        } as SASLOptions
+      : undefined,
+    connectionTimeout: config.connectionTimeout,
+    requestTimeout: config.requestTimeout,
+    enforceRequestTimeout: config.enforceRequestTimeout,
+    retry: {
+      retries: config.maxRetries,
+      initialRetryTime: config.initialRetryTime,
+      multiplier: config.retryMultiplier,
+      maxRetryTime: config.maxRetryTime
+    },
+    logLevel: config.enableLogging ? logLevel.INFO : logLevel.ERROR
+  });
+}
@@ -0,0 +1,118 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { KafkaContext } from '@nestjs/microservices';
+import { IHeaders } from 'kafkajs';
+import { KafkaProducerService } from './kafka-producer.service';
+import { KafkaConfig } from '../../config/kafka.config';
+import { KAFKA_DEAD_LETTER_SUFFIX } from '../../common/constants/kafka-topics.constants';
+import { KafkaError } from '../../common/interfaces/kafka-reply.interface';
+
+// Bounds the delivery counters kept for messages that are being retried
+const MAX_TRACKED_MESSAGES = 1000;
+
+/**
+ * Tracks redeliveries of failing messages and parks the ones that cannot be processed
+ * on their topic's dead-letter topic
+ */
+@Injectable()
+export class KafkaDeadLetterService {
+  private readonly logger = new Logger(KafkaDeadLetterService.name);
+  private readonly maxRetries: number;
+  private readonly attempts = new Map<string, number>();
+
+  constructor(
+    private readonly kafkaProducerService: KafkaProducerService,
+    configService: ConfigService
+  ) {
+    this.maxRetries = configService.get<KafkaConfig>('kafka')?.maxRetries ?? 3;
+  }
+
+  /**
+   * Count a failed delivery of the message
+   * @returns Whether it may be redelivered, or has used up its retries
+   */
+  recordFailure(context: KafkaContext): boolean {
+    const key = this.messageKey(context);
+    const attempts = (this.attempts.get(key) ?? 0) + 1;
+
+    this.attempts.delete(key);
+    if (this.attempts.size >= MAX_TRACKED_MESSAGES) {
+      this.attempts.delete(this.attempts.keys().next().value);
+    }
+    this.attempts.set(key, attempts);
+
+    return attempts <= this.maxRetries;
+  }
+
+  /**
+   * Stop tracking a message that will not be redelivered
+   * @returns The number of failed deliveries
+   */
+  settle(context: KafkaContext): number {
+    const key = this.messageKey(context);
+    const attempts = this.attempts.get(key) ?? 1;
+
+    this.attempts.delete(key);
+    return attempts;
+  }
+
+  /**
+   * Copy the message, with its original key and headers, to <topic>.dlq along with the failure
+   */
+  async publish(context: KafkaContext, error: KafkaError, attempts: number): Promise<void> {
+    const topic = context.getTopic();
+    const message = context.getMessage();
+    const deadLetterTopic = `${topic}${KAFKA_DEAD_LETTER_SUFFIX}`;
+
+    if (!this.kafkaProducerService.isEnabled()) {
+      this.logger.warn(`Kafka producer is disabled; dropping poison message ${topic}@${message.offset}`);
+      return;
+    }
+
+    const headers: IHeaders = {
+      ...this.originalHeaders(message.headers),
+      'x-dlq-original-topic': topic,
+      'x-dlq-original-partition': String(context.getPartition()),
+      'x-dlq-original-offset': String(message.offset),
+      'x-dlq-error-code': error.code,
+      'x-dlq-error-status': String(error.statusCode),
+      'x-dlq-error-message': error.message,
+      'x-dlq-retryable': String(error.retryable),
+      'x-dlq-attempts': String(attempts),
+      'x-dlq-failed-at': new Date().toISOString()
+    };
+
+    try {
+      await this.kafkaProducerService.send(deadLetterTopic, [{
+        key: message.key as Buffer | string | null,
+        value: this.originalValue(message.value),
+        headers
+      }]);
+
+      this.logger.warn(`Message ${topic}@${message.offset} moved to ${deadLetterTopic}: ${error.code} ${error.message}`);
+    } catch (publishError) {
+      this.logger.error(`Error dead-lettering message ${topic}@${message.offset}: ${publishError.message}`, publishError.stack);
+    }
+  }
+
+  private messageKey(context: KafkaContext): string {
+    return `${context.getTopic()}:${context.getPartition()}:${context.getMessage().offset}`;
+  }
+
+  // Headers arrive decoded; drop the empty ones KafkaJS would reject
+  private originalHeaders(headers: Record<string, unknown> = {}): IHeaders {
+    return Object.fromEntries(
+      Object.entries(headers).filter(([, value]) => value !== undefined && value !== null)
+    ) as IHeaders;
+  }
+
+  // Values arrive parsed from JSON where possible; serialize them back
+  private originalValue(value: unknown): Buffer | string | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    return Buffer.isBuffer(value) || typeof value === 'string' ? value : JSON.stringify(value);
+  }
+}
@@ -0,0 +1,109 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CompressionTypes, Message, Producer, RecordMetadata } from 'kafkajs';
+import { AppConfig } from '../../config/app.config';
+import { KafkaConfig } from '../../config/kafka.config';
+import { createKafkaClient } from './kafka-client';
+
+@Injectable()
+export class KafkaProducerService implements OnModuleDestroy {
+  private readonly logger = new Logger(KafkaProducerService.name);
+  private readonly kafkaConfig?: KafkaConfig;
+  private readonly kafkaEnabled: boolean;
+  private producer?: Producer;
+  private connecting?: Promise<Producer>;
+
+  constructor(private readonly configService: ConfigService) {
+    this.kafkaConfig = this.configService.get<KafkaConfig>('kafka');
+    this.kafkaEnabled = !!this.configService.get<AppConfig>('app')?.enableKafka;
+  }
+
+  /**
+   * Whether Kafka is enabled and configured for this instance
+   */
+  isEnabled(): boolean {
+    return this.kafkaEnabled && !!this.kafkaConfig?.brokers?.length;
+  }
+
+  /**
+   * Whether the producer currently holds an open connection
+   */
+  isConnected(): boolean {
+    return !!this.producer;
+  }
+
+  /**
+   * Send messages to a topic, connecting the producer on first use
+   */
+  async send(topic: string, messages: Message[]): Promise<RecordMetadata[]> {
+    const producer = await this.getProducer();
+
+    return producer.send({
+      topic,
+      messages,
+      acks: this.kafkaConfig.acks,
+      compression: this.kafkaConfig.compression === 'gzip' ? CompressionTypes.GZIP : CompressionTypes.None
+    });
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (!this.producer) {
+      return;
+    }
+
+    try {
+      await this.producer.disconnect();
+      this.logger.log('Kafka producer disconnected');
+    } catch (error) {
+      this.logger.warn(`Failed to disconnect Kafka producer: ${error.message}`);
+    } finally {
+      this.producer = undefined;
+    }
+  }
+
+  /**
+   * Lazily create and connect a single producer shared by all callers
+   */
+  private async getProducer(): Promise<Producer> {
+    if (!this.isEnabled()) {
+      throw new Error('Kafka is disabled or not configured');
+    }
+
+    if (this.producer) {
+      return this.producer;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.connect().finally(() => {
+        this.connecting = undefined;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  private async connect(): Promise<Producer> {
+    const config = this.kafkaConfig;
+
+    const kafka = createKafkaClient(config);
+
+    // A single in-flight request keeps messages of one key in the order they were sent
+    const producer = kafka.producer({
+      idempotent: config.enableIdempotence,
+      maxInFlightRequests: 1,
+      allowAutoTopicCreation: config.allowAutoTopicCreation,
+      metadataMaxAge: config.metadataMaxAge
+    });
+
+    producer.on(producer.events.DISCONNECT, () => {
+      this.producer = undefined;
+    });
+
+    await producer.connect();
+    this.producer = producer;
+    this.logger.log('Kafka producer connected');
+
+    return producer;
+  }
+}
@@ -0,0 +1,16 @@
+/* eslint-disable prettier/prettier */
+import { Module } from '@nestjs/common';
+import { KafkaProducerService } from './kafka-producer.service';
+import { KafkaDeadLetterService } from './kafka-dead-letter.service';
+
+@Module({
+  providers: [
+    KafkaProducerService,
+    KafkaDeadLetterService
+  ],
+  exports: [
+    KafkaProducerService,
+    KafkaDeadLetterService
+  ]
+})
+export class KafkaModule {}
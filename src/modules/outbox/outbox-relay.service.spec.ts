@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { OutboxRelayService } from './outbox-relay.service';
+import { OutboxRepository } from './outbox.repository';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+
+const outboxEvent = (id: string, aggregateId: string, attempts = 0) => ({
+  _id: id,
+  aggregateType: 'category',
+  aggregateId,
+  eventType: 'category.updated',
+  data: {
+    before: { name: 'Old' },
+    after: { name: 'New' },
+    changedFields: ['name'],
+  },
+  attempts,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('OutboxRelayService', () => {
+  let service: OutboxRelayService;
+  let repository: Record<string, jest.Mock>;
+  let producer: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    repository = {
+      findDue: jest.fn(),
+      claim: jest.fn(),
+      markPublished: jest.fn(),
+      markForRetry: jest.fn(),
+      markFailed: jest.fn(),
+      deletePublishedBefore: jest.fn(),
+    };
+    producer = {
+      isEnabled: jest.fn().mockReturnValue(true),
+      send: jest.fn(),
+    };
+
+    const config: Record<string, any> = {
+      outbox: {
+        relayEnabled: true,
+        pollInterval: 1000,
+        leaseDuration: 30000,
+        batchSize: 100,
+        maxAttempts: 3,
+        retryBaseDelay: 1000,
+        retryMaxDelay: 60000,
+        publishedRetentionHours: 168,
+        cleanupInterval: 3600000,
+      },
+      kafka: { categoryUpdatedTopic: 'catalog.category.updated' },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxRelayService,
+        { provide: OutboxRepository, useValue: repository },
+        { provide: KafkaProducerService, useValue: producer },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OutboxRelayService>(OutboxRelayService);
+  });
+
+  const due = (...events: ReturnType<typeof outboxEvent>[]) => {
+    repository.findDue.mockResolvedValue(events);
+    repository.claim.mockImplementation((id: string) =>
+      Promise.resolve(events.find((event) => event._id === id) ?? null),
+    );
+  };
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should publish events in order keyed by aggregate to the configured topic', async () => {
+    due(outboxEvent('e1', 'cat-1'), outboxEvent('e2', 'cat-1'));
+
+    const result = await service.relayPending();
+
+    expect(result).toEqual({ published: 2, retried: 0, failed: 0 });
+    expect(producer.send).toHaveBeenCalledTimes(2);
+    const [topic, [message]] = producer.send.mock.calls[0];
+    expect(topic).toBe('catalog.category.updated');
+    expect(message.key).toBe('cat-1');
+    expect(JSON.parse(message.value)).toEqual(
+      expect.objectContaining({
+        eventId: 'e1',
+        aggregateId: 'cat-1',
+        data: expect.objectContaining({
+          before: { name: 'Old' },
+          after: { name: 'New' },
+        }),
+      }),
+    );
+    expect(repository.markPublished.mock.calls).toEqual([['e1'], ['e2']]);
+  });
+
+  it('should hold back later events of an aggregate whose publish failed', async () => {
+    due(
+      outboxEvent('e1', 'cat-1'),
+      outboxEvent('e2', 'cat-2'),
+      outboxEvent('e3', 'cat-1'),
+    );
+    producer.send.mockImplementation((_topic, [message]) =>
+      message.key === 'cat-1'
+        ? Promise.reject(new Error('broker down'))
+        : Promise.resolve([]),
+    );
+
+    const result = await service.relayPending();
+
+    expect(result).toEqual({ published: 1, retried: 1, failed: 0 });
+    expect(repository.markPublished).toHaveBeenCalledWith('e2');
+    expect(repository.markForRetry).toHaveBeenCalledWith(
+      'e1',
+      1,
+      expect.any(Date),
+      'broker down',
+    );
+    expect(producer.send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should mark an event failed after max attempts and move on', async () => {
+    due(outboxEvent('e1', 'cat-1', 2), outboxEvent('e2', 'cat-1'));
+    producer.send
+      .mockRejectedValueOnce(new Error('broker down'))
+      .mockResolvedValueOnce([]);
+
+    const result = await service.relayPending();
+
+    expect(result).toEqual({ published: 1, retried: 0, failed: 1 });
+    expect(repository.markFailed).toHaveBeenCalledWith('e1', 3, 'broker down');
+    expect(repository.markPublished).toHaveBeenCalledWith('e2');
+  });
+
+  it('should leave an aggregate to the instance that claimed its oldest event', async () => {
+    due(
+      outboxEvent('e1', 'cat-1'),
+      outboxEvent('e2', 'cat-1'),
+      outboxEvent('e3', 'cat-2'),
+    );
+    repository.claim.mockImplementation((id: string) =>
+      Promise.resolve(id === 'e3' ? outboxEvent('e3', 'cat-2') : null),
+    );
+
+    const result = await service.relayPending();
+
+    expect(result).toEqual({ published: 1, retried: 0, failed: 0 });
+    expect(repository.claim).not.toHaveBeenCalledWith('e2', expect.any(Date));
+    expect(repository.markPublished.mock.calls).toEqual([['e3']]);
+  });
+});
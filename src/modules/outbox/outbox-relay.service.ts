@@ -0,0 +1,223 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OutboxRepository } from './outbox.repository';
+import { OutboxEvent } from './schemas/outbox-event.schema';
+import { KafkaProducerService } from '../kafka/kafka-producer.service';
+import { OutboxConfig } from '../../config/outbox.config';
+import { KafkaConfig } from '../../config/kafka.config';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+import { DomainEventMessage } from '../../common/interfaces/domain-event.interface';
+
+type RelayOutcome = 'published' | 'retry' | 'failed';
+
+export interface OutboxRelayResult {
+  published: number;
+  retried: number;
+  failed: number;
+}
+
+const RESULT_COUNTERS: Record<RelayOutcome, keyof OutboxRelayResult> = {
+  published: 'published',
+  retry: 'retried',
+  failed: 'failed'
+};
+
+const EVENT_VERSION = 1;
+
+@Injectable()
+export class OutboxRelayService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(OutboxRelayService.name);
+  private readonly outboxConfig: OutboxConfig;
+  private readonly topics: Record<string, string>;
+  private pollTimer?: NodeJS.Timeout;
+  private cleanupTimer?: NodeJS.Timeout;
+  private relaying = false;
+
+  constructor(
+    private readonly outboxRepository: OutboxRepository,
+    private readonly kafkaProducerService: KafkaProducerService,
+    private readonly configService: ConfigService
+  ) {
+    this.outboxConfig = this.configService.get<OutboxConfig>('outbox');
+    this.topics = this.buildTopicMap(this.configService.get<KafkaConfig>('kafka'));
+  }
+
+  onApplicationBootstrap(): void {
+    if (!this.outboxConfig.relayEnabled) {
+      this.logger.log('Outbox relay disabled on this instance');
+      return;
+    }
+
+    if (!this.kafkaProducerService.isEnabled()) {
+      this.logger.warn('Kafka is disabled; outbox events are recorded but not published');
+      return;
+    }
+
+    this.pollTimer = setInterval(() => void this.relayPending(), this.outboxConfig.pollInterval);
+    this.cleanupTimer = setInterval(() => void this.purgePublished(), this.outboxConfig.cleanupInterval);
+    this.logger.log(`Outbox relay started (every ${this.outboxConfig.pollInterval}ms)`);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.pollTimer);
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Publish due outbox events; events of one aggregate are sent one by one in insertion order
+   */
+  async relayPending(): Promise<OutboxRelayResult> {
+    const result: OutboxRelayResult = { published: 0, retried: 0, failed: 0 };
+
+    // Skip the tick while the previous one is still publishing
+    if (this.relaying) {
+      return result;
+    }
+
+    this.relaying = true;
+    try {
+      const events = await this.outboxRepository.findDue(this.outboxConfig.batchSize);
+      const queues = new Map<string, OutboxEvent[]>();
+
+      for (const event of events) {
+        const key = `${event.aggregateType}:${event.aggregateId}`;
+        queues.set(key, [...(queues.get(key) || []), event]);
+      }
+
+      const outcomes = await Promise.all([...queues.values()].map(queue => this.relayQueue(queue)));
+
+      for (const outcome of outcomes.flat()) {
+        result[RESULT_COUNTERS[outcome]]++;
+      }
+
+      if (events.length > 0) {
+        this.logger.log(`Outbox relay: ${result.published} published, ${result.retried} retrying, ${result.failed} failed`);
+      }
+    } catch (error) {
+      this.logger.error(`Error relaying outbox events: ${error.message}`, error.stack);
+    } finally {
+      this.relaying = false;
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete published events older than the configured retention
+   */
+  async purgePublished(): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - this.outboxConfig.publishedRetentionHours * 60 * 60 * 1000);
+      const deleted = await this.outboxRepository.deletePublishedBefore(cutoff);
+
+      if (deleted > 0) {
+        this.logger.log(`Purged ${deleted} published outbox events`);
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error(`Error purging outbox events: ${error.message}`, error.stack);
+      return 0;
+    }
+  }
+
+  /**
+   * Publish the events of a single aggregate, stopping at the first one that must be retried or
+   * that another instance claimed first, so events of an aggregate are never published out of order
+   */
+  private async relayQueue(queue: (OutboxEvent & { _id?: any })[]): Promise<RelayOutcome[]> {
+    const outcomes: RelayOutcome[] = [];
+
+    for (const event of queue) {
+      const claimed = await this.outboxRepository.claim(
+        String(event._id),
+        new Date(Date.now() + this.outboxConfig.leaseDuration)
+      );
+
+      if (!claimed) {
+        break;
+      }
+
+      const outcome = await this.publish(claimed);
+      outcomes.push(outcome);
+
+      if (outcome === 'retry') {
+        break;
+      }
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Publish one event and record the outcome; after maxAttempts the event is marked failed so
+   * later events of the same aggregate are no longer held back
+   */
+  private async publish(event: OutboxEvent & { _id?: any }): Promise<RelayOutcome> {
+    const eventId = String(event._id);
+    const topic = this.topics[event.eventType] || event.eventType;
+
+    const message: DomainEventMessage = {
+      eventId,
+      eventType: event.eventType,
+      version: EVENT_VERSION,
+      aggregateType: event.aggregateType,
+      aggregateId: event.aggregateId,
+      occurredAt: new Date(event.createdAt).toISOString(),
+      data: event.data
+    };
+
+    try {
+      await this.kafkaProducerService.send(topic, [{
+        key: event.aggregateId,
+        value: JSON.stringify(message),
+        headers: {
+          eventId,
+          eventType: event.eventType,
+          aggregateType: event.aggregateType
+        }
+      }]);
+
+      await this.outboxRepository.markPublished(eventId);
+      return 'published';
+    } catch (error) {
+      const attempts = event.attempts + 1;
+
+      if (attempts >= this.outboxConfig.maxAttempts) {
+        await this.outboxRepository.markFailed(eventId, attempts, error.message);
+        this.logger.error(`Outbox event ${eventId} (${event.eventType}) failed after ${attempts} attempts: ${error.message}`);
+        return 'failed';
+      }
+
+      const nextAttemptAt = new Date(Date.now() + this.getRetryDelay(attempts));
+      await this.outboxRepository.markForRetry(eventId, attempts, nextAttemptAt, error.message);
+      this.logger.warn(`Outbox event ${eventId} (${event.eventType}) attempt ${attempts} failed, retrying at ${nextAttemptAt.toISOString()}: ${error.message}`);
+      return 'retry';
+    }
+  }
+
+  /**
+   * Exponential backoff capped at retryMaxDelay
+   */
+  private getRetryDelay(attempts: number): number {
+    const { retryBaseDelay, retryMaxDelay } = this.outboxConfig;
+    return Math.min(retryBaseDelay * 2 ** (attempts - 1), retryMaxDelay);
+  }
+
+  /**
+   * Map event types to the topics configured for them; unmapped types publish to their own name
+   */
+  private buildTopicMap(kafkaConfig?: KafkaConfig): Record<string, string> {
+    if (!kafkaConfig) {
+      return {};
+    }
+
+    return {
+      [KAFKA_TOPICS.CATEGORIES.CREATED]: kafkaConfig.categoryCreatedTopic,
+      [KAFKA_TOPICS.CATEGORIES.UPDATED]: kafkaConfig.categoryUpdatedTopic,
+      [KAFKA_TOPICS.CATEGORIES.DELETED]: kafkaConfig.categoryDeletedTopic,
+      [KAFKA_TOPICS.CATEGORIES.RESTORED]: kafkaConfig.categoryRestoredTopic,
+      [KAFKA_TOPICS.CATEGORIES.STATUS_CHANGED]: kafkaConfig.categoryStatusChangedTopic
+    };
+  }
+}
@@ -0,0 +1,24 @@
+/* eslint-disable prettier/prettier */
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { OutboxEvent, OutboxEventSchema } from './schemas/outbox-event.schema';
+import { OutboxRepository } from './outbox.repository';
+import { OutboxRelayService } from './outbox-relay.service';
+import { KafkaModule } from '../kafka/kafka.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: OutboxEvent.name, schema: OutboxEventSchema }
+    ]),
+    KafkaModule,
+  ],
+  providers: [
+    OutboxRepository,
+    OutboxRelayService
+  ],
+  exports: [
+    OutboxRepository
+  ]
+})
+export class OutboxModule {}
@@ -0,0 +1,155 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientSession, Model } from 'mongoose';
+import { OutboxEvent, OutboxEventDocument } from './schemas/outbox-event.schema';
+import { OutboxEventStatus } from '../../common/enums/outbox-event-status.enum';
+import { DomainEventInput } from '../../common/interfaces/domain-event.interface';
+
+@Injectable()
+export class OutboxRepository {
+  private readonly logger = new Logger(OutboxRepository.name);
+
+  constructor(
+    @InjectModel(OutboxEvent.name) private outboxEventModel: Model<OutboxEventDocument>,
+  ) {}
+
+  /**
+   * Record events inside the caller's transaction so they commit or abort with the mutation
+   */
+  async add(events: DomainEventInput[], session: ClientSession): Promise<void> {
+    try {
+      if (events.length === 0) {
+        return;
+      }
+
+      // Ordered insert keeps _id order equal to the order the mutations happened in
+      await this.outboxEventModel.insertMany(events, { session, ordered: true });
+      this.logger.debug(`Recorded ${events.length} outbox events`);
+    } catch (error) {
+      this.logger.error(`Error recording outbox events: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find pending events in insertion order, excluding aggregates whose oldest event is backing off
+   * or being published by another instance. Events whose lease expired are due again.
+   */
+  async findDue(limit: number, now: Date = new Date()): Promise<OutboxEvent[]> {
+    try {
+      const blockedAggregates = await this.outboxEventModel.distinct('aggregateId', {
+        $or: [
+          { status: OutboxEventStatus.PENDING, nextAttemptAt: { $gt: now } },
+          { status: OutboxEventStatus.PUBLISHING, lockedUntil: { $gt: now } }
+        ]
+      });
+
+      const events = await this.outboxEventModel
+        .find({
+          $or: [
+            { status: OutboxEventStatus.PENDING },
+            { status: OutboxEventStatus.PUBLISHING, lockedUntil: { $lte: now } }
+          ],
+          aggregateId: { $nin: blockedAggregates }
+        })
+        .sort({ _id: 1 })
+        .limit(limit)
+        .lean()
+        .exec();
+
+      return events as OutboxEvent[];
+    } catch (error) {
+      this.logger.error(`Error finding due outbox events: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Lease a due event to this instance
+   * @returns The claimed event, or null when another instance claimed or published it first
+   */
+  async claim(id: string, lockedUntil: Date, now: Date = new Date()): Promise<OutboxEvent | null> {
+    const event = await this.outboxEventModel
+      .findOneAndUpdate(
+        {
+          _id: id,
+          $or: [
+            { status: OutboxEventStatus.PENDING, nextAttemptAt: { $lte: now } },
+            { status: OutboxEventStatus.PUBLISHING, lockedUntil: { $lte: now } }
+          ]
+        },
+        { status: OutboxEventStatus.PUBLISHING, lockedUntil, updatedAt: now },
+        { new: true }
+      )
+      .lean()
+      .exec();
+
+    return event as OutboxEvent | null;
+  }
+
+  /**
+   * Mark an event as published
+   */
+  async markPublished(id: string): Promise<void> {
+    await this.outboxEventModel
+      .updateOne(
+        { _id: id },
+        {
+          status: OutboxEventStatus.PUBLISHED,
+          publishedAt: new Date(),
+          lastError: null,
+          updatedAt: new Date(),
+          $unset: { lockedUntil: 1 }
+        }
+      )
+      .exec();
+  }
+
+  /**
+   * Schedule another publish attempt for an event
+   */
+  async markForRetry(id: string, attempts: number, nextAttemptAt: Date, lastError: string): Promise<void> {
+    await this.outboxEventModel
+      .updateOne(
+        { _id: id },
+        {
+          status: OutboxEventStatus.PENDING,
+          attempts,
+          nextAttemptAt,
+          lastError,
+          updatedAt: new Date(),
+          $unset: { lockedUntil: 1 }
+        }
+      )
+      .exec();
+  }
+
+  /**
+   * Give up on an event after it exhausted its attempts
+   */
+  async markFailed(id: string, attempts: number, lastError: string): Promise<void> {
+    await this.outboxEventModel
+      .updateOne(
+        { _id: id },
+        { status: OutboxEventStatus.FAILED, attempts, lastError, updatedAt: new Date(), $unset: { lockedUntil: 1 } }
+      )
+      .exec();
+  }
+
+  /**
+   * Delete published events older than the given date
+   */
+  async deletePublishedBefore(date: Date): Promise<number> {
+    try {
+      const result = await this.outboxEventModel
+        .deleteMany({ status: OutboxEventStatus.PUBLISHED, publishedAt: { $lt: date } })
+        .exec();
+
+      return result.deletedCount;
+    } catch (error) {
+      this.logger.error(`Error purging published outbox events: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+}
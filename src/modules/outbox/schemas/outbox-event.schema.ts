@@ -0,0 +1,62 @@
+/* eslint-disable prettier/prettier */
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Schema as MongooseSchema } from 'mongoose';
+import { OutboxEventStatus } from '../../../common/enums/outbox-event-status.enum';
+import { DomainEventData } from '../../../common/interfaces/domain-event.interface';
+
+export type OutboxEventDocument = OutboxEvent & Document;
+
+@Schema({
+  timestamps: true,
+  collection: 'outbox_events'
+})
+export class OutboxEvent {
+  @Prop({ required: true, type: String })
+  aggregateType: string; // e.g. 'category'
+
+  @Prop({ required: true, type: String })
+  aggregateId: string; // Kafka message key, so events of one aggregate share a partition
+
+  @Prop({ required: true, type: String })
+  eventType: string; // e.g. 'category.updated'
+
+  @Prop({ required: true, type: MongooseSchema.Types.Mixed })
+  data: DomainEventData;
+
+  @Prop({
+    type: String,
+    enum: OutboxEventStatus,
+    default: OutboxEventStatus.PENDING
+  })
+  status: OutboxEventStatus;
+
+  @Prop({ default: 0 })
+  attempts: number;
+
+  @Prop({ type: Date, default: Date.now })
+  nextAttemptAt: Date;
+
+  @Prop({ type: Date, required: false })
+  lockedUntil?: Date; // lease of the relay instance publishing the event
+
+  @Prop({ type: String, required: false })
+  lastError?: string;
+
+  @Prop({ type: Date, required: false })
+  publishedAt?: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  createdAt: Date;
+
+  @Prop({ type: Date, default: Date.now })
+  updatedAt: Date;
+}
+
+export const OutboxEventSchema = SchemaFactory.createForClass(OutboxEvent);
+
+// Relay reads pending events in insertion order and skips aggregates that are backing off
+OutboxEventSchema.index({ status: 1, _id: 1 });
+OutboxEventSchema.index({ status: 1, nextAttemptAt: 1, aggregateId: 1 });
+OutboxEventSchema.index({ status: 1, lockedUntil: 1, aggregateId: 1 });
+OutboxEventSchema.index({ aggregateType: 1, aggregateId: 1, _id: 1 });
+OutboxEventSchema.index({ status: 1, publishedAt: 1 });
@@ -0,0 +1,34 @@
+import { CloudinaryImageStorage } from './cloudinary-image.storage';
+
+describe('CloudinaryImageStorage', () => {
+  const storage = new CloudinaryImageStorage({ cloudName: 'demo' });
+
+  it('should keep the folder in public IDs extracted from URLs', () => {
+    expect(
+      storage.extractPublicId(
+        'https://res.cloudinary.com/demo/image/upload/v1712345678/categories/shoes.webp',
+      ),
+    ).toBe('categories/shoes');
+    expect(
+      storage.extractPublicId(
+        'https://res.cloudinary.com/demo/image/upload/c_limit,w_800/collections/banners/ss24.jpg',
+      ),
+    ).toBe('collections/banners/ss24');
+  });
+
+  it('should not extract public IDs from other URLs', () => {
+    expect(
+      storage.extractPublicId('http://localhost:8000/media/categories/a.png'),
+    ).toBeNull();
+    expect(
+      storage.extractPublicId(
+        'https://cdn.example.com/upload/categories/x.jpg',
+      ),
+    ).toBeNull();
+    expect(
+      storage.extractPublicId(
+        'https://res.cloudinary.com/other/image/upload/v1/categories/x.jpg',
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, Logger } from '@nestjs/common';
+import { v2 as cloudinary, ResourceApiResponse, UploadApiErrorResponse, UploadApiResponse } from 'cloudinary';
+import { CloudinaryStorageConfig } from '../../config/storage.config';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+import { ImageStorage, ImageUrlOptions, ListedImage, StoredImage } from './image-storage';
+
+// Largest page the Admin API returns
+const LIST_PAGE_SIZE = 500;
+
+// Segments between /upload/ and the public ID: transformations such as c_limit,w_800
+const TRANSFORMATION_SEGMENT = /^[a-z]{1,3}_[^/]*(,[a-z]{1,3}_[^/]*)*$/;
+const VERSION_SEGMENT = /^v\d+$/;
+
+// Host of the delivery URLs that uploads are returned with
+const DELIVERY_HOST = 'res.cloudinary.com';
+
+/**
+ * Stores images on Cloudinary, converted to WebP and limited to 800x600
+ */
+export class CloudinaryImageStorage implements ImageStorage {
+  readonly driver = ImageStorageDriver.CLOUDINARY;
+  private readonly logger = new Logger(CloudinaryImageStorage.name);
+  private readonly cloudName: string;
+
+  constructor(config: CloudinaryStorageConfig) {
+    this.cloudName = config.cloudName;
+
+    cloudinary.config({
+      cloud_name: config.cloudName,
+      api_key: config.apiKey,
+      api_secret: config.apiSecret,
+    });
+  }
+
+  async upload(file: Express.Multer.File, folder: string): Promise<StoredImage> {
+    this.logger.log(`Uploading image to Cloudinary folder: ${folder}`);
+
+    const result = await new Promise<UploadApiResponse>((resolve, reject) => {
+      cloudinary.uploader.upload_stream(
+        {
+          folder,
+          resource_type: 'auto',
+          format: 'webp', // Convert to WebP for better compression
+          quality: 'auto:best',
+          fetch_format: 'auto',
+          transformation: [
+            {
+              width: 800,
+              height: 600,
+              crop: 'limit',
+              quality: 'auto:best'
+            }
+          ]
+        },
+        (error: UploadApiErrorResponse | undefined, response: UploadApiResponse | undefined) => {
+          if (error) {
+            this.logger.error(`Cloudinary upload error: ${error.message}`, error);
+            reject(new BadRequestException(`Image upload failed: ${error.message}`));
+          } else if (response) {
+            resolve(response);
+          } else {
+            reject(new BadRequestException('Unknown error occurred during image upload'));
+          }
+        }
+      ).end(file.buffer);
+    });
+
+    this.logger.log(`Image uploaded successfully: ${result.public_id}`);
+
+    return {
+      url: result.secure_url,
+      publicId: result.public_id,
+      width: result.width,
+      height: result.height,
+      format: result.format,
+      bytes: result.bytes
+    };
+  }
+
+  async delete(publicId: string): Promise<void> {
+    this.logger.log(`Deleting image from Cloudinary: ${publicId}`);
+
+    const result = await cloudinary.uploader.destroy(publicId);
+
+    if (result.result === 'ok') {
+      this.logger.log(`Image deleted successfully: ${publicId}`);
+    } else if (result.result === 'not found') {
+      this.logger.warn(`Image to delete was not found: ${publicId}`);
+    } else {
+      throw new Error(`Cloudinary could not delete ${publicId}: ${result.result}`);
+    }
+  }
+
+  async list(folder: string): Promise<ListedImage[]> {
+    const images: ListedImage[] = [];
+    let nextCursor: string | undefined;
+
+    do {
+      const page: ResourceApiResponse = await cloudinary.api.resources({
+        type: 'upload',
+        resource_type: 'image',
+        prefix: `${folder}/`,
+        max_results: LIST_PAGE_SIZE,
+        ...(nextCursor && { next_cursor: nextCursor })
+      });
+
+      images.push(...page.resources.map(resource => ({
+        publicId: resource.public_id,
+        createdAt: new Date(resource.created_at)
+      })));
+      nextCursor = page.next_cursor;
+    } while (nextCursor);
+
+    return images;
+  }
+
+  generateUrl(publicId: string, options?: ImageUrlOptions): string {
+    const { width = 800, height = 600, crop = 'limit', quality = 'auto:best' } = options || {};
+
+    return cloudinary.url(publicId, {
+      width,
+      height,
+      crop,
+      quality,
+      fetch_format: 'auto',
+      secure: true
+    });
+  }
+
+  /**
+   * The public ID includes its folders:
+   * https://res.cloudinary.com/<cloud>/image/upload/[<transformations>/][v<version>/]<folder>/<name>.<ext> -> <folder>/<name>
+   * URLs on other hosts or of other clouds are not ours to delete, even if their path looks alike.
+   */
+  extractPublicId(imageUrl: string): string | null {
+    let url: URL;
+    try {
+      url = new URL(imageUrl);
+    } catch {
+      return null;
+    }
+
+    const prefix = `/${this.cloudName}/image/upload/`;
+    if (url.hostname !== DELIVERY_HOST || !url.pathname.startsWith(prefix)) {
+      return null;
+    }
+
+    let segments = url.pathname.slice(prefix.length).split('/');
+    const versionIndex = segments.findIndex(segment => VERSION_SEGMENT.test(segment));
+
+    if (versionIndex >= 0) {
+      segments = segments.slice(versionIndex + 1);
+    } else {
+      while (segments.length > 1 && TRANSFORMATION_SEGMENT.test(segments[0])) {
+        segments = segments.slice(1);
+      }
+    }
+
+    const publicId = decodeURIComponent(segments.join('/').replace(/\.[^./]+$/, ''));
+    return publicId || null;
+  }
+}
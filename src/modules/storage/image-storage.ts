@@ -0,0 +1,62 @@
+/* eslint-disable prettier/prettier */
+import { Logger } from '@nestjs/common';
+import { StorageConfig } from '../../config/storage.config';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+import { CloudinaryImageStorage } from './cloudinary-image.storage';
+import { LocalImageStorage } from './local-image.storage';
+import { S3ImageStorage } from './s3-image.storage';
+
+export const IMAGE_STORAGE = 'IMAGE_STORAGE';
+
+export interface StoredImage {
+  url: string;
+  publicId: string; // identifies the file to the driver, for replacing or deleting it
+  width?: number; // known when the driver processes the image
+  height?: number;
+  format?: string;
+  bytes: number;
+}
+
+export interface ListedImage {
+  publicId: string;
+  createdAt?: Date; // when the driver records it
+}
+
+export interface ImageUrlOptions {
+  width?: number;
+  height?: number;
+  crop?: string;
+  quality?: string;
+}
+
+/**
+ * Where uploaded images live. Implemented by the Cloudinary, local filesystem and
+ * S3-compatible drivers; IMAGE_STORAGE_DRIVER picks one.
+ */
+export interface ImageStorage {
+  readonly driver: ImageStorageDriver;
+  upload(file: Express.Multer.File, folder: string): Promise<StoredImage>;
+  /** Deleting an image that does not exist succeeds; other failures throw */
+  delete(publicId: string): Promise<void>;
+  /** Every image stored under a folder, including its subfolders */
+  list(folder: string): Promise<ListedImage[]>;
+  /** URL of a stored image; drivers without image processing ignore the options */
+  generateUrl(publicId: string, options?: ImageUrlOptions): string;
+  /** Public ID of an image URL issued by this driver, or null for other URLs */
+  extractPublicId(imageUrl: string): string | null;
+}
+
+const logger = new Logger('ImageStorage');
+
+export function createImageStorage(config: StorageConfig): ImageStorage {
+  logger.log(`Storing images with the ${config.driver} driver`);
+
+  switch (config.driver) {
+    case ImageStorageDriver.LOCAL:
+      return new LocalImageStorage(config.local);
+    case ImageStorageDriver.S3:
+      return new S3ImageStorage(config.s3);
+    default:
+      return new CloudinaryImageStorage(config.cloudinary);
+  }
+}
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  PayloadTooLargeException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ImageValidationService } from './image-validation.service';
+import { ImageUsage } from '../../common/enums/image-usage.enum';
+import { readImageInfo } from '../../common/utils/image.util';
+
+const chunk = (type: string, data: Buffer = Buffer.alloc(0)) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  return Buffer.concat([
+    length,
+    Buffer.from(type, 'latin1'),
+    data,
+    Buffer.alloc(4),
+  ]);
+};
+
+const png = (width: number, height: number, ...chunks: Buffer[]) => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 2;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    ...chunks,
+    chunk('IDAT', Buffer.from([0x78, 0x9c])),
+    chunk('IEND'),
+  ]);
+};
+
+// Little-endian EXIF block with a Make tag standing in for the rest of the metadata, then the orientation
+const exifWithOrientation = (orientation: number) => {
+  const tiff = Buffer.alloc(38);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+  tiff.writeUInt16LE(2, 8);
+  tiff.writeUInt16LE(0x010f, 10);
+  tiff.writeUInt16LE(2, 12);
+  tiff.writeUInt32LE(4, 14);
+  tiff.write('GPS', 18, 'latin1');
+  tiff.writeUInt16LE(0x0112, 22);
+  tiff.writeUInt16LE(3, 24);
+  tiff.writeUInt32LE(1, 26);
+  tiff.writeUInt16LE(orientation, 30);
+  return Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+};
+
+const jpeg = (width: number, height: number, orientation?: number) => {
+  const exif = orientation
+    ? exifWithOrientation(orientation)
+    : Buffer.from('Exif\0\0GPS 51.5074N 0.1278W', 'latin1');
+  const app1 = Buffer.alloc(4);
+  app1.writeUInt16BE(0xffe1, 0);
+  app1.writeUInt16BE(exif.length + 2, 2);
+  const sof = Buffer.from([
+    0xff, 0xc0, 0x00, 0x11, 0x08, 0, 0, 0, 0, 0x03, 0x01, 0x22, 0x00, 0x02,
+    0x11, 0x01, 0x03, 0x11, 0x01,
+  ]);
+  sof.writeUInt16BE(height, 5);
+  sof.writeUInt16BE(width, 7);
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    app1,
+    exif,
+    sof,
+    Buffer.from([0xff, 0xda, 0x00, 0x02, 0x12, 0x34, 0xff, 0xd9]),
+  ]);
+};
+
+const gif = (width: number, height: number, frames: number) => {
+  const screen = Buffer.alloc(7);
+  screen.writeUInt16LE(width, 0);
+  screen.writeUInt16LE(height, 2);
+  const frame = Buffer.from([
+    0x2c, 0, 0, 0, 0, 0, 0, 0, 0, 0x00, 0x02, 0x01, 0x44, 0x00,
+  ]);
+  frame.writeUInt16LE(width, 5);
+  frame.writeUInt16LE(height, 7);
+  return Buffer.concat([
+    Buffer.from('GIF89a', 'latin1'),
+    screen,
+    ...Array(frames).fill(frame),
+    Buffer.from([0x3b]),
+  ]);
+};
+
+const webp = (width: number, height: number) => {
+  const vp8x = Buffer.alloc(10);
+  vp8x[0] = 0x08; // EXIF present
+  vp8x.writeUIntLE(width - 1, 4, 3);
+  vp8x.writeUIntLE(height - 1, 7, 3);
+  const riffChunk = (type: string, data: Buffer) => {
+    const size = Buffer.alloc(4);
+    size.writeUInt32LE(data.length);
+    return Buffer.concat([Buffer.from(type, 'latin1'), size, data]);
+  };
+  const body = Buffer.concat([
+    Buffer.from('WEBP', 'latin1'),
+    riffChunk('VP8X', vp8x),
+    riffChunk('EXIF', Buffer.from('GPS 51.5074N', 'latin1')),
+    riffChunk('VP8 ', Buffer.alloc(10)),
+  ]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32LE(body.length);
+  return Buffer.concat([Buffer.from('RIFF', 'latin1'), size, body]);
+};
+
+const file = (buffer: Buffer, mimetype = 'image/png') =>
+  ({
+    fieldname: 'image',
+    originalname: 'upload.png',
+    mimetype,
+    size: buffer.length,
+    buffer,
+  }) as Express.Multer.File;
+
+describe('ImageValidationService', () => {
+  let service: ImageValidationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageValidationService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue({ maxFileSize: 4096 }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImageValidationService>(ImageValidationService);
+  });
+
+  const rejection = (upload: Express.Multer.File, usage: ImageUsage) => {
+    try {
+      service.sanitize(upload, usage);
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the upload to be rejected');
+  };
+
+  it('should type a JPEG by its content and strip its EXIF metadata', () => {
+    const upload = file(jpeg(1200, 600), 'image/png');
+
+    const sanitized = service.sanitize(upload, ImageUsage.HERO);
+
+    expect(sanitized.mimetype).toBe('image/jpeg');
+    expect(sanitized.buffer.includes('Exif')).toBe(false);
+    expect(sanitized.buffer.includes('GPS')).toBe(false);
+    expect(sanitized.size).toBe(sanitized.buffer.length);
+    expect(sanitized.buffer.subarray(-8)).toEqual(upload.buffer.subarray(-8));
+  });
+
+  it('should check a rotated JPEG as displayed and keep only its orientation', () => {
+    // Stored landscape, displayed portrait
+    const upload = file(jpeg(1200, 600, 6), 'image/jpeg');
+
+    const sanitized = service.sanitize(upload, ImageUsage.GALLERY);
+
+    expect(readImageInfo(sanitized.buffer, 'image/jpeg')).toEqual({
+      width: 600,
+      height: 1200,
+      animated: false,
+    });
+    expect(sanitized.buffer.includes('Exif')).toBe(true);
+    expect(sanitized.buffer.includes('GPS')).toBe(false);
+    expect(
+      rejection(upload, ImageUsage.HERO).getResponse().errors[0],
+    ).toMatchObject({ code: 'IMAGE_ASPECT_RATIO', aspectRatio: 0.5 });
+  });
+
+  it('should drop PNG text chunks and WebP EXIF chunks', () => {
+    const text = chunk('tEXt', Buffer.from('Author\0someone', 'latin1'));
+
+    const sanitizedPng = service.sanitize(
+      file(png(800, 800, text)),
+      ImageUsage.GALLERY,
+    );
+    const sanitizedWebp = service.sanitize(
+      file(webp(800, 800)),
+      ImageUsage.GALLERY,
+    );
+
+    expect(sanitizedPng.buffer).toEqual(png(800, 800));
+    expect(sanitizedWebp.buffer.includes('EXIF')).toBe(false);
+    expect(sanitizedWebp.buffer[20] & 0x08).toBe(0);
+    expect(sanitizedWebp.buffer.readUInt32LE(4)).toBe(
+      sanitizedWebp.buffer.length - 8,
+    );
+  });
+
+  it('should reject content that is not an image whatever its declared type', () => {
+    const executable = Buffer.concat([
+      Buffer.from('MZ', 'latin1'),
+      Buffer.alloc(64),
+    ]);
+
+    const error = rejection(file(executable, 'image/png'), ImageUsage.HERO);
+
+    expect(error).toBeInstanceOf(UnsupportedMediaTypeException);
+    expect(error.getResponse().errors[0]).toMatchObject({
+      code: 'IMAGE_TYPE_UNSUPPORTED',
+      declaredType: 'image/png',
+    });
+  });
+
+  it('should reject files above the configured maximum size', () => {
+    const large = png(800, 800, chunk('IDAT', Buffer.alloc(5000)));
+
+    const error = rejection(file(large), ImageUsage.GALLERY);
+
+    expect(error).toBeInstanceOf(PayloadTooLargeException);
+    expect(error.getResponse().errors[0]).toMatchObject({
+      code: 'IMAGE_TOO_LARGE',
+      maxSize: 4096,
+    });
+  });
+
+  it('should hold images to the dimensions and aspect ratio of their usage', () => {
+    const error = rejection(file(png(2000, 400)), ImageUsage.THUMBNAIL);
+
+    expect(error).toBeInstanceOf(UnprocessableEntityException);
+    expect(error.getResponse().errors.map(({ code }) => code)).toEqual([
+      'IMAGE_ASPECT_RATIO',
+    ]);
+    expect(() =>
+      service.sanitize(file(png(2000, 400)), ImageUsage.BANNER),
+    ).not.toThrow();
+    expect(
+      rejection(file(png(300, 200)), ImageUsage.HERO).getResponse().errors[0]
+        .code,
+    ).toBe('IMAGE_TOO_SMALL');
+  });
+
+  it('should hold icons to small, roughly square images', () => {
+    expect(() =>
+      service.sanitize(file(png(64, 64)), ImageUsage.ICON),
+    ).not.toThrow();
+    expect(
+      rejection(file(png(64, 64)), ImageUsage.HERO).getResponse().errors[0]
+        .code,
+    ).toBe('IMAGE_TOO_SMALL');
+    expect(
+      rejection(file(png(1600, 800)), ImageUsage.ICON)
+        .getResponse()
+        .errors.map(({ code }) => code),
+    ).toEqual(['IMAGE_TOO_BIG', 'IMAGE_ASPECT_RATIO']);
+  });
+
+  it('should only accept animated GIFs where the usage allows them', () => {
+    const animated = file(gif(800, 800, 2), 'image/gif');
+
+    expect(
+      rejection(animated, ImageUsage.THUMBNAIL).getResponse().errors,
+    ).toEqual([{ code: 'IMAGE_ANIMATED' }]);
+    expect(service.sanitize(animated, ImageUsage.GALLERY).buffer).toEqual(
+      animated.buffer,
+    );
+    expect(() =>
+      service.sanitize(
+        file(gif(800, 800, 1), 'image/gif'),
+        ImageUsage.THUMBNAIL,
+      ),
+    ).not.toThrow();
+  });
+
+  it('should reject truncated images', () => {
+    const error = rejection(
+      file(png(800, 800).subarray(0, 20)),
+      ImageUsage.GALLERY,
+    );
+
+    expect(error).toBeInstanceOf(UnprocessableEntityException);
+    expect(error.getResponse().errors[0].code).toBe('IMAGE_UNREADABLE');
+  });
+});
@@ -0,0 +1,135 @@
+/* eslint-disable prettier/prettier */
+import {
+  Injectable,
+  PayloadTooLargeException,
+  UnprocessableEntityException,
+  UnsupportedMediaTypeException
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../../config/app.config';
+import { ImageUsage } from '../../common/enums/image-usage.enum';
+import {
+  ALLOWED_IMAGE_MIME_TYPES,
+  detectImageMimeType,
+  readImageInfo,
+  stripImageMetadata
+} from '../../common/utils/image.util';
+
+export interface ImageUsageRules {
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+  minAspectRatio: number; // width / height
+  maxAspectRatio: number;
+  allowAnimated: boolean;
+}
+
+export const IMAGE_USAGE_RULES: Record<ImageUsage, ImageUsageRules> = {
+  [ImageUsage.HERO]: {
+    minWidth: 600, minHeight: 300, maxWidth: 8000, maxHeight: 8000,
+    minAspectRatio: 1, maxAspectRatio: 4, allowAnimated: false
+  },
+  [ImageUsage.BANNER]: {
+    minWidth: 1200, minHeight: 200, maxWidth: 8000, maxHeight: 4000,
+    minAspectRatio: 2, maxAspectRatio: 8, allowAnimated: false
+  },
+  [ImageUsage.THUMBNAIL]: {
+    minWidth: 150, minHeight: 150, maxWidth: 4000, maxHeight: 4000,
+    minAspectRatio: 0.5, maxAspectRatio: 2, allowAnimated: false
+  },
+  [ImageUsage.GALLERY]: {
+    minWidth: 400, minHeight: 400, maxWidth: 8000, maxHeight: 8000,
+    minAspectRatio: 0.5, maxAspectRatio: 2.5, allowAnimated: true
+  },
+  [ImageUsage.ICON]: {
+    minWidth: 32, minHeight: 32, maxWidth: 1024, maxHeight: 1024,
+    minAspectRatio: 0.8, maxAspectRatio: 1.25, allowAnimated: false
+  }
+};
+
+// Refuses decompression bombs: small files that decode to an enormous bitmap
+const MAX_IMAGE_PIXELS = 40_000_000;
+
+/**
+ * Checks uploaded images by their content rather than by what the client declared, applies the
+ * dimension, aspect-ratio and animation rules of where the image is used, and strips its metadata
+ * before it is stored.
+ */
+@Injectable()
+export class ImageValidationService {
+  private readonly maxFileSize: number;
+
+  constructor(private readonly configService: ConfigService) {
+    this.maxFileSize = this.configService.get<AppConfig>('app')?.maxFileSize ?? 10485760;
+  }
+
+  /**
+   * Validate an upload for a usage and return the file to store
+   * @returns The file without EXIF/GPS, XMP or IPTC metadata, typed by its content
+   * @throws PayloadTooLargeException above AppConfig.maxFileSize
+   * @throws UnsupportedMediaTypeException when the content is not a JPEG, PNG, GIF or WebP image
+   * @throws UnprocessableEntityException when the image breaks the rules of its usage
+   */
+  sanitize(file: Express.Multer.File, usage: ImageUsage): Express.Multer.File {
+    if (!file?.buffer?.length) {
+      throw new UnprocessableEntityException({
+        message: 'The image file is empty.',
+        errors: [{ code: 'IMAGE_EMPTY' }]
+      });
+    }
+
+    if (file.buffer.length > this.maxFileSize) {
+      throw new PayloadTooLargeException({
+        message: `Image size exceeds the maximum of ${Math.round(this.maxFileSize / 1024 / 1024)}MB.`,
+        errors: [{ code: 'IMAGE_TOO_LARGE', size: file.buffer.length, maxSize: this.maxFileSize }]
+      });
+    }
+
+    const mimetype = detectImageMimeType(file.buffer);
+    if (!mimetype) {
+      throw new UnsupportedMediaTypeException({
+        message: `Invalid image content. Allowed types: ${ALLOWED_IMAGE_MIME_TYPES.join(', ')}`,
+        errors: [{ code: 'IMAGE_TYPE_UNSUPPORTED', declaredType: file.mimetype, allowedTypes: ALLOWED_IMAGE_MIME_TYPES }]
+      });
+    }
+
+    const info = readImageInfo(file.buffer, mimetype);
+    const violations = this.checkRules(info.width, info.height, info.animated, usage);
+    if (violations.length > 0) {
+      throw new UnprocessableEntityException({
+        message: `The image does not meet the requirements of a ${usage} image.`,
+        errors: violations
+      });
+    }
+
+    const buffer = stripImageMetadata(file.buffer, mimetype);
+    return { ...file, buffer, mimetype, size: buffer.length };
+  }
+
+  private checkRules(width: number, height: number, animated: boolean, usage: ImageUsage): Record<string, unknown>[] {
+    const rules = IMAGE_USAGE_RULES[usage];
+    const aspectRatio = width / height;
+    const violations: Record<string, unknown>[] = [];
+
+    if (width < rules.minWidth || height < rules.minHeight) {
+      violations.push({ code: 'IMAGE_TOO_SMALL', width, height, minWidth: rules.minWidth, minHeight: rules.minHeight });
+    }
+    if (width > rules.maxWidth || height > rules.maxHeight || width * height > MAX_IMAGE_PIXELS) {
+      violations.push({ code: 'IMAGE_TOO_BIG', width, height, maxWidth: rules.maxWidth, maxHeight: rules.maxHeight });
+    }
+    if (aspectRatio < rules.minAspectRatio || aspectRatio > rules.maxAspectRatio) {
+      violations.push({
+        code: 'IMAGE_ASPECT_RATIO',
+        aspectRatio: Math.round(aspectRatio * 100) / 100,
+        minAspectRatio: rules.minAspectRatio,
+        maxAspectRatio: rules.maxAspectRatio
+      });
+    }
+    if (animated && !rules.allowAnimated) {
+      violations.push({ code: 'IMAGE_ANIMATED' });
+    }
+
+    return violations;
+  }
+}
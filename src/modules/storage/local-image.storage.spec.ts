@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { mkdtemp, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalImageStorage } from './local-image.storage';
+
+describe('LocalImageStorage', () => {
+  let directory: string;
+  let storage: LocalImageStorage;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'images-'));
+    storage = new LocalImageStorage({
+      directory,
+      publicPath: '/media',
+      baseUrl: 'http://localhost:8000',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store uploads under the folder and resolve their URL back to the public ID', async () => {
+    const image = await storage.upload(
+      {
+        buffer: Buffer.from('image'),
+        mimetype: 'image/png',
+      } as Express.Multer.File,
+      'categories',
+    );
+
+    expect(image.publicId).toMatch(/^categories\/[0-9a-f-]{36}\.png$/);
+    expect(image.url).toBe(`http://localhost:8000/media/${image.publicId}`);
+    expect(storage.extractPublicId(image.url)).toBe(image.publicId);
+    expect(await readFile(join(directory, image.publicId), 'utf8')).toBe(
+      'image',
+    );
+
+    const listed = await storage.list('categories');
+    expect(listed.map((item) => item.publicId)).toEqual([image.publicId]);
+    expect(await storage.list('genders')).toEqual([]);
+
+    await storage.delete(image.publicId);
+    await expect(stat(join(directory, image.publicId))).rejects.toThrow();
+  });
+
+  it('should ignore URLs it did not issue and refuse paths outside its directory', async () => {
+    expect(
+      storage.extractPublicId(
+        'https://res.cloudinary.com/demo/image/upload/v1/categories/shoes.webp',
+      ),
+    ).toBeNull();
+
+    await expect(storage.delete('../secrets.txt')).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+});
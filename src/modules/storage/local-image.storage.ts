@@ -0,0 +1,109 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { LocalStorageConfig } from '../../config/storage.config';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+import { getExtensionFromMimeType } from '../../common/utils/image.util';
+import { ImageStorage, ListedImage, StoredImage } from './image-storage';
+
+/**
+ * Stores images on the local filesystem, served by the app under LocalStorageConfig.publicPath.
+ * Meant for development and tests; files are stored as uploaded.
+ */
+export class LocalImageStorage implements ImageStorage {
+  readonly driver = ImageStorageDriver.LOCAL;
+  private readonly logger = new Logger(LocalImageStorage.name);
+  private readonly root: string;
+
+  constructor(private readonly config: LocalStorageConfig) {
+    this.root = resolve(config.directory);
+  }
+
+  async upload(file: Express.Multer.File, folder: string): Promise<StoredImage> {
+    const format = getExtensionFromMimeType(file.mimetype) ?? 'bin';
+    const publicId = `${folder}/${randomUUID()}.${format}`;
+    const path = this.resolvePath(publicId);
+
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, file.buffer);
+    } catch (error) {
+      this.logger.error(`Error writing image ${path}: ${error.message}`, error.stack);
+      throw new BadRequestException(`Image upload failed: ${error.message}`);
+    }
+
+    this.logger.log(`Image stored successfully: ${publicId}`);
+
+    return {
+      url: this.generateUrl(publicId),
+      publicId,
+      format,
+      bytes: file.buffer.length
+    };
+  }
+
+  async delete(publicId: string): Promise<void> {
+    await rm(this.resolvePath(publicId), { force: true });
+    this.logger.log(`Image deleted successfully: ${publicId}`);
+  }
+
+  async list(folder: string): Promise<ListedImage[]> {
+    const directory = this.resolvePath(folder);
+    let entries: string[];
+
+    try {
+      entries = await readdir(directory, { recursive: true });
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const images: ListedImage[] = [];
+    for (const entry of entries) {
+      const path = join(directory, entry);
+      const stats = await stat(path);
+
+      if (stats.isFile()) {
+        images.push({
+          publicId: relative(this.root, path).split(sep).join('/'),
+          createdAt: stats.mtime
+        });
+      }
+    }
+
+    return images;
+  }
+
+  generateUrl(publicId: string): string {
+    return `${this.urlPrefix()}${publicId.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  extractPublicId(imageUrl: string): string | null {
+    const prefix = this.urlPrefix();
+
+    if (!imageUrl?.startsWith(prefix)) {
+      return null;
+    }
+
+    return decodeURIComponent(imageUrl.slice(prefix.length).split(/[?#]/)[0]) || null;
+  }
+
+  private urlPrefix(): string {
+    return `${this.config.baseUrl}${this.config.publicPath}/`;
+  }
+
+  // Public IDs come from URLs stored in the database; never let one point outside the storage directory
+  private resolvePath(publicId: string): string {
+    const path = resolve(this.root, publicId);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new BadRequestException(`Invalid image public ID: ${publicId}`);
+    }
+
+    return path;
+  }
+}
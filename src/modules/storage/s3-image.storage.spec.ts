@@ -0,0 +1,82 @@
+import { S3ImageStorage } from './s3-image.storage';
+
+describe('S3ImageStorage', () => {
+  let fetchMock: jest.SpyInstance;
+
+  const storage = new S3ImageStorage({
+    endpoint: 'http://minio:9000',
+    region: 'us-east-1',
+    bucket: 'images',
+    accessKeyId: 'minio',
+    secretAccessKey: 'minio-secret',
+    forcePathStyle: true,
+  });
+
+  beforeEach(() => {
+    fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(null, { status: 200 }));
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('should put uploads in the bucket with a SigV4-signed request', async () => {
+    const image = await storage.upload(
+      {
+        buffer: Buffer.from('image'),
+        mimetype: 'image/webp',
+      } as Express.Multer.File,
+      'categories',
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(init.method).toBe('PUT');
+    expect(url.toString()).toBe(`http://minio:9000/images/${image.publicId}`);
+    expect(init.headers['content-type']).toBe('image/webp');
+    expect(init.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=minio\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/,
+    );
+
+    expect(image.url).toBe(`http://minio:9000/images/${image.publicId}`);
+    expect(storage.extractPublicId(image.url)).toBe(image.publicId);
+  });
+
+  it('should list a folder across continuation pages', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response(
+          '<ListBucketResult><IsTruncated>true</IsTruncated><NextContinuationToken>a+b/c=</NextContinuationToken>' +
+            '<Contents><Key>categories/a.png</Key><LastModified>2024-01-01T00:00:00.000Z</LastModified></Contents></ListBucketResult>',
+        ),
+      )
+      .mockResolvedValueOnce(
+        new Response(
+          '<ListBucketResult><IsTruncated>false</IsTruncated>' +
+            '<Contents><Key>categories/b&amp;c.png</Key></Contents></ListBucketResult>',
+        ),
+      );
+
+    const images = await storage.list('categories');
+
+    expect(images).toEqual([
+      {
+        publicId: 'categories/a.png',
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      },
+      { publicId: 'categories/b&c.png' },
+    ]);
+    expect(fetchMock.mock.calls[1][0].toString()).toBe(
+      'http://minio:9000/images/?continuation-token=a%2Bb%2Fc%3D&list-type=2&prefix=categories%2F',
+    );
+  });
+
+  it('should report failed requests', async () => {
+    fetchMock.mockResolvedValue(new Response('AccessDenied', { status: 403 }));
+
+    await expect(storage.delete('categories/shoes.webp')).rejects.toThrow(
+      'S3 DELETE categories/shoes.webp failed with 403: AccessDenied',
+    );
+  });
+});
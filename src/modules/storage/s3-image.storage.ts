@@ -0,0 +1,185 @@
+/* eslint-disable prettier/prettier */
+import { BadRequestException, Logger } from '@nestjs/common';
+import { createHash, createHmac, randomUUID } from 'crypto';
+import { S3StorageConfig } from '../../config/storage.config';
+import { ImageStorageDriver } from '../../common/enums/image-storage-driver.enum';
+import { getExtensionFromMimeType } from '../../common/utils/image.util';
+import { ImageStorage, ListedImage, StoredImage } from './image-storage';
+
+const sha256 = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string): Buffer => createHmac('sha256', key).update(data).digest();
+// SigV4 encodes query parameters per RFC 3986, which also escapes !'()*
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const xmlText = (xml: string, tag: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1].replace(/&(amp|lt|gt|quot|apos);/g, (_, entity) => XML_ENTITIES[entity]);
+};
+
+interface S3Request {
+  body?: Buffer;
+  contentType?: string;
+  query?: Record<string, string>;
+}
+
+/**
+ * Stores images in an S3-compatible bucket (AWS S3, MinIO), with requests signed with AWS Signature V4.
+ * Objects are stored as uploaded; the bucket or a CDN in front of it must allow public reads.
+ */
+export class S3ImageStorage implements ImageStorage {
+  readonly driver = ImageStorageDriver.S3;
+  private readonly logger = new Logger(S3ImageStorage.name);
+
+  constructor(private readonly config: S3StorageConfig) {}
+
+  async upload(file: Express.Multer.File, folder: string): Promise<StoredImage> {
+    const format = getExtensionFromMimeType(file.mimetype) ?? 'bin';
+    const publicId = `${folder}/${randomUUID()}.${format}`;
+
+    try {
+      await this.send('PUT', publicId, { body: file.buffer, contentType: file.mimetype });
+    } catch (error) {
+      this.logger.error(`Error uploading image ${publicId}: ${error.message}`, error.stack);
+      throw new BadRequestException(`Image upload failed: ${error.message}`);
+    }
+
+    this.logger.log(`Image uploaded successfully: ${publicId}`);
+
+    return {
+      url: this.generateUrl(publicId),
+      publicId,
+      format,
+      bytes: file.buffer.length
+    };
+  }
+
+  async delete(publicId: string): Promise<void> {
+    await this.send('DELETE', publicId);
+    this.logger.log(`Image deleted successfully: ${publicId}`);
+  }
+
+  /**
+   * Lists the folder with ListObjectsV2, following continuation tokens
+   */
+  async list(folder: string): Promise<ListedImage[]> {
+    const images: ListedImage[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const xml = await this.send('GET', '', {
+        query: {
+          'list-type': '2',
+          prefix: `${folder}/`,
+          ...(continuationToken && { 'continuation-token': continuationToken })
+        }
+      });
+
+      for (const [, contents] of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const lastModified = xmlText(contents, 'LastModified');
+        images.push({
+          publicId: xmlText(contents, 'Key'),
+          ...(lastModified && { createdAt: new Date(lastModified) })
+        });
+      }
+
+      continuationToken = xmlText(xml, 'IsTruncated') === 'true'
+        ? xmlText(xml, 'NextContinuationToken')
+        : undefined;
+    } while (continuationToken);
+
+    return images;
+  }
+
+  generateUrl(publicId: string): string {
+    return `${this.publicUrl()}/${this.encodeKey(publicId)}`;
+  }
+
+  extractPublicId(imageUrl: string): string | null {
+    const prefix = `${this.publicUrl()}/`;
+
+    if (!imageUrl?.startsWith(prefix)) {
+      return null;
+    }
+
+    return decodeURIComponent(imageUrl.slice(prefix.length).split(/[?#]/)[0]) || null;
+  }
+
+  private async send(method: 'GET' | 'PUT' | 'DELETE', key: string, request: S3Request = {}): Promise<string> {
+    const url = new URL(`${this.bucketUrl()}/${this.encodeKey(key)}`);
+    // Built by hand so the query sent is exactly the one signed
+    url.search = Object.keys(request.query ?? {})
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(request.query[name])}`)
+      .join('&');
+
+    const headers = this.sign(method, url, request.body ?? Buffer.alloc(0), request.contentType);
+    const response = await fetch(url, { method, headers, body: request.body });
+    const text = await response.text();
+
+    if (!response.ok) {
+      throw new Error(`S3 ${method} ${key || this.config.bucket} failed with ${response.status}: ${text}`);
+    }
+
+    return text;
+  }
+
+  /**
+   * Headers of a request signed with AWS Signature Version 4
+   */
+  private sign(method: string, url: URL, body: Buffer, contentType?: string): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': sha256(body),
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType })
+    };
+    const signedHeaders = Object.keys(headers).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      url.search.slice(1),
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      headers['x-amz-content-sha256']
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey ?? ''}`, dateStamp), this.config.region)
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself
+    const requestHeaders = { ...headers };
+    delete requestHeaders.host;
+    return {
+      ...requestHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId ?? ''}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+    };
+  }
+
+  private bucketUrl(): string {
+    if (this.config.forcePathStyle) {
+      return `${this.config.endpoint}/${this.config.bucket}`;
+    }
+
+    const endpoint = new URL(this.config.endpoint);
+    return `${endpoint.protocol}//${this.config.bucket}.${endpoint.host}`;
+  }
+
+  private publicUrl(): string {
+    return this.config.publicUrl ?? this.bucketUrl();
+  }
+
+  private encodeKey(key: string): string {
+    return key.split('/').map(encodeURIComponent).join('/');
+  }
+}
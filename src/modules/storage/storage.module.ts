@@ -0,0 +1,23 @@
+/* eslint-disable prettier/prettier */
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createImageStorage, IMAGE_STORAGE } from './image-storage';
+import { StorageConfig } from '../../config/storage.config';
+import { ImageValidationService } from './image-validation.service';
+
+const imageStorageProvider = {
+  provide: IMAGE_STORAGE,
+  inject: [ConfigService],
+  useFactory: (configService: ConfigService) => createImageStorage(configService.get<StorageConfig>('storage'))
+};
+
+/**
+ * Image storage for every module that accepts uploads, using the driver selected by IMAGE_STORAGE_DRIVER,
+ * and the validation uploads go through before they are stored
+ */
+@Global()
+@Module({
+  providers: [imageStorageProvider, ImageValidationService],
+  exports: [imageStorageProvider, ImageValidationService]
+})
+export class StorageModule {}
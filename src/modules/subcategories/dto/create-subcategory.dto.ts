@@ -1 +1,96 @@
-export class CreateSubcategoryDto {}
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { 
+  IsString, 
+  IsEnum, 
+  IsOptional, 
+  IsArray, 
+  IsNumber, 
+  IsObject, 
+  MinLength,
+  MaxLength,
+  IsMongoId,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { CategoryStatus } from '../../../common/enums/category-status.enum';
+
+// Create Subcategory DTO
+export class CreateSubcategoryDto {
+  @ApiProperty({ 
+    description: 'Subcategory name', 
+    example: 'Sneakers',
+    minLength: 2,
+    maxLength: 100
+  })
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  @Transform(({ value }) => value?.trim())
+  name: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Subcategory description',
+    example: 'Casual and sport sneakers',
+    maxLength: 500
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Transform(({ value }) => value?.trim())
+  description?: string;
+
+  @ApiProperty({ 
+    description: 'Parent category ID',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @IsMongoId()
+  categoryId: string;
+
+  @ApiPropertyOptional({ 
+    description: 'Subcategory status',
+    enum: CategoryStatus,
+    default: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+
+  @ApiPropertyOptional({ 
+    description: 'Applicable genders (names of active gender records)',
+    type: [String],
+    example: ['men', 'women']
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Transform(({ value }) => Array.isArray(value) ? value.map(gender => String(gender).trim().toLowerCase()) : value)
+  applicableGenders?: string[];
+
+  @ApiPropertyOptional({ 
+    description: 'Sort order',
+    default: 0
+  })
+  @IsOptional()
+  @IsNumber()
+  @Type(() => Number)
+  sortOrder?: number;
+
+  @ApiPropertyOptional({ 
+    description: 'Additional metadata',
+    example: { featured: true, priority: 1 }
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional({ 
+    description: 'Subcategory icon',
+    example: 'sneakers-icon'
+  })
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  // Note: imageUrl will be handled by the service after file upload
+  // The actual file upload will be handled via multipart form data
+}
@@ -0,0 +1,107 @@
+/* eslint-disable prettier/prettier */
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsEnum, IsMongoId, IsNumber, IsOptional, IsString, Max, MaxLength, Min, MinLength } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+
+
+export class SubcategoryQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by parent category ID',
+    example: '507f1f77bcf86cd799439011'
+  })
+  @IsOptional()
+  @IsMongoId()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Filter by subcategory status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  @IsOptional()
+  @IsEnum(CategoryStatus)
+  status?: CategoryStatus;
+
+  @ApiPropertyOptional({
+    description: 'Filter by applicable gender (name of a gender record)',
+    example: 'unisex'
+  })
+  @IsOptional()
+  @IsString()
+  @Transform(({ value }) => value?.trim().toLowerCase())
+  gender?: string;
+
+  @ApiPropertyOptional({
+    description: 'Search term for name, slug or description (case-insensitive)',
+    example: 'sneakers',
+    minLength: 2,
+    maxLength: 100
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  search?: string;
+
+  @ApiPropertyOptional({
+    description: 'Include deleted subcategories in results',
+    type: 'boolean',
+    default: false,
+    example: false
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (value === 'true') return true;
+    if (value === 'false') return false;
+    return value;
+  })
+  @IsBoolean()
+  includeDeleted?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Page number for pagination',
+    minimum: 1,
+    default: 1,
+    example: 1
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    minimum: 1,
+    maximum: 100,
+    default: 10,
+    example: 20
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sort field',
+    enum: ['name', 'slug', 'createdAt', 'updatedAt', 'sortOrder', 'status'],
+    default: 'sortOrder',
+    example: 'name'
+  })
+  @IsOptional()
+  @IsString()
+  sortBy?: 'name' | 'slug' | 'createdAt' | 'updatedAt' | 'sortOrder' | 'status';
+
+  @ApiPropertyOptional({
+    description: 'Sort direction',
+    enum: ['asc', 'desc'],
+    default: 'asc',
+    example: 'asc'
+  })
+  @IsOptional()
+  @IsString()
+  sortOrder?: 'asc' | 'desc';
+}
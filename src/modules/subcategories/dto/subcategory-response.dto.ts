@@ -0,0 +1,133 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { ValidateNested } from "class-validator";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+
+
+export class SubcategoryResponseDto {
+  @ApiProperty({
+    description: 'Subcategory unique identifier',
+    example: '507f1f77bcf86cd799439013'
+  })
+  _id: string;
+
+  @ApiProperty({
+    description: 'Subcategory name',
+    example: 'Sneakers'
+  })
+  name: string;
+
+  @ApiProperty({
+    description: 'URL-friendly slug, unique within the parent category',
+    example: 'sneakers'
+  })
+  slug: string;
+
+  @ApiPropertyOptional({
+    description: 'Subcategory description',
+    example: 'Casual and sport sneakers'
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'Parent category ID',
+    example: '507f1f77bcf86cd799439011'
+  })
+  categoryId: string;
+
+  @ApiProperty({
+    description: 'Subcategory status',
+    enum: CategoryStatus,
+    example: CategoryStatus.ACTIVE
+  })
+  status: CategoryStatus;
+
+  @ApiProperty({
+    description: 'Applicable genders',
+    type: [String],
+    example: ['men', 'women']
+  })
+  applicableGenders: string[];
+
+  @ApiProperty({
+    description: 'Sort order for display',
+    example: 1
+  })
+  sortOrder: number;
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata',
+    example: { featured: true }
+  })
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description: 'Subcategory image URL',
+    example: 'https://res.cloudinary.com/demo/image/upload/subcategories/sneakers.webp'
+  })
+  imageUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Subcategory icon',
+    example: 'sneakers-icon'
+  })
+  icon?: string;
+
+  @ApiProperty({
+    description: 'Soft delete flag',
+    example: false
+  })
+  isDeleted: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Deletion timestamp',
+    example: null,
+    nullable: true
+  })
+  deletedAt?: Date;
+
+  @ApiProperty({
+    description: 'Creation timestamp',
+    example: '2024-01-15T10:30:00.000Z'
+  })
+  createdAt: Date;
+
+  @ApiProperty({
+    description: 'Last update timestamp',
+    example: '2024-01-20T14:45:00.000Z'
+  })
+  updatedAt: Date;
+}
+
+export class SubcategoryListResponseDto {
+  @ApiProperty({
+    description: 'Array of subcategories',
+    type: [SubcategoryResponseDto],
+    isArray: true
+  })
+  @ValidateNested({ each: true })
+  @Type(() => SubcategoryResponseDto)
+  data: SubcategoryResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+    type: 'object',
+    properties: {
+      total: { type: 'number', description: 'Total number of subcategories', example: 150 },
+      page: { type: 'number', description: 'Current page number', example: 1 },
+      limit: { type: 'number', description: 'Items per page', example: 20 },
+      totalPages: { type: 'number', description: 'Total number of pages', example: 8 },
+      hasNext: { type: 'boolean', description: 'Whether there is a next page', example: true },
+      hasPrev: { type: 'boolean', description: 'Whether there is a previous page', example: false }
+    }
+  })
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
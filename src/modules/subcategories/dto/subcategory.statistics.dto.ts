@@ -0,0 +1,68 @@
+/* eslint-disable prettier/prettier */
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { CategoryStatus } from "../../../common/enums/category-status.enum";
+import { SubcategoryResponseDto } from "./subcategory-response.dto";
+
+
+export class SubcategoryStatsDto {
+  @ApiProperty({
+    description: 'Total number of subcategories',
+    example: 320
+  })
+  total: number;
+
+  @ApiProperty({
+    description: 'Subcategories breakdown by status',
+    type: 'object',
+    properties: {
+      active: { type: 'number', example: 280 },
+      inactive: { type: 'number', example: 30 },
+      archived: { type: 'number', example: 10 }
+    }
+  })
+  byStatus: Record<CategoryStatus, number>;
+
+  @ApiProperty({
+    description: 'Number of subcategories per parent category ID',
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    example: { '507f1f77bcf86cd799439011': 12 }
+  })
+  byCategory: Record<string, number>;
+
+  @ApiProperty({
+    description: 'Number of soft-deleted subcategories',
+    example: 4
+  })
+  softDeleted: number;
+
+  @ApiProperty({
+    description: 'Most recently created subcategories',
+    type: [SubcategoryResponseDto],
+    maxItems: 5
+  })
+  recentlyCreated: SubcategoryResponseDto[];
+}
+
+// Subcategory Validation Response DTO
+export class SubcategoryValidationDto {
+  @ApiProperty({
+    description: 'Whether the subcategory slug is available within the category',
+    example: false
+  })
+  slugAvailable: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Suggested alternative slug if current is unavailable',
+    example: 'sneakers-2'
+  })
+  suggestedSlug?: string;
+
+  @ApiProperty({
+    description: 'Validation messages',
+    type: 'array',
+    items: { type: 'string' },
+    example: ['Slug is already in use']
+  })
+  messages: string[];
+}
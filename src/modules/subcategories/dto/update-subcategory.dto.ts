@@ -1,6 +1,15 @@
-import { PartialType } from '@nestjs/mapped-types';
+/* eslint-disable prettier/prettier */
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import { CreateSubcategoryDto } from './create-subcategory.dto';
 
-export class UpdateSubcategoryDto extends PartialType(CreateSubcategoryDto) {
-  id: number;
+// Update Subcategory DTO; changing categoryId moves the subcategory to another category
+export class UpdateSubcategoryDto extends PartialType(CreateSubcategoryDto) {}
+
+export class UpdateSubcategoryWithFileDto extends UpdateSubcategoryDto {
+  @ApiPropertyOptional({ 
+    description: 'Subcategory image file',
+    type: 'string',
+    format: 'binary'
+  })
+  image?: Express.Multer.File;
 }
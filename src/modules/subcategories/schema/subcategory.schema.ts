@@ -2,7 +2,6 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { CategoryStatus } from '../../../common/enums/category-status.enum';
-import { Gender } from '../../../common/enums/gender.enum';
 
 export type SubcategoryDocument = Subcategory & Document;
 
@@ -37,8 +36,8 @@ export class Subcategory {
   })
   status: CategoryStatus;
 
-  @Prop({ type: [String], enum: Gender, default: [] })
-  applicableGenders: Gender[];
+  @Prop({ type: [String], lowercase: true, default: [] })
+  applicableGenders: string[]; // names of GenderEntity records
 
   @Prop({ default: 0 })
   sortOrder: number;
@@ -0,0 +1,510 @@
+/* eslint-disable prettier/prettier */
+import { Controller, Logger } from '@nestjs/common';
+import { MessagePattern, Payload, Ctx, KafkaContext } from '@nestjs/microservices';
+import { SubcategoriesService } from './subcategories.service';
+import { CreateSubcategoryDto } from './dto/create-subcategory.dto';
+import { UpdateSubcategoryDto } from './dto/update-subcategory.dto';
+import { SubcategoryQueryDto } from './dto/subcategory-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { KAFKA_TOPICS } from '../../common/constants/kafka-topics.constants';
+import { toMulterFile } from '../../common/utils/image.util';
+
+@Controller()
+export class SubcategoriesKafkaController {
+  private readonly logger = new Logger(SubcategoriesKafkaController.name);
+
+  constructor(private readonly subcategoriesService: SubcategoriesService) {}
+
+  /**
+   * Create a new subcategory via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.CREATE)
+  async createSubcategory(
+    @Payload() data: { createSubcategoryDto: CreateSubcategoryDto; imageData?: Buffer; imageName?: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { createSubcategoryDto, imageData, imageName } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory creation - Partition: ${partition}, Offset: ${offset}`);
+
+      let imageFile: Express.Multer.File | undefined;
+      
+      // Convert image data back to Multer file format if provided
+      if (imageData && imageName) {
+        imageFile = toMulterFile(imageData, imageName);
+      }
+
+      const result = await this.subcategoriesService.create(createSubcategoryDto, imageFile);
+      
+      this.logger.log(`Subcategory created successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory created successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error creating subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to create subcategory'
+      };
+    }
+  }
+
+  /**
+   * Find all subcategories with filtering and pagination via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.FIND_ALL)
+  async findAllSubcategories(
+    @Payload() queryDto: SubcategoryQueryDto,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find all subcategories - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.subcategoriesService.findAll(queryDto);
+      
+      this.logger.log(`Found ${result.data.length} subcategories via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategories retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding subcategories via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve subcategories'
+      };
+    }
+  }
+
+  /**
+   * Find a single subcategory by ID via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.FIND_ONE)
+  async findOneSubcategory(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find subcategory by ID - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.subcategoriesService.findOne(id);
+      
+      this.logger.log(`Subcategory found via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding subcategory by ID via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve subcategory'
+      };
+    }
+  }
+
+  /**
+   * Find a subcategory by slug within a category via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.FIND_BY_SLUG)
+  async findSubcategoryBySlug(
+    @Payload() data: { categoryId: string; slug: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { categoryId, slug } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find subcategory by slug - Partition: ${partition}, Offset: ${offset}, Category: ${categoryId}, Slug: ${slug}`);
+
+      const result = await this.subcategoriesService.findBySlug(categoryId, slug);
+      
+      this.logger.log(`Subcategory found by slug via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding subcategory by slug via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve subcategory'
+      };
+    }
+  }
+
+  /**
+   * Find active subcategories of a category via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.FIND_BY_CATEGORY)
+  async findSubcategoriesByCategory(
+    @Payload() data: { categoryId: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { categoryId } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing find subcategories by category - Partition: ${partition}, Offset: ${offset}, Category: ${categoryId}`);
+
+      const result = await this.subcategoriesService.findByCategory(categoryId);
+      
+      this.logger.log(`Found ${result.length} subcategories for category ${categoryId} via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategories retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error finding subcategories by category via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve subcategories'
+      };
+    }
+  }
+
+  /**
+   * Update a subcategory via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.UPDATE)
+  async updateSubcategory(
+    @Payload() data: { 
+      id: string; 
+      updateSubcategoryDto: UpdateSubcategoryDto; 
+      imageData?: Buffer; 
+      imageName?: string 
+    },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, updateSubcategoryDto, imageData, imageName } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory update - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      let imageFile: Express.Multer.File | undefined;
+      
+      // Convert image data back to Multer file format if provided
+      if (imageData && imageName) {
+        imageFile = toMulterFile(imageData, imageName);
+      }
+
+      const result = await this.subcategoriesService.update(id, updateSubcategoryDto, imageFile);
+      
+      this.logger.log(`Subcategory updated successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update subcategory'
+      };
+    }
+  }
+
+  /**
+   * Soft delete a subcategory via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.DELETE)
+  async removeSubcategory(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.subcategoriesService.remove(id);
+      
+      this.logger.log(`Subcategory deleted successfully via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory deleted successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error deleting subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to delete subcategory'
+      };
+    }
+  }
+
+  /**
+   * Restore a soft-deleted subcategory via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.RESTORE)
+  async restoreSubcategory(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory restoration - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.subcategoriesService.restore(id);
+      
+      this.logger.log(`Subcategory restored successfully via Kafka: ${result.name} (${result._id})`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory restored successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error restoring subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to restore subcategory'
+      };
+    }
+  }
+
+  /**
+   * Hard delete a subcategory via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.HARD_DELETE)
+  async hardDeleteSubcategory(
+    @Payload() data: { id: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory hard deletion - Partition: ${partition}, Offset: ${offset}, ID: ${id}`);
+
+      const result = await this.subcategoriesService.hardDelete(id);
+      
+      this.logger.log(`Subcategory hard deleted successfully via Kafka: ${id}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory permanently deleted'
+      };
+    } catch (error) {
+      this.logger.error(`Error hard deleting subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to permanently delete subcategory'
+      };
+    }
+  }
+
+  /**
+   * Update subcategory status via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.UPDATE_STATUS)
+  async updateSubcategoryStatus(
+    @Payload() data: { id: string; status: CategoryStatus },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { id, status } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory status update - Partition: ${partition}, Offset: ${offset}, ID: ${id}, Status: ${status}`);
+
+      const result = await this.subcategoriesService.updateStatus(id, status);
+      
+      this.logger.log(`Subcategory status updated successfully via Kafka: ${result.name} (${result._id}) -> ${status}`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory status updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating subcategory status via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update subcategory status'
+      };
+    }
+  }
+
+  /**
+   * Update sort order for multiple subcategories via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.UPDATE_SORT_ORDER)
+  async updateSubcategorySortOrder(
+    @Payload() data: { updates: { id: string; sortOrder: number }[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { updates } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory sort order update - Partition: ${partition}, Offset: ${offset}, Updates: ${updates.length}`);
+
+      const result = await this.subcategoriesService.updateSortOrder(updates);
+      
+      this.logger.log(`Subcategory sort order updated successfully via Kafka: ${result.updated} subcategories`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory sort order updated successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error updating subcategory sort order via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to update subcategory sort order'
+      };
+    }
+  }
+
+  /**
+   * Bulk create subcategories via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.BULK_CREATE)
+  async bulkCreateSubcategories(
+    @Payload() data: { subcategories: CreateSubcategoryDto[] },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { subcategories } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing bulk subcategory creation - Partition: ${partition}, Offset: ${offset}, Count: ${subcategories.length}`);
+
+      const result = await this.subcategoriesService.bulkCreate(subcategories);
+      
+      this.logger.log(`Bulk created ${result.length} subcategories via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategories bulk created successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error bulk creating subcategories via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to bulk create subcategories'
+      };
+    }
+  }
+
+  /**
+   * Get subcategory statistics via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.GET_STATS)
+  async getSubcategoryStats(
+    @Payload() data: object,
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing get subcategory stats - Partition: ${partition}, Offset: ${offset}`);
+
+      const result = await this.subcategoriesService.getStats();
+      
+      this.logger.log(`Subcategory stats retrieved successfully via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory statistics retrieved successfully'
+      };
+    } catch (error) {
+      this.logger.error(`Error getting subcategory stats via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to retrieve subcategory statistics'
+      };
+    }
+  }
+
+  /**
+   * Validate subcategory slug availability within a category via Kafka
+   */
+  @MessagePattern(KAFKA_TOPICS.SUBCATEGORIES.VALIDATE)
+  async validateSubcategory(
+    @Payload() data: { categoryId: string; name: string; excludeId?: string },
+    @Ctx() context: KafkaContext
+  ) {
+    try {
+      const { categoryId, name, excludeId } = data;
+      const partition = context.getPartition();
+      const offset = context.getMessage().offset;
+      
+      this.logger.log(`Processing subcategory validation - Partition: ${partition}, Offset: ${offset}, Category: ${categoryId}, Name: ${name}`);
+
+      const result = await this.subcategoriesService.validateSubcategory(categoryId, name, excludeId);
+      
+      this.logger.log(`Subcategory validation completed via Kafka`);
+      
+      return {
+        success: true,
+        data: result,
+        message: 'Subcategory validation completed'
+      };
+    } catch (error) {
+      this.logger.error(`Error validating subcategory via Kafka: ${error.message}`, error.stack);
+      return {
+        success: false,
+        error: error.message,
+        message: 'Failed to validate subcategory'
+      };
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SubcategoriesController } from './subcategories.controller';
 import { SubcategoriesService } from './subcategories.service';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { CacheTagService } from '../cache/cache-tag.service';
 
 describe('SubcategoriesController', () => {
   let controller: SubcategoriesController;
@@ -8,7 +10,14 @@ describe('SubcategoriesController', () => {
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [SubcategoriesController],
-      providers: [SubcategoriesService],
+      providers: [
+        { provide: SubcategoriesService, useValue: {} },
+        {
+          provide: CacheTagService,
+          useValue: { set: jest.fn(), invalidate: jest.fn() },
+        },
+        { provide: CACHE_MANAGER, useValue: { get: jest.fn() } },
+      ],
     }).compile();
 
     controller = module.get<SubcategoriesController>(SubcategoriesController);
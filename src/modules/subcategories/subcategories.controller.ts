@@ -1,35 +1,479 @@
-import { Controller } from '@nestjs/common';
-import { MessagePattern, Payload } from '@nestjs/microservices';
+/* eslint-disable prettier/prettier */
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseInterceptors,
+  UploadedFile,
+  HttpCode,
+  HttpStatus,
+  ValidationPipe,
+  ParseEnumPipe,
+  Logger
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiConsumes,
+  ApiBody,
+  ApiParam,
+  ApiQuery,
+  ApiBearerAuth,
+  ApiExtraModels,
+  getSchemaPath
+} from '@nestjs/swagger';
 import { SubcategoriesService } from './subcategories.service';
 import { CreateSubcategoryDto } from './dto/create-subcategory.dto';
 import { UpdateSubcategoryDto } from './dto/update-subcategory.dto';
+import { SubcategoryQueryDto } from './dto/subcategory-filter.dto';
+import { SubcategoryListResponseDto, SubcategoryResponseDto } from './dto/subcategory-response.dto';
+import { SubcategoryStatsDto, SubcategoryValidationDto } from './dto/subcategory.statistics.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { TransformInterceptor } from '../../common/interceptors/transform.interceptor';
+import { CacheInterceptor } from '../../common/interceptors/cache.interceptor';
+import { ParseObjectIdPipe } from '../../common/pipes/parse-object-id.pipe';
 
-@Controller()
+@ApiTags('Subcategories')
+@Controller('subcategories')
+@UseInterceptors(TransformInterceptor)
+@ApiBearerAuth()
+@ApiExtraModels(
+  SubcategoryResponseDto,
+  SubcategoryListResponseDto,
+  SubcategoryStatsDto,
+  SubcategoryValidationDto
+)
 export class SubcategoriesController {
+  private readonly logger = new Logger(SubcategoriesController.name);
+
   constructor(private readonly subcategoriesService: SubcategoriesService) {}
 
-  @MessagePattern('createSubcategory')
-  create(@Payload() createSubcategoryDto: CreateSubcategoryDto) {
-    return this.subcategoriesService.create(createSubcategoryDto);
+  @Post()
+  @ApiOperation({
+    summary: 'Create a new subcategory',
+    description: 'Creates a new subcategory under an existing category with optional image upload'
+  })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Subcategory name' },
+        description: { type: 'string', description: 'Subcategory description' },
+        categoryId: { type: 'string', description: 'Parent category ID' },
+        status: {
+          type: 'string',
+          enum: Object.values(CategoryStatus),
+          description: 'Subcategory status'
+        },
+        applicableGenders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Applicable genders (names of active gender records)'
+        },
+        sortOrder: { type: 'number', description: 'Sort order' },
+        metadata: { type: 'object', description: 'Additional metadata' },
+        icon: { type: 'string', description: 'Subcategory icon' },
+        image: {
+          type: 'string',
+          format: 'binary',
+          description: 'Subcategory image file'
+        }
+      },
+      required: ['name', 'categoryId']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subcategory created successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Parent category not found' })
+  @ApiResponse({ status: 409, description: 'Subcategory slug already exists in the category' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async create(
+    @Body(ValidationPipe) createSubcategoryDto: CreateSubcategoryDto,
+    @UploadedFile() imageFile?: Express.Multer.File
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Creating subcategory: ${createSubcategoryDto.name}`);
+    return this.subcategoriesService.create(createSubcategoryDto, imageFile);
+  }
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get all subcategories',
+    description: 'Retrieves subcategories with optional filtering, sorting, and pagination'
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, description: 'Page number (default: 1)' })
+  @ApiQuery({ name: 'limit', required: false, type: Number, description: 'Items per page (default: 10, max: 100)' })
+  @ApiQuery({ name: 'categoryId', required: false, type: String, description: 'Filter by parent category' })
+  @ApiQuery({ name: 'search', required: false, type: String, description: 'Search in name, slug and description' })
+  @ApiQuery({ name: 'status', required: false, enum: CategoryStatus, description: 'Filter by status' })
+  @ApiQuery({ name: 'gender', required: false, type: String, description: 'Filter by applicable gender' })
+  @ApiQuery({ name: 'sortBy', required: false, type: String, description: 'Sort field (name, slug, createdAt, updatedAt, sortOrder, status)' })
+  @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'], description: 'Sort order (asc or desc)' })
+  @ApiQuery({ name: 'includeDeleted', required: false, type: Boolean, description: 'Include soft-deleted subcategories' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategories retrieved successfully',
+    schema: { $ref: getSchemaPath(SubcategoryListResponseDto) }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async findAll(@Query(ValidationPipe) queryDto: SubcategoryQueryDto): Promise<SubcategoryListResponseDto> {
+    this.logger.log(`Retrieving subcategories with filters: ${JSON.stringify(queryDto)}`);
+    return this.subcategoriesService.findAll(queryDto);
+  }
+
+  @Get('stats')
+  @ApiOperation({
+    summary: 'Get subcategory statistics',
+    description: 'Retrieves statistics about subcategories'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory statistics retrieved successfully',
+    schema: { $ref: getSchemaPath(SubcategoryStatsDto) }
+  })
+  @UseInterceptors(CacheInterceptor)
+  async getStats(): Promise<SubcategoryStatsDto> {
+    this.logger.log('Retrieving subcategory statistics');
+    return this.subcategoriesService.getStats();
   }
 
-  @MessagePattern('findAllSubcategories')
-  findAll() {
-    return this.subcategoriesService.findAll();
+  @Get('validate')
+  @ApiOperation({
+    summary: 'Validate subcategory name',
+    description: 'Validates if the slug generated from a name is available within a category'
+  })
+  @ApiQuery({ name: 'categoryId', required: true, type: String, description: 'Parent category ID' })
+  @ApiQuery({ name: 'name', required: true, type: String, description: 'Subcategory name to validate' })
+  @ApiQuery({ name: 'excludeId', required: false, type: String, description: 'Subcategory ID to exclude from validation' })
+  @ApiResponse({
+    status: 200,
+    description: 'Validation result',
+    schema: { $ref: getSchemaPath(SubcategoryValidationDto) }
+  })
+  async validateSubcategory(
+    @Query('categoryId', ParseObjectIdPipe) categoryId: string,
+    @Query('name') name: string,
+    @Query('excludeId') excludeId?: string
+  ): Promise<SubcategoryValidationDto> {
+    this.logger.log(`Validating subcategory: ${name} in category ${categoryId}`);
+    return this.subcategoriesService.validateSubcategory(categoryId, name, excludeId);
   }
 
-  @MessagePattern('findOneSubcategory')
-  findOne(@Payload() id: number) {
+  @Get('category/:categoryId')
+  @ApiOperation({
+    summary: 'Get subcategories of a category',
+    description: 'Retrieves all active subcategories of a category, in sort order'
+  })
+  @ApiParam({ name: 'categoryId', type: String, description: 'Parent category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategories retrieved successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(SubcategoryResponseDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid category ID format' })
+  @UseInterceptors(CacheInterceptor)
+  async findByCategory(
+    @Param('categoryId', ParseObjectIdPipe) categoryId: string
+  ): Promise<SubcategoryResponseDto[]> {
+    this.logger.log(`Retrieving subcategories for category: ${categoryId}`);
+    return this.subcategoriesService.findByCategory(categoryId);
+  }
+
+  @Get('category/:categoryId/slug/:slug')
+  @ApiOperation({
+    summary: 'Get subcategory by slug',
+    description: 'Retrieves a subcategory by its slug within a category'
+  })
+  @ApiParam({ name: 'categoryId', type: String, description: 'Parent category ID' })
+  @ApiParam({ name: 'slug', type: String, description: 'Subcategory slug' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory retrieved successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 404, description: 'Subcategory not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findBySlug(
+    @Param('categoryId', ParseObjectIdPipe) categoryId: string,
+    @Param('slug') slug: string
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Retrieving subcategory by slug: ${categoryId}/${slug}`);
+    return this.subcategoriesService.findBySlug(categoryId, slug);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get subcategory by ID',
+    description: 'Retrieves a single subcategory by its ID'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory retrieved successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid subcategory ID format' })
+  @ApiResponse({ status: 404, description: 'Subcategory not found' })
+  @UseInterceptors(CacheInterceptor)
+  async findOne(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Retrieving subcategory by ID: ${id}`);
     return this.subcategoriesService.findOne(id);
   }
 
-  @MessagePattern('updateSubcategory')
-  update(@Payload() updateSubcategoryDto: UpdateSubcategoryDto) {
-    return this.subcategoriesService.update(updateSubcategoryDto.id, updateSubcategoryDto);
+  @Patch('sort-order')
+  @ApiOperation({
+    summary: 'Update sort order for multiple subcategories',
+    description: 'Updates the sort order for multiple subcategories in a single request'
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        updates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string', description: 'Subcategory ID' },
+              sortOrder: { type: 'number', description: 'New sort order' }
+            },
+            required: ['id', 'sortOrder']
+          }
+        }
+      },
+      required: ['updates']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Sort order updated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' },
+        updated: { type: 'number' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  async updateSortOrder(
+    @Body('updates', ValidationPipe) updates: { id: string; sortOrder: number }[]
+  ): Promise<{ message: string; updated: number }> {
+    this.logger.log(`Updating sort order for ${updates.length} subcategories`);
+    return this.subcategoriesService.updateSortOrder(updates);
   }
 
-  @MessagePattern('removeSubcategory')
-  remove(@Payload() id: number) {
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update subcategory',
+    description: 'Updates an existing subcategory with optional image upload. Changing categoryId moves it to another category.'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Subcategory name' },
+        description: { type: 'string', description: 'Subcategory description' },
+        categoryId: { type: 'string', description: 'Parent category ID' },
+        status: {
+          type: 'string',
+          enum: Object.values(CategoryStatus),
+          description: 'Subcategory status'
+        },
+        applicableGenders: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Applicable genders (names of active gender records)'
+        },
+        sortOrder: { type: 'number', description: 'Sort order' },
+        metadata: { type: 'object', description: 'Additional metadata' },
+        icon: { type: 'string', description: 'Subcategory icon' },
+        image: {
+          type: 'string',
+          format: 'binary',
+          description: 'Subcategory image file'
+        }
+      }
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory updated successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data or subcategory ID format' })
+  @ApiResponse({ status: 404, description: 'Subcategory or category not found' })
+  @ApiResponse({ status: 409, description: 'Subcategory slug already exists in the category' })
+  @ApiResponse({ status: 413, description: 'Image file too large' })
+  @ApiResponse({ status: 415, description: 'Unsupported image file type' })
+  @ApiResponse({ status: 422, description: 'Image is corrupt, animated, or outside the dimensions or aspect ratio of its usage' })
+  @UseInterceptors(FileInterceptor('image'))
+  async update(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body(ValidationPipe) updateSubcategoryDto: UpdateSubcategoryDto,
+    @UploadedFile() imageFile?: Express.Multer.File
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Updating subcategory: ${id}`);
+    return this.subcategoriesService.update(id, updateSubcategoryDto, imageFile);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary: 'Update subcategory status',
+    description: 'Updates the status of a specific subcategory'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        status: {
+          type: 'string',
+          enum: Object.values(CategoryStatus),
+          description: 'New subcategory status'
+        }
+      },
+      required: ['status']
+    }
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory status updated successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid subcategory ID format or status' })
+  @ApiResponse({ status: 404, description: 'Subcategory not found' })
+  async updateStatus(
+    @Param('id', ParseObjectIdPipe) id: string,
+    @Body('status', new ParseEnumPipe(CategoryStatus)) status: CategoryStatus
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Updating subcategory status: ${id} -> ${status}`);
+    return this.subcategoriesService.updateStatus(id, status);
+  }
+
+  @Post('bulk')
+  @ApiOperation({
+    summary: 'Bulk create subcategories',
+    description: 'Creates multiple subcategories in a single request'
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        subcategories: {
+          type: 'array',
+          items: { $ref: getSchemaPath(CreateSubcategoryDto) }
+        }
+      },
+      required: ['subcategories']
+    }
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Subcategories created successfully',
+    schema: {
+      type: 'array',
+      items: { $ref: getSchemaPath(SubcategoryResponseDto) }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid input data' })
+  @ApiResponse({ status: 404, description: 'Parent category not found' })
+  @HttpCode(HttpStatus.CREATED)
+  async bulkCreate(
+    @Body('subcategories', ValidationPipe) subcategories: CreateSubcategoryDto[]
+  ): Promise<SubcategoryResponseDto[]> {
+    this.logger.log(`Bulk creating ${subcategories.length} subcategories`);
+    return this.subcategoriesService.bulkCreate(subcategories);
+  }
+
+  @Post(':id/restore')
+  @ApiOperation({
+    summary: 'Restore soft-deleted subcategory',
+    description: 'Restores a soft-deleted subcategory'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory restored successfully',
+    schema: { $ref: getSchemaPath(SubcategoryResponseDto) }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid subcategory ID format' })
+  @ApiResponse({ status: 404, description: 'Subcategory not found or not deleted' })
+  async restore(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<SubcategoryResponseDto> {
+    this.logger.log(`Restoring subcategory: ${id}`);
+    return this.subcategoriesService.restore(id);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Soft delete subcategory',
+    description: 'Soft deletes a subcategory (can be restored later)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory deleted successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid subcategory ID format' })
+  @ApiResponse({ status: 404, description: 'Subcategory not found' })
+  async remove(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Soft deleting subcategory: ${id}`);
     return this.subcategoriesService.remove(id);
   }
+
+  @Delete(':id/permanent')
+  @ApiOperation({
+    summary: 'Permanently delete subcategory',
+    description: 'Permanently deletes a subcategory (cannot be restored)'
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Subcategory ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subcategory permanently deleted',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string' }
+      }
+    }
+  })
+  @ApiResponse({ status: 400, description: 'Invalid subcategory ID format' })
+  @ApiResponse({ status: 404, description: 'Subcategory not found' })
+  async hardDelete(
+    @Param('id', ParseObjectIdPipe) id: string
+  ): Promise<{ message: string }> {
+    this.logger.log(`Permanently deleting subcategory: ${id}`);
+    return this.subcategoriesService.hardDelete(id);
+  }
 }
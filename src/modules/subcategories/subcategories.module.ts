@@ -1,9 +1,34 @@
+/* eslint-disable prettier/prettier */
 import { Module } from '@nestjs/common';
-import { SubcategoriesService } from './subcategories.service';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Subcategory, SubcategorySchema } from './schema/subcategory.schema';
 import { SubcategoriesController } from './subcategories.controller';
+import { SubcategoriesKafkaController } from './subcategories-kafka.controller';
+import { SubcategoriesService } from './subcategories.service';
+import { SubcategoriesRepository } from './subcategories.repository';
+import { CategoriesModule } from '../categories/categories.module';
+import { GenderModule } from '../gender/gender.module';
+
 
 @Module({
-  controllers: [SubcategoriesController],
-  providers: [SubcategoriesService],
+  imports: [
+    MongooseModule.forFeature([
+      { name: Subcategory.name, schema: SubcategorySchema }
+    ]),
+    GenderModule,
+    CategoriesModule,
+  ],
+  controllers: [
+    SubcategoriesController,
+    SubcategoriesKafkaController
+  ],
+  providers: [
+    SubcategoriesService,
+    SubcategoriesRepository
+  ],
+  exports: [
+    SubcategoriesService,
+    SubcategoriesRepository
+  ]
 })
 export class SubcategoriesModule {}
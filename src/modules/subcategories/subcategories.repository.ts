@@ -0,0 +1,523 @@
+/* eslint-disable prettier/prettier */
+import { Injectable, Logger, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types, FilterQuery, UpdateQuery } from 'mongoose';
+import { Subcategory, SubcategoryDocument } from './schema/subcategory.schema';
+import { CreateSubcategoryDto } from './dto/create-subcategory.dto';
+import { UpdateSubcategoryDto } from './dto/update-subcategory.dto';
+import { SubcategoryQueryDto } from './dto/subcategory-filter.dto';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { PaginationMeta, PaginationResult } from '../../common/interfaces/pagination.interface';
+import { slugify } from '../../common/utils/slug.util';
+
+@Injectable()
+export class SubcategoriesRepository {
+  private readonly logger = new Logger(SubcategoriesRepository.name);
+
+  constructor(
+    @InjectModel(Subcategory.name) private subcategoryModel: Model<SubcategoryDocument>,
+  ) {}
+
+  /**
+   * Create a new subcategory
+   */
+  async create(createSubcategoryDto: CreateSubcategoryDto & { imageUrl?: string }): Promise<Subcategory> {
+    try {
+      this.logger.log(`Creating subcategory: ${createSubcategoryDto.name}`);
+
+      // Slugs are unique per parent category
+      const slug = slugify(createSubcategoryDto.name);
+
+      const existingSubcategory = await this.subcategoryModel.findOne({
+        categoryId: new Types.ObjectId(createSubcategoryDto.categoryId),
+        slug,
+        isDeleted: false
+      });
+
+      if (existingSubcategory) {
+        throw new ConflictException('Subcategory with this slug already exists in the category');
+      }
+
+      const createdSubcategory = new this.subcategoryModel({
+        ...createSubcategoryDto,
+        categoryId: new Types.ObjectId(createSubcategoryDto.categoryId),
+        slug,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+      const savedSubcategory = await createdSubcategory.save();
+
+      this.logger.log(`Subcategory created successfully: ${savedSubcategory._id}`);
+      return savedSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error creating subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all subcategories with pagination and filtering
+   */
+  async findAll(query: SubcategoryQueryDto): Promise<PaginationResult<Subcategory>> {
+    try {
+      const {
+        page = 1,
+        limit = 10,
+        categoryId,
+        status,
+        gender,
+        search,
+        includeDeleted = false,
+        sortBy = 'sortOrder',
+        sortOrder = 'asc'
+      } = query;
+
+      // Build filter query
+      const filter: FilterQuery<SubcategoryDocument> = {};
+
+      if (!includeDeleted) {
+        filter.isDeleted = false;
+      }
+
+      if (categoryId) {
+        filter.categoryId = new Types.ObjectId(categoryId);
+      }
+
+      if (status) {
+        filter.status = status;
+      }
+
+      if (gender) {
+        filter.applicableGenders = { $in: [gender] };
+      }
+
+      if (search) {
+        filter.$or = [
+          { name: { $regex: search, $options: 'i' } },
+          { description: { $regex: search, $options: 'i' } },
+          { slug: { $regex: search, $options: 'i' } }
+        ];
+      }
+
+      // Build sort query
+      const sort: any = {};
+      sort[sortBy] = sortOrder === 'desc' ? -1 : 1;
+
+      // Calculate pagination
+      const skip = (page - 1) * limit;
+      const total = await this.subcategoryModel.countDocuments(filter);
+      const totalPages = Math.ceil(total / limit);
+
+      const subcategories = await this.subcategoryModel
+        .find(filter)
+        .sort(sort)
+        .skip(skip)
+        .limit(limit)
+        .exec();
+
+      const pagination: PaginationMeta = {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      };
+
+      this.logger.log(`Found ${subcategories.length} subcategories`);
+      return {
+        data: subcategories.map(sub => sub.toObject()),
+        pagination
+      };
+    } catch (error) {
+      this.logger.error(`Error finding subcategories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find subcategory by ID
+   */
+  async findById(id: string): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const subcategory = await this.subcategoryModel
+        .findOne({ _id: id, isDeleted: false })
+        .exec();
+
+      if (!subcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      return subcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding subcategory by ID: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find subcategory by slug within a category
+   */
+  async findBySlug(categoryId: string, slug: string): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(categoryId)) {
+        throw new NotFoundException('Invalid category ID format');
+      }
+
+      const subcategory = await this.subcategoryModel
+        .findOne({ categoryId: new Types.ObjectId(categoryId), slug, isDeleted: false })
+        .exec();
+
+      if (!subcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      this.logger.log(`Found subcategory by slug: ${slug}`);
+      return subcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error finding subcategory by slug: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active subcategories of a category
+   */
+  async findByCategory(categoryId: string): Promise<Subcategory[]> {
+    try {
+      const subcategories = await this.subcategoryModel
+        .find({
+          categoryId: new Types.ObjectId(categoryId),
+          status: CategoryStatus.ACTIVE,
+          isDeleted: false
+        })
+        .sort({ sortOrder: 1, name: 1 })
+        .exec();
+
+      this.logger.log(`Found ${subcategories.length} subcategories for category: ${categoryId}`);
+      return subcategories.map(sub => sub.toObject());
+    } catch (error) {
+      this.logger.error(`Error finding subcategories by category: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update subcategory by ID
+   */
+  async update(id: string, updateSubcategoryDto: UpdateSubcategoryDto & { imageUrl?: string }): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const currentSubcategory = await this.subcategoryModel
+        .findOne({ _id: id, isDeleted: false })
+        .select('categoryId slug')
+        .lean()
+        .exec();
+
+      if (!currentSubcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      const { categoryId, ...fields } = updateSubcategoryDto;
+      const updateData: UpdateQuery<SubcategoryDocument> = {
+        ...fields,
+        updatedAt: new Date()
+      };
+
+      const targetCategoryId = categoryId
+        ? new Types.ObjectId(categoryId)
+        : currentSubcategory.categoryId;
+      const slug = updateSubcategoryDto.name ? slugify(updateSubcategoryDto.name) : currentSubcategory.slug;
+
+      // Re-check slug uniqueness when the name or the parent category changes
+      if (categoryId) {
+        updateData.categoryId = targetCategoryId;
+      }
+      if (updateSubcategoryDto.name) {
+        updateData.slug = slug;
+      }
+
+      if (categoryId || updateSubcategoryDto.name) {
+        const existingSubcategory = await this.subcategoryModel.findOne({
+          categoryId: targetCategoryId,
+          slug,
+          _id: { $ne: id },
+          isDeleted: false
+        });
+
+        if (existingSubcategory) {
+          throw new ConflictException('Subcategory with this slug already exists in the category');
+        }
+      }
+
+      const updatedSubcategory = await this.subcategoryModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          updateData,
+          { new: true, runValidators: true }
+        )
+        .exec();
+
+      if (!updatedSubcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      this.logger.log(`Subcategory updated successfully: ${updatedSubcategory._id}`);
+      return updatedSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete subcategory by ID
+   */
+  async softDelete(id: string): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const deletedSubcategory = await this.subcategoryModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          {
+            isDeleted: true,
+            deletedAt: new Date(),
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!deletedSubcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      this.logger.log(`Subcategory soft deleted: ${deletedSubcategory._id}`);
+      return deletedSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error soft deleting subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Hard delete subcategory by ID (use with caution)
+   */
+  async hardDelete(id: string): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const deletedSubcategory = await this.subcategoryModel.findOneAndDelete({ _id: id }).exec();
+
+      if (!deletedSubcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      this.logger.log(`Subcategory hard deleted: ${id}`);
+      return deletedSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error hard deleting subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore soft deleted subcategory
+   */
+  async restore(id: string): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const restoredSubcategory = await this.subcategoryModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: true },
+          {
+            isDeleted: false,
+            deletedAt: null,
+            updatedAt: new Date()
+          },
+          { new: true }
+        )
+        .exec();
+
+      if (!restoredSubcategory) {
+        throw new NotFoundException('Subcategory not found or not deleted');
+      }
+
+      this.logger.log(`Subcategory restored: ${restoredSubcategory._id}`);
+      return restoredSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error restoring subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update subcategory status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<Subcategory> {
+    try {
+      if (!Types.ObjectId.isValid(id)) {
+        throw new NotFoundException('Invalid subcategory ID format');
+      }
+
+      const updatedSubcategory = await this.subcategoryModel
+        .findOneAndUpdate(
+          { _id: id, isDeleted: false },
+          { status, updatedAt: new Date() },
+          { new: true }
+        )
+        .exec();
+
+      if (!updatedSubcategory) {
+        throw new NotFoundException('Subcategory not found');
+      }
+
+      this.logger.log(`Subcategory status updated: ${updatedSubcategory._id} -> ${status}`);
+      return updatedSubcategory.toObject();
+    } catch (error) {
+      this.logger.error(`Error updating subcategory status: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update sort order for multiple subcategories
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<void> {
+    try {
+      const bulkOps = updates.map(update => ({
+        updateOne: {
+          filter: { _id: update.id, isDeleted: false },
+          update: { sortOrder: update.sortOrder, updatedAt: new Date() }
+        }
+      }));
+
+      await this.subcategoryModel.bulkWrite(bulkOps);
+      this.logger.log(`Updated sort order for ${updates.length} subcategories`);
+    } catch (error) {
+      this.logger.error(`Error updating subcategory sort order: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Bulk create subcategories
+   */
+  async bulkCreate(subcategories: CreateSubcategoryDto[]): Promise<Subcategory[]> {
+    try {
+      const subcategoriesWithSlugs = subcategories.map(sub => ({
+        ...sub,
+        categoryId: new Types.ObjectId(sub.categoryId),
+        slug: slugify(sub.name),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }));
+
+      const createdSubcategories = await this.subcategoryModel.insertMany(subcategoriesWithSlugs);
+
+      this.logger.log(`Bulk created ${createdSubcategories.length} subcategories`);
+      return createdSubcategories.map(sub => sub.toObject());
+    } catch (error) {
+      this.logger.error(`Error bulk creating subcategories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Check if a slug is already used within a category
+   */
+  async slugExists(categoryId: string, slug: string, excludeId?: string): Promise<boolean> {
+    try {
+      const query: FilterQuery<SubcategoryDocument> = {
+        categoryId: new Types.ObjectId(categoryId),
+        slug,
+        isDeleted: false
+      };
+
+      if (excludeId && Types.ObjectId.isValid(excludeId)) {
+        query._id = { $ne: new Types.ObjectId(excludeId) };
+      }
+
+      const count = await this.subcategoryModel.countDocuments(query);
+      return count > 0;
+    } catch (error) {
+      this.logger.error(`Error checking subcategory existence: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get subcategory statistics
+   */
+  async getStats(): Promise<{
+    total: number;
+    deleted: number;
+    byStatus: Record<CategoryStatus, number>;
+    byCategory: Record<string, number>;
+  }> {
+    try {
+      const [total, deleted, statusResults, categoryResults] = await Promise.all([
+        this.subcategoryModel.countDocuments({ isDeleted: false }),
+        this.subcategoryModel.countDocuments({ isDeleted: true }),
+        this.subcategoryModel.aggregate([
+          { $match: { isDeleted: false } },
+          { $group: { _id: '$status', count: { $sum: 1 } } }
+        ]),
+        this.subcategoryModel.aggregate([
+          { $match: { isDeleted: false } },
+          { $group: { _id: '$categoryId', count: { $sum: 1 } } }
+        ])
+      ]);
+
+      // Initialize with all statuses at 0
+      const byStatus: Record<CategoryStatus, number> = {
+        [CategoryStatus.ACTIVE]: 0,
+        [CategoryStatus.INACTIVE]: 0,
+        [CategoryStatus.ARCHIVED]: 0
+      };
+      statusResults.forEach(result => {
+        if (result._id in byStatus) {
+          byStatus[result._id] = result.count;
+        }
+      });
+
+      const byCategory: Record<string, number> = {};
+      categoryResults.forEach(result => {
+        byCategory[result._id.toString()] = result.count;
+      });
+
+      return { total, deleted, byStatus, byCategory };
+    } catch (error) {
+      this.logger.error(`Error getting subcategory stats: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get recently created subcategories
+   */
+  async getRecentlyCreated(limit: number = 5): Promise<Subcategory[]> {
+    const subcategories = await this.subcategoryModel
+      .find({ isDeleted: false })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .exec();
+
+    return subcategories.map(sub => sub.toObject());
+  }
+}
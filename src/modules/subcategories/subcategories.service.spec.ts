@@ -1,12 +1,82 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Types } from 'mongoose';
 import { SubcategoriesService } from './subcategories.service';
+import { SubcategoriesRepository } from './subcategories.repository';
+import { CategoriesService } from '../categories/categories.service';
+import { IMAGE_STORAGE } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { GenderService } from '../gender/gender.service';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
 
 describe('SubcategoriesService', () => {
   let service: SubcategoriesService;
+  let repository: Record<string, jest.Mock>;
+  let categoriesService: Record<string, jest.Mock>;
+
+  const categoryId = new Types.ObjectId();
+  const buildSubcategory = (overrides: Record<string, any> = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Sneakers',
+    slug: 'sneakers',
+    categoryId,
+    status: 'active',
+    applicableGenders: ['men'],
+    sortOrder: 0,
+    isDeleted: false,
+    ...overrides,
+  });
 
   beforeEach(async () => {
+    repository = {
+      create: jest.fn(),
+      findById: jest.fn(),
+      softDelete: jest.fn(),
+    };
+    categoriesService = {
+      findOne: jest.fn(),
+      syncHasSubcategories: jest.fn(),
+    };
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [SubcategoriesService],
+      providers: [
+        SubcategoriesService,
+        { provide: SubcategoriesRepository, useValue: repository },
+        { provide: CategoriesService, useValue: categoriesService },
+        {
+          provide: IMAGE_STORAGE,
+          useValue: {
+            upload: jest.fn(),
+            extractPublicId: jest.fn(),
+            delete: jest.fn(),
+          },
+        },
+        {
+          provide: ImageValidationService,
+          useValue: { sanitize: jest.fn((file) => file) },
+        },
+        {
+          provide: ImageCleanupService,
+          useValue: {
+            runWithUploads: jest.fn((publicIds, write) => write()),
+            deleteImages: jest.fn(),
+          },
+        },
+        {
+          provide: GenderService,
+          useValue: { validateApplicableGenders: jest.fn() },
+        },
+        {
+          provide: CacheInvalidationService,
+          useValue: { invalidate: jest.fn() },
+        },
+        {
+          provide: CACHE_MANAGER,
+          useValue: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<SubcategoriesService>(SubcategoriesService);
@@ -15,4 +85,44 @@ describe('SubcategoriesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should flag the parent category when a subcategory is created', async () => {
+    repository.create.mockResolvedValue(buildSubcategory());
+
+    const result = await service.create({
+      name: 'Sneakers',
+      categoryId: categoryId.toString(),
+    });
+
+    expect(result.categoryId).toBe(categoryId.toString());
+    expect(categoriesService.syncHasSubcategories).toHaveBeenCalledWith(
+      categoryId.toString(),
+    );
+  });
+
+  it('should clear the parent flag when its last subcategory is deleted', async () => {
+    const subcategory = buildSubcategory();
+    repository.findById.mockResolvedValue(subcategory);
+    repository.softDelete.mockResolvedValue({
+      ...subcategory,
+      isDeleted: true,
+    });
+
+    await service.remove(subcategory._id.toString());
+
+    expect(categoriesService.syncHasSubcategories).toHaveBeenCalledWith(
+      categoryId.toString(),
+    );
+  });
+
+  it('should reject subcategories for an unknown category', async () => {
+    categoriesService.findOne.mockRejectedValue(
+      new NotFoundException('Category not found'),
+    );
+
+    await expect(
+      service.create({ name: 'Sneakers', categoryId: categoryId.toString() }),
+    ).rejects.toBeInstanceOf(NotFoundException);
+    expect(repository.create).not.toHaveBeenCalled();
+  });
 });
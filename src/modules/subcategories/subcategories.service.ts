@@ -1,26 +1,673 @@
-import { Injectable } from '@nestjs/common';
+/* eslint-disable prettier/prettier */
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  Logger,
+  Inject
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Types } from 'mongoose';
 import { CreateSubcategoryDto } from './dto/create-subcategory.dto';
 import { UpdateSubcategoryDto } from './dto/update-subcategory.dto';
+import { SubcategoryQueryDto } from './dto/subcategory-filter.dto';
+import { SubcategoryListResponseDto, SubcategoryResponseDto } from './dto/subcategory-response.dto';
+import { SubcategoryStatsDto, SubcategoryValidationDto } from './dto/subcategory.statistics.dto';
+import { SubcategoriesRepository } from './subcategories.repository';
+import { CategoriesService } from '../categories/categories.service';
+import { IMAGE_STORAGE, ImageStorage } from '../storage/image-storage';
+import { ImageValidationService } from '../storage/image-validation.service';
+import { ImageCleanupService } from '../image-cleanup/image-cleanup.service';
+import { GenderService } from '../gender/gender.service';
+import { CategoryStatus } from '../../common/enums/category-status.enum';
+import { ImageDeletionReason } from '../../common/enums/image-deletion-reason.enum';
+import { ImageUsage } from '../../common/enums/image-usage.enum';
+import { generateCacheKey } from '../../common/utils/cache-key.util';
+import { CACHE_KEYS } from '../../common/constants/cache-keys.constants';
+import { slugify } from '../../common/utils/slug.util';
+import { CacheInvalidationService } from '../cache/cache-invalidation.service';
 
 @Injectable()
 export class SubcategoriesService {
-  create(createSubcategoryDto: CreateSubcategoryDto) {
-    return 'This action adds a new subcategory';
+  private readonly logger = new Logger(SubcategoriesService.name);
+
+  // Cache TTL constants for different types of data
+  // Cache TTLs in milliseconds, as cache-manager expects
+  private readonly CACHE_TTL = {
+    LIST: 300 * 1000, // 5 minutes for lists
+    DETAIL: 600 * 1000, // 10 minutes for single items
+    STATS: 900 * 1000, // 15 minutes for statistics
+    VALIDATION: 60 * 1000 // 1 minute for validation
+  };
+
+  constructor(
+    private readonly subcategoriesRepository: SubcategoriesRepository,
+    private readonly categoriesService: CategoriesService,
+    @Inject(IMAGE_STORAGE) private readonly imageStorage: ImageStorage,
+    private readonly imageValidationService: ImageValidationService,
+    private readonly imageCleanupService: ImageCleanupService,
+    private readonly genderService: GenderService,
+    private readonly cacheInvalidation: CacheInvalidationService,
+    @Inject(CACHE_MANAGER) private readonly cacheManager: Cache
+  ) {}
+
+  /**
+   * Create a new subcategory with optional image upload
+   */
+  async create(
+    createSubcategoryDto: CreateSubcategoryDto,
+    imageFile?: Express.Multer.File
+  ): Promise<SubcategoryResponseDto> {
+    try {
+      // Parent category must exist before anything is uploaded
+      await this.categoriesService.findOne(createSubcategoryDto.categoryId);
+      await this.genderService.validateApplicableGenders(createSubcategoryDto.applicableGenders);
+
+      let imageUrl: string | undefined;
+      let uploadedPublicId: string | undefined;
+
+      // Handle image upload if provided
+      if (imageFile) {
+        this.logger.log(`Uploading image for subcategory: ${createSubcategoryDto.name}`);
+
+        // Check the image by its content and strip its metadata
+        imageFile = this.imageValidationService.sanitize(imageFile, ImageUsage.THUMBNAIL);
+
+        // Upload to image storage
+        const uploadResult = await this.imageStorage.upload(imageFile, 'subcategories');
+        imageUrl = uploadResult.url;
+        uploadedPublicId = uploadResult.publicId;
+
+        this.logger.log(`Image uploaded successfully: ${uploadResult.publicId}`);
+      }
+
+      // A subcategory that fails to save must not leave its image behind
+      const subcategory = await this.imageCleanupService.runWithUploads(
+        uploadedPublicId ? [uploadedPublicId] : [],
+        () => this.subcategoriesRepository.create({
+          ...createSubcategoryDto,
+          ...(imageUrl && { imageUrl })
+        })
+      );
+
+      // Keep the parent's hasSubcategories flag correct
+      await this.syncCategoryFlag(createSubcategoryDto.categoryId);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(undefined, createSubcategoryDto.categoryId);
+
+      this.logger.log(`Subcategory created successfully: ${subcategory.name} (${(subcategory as any)._id})`);
+
+      return this.mapToResponseDto(subcategory);
+    } catch (error) {
+      this.logger.error(`Error creating subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find all subcategories with filtering and pagination
+   */
+  async findAll(queryDto: SubcategoryQueryDto): Promise<SubcategoryListResponseDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.ALL, { ...queryDto });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<SubcategoryListResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const result = await this.subcategoriesRepository.findAll(queryDto);
+
+      const response: SubcategoryListResponseDto = {
+        data: result.data.map(subcategory => this.mapToResponseDto(subcategory)),
+        pagination: result.pagination
+      };
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding subcategories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a single subcategory by ID
+   */
+  async findOne(id: string): Promise<SubcategoryResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.BY_ID, { id });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<SubcategoryResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const subcategory = await this.subcategoriesRepository.findById(id);
+
+      const response = this.mapToResponseDto(subcategory);
+
+      // Cache with longer TTL for single items
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding subcategory ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a subcategory by slug within a category
+   */
+  async findBySlug(categoryId: string, slug: string): Promise<SubcategoryResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(categoryId)) {
+        throw new BadRequestException('Invalid category ID format');
+      }
+
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.BY_SLUG, { categoryId, slug });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<SubcategoryResponseDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const subcategory = await this.subcategoriesRepository.findBySlug(categoryId, slug);
+
+      const response = this.mapToResponseDto(subcategory);
+
+      // Cache with longer TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.DETAIL);
+
+      return response;
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error finding subcategory by slug ${slug}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find active subcategories of a category
+   */
+  async findByCategory(categoryId: string): Promise<SubcategoryResponseDto[]> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(categoryId)) {
+        throw new BadRequestException('Invalid category ID format');
+      }
+
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.BY_CATEGORY, { categoryId });
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<SubcategoryResponseDto[]>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const subcategories = await this.subcategoriesRepository.findByCategory(categoryId);
+
+      const response = subcategories.map(subcategory => this.mapToResponseDto(subcategory));
+
+      // Cache with appropriate TTL
+      await this.cacheManager.set(cacheKey, response, this.CACHE_TTL.LIST);
+
+      return response;
+    } catch (error) {
+      this.logger.error(`Error finding subcategories for category ${categoryId}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a subcategory with optional image upload
+   */
+  async update(
+    id: string,
+    updateSubcategoryDto: UpdateSubcategoryDto,
+    imageFile?: Express.Multer.File
+  ): Promise<SubcategoryResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      const currentSubcategory = await this.subcategoriesRepository.findById(id);
+      const previousCategoryId = currentSubcategory.categoryId.toString();
+
+      // Moving to another category requires the target to exist
+      if (updateSubcategoryDto.categoryId && updateSubcategoryDto.categoryId !== previousCategoryId) {
+        await this.categoriesService.findOne(updateSubcategoryDto.categoryId);
+      }
+
+      await this.genderService.validateApplicableGenders(updateSubcategoryDto.applicableGenders);
+
+      let imageUrl: string | undefined;
+      let oldImagePublicId: string | undefined;
+      let uploadedPublicId: string | undefined;
+
+      // Handle image upload if provided
+      if (imageFile) {
+        this.logger.log(`Uploading new image for subcategory: ${id}`);
+
+        // Check the image by its content and strip its metadata
+        imageFile = this.imageValidationService.sanitize(imageFile, ImageUsage.THUMBNAIL);
+
+        if (currentSubcategory.imageUrl) {
+          oldImagePublicId = this.imageStorage.extractPublicId(currentSubcategory.imageUrl);
+        }
+
+        // Upload new image to image storage
+        const uploadResult = await this.imageStorage.upload(imageFile, 'subcategories');
+        imageUrl = uploadResult.url;
+        uploadedPublicId = uploadResult.publicId;
+
+        this.logger.log(`New image uploaded successfully: ${uploadResult.publicId}`);
+      }
+
+      const updatedSubcategory = await this.imageCleanupService.runWithUploads(
+        uploadedPublicId ? [uploadedPublicId] : [],
+        () => this.subcategoriesRepository.update(id, {
+          ...updateSubcategoryDto,
+          ...(imageUrl && { imageUrl })
+        })
+      );
+
+      // Delete the replaced image once the subcategory no longer references it; failures are retried
+      if (oldImagePublicId) {
+        await this.imageCleanupService.deleteImages([oldImagePublicId], ImageDeletionReason.REPLACED);
+      }
+
+      // Both the old and the new parent may have changed their hasSubcategories state
+      const newCategoryId = updatedSubcategory.categoryId.toString();
+      if (newCategoryId !== previousCategoryId) {
+        await this.syncCategoryFlag(previousCategoryId);
+        await this.syncCategoryFlag(newCategoryId);
+        await this.clearSubcategoryCache(id, previousCategoryId);
+      }
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(id, newCategoryId);
+
+      this.logger.log(`Subcategory updated successfully: ${updatedSubcategory.name} (${id})`);
+
+      return this.mapToResponseDto(updatedSubcategory);
+    } catch (error) {
+      this.logger.error(`Error updating subcategory ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Soft delete a subcategory and its associated image
+   */
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      // Get subcategory to extract image public ID before deletion
+      const subcategory = await this.subcategoriesRepository.findById(id);
+      const imagePublicId = subcategory.imageUrl
+        ? this.imageStorage.extractPublicId(subcategory.imageUrl)
+        : null;
+
+      const deletedSubcategory = await this.subcategoriesRepository.softDelete(id);
+
+      // Delete image from image storage if it exists; failures are retried
+      await this.imageCleanupService.deleteImages([imagePublicId], ImageDeletionReason.REMOVED);
+
+      const categoryId = deletedSubcategory.categoryId.toString();
+      await this.syncCategoryFlag(categoryId);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(id, categoryId);
+
+      this.logger.log(`Subcategory soft deleted successfully: ${deletedSubcategory.name} (${id})`);
+
+      return { message: 'Subcategory deleted successfully' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error deleting subcategory ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Restore a soft-deleted subcategory
+   */
+  async restore(id: string): Promise<SubcategoryResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      const restoredSubcategory = await this.subcategoriesRepository.restore(id);
+
+      const categoryId = restoredSubcategory.categoryId.toString();
+      await this.syncCategoryFlag(categoryId);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(id, categoryId);
+
+      this.logger.log(`Subcategory restored successfully: ${restoredSubcategory.name} (${id})`);
+
+      return this.mapToResponseDto(restoredSubcategory);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository errors
+      }
+      this.logger.error(`Error restoring subcategory ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  findAll() {
-    return `This action returns all subcategories`;
+  /**
+   * Hard delete a subcategory (permanent)
+   */
+  async hardDelete(id: string): Promise<{ message: string }> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      const deletedSubcategory = await this.subcategoriesRepository.hardDelete(id);
+
+      // A soft-deleted subcategory has already released its image
+      if (deletedSubcategory.imageUrl && !deletedSubcategory.isDeleted) {
+        await this.imageCleanupService.deleteImages(
+          [this.imageStorage.extractPublicId(deletedSubcategory.imageUrl)],
+          ImageDeletionReason.REMOVED
+        );
+      }
+
+      const categoryId = deletedSubcategory.categoryId.toString();
+      await this.syncCategoryFlag(categoryId);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(id, categoryId);
+
+      this.logger.log(`Subcategory hard deleted successfully: (${id})`);
+
+      return { message: 'Subcategory permanently deleted' };
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error hard deleting subcategory ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  findOne(id: number) {
-    return `This action returns a #${id} subcategory`;
+  /**
+   * Update subcategory status
+   */
+  async updateStatus(id: string, status: CategoryStatus): Promise<SubcategoryResponseDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(id)) {
+        throw new BadRequestException('Invalid subcategory ID format');
+      }
+
+      const updatedSubcategory = await this.subcategoriesRepository.updateStatus(id, status);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache(id, updatedSubcategory.categoryId.toString());
+
+      this.logger.log(`Subcategory status updated: ${updatedSubcategory.name} (${id}) -> ${status}`);
+
+      return this.mapToResponseDto(updatedSubcategory);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error; // Re-throw repository not found errors
+      }
+      this.logger.error(`Error updating subcategory status ${id}: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  update(id: number, updateSubcategoryDto: UpdateSubcategoryDto) {
-    return `This action updates a #${id} subcategory`;
+  /**
+   * Update sort order for multiple subcategories
+   */
+  async updateSortOrder(updates: { id: string; sortOrder: number }[]): Promise<{ message: string; updated: number }> {
+    try {
+      // Validate all IDs upfront
+      const invalidIds = updates.filter(update => !Types.ObjectId.isValid(update.id));
+      if (invalidIds.length > 0) {
+        throw new BadRequestException(`Invalid ID format: ${invalidIds.map(u => u.id).join(', ')}`);
+      }
+
+      await this.subcategoriesRepository.updateSortOrder(updates);
+
+      // Clear relevant caches
+      await this.clearSubcategoryCache();
+
+      this.logger.log(`Sort order updated for ${updates.length} subcategories`);
+
+      return {
+        message: 'Sort order updated successfully',
+        updated: updates.length
+      };
+    } catch (error) {
+      this.logger.error(`Error updating subcategory sort order: ${error.message}`, error.stack);
+      throw error;
+    }
   }
 
-  remove(id: number) {
-    return `This action removes a #${id} subcategory`;
+  /**
+   * Bulk create subcategories
+   */
+  async bulkCreate(subcategories: CreateSubcategoryDto[]): Promise<SubcategoryResponseDto[]> {
+    try {
+      // Every referenced parent category must exist
+      const categoryIds = [...new Set(subcategories.map(sub => sub.categoryId))];
+      await Promise.all(categoryIds.map(categoryId => this.categoriesService.findOne(categoryId)));
+      await this.genderService.validateApplicableGenders(
+        subcategories.flatMap(sub => sub.applicableGenders ?? [])
+      );
+
+      const createdSubcategories = await this.subcategoriesRepository.bulkCreate(subcategories);
+
+      for (const categoryId of categoryIds) {
+        await this.syncCategoryFlag(categoryId);
+        await this.clearSubcategoryCache(undefined, categoryId);
+      }
+
+      this.logger.log(`Bulk created ${createdSubcategories.length} subcategories`);
+
+      return createdSubcategories.map(subcategory => this.mapToResponseDto(subcategory));
+    } catch (error) {
+      this.logger.error(`Error bulk creating subcategories: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Get subcategory statistics
+   */
+  async getStats(): Promise<SubcategoryStatsDto> {
+    try {
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.STATS);
+
+      // Try cache first
+      const cachedResult = await this.cacheManager.get<SubcategoryStatsDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const [basicStats, recentlyCreated] = await Promise.all([
+        this.subcategoriesRepository.getStats(),
+        this.subcategoriesRepository.getRecentlyCreated(5)
+      ]);
+
+      const stats: SubcategoryStatsDto = {
+        total: basicStats.total,
+        byStatus: basicStats.byStatus,
+        byCategory: basicStats.byCategory,
+        softDeleted: basicStats.deleted,
+        recentlyCreated: recentlyCreated.map(subcategory => this.mapToResponseDto(subcategory))
+      };
+
+      // Cache with longer TTL for stats
+      await this.cacheManager.set(cacheKey, stats, this.CACHE_TTL.STATS);
+
+      return stats;
+    } catch (error) {
+      this.logger.error(`Error getting subcategory stats: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Validate subcategory slug availability within a category
+   */
+  async validateSubcategory(categoryId: string, name: string, excludeId?: string): Promise<SubcategoryValidationDto> {
+    try {
+      // Early validation
+      if (!Types.ObjectId.isValid(categoryId)) {
+        throw new BadRequestException('Invalid category ID format');
+      }
+
+      const slug = slugify(name);
+      const cacheKey = generateCacheKey(CACHE_KEYS.SUBCATEGORIES.VALIDATION, { categoryId, slug, excludeId });
+
+      // Try cache first (shorter TTL for validation)
+      const cachedResult = await this.cacheManager.get<SubcategoryValidationDto>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const slugAvailable = !(await this.subcategoriesRepository.slugExists(categoryId, slug, excludeId));
+      const messages: string[] = [];
+
+      let suggestedSlug: string | undefined;
+      if (!slugAvailable) {
+        suggestedSlug = await this.generateUniqueSlug(categoryId, slug);
+        messages.push('Subcategory slug is already in use in this category');
+        messages.push(`Suggested alternative slug: ${suggestedSlug}`);
+      } else {
+        messages.push('Subcategory slug is available');
+      }
+
+      const result: SubcategoryValidationDto = {
+        slugAvailable,
+        suggestedSlug,
+        messages
+      };
+
+      // Cache validation result briefly
+      await this.cacheManager.set(cacheKey, result, this.CACHE_TTL.VALIDATION);
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error validating subcategory: ${error.message}`, error.stack);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a slug that is unique within the category
+   */
+  private async generateUniqueSlug(categoryId: string, baseSlug: string): Promise<string> {
+    let counter = 1;
+    let uniqueSlug = `${baseSlug}-${counter}`;
+
+    while (await this.subcategoriesRepository.slugExists(categoryId, uniqueSlug)) {
+      counter++;
+      uniqueSlug = `${baseSlug}-${counter}`;
+    }
+
+    return uniqueSlug;
+  }
+
+  /**
+   * Recompute the parent category's hasSubcategories flag from the live subcategory count
+   */
+  private async syncCategoryFlag(categoryId: string): Promise<void> {
+    await this.categoriesService.syncHasSubcategories(categoryId);
+  }
+
+  /**
+   * Map subcategory document to response DTO
+   */
+  private mapToResponseDto(subcategory: any): SubcategoryResponseDto {
+    return {
+      _id: subcategory._id?.toString() || subcategory.id?.toString(),
+      name: subcategory.name,
+      slug: subcategory.slug,
+      description: subcategory.description,
+      categoryId: subcategory.categoryId?.toString(),
+      status: subcategory.status,
+      applicableGenders: subcategory.applicableGenders,
+      sortOrder: subcategory.sortOrder,
+      metadata: subcategory.metadata,
+      imageUrl: subcategory.imageUrl,
+      icon: subcategory.icon,
+      isDeleted: subcategory.isDeleted,
+      deletedAt: subcategory.deletedAt,
+      createdAt: subcategory.createdAt,
+      updatedAt: subcategory.updatedAt
+    };
+  }
+
+  /**
+   * Drop cached subcategory data after writes made outside this service (e.g. catalog snapshot imports)
+   */
+  async invalidateCache(subcategoryIds: string[] = [], categoryIds: string[] = []): Promise<void> {
+    await Promise.all([
+      this.clearSubcategoryCache(),
+      ...subcategoryIds.map(id => this.clearSubcategoryCache(id)),
+      ...categoryIds.map(categoryId => this.clearSubcategoryCache(undefined, categoryId))
+    ]);
+  }
+
+  /**
+   * Clear subcategory-related cache
+   */
+  private async clearSubcategoryCache(subcategoryId?: string, categoryId?: string): Promise<void> {
+    try {
+      const cacheKeys = new Set<string>([
+        CACHE_KEYS.SUBCATEGORIES.ALL,
+        CACHE_KEYS.SUBCATEGORIES.STATS
+      ]);
+
+      if (subcategoryId) {
+        cacheKeys.add(generateCacheKey(CACHE_KEYS.SUBCATEGORIES.BY_ID, { id: subcategoryId }));
+      }
+
+      if (categoryId) {
+        cacheKeys.add(generateCacheKey(CACHE_KEYS.SUBCATEGORIES.BY_CATEGORY, { categoryId }));
+      }
+
+      await this.cacheInvalidation.invalidate({ keys: Array.from(cacheKeys) });
+    } catch (error) {
+      this.logger.warn(`Error clearing subcategory cache: ${error.message}`);
+    }
   }
 }